@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/lib/auth";
+import { purgeExpiredTrash } from "@/lib/trash";
+
+/**
+ * Scheduled purge of projects and documents whose trash period is over.
+ * Meant to be called by a cron (GET, as Vercel Cron does) once a day.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json(
+      { error: "job_unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const purged = await purgeExpiredTrash();
+    return NextResponse.json({
+      success: true,
+      projects: purged.projects.length,
+      documents: purged.documents.length,
+      failed: purged.failed,
+    });
+  } catch (error) {
+    console.error("trash purge job error", error);
+    return NextResponse.json(
+      { error: "trash_purge_failed" },
+      { status: 500 }
+    );
+  }
+}
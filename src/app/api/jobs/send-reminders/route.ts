@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/lib/auth";
+import { getNotifier } from "@/lib/notifier";
+import { sendDueReminders } from "@/lib/reminders";
+
+/**
+ * Scheduled deadline reminders for missing availability and pending
+ * signatures. Safe to call hourly; each invitee hears at most once a day.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json(
+      { error: "job_unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await sendDueReminders(getNotifier(), request.nextUrl.origin);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("reminder job error", error);
+    return NextResponse.json(
+      { error: "reminders_failed" },
+      { status: 500 }
+    );
+  }
+}
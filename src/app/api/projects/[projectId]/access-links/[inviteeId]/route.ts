@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  buildAccessLinkUrl,
+  createAccessLink,
+  revokeAccessLink,
+} from "@/lib/accessLinks";
+import { getSessionInvitee, reissueSessionCookie } from "@/lib/auth";
+import { logServerActivity } from "@/lib/logging";
+import { isOrganizerRole } from "@/lib/roles";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+
+type TargetInviteeRow = {
+  id: string;
+  name: string;
+  role: string | null;
+};
+
+// Co-organizers manage everyone's links except the organizer's, which
+// would otherwise let them sign in as the organizer.
+const requireLinkManager = async (
+  request: NextRequest,
+  projectId: string,
+  inviteeId: string
+) => {
+  const actor = await getSessionInvitee(request, projectId);
+  if (!actor) {
+    return {
+      actor: null,
+      target: null,
+      response: NextResponse.json(
+        { error: "auth_required" },
+        { status: 401 }
+      ),
+    };
+  }
+  if (!isOrganizerRole(actor.role)) {
+    return {
+      actor: null,
+      target: null,
+      response: NextResponse.json(
+        { error: "organizer_only" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const supabase = getServiceSupabaseClient();
+  const { data } = await supabase
+    .from("project_invitees")
+    .select("id, name, role")
+    .eq("id", inviteeId)
+    .eq("project_id", projectId)
+    .is("removed_at", null)
+    .maybeSingle();
+
+  const target = data as TargetInviteeRow | null;
+  if (!target) {
+    return {
+      actor: null,
+      target: null,
+      response: NextResponse.json(
+        { error: "invitee_not_found" },
+        { status: 404 }
+      ),
+    };
+  }
+  if (target.role === "organizer" && actor.role !== "organizer") {
+    return {
+      actor: null,
+      target: null,
+      response: NextResponse.json(
+        { error: "access_link_forbidden" },
+        { status: 403 }
+      ),
+    };
+  }
+  return { actor, target, response: null };
+};
+
+// Revoking a link signs its owner out everywhere; an organizer acting on
+// their own link keeps the session they are using right now.
+const keepActorSignedIn = (
+  response: NextResponse,
+  projectId: string,
+  actorId: string,
+  targetId: string
+) =>
+  actorId === targetId ? reissueSessionCookie(response, projectId, actorId) : response;
+
+/** Replaces the invitee's sign-in link; the old one stops working. */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; inviteeId: string }> }
+) {
+  const { projectId, inviteeId } = await context.params;
+  const { actor, target, response } = await requireLinkManager(
+    request,
+    projectId,
+    inviteeId
+  );
+  if (!actor) return response;
+
+  try {
+    const { token, expiresAt } = await createAccessLink(projectId, target.id);
+
+    await logServerActivity({
+      projectId,
+      inviteeId: actor.id,
+      actorName: actor.name,
+      action: "access_link_created",
+      details: {
+        summary: "لینک ورود شخصی ساخته شد",
+        data: { inviteeId: target.id, inviteeName: target.name, expiresAt },
+      },
+    });
+
+    return keepActorSignedIn(
+      NextResponse.json({
+        url: buildAccessLinkUrl(request.nextUrl.origin, projectId, token),
+        expiresAt,
+      }),
+      projectId,
+      actor.id,
+      target.id
+    );
+  } catch (error) {
+    console.error("access link create error", error);
+    return NextResponse.json(
+      { error: "access_link_create_failed" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; inviteeId: string }> }
+) {
+  const { projectId, inviteeId } = await context.params;
+  const { actor, target, response } = await requireLinkManager(
+    request,
+    projectId,
+    inviteeId
+  );
+  if (!actor) return response;
+
+  try {
+    const revoked = await revokeAccessLink(projectId, target.id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "access_link_not_found" },
+        { status: 404 }
+      );
+    }
+
+    await logServerActivity({
+      projectId,
+      inviteeId: actor.id,
+      actorName: actor.name,
+      action: "access_link_revoked",
+      details: {
+        summary: "لینک ورود شخصی باطل شد",
+        data: { inviteeId: target.id, inviteeName: target.name },
+      },
+    });
+
+    return keepActorSignedIn(
+      NextResponse.json({ success: true }),
+      projectId,
+      actor.id,
+      target.id
+    );
+  } catch (error) {
+    console.error("access link revoke error", error);
+    return NextResponse.json(
+      { error: "access_link_revoke_failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listAccessLinks } from "@/lib/accessLinks";
+import { getSessionInvitee } from "@/lib/auth";
+import { isOrganizerRole } from "@/lib/roles";
+import type { InviteeAccessLink } from "@/types";
+
+/** The state of each invitee's newest sign-in link; never the link itself. */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const links: InviteeAccessLink[] = await listAccessLinks(projectId);
+    return NextResponse.json({ links });
+  } catch (error) {
+    console.error("access links fetch error", error);
+    return NextResponse.json(
+      { error: "access_links_fetch_failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { redeemAccessLink } from "@/lib/accessLinks";
+import { setSessionCookie } from "@/lib/auth";
+import { logServerActivity } from "@/lib/logging";
+
+/**
+ * Personal sign-in links land here: a valid token starts a session and
+ * opens the project, anything else opens the login form with the reason.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+  const projectUrl = new URL(`/project/${projectId}`, request.nextUrl.origin);
+  const token = request.nextUrl.searchParams.get("token");
+
+  if (!token) {
+    projectUrl.searchParams.set("link", "invalid");
+    return NextResponse.redirect(projectUrl);
+  }
+
+  try {
+    const result = await redeemAccessLink(projectId, token);
+
+    if (!result.ok) {
+      if (result.invitee) {
+        await logServerActivity({
+          projectId,
+          inviteeId: result.invitee.id,
+          actorName: result.invitee.name,
+          action: "access_link_rejected",
+          details: {
+            summary: "ورود با لینک شخصی رد شد",
+            data: { reason: result.reason },
+          },
+        });
+      }
+      projectUrl.searchParams.set("link", result.reason);
+      return NextResponse.redirect(projectUrl);
+    }
+
+    const { invitee } = result;
+
+    await logServerActivity({
+      projectId,
+      inviteeId: invitee.id,
+      actorName: invitee.name,
+      action: "access_link_used",
+      details: {
+        summary: "ورود با لینک شخصی",
+        data: { inviteeId: invitee.id, inviteeName: invitee.name },
+      },
+    });
+
+    return setSessionCookie(NextResponse.redirect(projectUrl), invitee);
+  } catch (error) {
+    console.error("access link error", error);
+    projectUrl.searchParams.set("link", "invalid");
+    return NextResponse.redirect(projectUrl);
+  }
+}
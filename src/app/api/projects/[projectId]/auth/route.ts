@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  clearSessionCookie,
+  createCalendarFeedToken,
+  createSupabaseAccessToken,
+  setSessionCookie,
+  verifyInviteeCredentials,
+} from "@/lib/auth";
+import { logServerActivity } from "@/lib/logging";
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await context.params;
+    const body = await request.json().catch(() => null);
+    const { inviteeId, password } = (body ?? {}) as {
+      inviteeId?: string;
+      password?: string;
+    };
+
+    if (!inviteeId) {
+      return NextResponse.json(
+        { error: "invitee_required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await verifyInviteeCredentials(
+      projectId,
+      inviteeId,
+      (password ?? "").trim()
+    );
+
+    if (!result.ok) {
+      if (result.invitee) {
+        await logServerActivity({
+          projectId,
+          inviteeId: result.invitee.id,
+          actorName: result.invitee.name,
+          action: "login_failed",
+          details: {
+            summary: "ورود ناموفق",
+            data: { reason: result.reason },
+          },
+        });
+      }
+      if (result.reason === "not_found") {
+        return NextResponse.json(
+          { error: "invitee_not_found" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(
+        {
+          error:
+            result.reason === "password_not_set"
+              ? "invitee_password_not_set"
+              : "invalid_password",
+        },
+        { status: 401 }
+      );
+    }
+
+    const { invitee } = result;
+
+    await logServerActivity({
+      projectId,
+      inviteeId: invitee.id,
+      actorName: invitee.name,
+      action: "login_success",
+      details: {
+        summary: "ورود موفق",
+        data: { inviteeId: invitee.id, inviteeName: invitee.name },
+      },
+    });
+
+    const response = NextResponse.json({
+      invitee: { id: invitee.id, name: invitee.name, role: invitee.role },
+      accessToken: createSupabaseAccessToken(invitee),
+      calendarFeedToken: createCalendarFeedToken(invitee),
+    });
+    return setSessionCookie(response, invitee);
+  } catch (error) {
+    console.error("auth api error", error);
+    return NextResponse.json(
+      { error: "login_failed" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+  return clearSessionCookie(NextResponse.json({ success: true }), projectId);
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCalendarFeedInvitee } from "@/lib/auth";
+import { toFinalizedSlot } from "@/lib/availability";
+import {
+  buildAvailabilityEvents,
+  buildCalendar,
+  buildFinalizedMeetingEvent,
+  calendarResponse,
+  type CalendarEvent,
+} from "@/lib/calendar";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import type { AvailabilitySlot, ParticipantAvailability } from "@/types";
+
+type ProjectRow = {
+  id: string;
+  title: string;
+  description: string | null;
+  time_zone: string | null;
+  finalized_slot: unknown;
+};
+
+type ResponseRow = {
+  id: string;
+  project_id: string;
+  invitee_id: string | null;
+  name: string;
+  slots: unknown;
+  created_at: string;
+};
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await context.params;
+    const invitee = await getCalendarFeedInvitee(request, projectId);
+    if (!invitee) {
+      return NextResponse.json(
+        { error: "auth_required" },
+        { status: 401 }
+      );
+    }
+
+    const supabase = getServiceSupabaseClient();
+    const { data: projectData } = await supabase
+      .from("projects")
+      .select("id, title, description, time_zone, finalized_slot")
+      .eq("id", projectId)
+      .maybeSingle();
+
+    if (!projectData) {
+      return NextResponse.json({ error: "project_not_found" }, { status: 404 });
+    }
+
+    const project = projectData as ProjectRow;
+    const projectUrl = `${request.nextUrl.origin}/project/${project.id}`;
+    const events: CalendarEvent[] = [];
+
+    const finalizedSlot = toFinalizedSlot(project.finalized_slot);
+    if (finalizedSlot) {
+      events.push(buildFinalizedMeetingEvent(project, finalizedSlot, projectUrl));
+    }
+
+    if (request.nextUrl.searchParams.get("include") === "availability") {
+      const { data: responsesData } = await supabase
+        .from("availability_responses")
+        .select("id, project_id, invitee_id, name, slots, created_at")
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: true });
+
+      const responses: ParticipantAvailability[] =
+        (responsesData as ResponseRow[] | null)?.map((item) => ({
+          id: item.id,
+          projectId: item.project_id,
+          inviteeId: item.invitee_id,
+          name: item.name,
+          slots: Array.isArray(item.slots)
+            ? (item.slots as AvailabilitySlot[])
+            : [],
+          createdAt: item.created_at,
+        })) ?? [];
+
+      events.push(...buildAvailabilityEvents(project, responses, projectUrl));
+    }
+
+    return calendarResponse(
+      buildCalendar({
+        name: project.title,
+        timeZone: project.time_zone ?? undefined,
+        events,
+      }),
+      `calfind-${project.id}.ics`
+    );
+  } catch (error) {
+    console.error("calendar export error", error);
+    return NextResponse.json(
+      { error: "calendar_export_failed" },
+      { status: 500 }
+    );
+  }
+}
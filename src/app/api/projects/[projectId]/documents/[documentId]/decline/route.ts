@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { getSessionInvitee } from "@/lib/auth";
+import {
+  canSignDocumentRow,
+  isCompletedDocument,
+  isSignedRow,
+  isVoidedDocument,
+  type DocumentAccessRow,
+} from "@/lib/documents";
+import { logServerActivity } from "@/lib/logging";
+
+type DeclineDocumentRow = DocumentAccessRow & {
+  current_version: number;
+  voided_at: string | null;
+  document_versions?: Array<{ version: number; is_certificate: boolean | null }>;
+  document_signers?: Array<{ invitee_id: string }>;
+  document_signatures?: Array<{ invitee_id: string; status: string }>;
+};
+
+type DeclineUpsertPayload = {
+  document_id: string;
+  invitee_id: string;
+  version: number;
+  status: "declined";
+  decline_reason: string;
+  declined_at: string;
+  signed_at: null;
+  overlay_image_path: null;
+  strokes_json: null;
+  typed_text: null;
+  typed_font: null;
+  typed_color: null;
+  voided_at: null;
+  voided_by: null;
+  void_reason: null;
+  stale_at: null;
+};
+
+const maxReasonLength = 500;
+
+/**
+ * Records that the session invitee refuses to sign. The decline holds up
+ * completion and any later signing steps until the invitee signs after all
+ * or an organizer voids it.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; documentId: string }> }
+) {
+  const { projectId, documentId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  let payload: { reason?: unknown };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
+  }
+
+  const reason =
+    typeof payload.reason === "string" ? payload.reason.trim() : "";
+  if (!reason) {
+    return NextResponse.json(
+      { error: "decline_reason_missing" },
+      { status: 400 }
+    );
+  }
+
+  const { data: documentRow, error: documentError } = await supabase
+    .from("project_documents")
+    .select(
+      "current_version, voided_at, shared_with_all, document_permissions(invitee_id, can_view, can_edit), document_versions(version, is_certificate), document_signers(invitee_id), document_signatures(invitee_id, status)"
+    )
+    .eq("id", documentId)
+    .eq("project_id", projectId)
+    .is("deleted_at", null)
+    .single();
+
+  if (documentError || !documentRow) {
+    return NextResponse.json({ error: "document_not_found" }, { status: 404 });
+  }
+
+  const document = documentRow as DeclineDocumentRow;
+
+  if (!canSignDocumentRow(document, invitee)) {
+    return NextResponse.json(
+      { error: "sign_forbidden" },
+      { status: 403 }
+    );
+  }
+
+  if (isCompletedDocument(document)) {
+    return NextResponse.json(
+      { error: "document_completed" },
+      { status: 409 }
+    );
+  }
+
+  if (isVoidedDocument(document)) {
+    return NextResponse.json(
+      { error: "document_voided" },
+      { status: 409 }
+    );
+  }
+
+  const sequence = document.document_signers ?? [];
+  if (sequence.length && !sequence.some((signer) => signer.invitee_id === invitee.id)) {
+    return NextResponse.json(
+      { error: "not_a_signer" },
+      { status: 403 }
+    );
+  }
+
+  // A signature already stamped into the document has to be voided by an
+  // organizer; declining cannot take it back.
+  if (
+    (document.document_signatures ?? []).some(
+      (signature) => signature.invitee_id === invitee.id && isSignedRow(signature)
+    )
+  ) {
+    return NextResponse.json(
+      { error: "already_signed" },
+      { status: 409 }
+    );
+  }
+
+  const declinePayload: DeclineUpsertPayload = {
+    document_id: documentId,
+    invitee_id: invitee.id,
+    version: document.current_version,
+    status: "declined",
+    decline_reason: reason.slice(0, maxReasonLength),
+    declined_at: new Date().toISOString(),
+    signed_at: null,
+    overlay_image_path: null,
+    strokes_json: null,
+    typed_text: null,
+    typed_font: null,
+    typed_color: null,
+    voided_at: null,
+    voided_by: null,
+    void_reason: null,
+    stale_at: null,
+  };
+
+  const { error: upsertError } = await supabase
+    .from("document_signatures")
+    .upsert(declinePayload as unknown as never, { onConflict: "document_id,invitee_id" });
+
+  if (upsertError) {
+    console.error("decline upsert error", upsertError);
+    return NextResponse.json(
+      { error: "document_decline_failed" },
+      { status: 500 }
+    );
+  }
+
+  await logServerActivity({
+    projectId,
+    inviteeId: invitee.id,
+    actorName: invitee.name,
+    action: "document_declined",
+    details: {
+      summary: "امضای سند رد شد",
+      data: { documentId, reason: declinePayload.decline_reason },
+    },
+  });
+
+  return NextResponse.json({ success: true });
+}
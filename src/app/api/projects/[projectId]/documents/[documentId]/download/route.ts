@@ -1,46 +1,82 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { getSessionInvitee } from "@/lib/auth";
+import {
+  canViewDocumentRow,
+  getDocumentVersionPath,
+  getVersionFileType,
+  parseVersionParam,
+} from "@/lib/documents";
 
 type DocumentWithVersions = {
   file_path: string;
   file_type: string;
   current_version: number;
+  shared_with_all: boolean;
+  document_permissions?: Array<{ invitee_id: string; can_view: boolean }>;
   document_versions?: Array<{ merged_file_path: string; version: number }>;
 };
 
 const bucket =
   process.env.SUPABASE_STORAGE_BUCKET ?? "project-documents";
 
+/** Signed download link for the current version, or `?version=` if given. */
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   context: { params: Promise<{ projectId: string; documentId: string }> }
 ) {
   const { projectId, documentId } = await context.params;
   const supabase = getServiceSupabaseClient();
 
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  const version = parseVersionParam(request.nextUrl.searchParams.get("version"));
+  if (Number.isNaN(version)) {
+    return NextResponse.json(
+      { error: "document_version_not_found" },
+      { status: 404 }
+    );
+  }
+
   const { data: document, error } = await supabase
     .from("project_documents")
     .select(
-      "file_path, file_type, current_version, document_versions(merged_file_path, version)"
+      "file_path, file_type, current_version, shared_with_all, document_permissions(invitee_id, can_view), document_versions(merged_file_path, version)"
     )
     .eq("id", documentId)
     .eq("project_id", projectId)
+    .is("deleted_at", null)
     .single();
 
   if (error || !document) {
     return NextResponse.json(
-      { error: "Document not found." },
+      { error: "document_not_found" },
       { status: 404 }
     );
   }
 
   const typedDocument = document as DocumentWithVersions;
 
-  const latestVersionPath = typedDocument.document_versions?.find(
-    (version) => version.version === typedDocument.current_version
-  )?.merged_file_path;
+  if (!canViewDocumentRow(typedDocument, invitee)) {
+    return NextResponse.json(
+      { error: "access_denied" },
+      { status: 403 }
+    );
+  }
 
-  const filePath = latestVersionPath ?? typedDocument.file_path;
+  const filePath = getDocumentVersionPath(typedDocument, version);
+  if (!filePath) {
+    return NextResponse.json(
+      { error: "document_version_not_found" },
+      { status: 404 }
+    );
+  }
 
   const { data: signedUrlData, error: signedUrlError } = await supabase
     .storage.from(bucket)
@@ -48,12 +84,16 @@ export async function GET(
 
   if (signedUrlError || !signedUrlData?.signedUrl) {
     return NextResponse.json(
-      { error: "Failed to create signed URL." },
+      { error: "download_link_failed" },
       { status: 500 }
     );
   }
 
-  return NextResponse.json({ url: signedUrlData.signedUrl });
+  return NextResponse.json({
+    url: signedUrlData.signedUrl,
+    version: version ?? typedDocument.current_version,
+    fileType: version === null ? typedDocument.file_type : getVersionFileType(filePath),
+  });
 }
 
 
@@ -0,0 +1,251 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { getSessionInvitee } from "@/lib/auth";
+import {
+  canSignDocumentRow,
+  downloadDocumentFile,
+  getCurrentDocumentPath,
+  isSignedRow,
+  type DocumentAccessRow,
+} from "@/lib/documents";
+import {
+  documentFieldColumns,
+  mapDocumentFieldRow,
+  normalizeDocumentFields,
+  type DocumentFieldRow,
+} from "@/lib/fields";
+import { logServerActivity } from "@/lib/logging";
+import { countPdfPages } from "@/lib/pdf";
+import { isInviteeRole, isOrganizerRole } from "@/lib/roles";
+
+type FieldsDocumentRow = DocumentAccessRow & {
+  file_path: string;
+  file_type: string;
+  total_pages: number | null;
+  current_version: number | null;
+  document_versions?: Array<{ merged_file_path: string; version: number }>;
+  document_signers?: Array<{ invitee_id: string }>;
+  document_signatures?: Array<{ invitee_id: string; status: string }>;
+  document_fields?: DocumentFieldRow[];
+};
+
+type FieldInsertPayload = {
+  document_id: string;
+  invitee_id: string;
+  field_type: string;
+  label: string | null;
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  required: boolean;
+};
+
+// Declined and voided rows never stamped anything into the current version.
+const isFieldsLocked = (document: FieldsDocumentRow) =>
+  (document.document_signatures ?? []).some(isSignedRow);
+
+const loadDocument = async (projectId: string, documentId: string) => {
+  const supabase = getServiceSupabaseClient();
+  const { data, error } = await supabase
+    .from("project_documents")
+    .select(
+      `file_path, file_type, total_pages, current_version, shared_with_all, document_permissions(invitee_id, can_view, can_edit), document_versions(merged_file_path, version), document_signers(invitee_id), document_signatures(invitee_id, status), document_fields(${documentFieldColumns})`
+    )
+    .eq("id", documentId)
+    .eq("project_id", projectId)
+    .is("deleted_at", null)
+    .single();
+
+  return error || !data ? null : (data as FieldsDocumentRow);
+};
+
+// Only invitees who will actually sign the document can be given fields.
+const loadAssignees = async (projectId: string, document: FieldsDocumentRow) => {
+  const supabase = getServiceSupabaseClient();
+  const { data } = await supabase
+    .from("project_invitees")
+    .select("id, name, role")
+    .eq("project_id", projectId)
+    .is("removed_at", null);
+
+  const sequence = document.document_signers ?? [];
+  return ((data as Array<{ id: string; name: string; role: string | null }> | null) ?? [])
+    .filter((row) =>
+      sequence.length
+        ? sequence.some((signer) => signer.invitee_id === row.id)
+        : canSignDocumentRow(document, {
+            id: row.id,
+            role: isInviteeRole(row.role) ? row.role : "participant",
+          })
+    )
+    .map((row) => ({ id: row.id, name: row.name }));
+};
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; documentId: string }> }
+) {
+  const { projectId, documentId } = await context.params;
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  const document = await loadDocument(projectId, documentId);
+  if (!document) {
+    return NextResponse.json({ error: "document_not_found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    fields: (document.document_fields ?? []).map(mapDocumentFieldRow),
+    assignees: await loadAssignees(projectId, document),
+    locked: isFieldsLocked(document),
+  });
+}
+
+/**
+ * Replaces every field on the document. Fields are fixed once the first
+ * signature exists, since that version already has them stamped in.
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; documentId: string }> }
+) {
+  const { projectId, documentId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  let payload: { fields?: unknown };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
+  }
+
+  const document = await loadDocument(projectId, documentId);
+  if (!document) {
+    return NextResponse.json({ error: "document_not_found" }, { status: 404 });
+  }
+
+  if (isFieldsLocked(document)) {
+    return NextResponse.json(
+      { error: "fields_locked" },
+      { status: 409 }
+    );
+  }
+
+  let pageCount = 1;
+  if (document.file_type === "pdf") {
+    try {
+      pageCount =
+        document.total_pages ??
+        (await countPdfPages(
+          await downloadDocumentFile(getCurrentDocumentPath(document))
+        ));
+    } catch (error) {
+      console.error("page count error", error);
+      return NextResponse.json(
+        { error: "document_fields_failed" },
+        { status: 500 }
+      );
+    }
+  }
+
+  const fields = normalizeDocumentFields(payload.fields, pageCount);
+  const assignees = await loadAssignees(projectId, document);
+
+  if (
+    !fields ||
+    !fields.every((field) =>
+      assignees.some((assignee) => assignee.id === field.inviteeId)
+    )
+  ) {
+    return NextResponse.json(
+      { error: "document_fields_invalid" },
+      { status: 400 }
+    );
+  }
+
+  const { error: deleteError } = await supabase
+    .from("document_fields")
+    .delete()
+    .eq("document_id", documentId);
+
+  if (deleteError) {
+    console.error("fields delete error", deleteError);
+    return NextResponse.json(
+      { error: "document_fields_failed" },
+      { status: 500 }
+    );
+  }
+
+  let savedRows: DocumentFieldRow[] = [];
+  if (fields.length) {
+    const fieldPayload: FieldInsertPayload[] = fields.map((field) => ({
+      document_id: documentId,
+      invitee_id: field.inviteeId,
+      field_type: field.fieldType,
+      label: field.label ?? null,
+      page: field.page,
+      x: field.x,
+      y: field.y,
+      width: field.width,
+      height: field.height,
+      required: field.required,
+    }));
+
+    const { data: inserted, error: insertError } = await supabase
+      .from("document_fields")
+      .insert(fieldPayload as unknown as never)
+      .select(documentFieldColumns);
+
+    if (insertError) {
+      console.error("fields insert error", insertError);
+      return NextResponse.json(
+        { error: "document_fields_failed" },
+        { status: 500 }
+      );
+    }
+    savedRows = (inserted as DocumentFieldRow[] | null) ?? [];
+  }
+
+  await logServerActivity({
+    projectId,
+    inviteeId: invitee.id,
+    actorName: invitee.name,
+    action: "document_fields_placed",
+    details: {
+      summary: "فیلدهای امضا روی سند قرار گرفت",
+      data: { documentId, count: fields.length },
+    },
+  });
+
+  return NextResponse.json({ fields: savedRows.map(mapDocumentFieldRow) });
+}
@@ -1,5 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
+import { getSessionInvitee } from "@/lib/auth";
+import { canContribute, isOrganizerRole } from "@/lib/roles";
 import { logServerActivity } from "@/lib/logging";
+import { notifyNoteMentions } from "@/lib/notifications";
 import { getServiceSupabaseClient } from "@/lib/serverSupabase";
 
 type DocumentNoteReplyInsertPayload = {
@@ -8,6 +11,13 @@ type DocumentNoteReplyInsertPayload = {
   content: string;
 };
 
+type ParentNoteRow = {
+  invitee_id: string | null;
+  visible_to: string[] | null;
+  allow_replies: boolean;
+  project_documents: { project_id: string; deleted_at: string | null } | null;
+};
+
 type DocumentNoteReplyRowOut = {
   id: string;
   note_id: string;
@@ -21,21 +31,59 @@ export async function POST(
   context: { params: Promise<{ projectId: string; documentId: string; noteId: string }> }
 ) {
   try {
-    const { projectId, noteId } = await context.params;
+    const { projectId, documentId, noteId } = await context.params;
     const supabase = getServiceSupabaseClient();
+    const invitee = await getSessionInvitee(request, projectId);
+    if (!invitee) {
+      return NextResponse.json(
+        { error: "auth_required" },
+        { status: 401 }
+      );
+    }
+
+    const { data: noteRow } = await supabase
+      .from("document_notes")
+      .select("invitee_id, visible_to, allow_replies, project_documents(project_id, deleted_at)")
+      .eq("id", noteId)
+      .eq("document_id", documentId)
+      .maybeSingle();
+
+    const parentNote = noteRow as unknown as ParentNoteRow | null;
+
+    if (
+      !parentNote ||
+      parentNote.project_documents?.project_id !== projectId ||
+      parentNote.project_documents.deleted_at
+    ) {
+      return NextResponse.json({ error: "note_not_found" }, { status: 404 });
+    }
+
+    const canSeeNote =
+      isOrganizerRole(invitee.role) ||
+      parentNote.invitee_id === invitee.id ||
+      !parentNote.visible_to?.length ||
+      parentNote.visible_to.includes(invitee.id);
+
+    if (!canContribute(invitee.role) || !parentNote.allow_replies || !canSeeNote) {
+      return NextResponse.json(
+        { error: "reply_forbidden" },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
-    const { inviteeId, actorName, content } = body ?? {};
+    const { content } = body ?? {};
 
-    if (!inviteeId || !content) {
+    if (!content) {
       return NextResponse.json(
-        { error: "اطلاعات پاسخ ناقص است." },
+        { error: "reply_invalid" },
         { status: 400 }
       );
     }
 
     const payload: DocumentNoteReplyInsertPayload = {
       note_id: noteId,
-      invitee_id: inviteeId,
+      invitee_id: invitee.id,
       content,
     };
 
@@ -48,7 +96,7 @@ export async function POST(
     if (error || !data) {
       console.error("note reply insert error", error);
       return NextResponse.json(
-        { error: "ثبت پاسخ با خطا مواجه شد." },
+        { error: "reply_create_failed" },
         { status: 500 }
       );
     }
@@ -57,8 +105,8 @@ export async function POST(
 
     await logServerActivity({
       projectId,
-      inviteeId,
-      actorName,
+      inviteeId: invitee.id,
+      actorName: invitee.name,
       action: "note_replied",
       details: {
         summary: "پاسخ به یادداشت ثبت شد",
@@ -66,11 +114,22 @@ export async function POST(
       },
     });
 
+    after(() =>
+      notifyNoteMentions({
+        projectId,
+        documentId,
+        content,
+        author: invitee,
+        note: { authorId: parentNote.invitee_id, visibleTo: parentNote.visible_to },
+        baseUrl: request.nextUrl.origin,
+      })
+    );
+
     return NextResponse.json({ replyId: typedReply.id, createdAt: typedReply.created_at });
   } catch (error) {
     console.error("document note reply api error", error);
     return NextResponse.json(
-      { error: "ثبت پاسخ با خطا مواجه شد." },
+      { error: "reply_create_failed" },
       { status: 500 }
     );
   }
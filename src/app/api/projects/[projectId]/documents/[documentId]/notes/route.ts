@@ -1,5 +1,9 @@
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
+import { getSessionInvitee } from "@/lib/auth";
+import { canSignDocumentRow, type DocumentAccessRow } from "@/lib/documents";
+import { isOrganizerRole } from "@/lib/roles";
 import { logServerActivity } from "@/lib/logging";
+import { notifyNoteMentions } from "@/lib/notifications";
 import { getServiceSupabaseClient } from "@/lib/serverSupabase";
 
 type DocumentNoteInsertPayload = {
@@ -27,26 +31,54 @@ export async function POST(
   try {
     const { projectId, documentId } = await context.params;
     const supabase = getServiceSupabaseClient();
+    const invitee = await getSessionInvitee(request, projectId);
+    if (!invitee) {
+      return NextResponse.json(
+        { error: "auth_required" },
+        { status: 401 }
+      );
+    }
+
+    const { data: documentRow } = await supabase
+      .from("project_documents")
+      .select("shared_with_all, document_permissions(invitee_id, can_view, can_edit)")
+      .eq("id", documentId)
+      .eq("project_id", projectId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (!documentRow) {
+      return NextResponse.json({ error: "document_not_found" }, { status: 404 });
+    }
+
+    if (
+      !isOrganizerRole(invitee.role) &&
+      !canSignDocumentRow(documentRow as DocumentAccessRow, invitee)
+    ) {
+      return NextResponse.json(
+        { error: "note_forbidden" },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     const {
-      inviteeId,
-      actorName,
       content,
       visibleTo,
       shareWithAll,
       allowReplies,
     } = body ?? {};
 
-    if (!inviteeId || !content) {
+    if (!content) {
       return NextResponse.json(
-        { error: "اطلاعات یادداشت ناقص است." },
+        { error: "note_invalid" },
         { status: 400 }
       );
     }
 
     const payload: DocumentNoteInsertPayload = {
       document_id: documentId,
-      invitee_id: inviteeId,
+      invitee_id: invitee.id,
       content,
       visible_to: shareWithAll ? null : (visibleTo ?? []),
       allow_replies: Boolean(allowReplies),
@@ -61,7 +93,7 @@ export async function POST(
     if (error || !data) {
       console.error("note insert error", error);
       return NextResponse.json(
-        { error: "ثبت یادداشت با خطا مواجه شد." },
+        { error: "note_create_failed" },
         { status: 500 }
       );
     }
@@ -70,8 +102,8 @@ export async function POST(
 
     await logServerActivity({
       projectId,
-      inviteeId,
-      actorName,
+      inviteeId: invitee.id,
+      actorName: invitee.name,
       action: "note_added",
       details: {
         summary: "یادداشت جدید اضافه شد",
@@ -82,11 +114,22 @@ export async function POST(
       },
     });
 
+    after(() =>
+      notifyNoteMentions({
+        projectId,
+        documentId,
+        content,
+        author: invitee,
+        note: { authorId: invitee.id, visibleTo: payload.visible_to },
+        baseUrl: request.nextUrl.origin,
+      })
+    );
+
     return NextResponse.json({ noteId: typedNote.id, createdAt: typedNote.created_at });
   } catch (error) {
     console.error("document note api error", error);
     return NextResponse.json(
-      { error: "ثبت یادداشت با خطا مواجه شد." },
+      { error: "note_create_failed" },
       { status: 500 }
     );
   }
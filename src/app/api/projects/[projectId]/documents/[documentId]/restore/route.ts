@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { getSessionInvitee } from "@/lib/auth";
+import { logServerActivity } from "@/lib/logging";
+import { isOrganizerRole } from "@/lib/roles";
+
+type DocumentRestorePayload = {
+  deleted_at: null;
+  deleted_by: null;
+};
+
+/** Takes a document back out of the trash, as long as it hasn't been purged. */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; documentId: string }> }
+) {
+  const { projectId, documentId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  const { data: documentRow, error } = await supabase
+    .from("project_documents")
+    .select("file_path, deleted_at")
+    .eq("id", documentId)
+    .eq("project_id", projectId)
+    .single();
+
+  if (error || !documentRow) {
+    return NextResponse.json(
+      { error: "document_not_found" },
+      { status: 404 }
+    );
+  }
+
+  const document = documentRow as { file_path: string; deleted_at: string | null };
+
+  if (!document.deleted_at) {
+    return NextResponse.json(
+      { error: "document_not_in_trash" },
+      { status: 409 }
+    );
+  }
+
+  const restorePayload: DocumentRestorePayload = {
+    deleted_at: null,
+    deleted_by: null,
+  };
+
+  const { error: updateError } = await supabase
+    .from("project_documents")
+    .update(restorePayload as unknown as never)
+    .eq("id", documentId);
+
+  if (updateError) {
+    console.error("document restore error", updateError);
+    return NextResponse.json(
+      { error: "document_restore_failed" },
+      { status: 500 }
+    );
+  }
+
+  await logServerActivity({
+    projectId,
+    inviteeId: invitee.id,
+    actorName: invitee.name,
+    action: "document_restored",
+    details: {
+      summary: "سند از سطل زباله بازگردانده شد",
+      data: {
+        documentId,
+        fileName: document.file_path.split("/").pop() ?? documentId,
+      },
+    },
+  });
+
+  return NextResponse.json({ success: true });
+}
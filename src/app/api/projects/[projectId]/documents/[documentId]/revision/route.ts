@@ -0,0 +1,304 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { getSessionInvitee } from "@/lib/auth";
+import { sha256Hex } from "@/lib/audit";
+import {
+  addDocumentVersion,
+  buildRevisionPath,
+  getUploadFileType,
+  isVoidedDocument,
+} from "@/lib/documents";
+import { logServerActivity } from "@/lib/logging";
+import { notifyInvitees } from "@/lib/notifications";
+import { countPdfPages } from "@/lib/pdf";
+import { isOrganizerRole } from "@/lib/roles";
+import {
+  getCurrentSigningStep,
+  getSignersOnTurn,
+  type SigningStep,
+} from "@/lib/signingOrder";
+
+type RevisionDocumentRow = {
+  file_path: string;
+  current_version: number;
+  voided_at: string | null;
+  document_versions?: Array<{ version: number }>;
+  document_signers?: Array<{ invitee_id: string; step: number }>;
+  document_signatures?: Array<{ invitee_id: string; status: string }>;
+  document_fields?: Array<{ id: string; page: number }>;
+};
+
+type RevisionVersionColumns = {
+  is_revision: true;
+  created_by: string;
+};
+
+type SignatureStalePayload = {
+  status: "stale";
+  stale_at: string;
+};
+
+type FieldResetPayload = {
+  value: null;
+  filled_at: null;
+};
+
+type DocumentRevisionPayload = {
+  current_version: number;
+  file_type: string;
+  total_pages: number | null;
+};
+
+/**
+ * Replaces the document's file with a revised original. Notes, permissions,
+ * the signing order and placed fields stay with the document; signatures
+ * and declines on earlier versions turn stale, so everyone signs again.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; documentId: string }> }
+) {
+  const { projectId, documentId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+
+  if (!file || !(file instanceof File)) {
+    return NextResponse.json(
+      { error: "file_missing" },
+      { status: 400 }
+    );
+  }
+
+  const fileType = getUploadFileType(file);
+  if (!fileType) {
+    return NextResponse.json(
+      { error: "file_type_unsupported" },
+      { status: 400 }
+    );
+  }
+
+  const { data: documentRow, error: documentError } = await supabase
+    .from("project_documents")
+    .select(
+      "file_path, current_version, voided_at, document_versions(version), document_signers(invitee_id, step), document_signatures(invitee_id, status), document_fields(id, page)"
+    )
+    .eq("id", documentId)
+    .eq("project_id", projectId)
+    .is("deleted_at", null)
+    .single();
+
+  if (documentError || !documentRow) {
+    return NextResponse.json({ error: "document_not_found" }, { status: 404 });
+  }
+
+  const document = documentRow as RevisionDocumentRow;
+
+  if (isVoidedDocument(document)) {
+    return NextResponse.json(
+      { error: "document_voided" },
+      { status: 409 }
+    );
+  }
+
+  const fileBytes = new Uint8Array(await file.arrayBuffer());
+  let totalPages = 1;
+  if (fileType === "pdf") {
+    try {
+      totalPages = await countPdfPages(fileBytes);
+    } catch (error) {
+      console.error("revision page count error", error);
+      return NextResponse.json(
+        { error: "file_type_unsupported" },
+        { status: 400 }
+      );
+    }
+  }
+
+  const versionColumns: RevisionVersionColumns = {
+    is_revision: true,
+    created_by: invitee.id,
+  };
+
+  let nextVersion: number;
+  try {
+    ({ version: nextVersion } = await addDocumentVersion({
+      documentId,
+      document,
+      buildPath: (version) => buildRevisionPath(projectId, documentId, version, file.name),
+      build: async () => ({
+        file,
+        columns: versionColumns,
+        hashes: { sha256: sha256Hex(fileBytes) },
+      }),
+    }));
+  } catch (error) {
+    console.error("revision upload error", error);
+    return NextResponse.json(
+      { error: "document_upload_failed" },
+      { status: 500 }
+    );
+  }
+
+  // Stale rows keep the version they were made on; voided ones stay voided.
+  const staleInviteeIds = (document.document_signatures ?? [])
+    .filter((signature) => signature.status === "signed" || signature.status === "declined")
+    .map((signature) => signature.invitee_id);
+
+  if (staleInviteeIds.length) {
+    const signaturePayload: SignatureStalePayload = {
+      status: "stale",
+      stale_at: new Date().toISOString(),
+    };
+    const { error: signatureError } = await supabase
+      .from("document_signatures")
+      .update(signaturePayload as unknown as never)
+      .eq("document_id", documentId)
+      .in("invitee_id", staleInviteeIds);
+
+    if (signatureError) {
+      console.error("signature stale error", signatureError);
+      return NextResponse.json(
+        { error: "document_revision_failed" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Fields stay where the organizer put them, minus any on pages the
+  // revision no longer has; values filled into the old file are cleared.
+  const fields = document.document_fields ?? [];
+  const removedFieldIds = fields
+    .filter((field) => field.page > totalPages)
+    .map((field) => field.id);
+
+  if (removedFieldIds.length) {
+    const { error: removeError } = await supabase
+      .from("document_fields")
+      .delete()
+      .in("id", removedFieldIds);
+
+    if (removeError) {
+      console.error("field remove error", removeError);
+      return NextResponse.json(
+        { error: "document_revision_failed" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (fields.length > removedFieldIds.length) {
+    const fieldPayload: FieldResetPayload = { value: null, filled_at: null };
+    const { error: fieldError } = await supabase
+      .from("document_fields")
+      .update(fieldPayload as unknown as never)
+      .eq("document_id", documentId);
+
+    if (fieldError) {
+      console.error("field reset error", fieldError);
+      return NextResponse.json(
+        { error: "document_revision_failed" },
+        { status: 500 }
+      );
+    }
+  }
+
+  const documentPayload: DocumentRevisionPayload = {
+    current_version: nextVersion,
+    file_type: fileType,
+    total_pages: totalPages,
+  };
+
+  const { error: updateError } = await supabase
+    .from("project_documents")
+    .update(documentPayload as unknown as never)
+    .eq("id", documentId);
+
+  if (updateError) {
+    console.error("document revision error", updateError);
+    return NextResponse.json(
+      { error: "document_update_failed" },
+      { status: 500 }
+    );
+  }
+
+  await logServerActivity({
+    projectId,
+    inviteeId: invitee.id,
+    actorName: invitee.name,
+    action: "document_revised",
+    details: {
+      summary: "نسخه اصلاح‌شده سند بارگذاری شد",
+      data: {
+        documentId,
+        version: nextVersion,
+        fileName: file.name,
+        staleInviteeIds,
+      },
+    },
+  });
+
+  // Signing starts over: with an order the first step is on turn again,
+  // otherwise everyone whose signature or decline just turned stale.
+  const signers: SigningStep[] = (document.document_signers ?? []).map((signer) => ({
+    inviteeId: signer.invitee_id,
+    step: signer.step,
+  }));
+  const firstStep = getCurrentSigningStep(signers, []);
+  const turnInviteeIds = signers.length
+    ? getSignersOnTurn(signers, [])
+    : staleInviteeIds;
+
+  if (firstStep !== null) {
+    await logServerActivity({
+      projectId,
+      inviteeId: invitee.id,
+      actorName: invitee.name,
+      action: "signing_turn_advanced",
+      details: {
+        summary: "نوبت امضا به مرحله اول بازگشت",
+        data: {
+          documentId,
+          step: firstStep,
+          inviteeIds: turnInviteeIds,
+        },
+      },
+    });
+  }
+
+  if (turnInviteeIds.length) {
+    after(() =>
+      notifyInvitees({
+        projectId,
+        inviteeIds: turnInviteeIds,
+        event: {
+          type: "signingTurn",
+          documentName: document.file_path.split("/").pop() ?? documentId,
+        },
+        baseUrl: request.nextUrl.origin,
+      })
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    version: nextVersion,
+    staleInviteeIds,
+  });
+}
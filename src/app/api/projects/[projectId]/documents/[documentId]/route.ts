@@ -1,5 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { getSessionInvitee } from "@/lib/auth";
+import {
+  canViewDocumentRow,
+  getDocumentVersionPath,
+  getVersionFileType,
+  parseVersionParam,
+} from "@/lib/documents";
+import {
+  documentFieldColumns,
+  mapDocumentFieldRow,
+  type DocumentFieldRow,
+} from "@/lib/fields";
+import { logServerActivity } from "@/lib/logging";
+import { isOrganizerRole } from "@/lib/roles";
+import { getPurgeAt, purgeDocument } from "@/lib/trash";
 
 type DocumentPermissionRow = {
   document_id: string;
@@ -29,6 +44,17 @@ type DocumentWithRelations = {
   document_permissions?: DocumentPermissionRow[];
   document_signatures?: DocumentSignatureRow[];
   document_versions?: DocumentVersionRow[];
+  document_fields?: DocumentFieldRow[];
+};
+
+type DocumentTrashRow = {
+  file_path: string;
+  deleted_at: string | null;
+};
+
+type DocumentTrashPayload = {
+  deleted_at: string;
+  deleted_by: string;
 };
 
 const bucket =
@@ -40,44 +66,56 @@ export async function GET(
 ) {
   const { projectId, documentId } = await context.params;
   const supabase = getServiceSupabaseClient();
-  const searchParams = new URL(request.url).searchParams;
-  const inviteeId = searchParams.get("inviteeId");
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  const version = parseVersionParam(request.nextUrl.searchParams.get("version"));
+  if (Number.isNaN(version)) {
+    return NextResponse.json(
+      { error: "document_version_not_found" },
+      { status: 404 }
+    );
+  }
 
   const { data: document, error } = await supabase
     .from("project_documents")
     .select(
-      "id, project_id, file_path, file_type, current_version, shared_with_all, document_permissions(document_id, invitee_id, can_view, can_edit), document_signatures(invitee_id, overlay_image_path, signed_at), document_versions(merged_file_path, version)"
+      `id, project_id, file_path, file_type, current_version, shared_with_all, document_permissions(document_id, invitee_id, can_view, can_edit), document_signatures(invitee_id, overlay_image_path, signed_at), document_versions(merged_file_path, version), document_fields(${documentFieldColumns})`
     )
     .eq("id", documentId)
     .eq("project_id", projectId)
+    .is("deleted_at", null)
     .single();
 
   if (error || !document) {
     return NextResponse.json(
-      { error: "Document not found." },
+      { error: "document_not_found" },
       { status: 404 }
     );
   }
 
   const typedDocument = document as DocumentWithRelations;
 
-  if (!typedDocument.shared_with_all) {
-    const hasPermission = typedDocument.document_permissions?.some(
-      (permission) => permission.invitee_id === inviteeId && permission.can_view
+  if (!canViewDocumentRow(typedDocument, invitee)) {
+    return NextResponse.json(
+      { error: "access_denied" },
+      { status: 403 }
     );
-    if (!hasPermission) {
-      return NextResponse.json(
-        { error: "Access denied." },
-        { status: 403 }
-      );
-    }
   }
 
-  const latestVersionPath = typedDocument.document_versions?.find(
-    (version) => version.version === typedDocument.current_version
-  )?.merged_file_path;
-
-  const filePath = latestVersionPath ?? typedDocument.file_path;
+  const filePath = getDocumentVersionPath(typedDocument, version);
+  if (!filePath) {
+    return NextResponse.json(
+      { error: "document_version_not_found" },
+      { status: 404 }
+    );
+  }
 
   const { data: signedUrlData, error: signedUrlError } = await supabase
     .storage.from(bucket)
@@ -85,19 +123,159 @@ export async function GET(
 
   if (signedUrlError || !signedUrlData?.signedUrl) {
     return NextResponse.json(
-      { error: "Failed to create signed URL." },
+      { error: "download_link_failed" },
       { status: 500 }
     );
   }
 
+  await logServerActivity({
+    projectId,
+    inviteeId: invitee.id,
+    actorName: invitee.name,
+    action: "document_viewed",
+    details: {
+      summary: "مشاهده سند",
+      data: { documentId, version: version ?? typedDocument.current_version },
+    },
+  });
+
   return NextResponse.json({
     document: {
       id: typedDocument.id,
       projectId: typedDocument.project_id,
-      fileType: typedDocument.file_type,
+      fileType:
+        version === null ? typedDocument.file_type : getVersionFileType(filePath),
+      version: version ?? typedDocument.current_version,
       signedUrl: signedUrlData.signedUrl,
+      // Signers only ever see and fill the fields assigned to them.
+      fields: (typedDocument.document_fields ?? [])
+        .filter((field) => field.invitee_id === invitee.id)
+        .map(mapDocumentFieldRow)
+        .sort((a, b) => a.page - b.page || a.y - b.y || a.x - b.x),
     },
   });
 }
 
+/**
+ * Moves the document to the trash, where organizers can restore it until
+ * the purge job deletes it. `?permanent=true` purges a document that is
+ * already in the trash right away.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; documentId: string }> }
+) {
+  const { projectId, documentId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  const { data: documentRow, error } = await supabase
+    .from("project_documents")
+    .select("file_path, deleted_at")
+    .eq("id", documentId)
+    .eq("project_id", projectId)
+    .single();
+
+  if (error || !documentRow) {
+    return NextResponse.json(
+      { error: "document_not_found" },
+      { status: 404 }
+    );
+  }
+
+  const document = documentRow as DocumentTrashRow;
+  const fileName = document.file_path.split("/").pop() ?? documentId;
+
+  const permanent = ["1", "true", "yes"].includes(
+    (request.nextUrl.searchParams.get("permanent") ?? "").toLowerCase()
+  );
+
+  if (permanent) {
+    if (!document.deleted_at) {
+      return NextResponse.json(
+        { error: "document_not_in_trash" },
+        { status: 409 }
+      );
+    }
+
+    try {
+      await purgeDocument(projectId, documentId);
+    } catch (purgeError) {
+      console.error("document purge error", purgeError);
+      return NextResponse.json(
+        { error: "document_delete_failed" },
+        { status: 500 }
+      );
+    }
 
+    await logServerActivity({
+      projectId,
+      inviteeId: invitee.id,
+      actorName: invitee.name,
+      action: "document_purged",
+      details: {
+        summary: "سند برای همیشه حذف شد",
+        data: { documentId, fileName },
+      },
+    });
+
+    return NextResponse.json({ success: true, purged: true });
+  }
+
+  if (document.deleted_at) {
+    return NextResponse.json({
+      success: true,
+      deletedAt: document.deleted_at,
+      purgeAt: getPurgeAt(document.deleted_at),
+    });
+  }
+
+  const trashPayload: DocumentTrashPayload = {
+    deleted_at: new Date().toISOString(),
+    deleted_by: invitee.id,
+  };
+
+  const { error: updateError } = await supabase
+    .from("project_documents")
+    .update(trashPayload as unknown as never)
+    .eq("id", documentId);
+
+  if (updateError) {
+    console.error("document delete error", updateError);
+    return NextResponse.json(
+      { error: "document_delete_failed" },
+      { status: 500 }
+    );
+  }
+
+  await logServerActivity({
+    projectId,
+    inviteeId: invitee.id,
+    actorName: invitee.name,
+    action: "document_deleted",
+    details: {
+      summary: "سند به سطل زباله منتقل شد",
+      data: { documentId, fileName },
+    },
+  });
+
+  return NextResponse.json({
+    success: true,
+    deletedAt: trashPayload.deleted_at,
+    purgeAt: getPurgeAt(trashPayload.deleted_at),
+  });
+}
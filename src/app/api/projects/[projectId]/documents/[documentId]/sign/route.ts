@@ -1,17 +1,77 @@
-import { NextRequest, NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { after, NextRequest, NextResponse } from "next/server";
 import { getServiceSupabaseClient } from "@/lib/serverSupabase";
-import { buildMergedPath, buildOverlayPath, uploadDocumentFile } from "@/lib/documents";
+import { getRequestClientInfo, sha256Hex } from "@/lib/audit";
+import { isIsoDate } from "@/lib/availability";
+import { issueCompletionCertificate } from "@/lib/certificate";
+import {
+  addDocumentVersion,
+  buildMergedPath,
+  buildOverlayPath,
+  canSignDocumentRow,
+  downloadDocumentFile,
+  getCurrentDocumentPath,
+  isCompletedDocument,
+  isSignedRow,
+  isVoidedDocument,
+  uploadDocumentFile,
+  type DocumentAccessRow,
+} from "@/lib/documents";
+import {
+  documentFieldColumns,
+  isImageField,
+  mapDocumentFieldRow,
+  maxFieldValueLength,
+  type DocumentFieldRow,
+} from "@/lib/fields";
 import { dataUrlToBuffer } from "@/lib/files";
+import {
+  defaultDateDisplay,
+  formatDate,
+  isCalendarSystem,
+  isDigitSystem,
+} from "@/lib/format";
+import {
+  getImageSize,
+  isPngImage,
+  renderFieldTextImage,
+  stampSignatureOnImage,
+} from "@/lib/images";
 import { logServerActivity } from "@/lib/logging";
-
-type DocumentRow = {
+import { notifyInvitees } from "@/lib/notifications";
+import {
+  getPdfPageSizes,
+  isValidPdfPlacement,
+  stampImagesOnPdf,
+  type PdfSignaturePlacement,
+} from "@/lib/pdf";
+import { isValidPlacement, type SignaturePlacement } from "@/lib/placement";
+import {
+  getCurrentSigningStep,
+  getSignersOnTurn,
+  isSigningTurn,
+  type SigningStep,
+} from "@/lib/signingOrder";
+import { getSessionInvitee } from "@/lib/auth";
+import type { DateDisplay } from "@/types";
+
+type DocumentRow = DocumentAccessRow & {
+  file_path: string;
   file_type: string;
   current_version: number | null;
+  voided_at: string | null;
+  document_versions?: Array<{
+    merged_file_path: string;
+    version: number;
+    is_certificate: boolean | null;
+  }>;
+  document_signers?: Array<{ invitee_id: string; step: number }>;
+  document_signatures?: Array<{ invitee_id: string; status: string }>;
+  document_fields?: DocumentFieldRow[];
 };
 
 type SignatureMetaPayload = {
   mode?: "draw" | "typed" | "upload";
-  opacity?: number;
   penColor?: string;
   penWidth?: number;
   typedText?: string;
@@ -21,17 +81,19 @@ type SignatureMetaPayload = {
   uploadedFileName?: string | null;
 };
 
-type PlacementPayload = {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
+type FieldEntryPayload = {
+  fieldId: string;
+  imageDataUrl?: string | null;
+  value?: string | null;
 };
 
-type DocumentVersionInsert = {
-  document_id: string;
-  version: number;
-  merged_file_path: string;
+type FieldUpdatePayload = {
+  value: string | null;
+  filled_at: string;
+};
+
+type DocumentVersionColumns = {
+  created_by: string;
 };
 
 type DocumentUpdatePayload = {
@@ -43,11 +105,58 @@ type SignatureUpsertPayload = {
   invitee_id: string;
   version: number;
   overlay_image_path: string | null;
-  strokes_json: PlacementPayload | null;
+  strokes_json: Record<string, unknown> | null;
   typed_text: string | null;
   typed_font: string | null;
   typed_color: string | null;
   signed_at: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  status: "signed";
+  decline_reason: null;
+  declined_at: null;
+  voided_at: null;
+  voided_by: null;
+  void_reason: null;
+  stale_at: null;
+};
+
+const isOptionalString = (value: unknown) =>
+  value === undefined || value === null || typeof value === "string";
+
+const isFieldEntry = (value: unknown): value is FieldEntryPayload => {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.fieldId === "string" &&
+    isOptionalString(entry.imageDataUrl) &&
+    isOptionalString(entry.value)
+  );
+};
+
+const parsePngDataUrl = (value: unknown) => {
+  if (typeof value !== "string") return null;
+  try {
+    const buffer = dataUrlToBuffer(value);
+    return isPngImage(buffer) ? buffer : null;
+  } catch (error) {
+    console.error("overlay parse error", error);
+    return null;
+  }
+};
+
+// Rolled-over dates such as 2025-02-30 come back from dayjs changed.
+const isCalendarDate = (value: string) =>
+  isIsoDate(value) && dayjs(value).format("YYYY-MM-DD") === value;
+
+const parseDateDisplay = (value: unknown): DateDisplay => {
+  const display = (value ?? {}) as Partial<Record<keyof DateDisplay, unknown>>;
+  return {
+    calendar: isCalendarSystem(display.calendar)
+      ? display.calendar
+      : defaultDateDisplay.calendar,
+    digits: isDigitSystem(display.digits) ? display.digits : defaultDateDisplay.digits,
+  };
 };
 
 const handleStorageError = (error: unknown) => {
@@ -65,110 +174,339 @@ export async function POST(
   const { projectId, documentId } = await context.params;
   const supabase = getServiceSupabaseClient();
 
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  // Only the signature overlay and where it goes are taken from the client;
+  // the signed version is always built here from the stored current version.
+  // Invitees with placed fields send an image per signature or initials
+  // field and a value per date or text field instead, and the field decides
+  // where it goes.
   let payload: {
-    inviteeId: string;
-    actorName?: string;
     overlayDataUrl?: string;
-    mergedDataUrl: string;
-    placement?: PlacementPayload;
+    placement?: SignaturePlacement;
+    placements?: PdfSignaturePlacement[];
+    fieldEntries?: FieldEntryPayload[];
+    // how date fields are written: the signer's calendar and digits
+    dateDisplay?: DateDisplay;
     meta?: SignatureMetaPayload;
   };
 
   try {
     payload = await request.json();
   } catch {
-    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
-  }
-
-  if (!payload.inviteeId || !payload.mergedDataUrl) {
-    return NextResponse.json(
-      { error: "Missing invitee or signature payload." },
-      { status: 400 }
-    );
+    return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
   }
 
   const meta = payload.meta ?? {};
   const mode = meta.mode ?? "draw";
-  const opacity = meta.opacity ?? 1;
 
   const { data: documentRow, error: documentError } = await supabase
     .from("project_documents")
-    .select("file_type, current_version")
+    .select(
+      `file_path, file_type, current_version, voided_at, shared_with_all, document_permissions(invitee_id, can_view, can_edit), document_versions(merged_file_path, version, is_certificate), document_signers(invitee_id, step), document_signatures(invitee_id, status), document_fields(${documentFieldColumns})`
+    )
     .eq("id", documentId)
     .eq("project_id", projectId)
+    .is("deleted_at", null)
     .single();
 
   if (documentError || !documentRow) {
-    return NextResponse.json({ error: "Document not found." }, { status: 404 });
+    return NextResponse.json({ error: "document_not_found" }, { status: 404 });
   }
 
   const typedDocument = documentRow as DocumentRow;
 
-  if (typedDocument.file_type !== "image") {
+  if (!canSignDocumentRow(typedDocument, invitee)) {
     return NextResponse.json(
-      { error: "امضای مستقیم برای اسناد PDF هنوز پشتیبانی نمی‌شود." },
-      { status: 400 }
+      { error: "sign_forbidden" },
+      { status: 403 }
     );
   }
 
-  let overlayPath: string | null = null;
-  if (payload.overlayDataUrl) {
-    try {
-      const overlayBuffer = dataUrlToBuffer(payload.overlayDataUrl);
-      overlayPath = buildOverlayPath(projectId, documentId, payload.inviteeId);
-      await uploadDocumentFile(overlayPath, overlayBuffer, "image/png");
-    } catch (error: unknown) {
-      handleStorageError(error);
+  if (isCompletedDocument(typedDocument)) {
+    return NextResponse.json(
+      { error: "document_completed" },
+      { status: 409 }
+    );
+  }
+
+  if (isVoidedDocument(typedDocument)) {
+    return NextResponse.json(
+      { error: "document_voided" },
+      { status: 409 }
+    );
+  }
+
+  const signers: SigningStep[] = (typedDocument.document_signers ?? []).map(
+    (signer) => ({ inviteeId: signer.invitee_id, step: signer.step })
+  );
+  const signedInviteeIds = (typedDocument.document_signatures ?? [])
+    .filter(isSignedRow)
+    .map((signature) => signature.invitee_id);
+
+  if (signers.length && !signers.some((signer) => signer.inviteeId === invitee.id)) {
+    return NextResponse.json(
+      { error: "not_a_signer" },
+      { status: 403 }
+    );
+  }
+
+  if (!isSigningTurn(signers, signedInviteeIds, invitee.id)) {
+    return NextResponse.json(
+      { error: "signing_out_of_turn" },
+      { status: 409 }
+    );
+  }
+
+  const isPdf = typedDocument.file_type === "pdf";
+  const ownFields = (typedDocument.document_fields ?? [])
+    .map(mapDocumentFieldRow)
+    .filter((field) => field.inviteeId === invitee.id);
+  const stamps: Array<{ image: Buffer; placement: PdfSignaturePlacement }> = [];
+  const filledFields: Array<{ id: string; value: string | null }> = [];
+  let overlayBuffer: Buffer | null = null;
+
+  // Page sizes give date and text fields their real shape.
+  let source: Uint8Array;
+  let pageSizes: Array<{ width?: number; height?: number }>;
+  try {
+    source = await downloadDocumentFile(getCurrentDocumentPath(typedDocument));
+    pageSizes = isPdf ? await getPdfPageSizes(source) : [await getImageSize(source)];
+  } catch (error) {
+    console.error("document load error", error);
+    return NextResponse.json(
+      { error: isPdf ? "pdf_merge_failed" : "image_merge_failed" },
+      { status: 500 }
+    );
+  }
+  const pageCount = pageSizes.length;
+
+  if (ownFields.length) {
+    const entries: unknown = payload.fieldEntries ?? [];
+    if (!Array.isArray(entries) || !entries.every(isFieldEntry)) {
+      return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
+    }
+
+    if (
+      entries.some(
+        (entry) => !ownFields.some((field) => field.id === entry.fieldId)
+      )
+    ) {
       return NextResponse.json(
-        { error: "Failed to store signature overlay." },
-        { status: 500 }
+        { error: "field_forbidden" },
+        { status: 403 }
       );
     }
-  }
 
-  const mergedBuffer = (() => {
-    try {
-      return dataUrlToBuffer(payload.mergedDataUrl);
-    } catch (error) {
-      console.error("merged parse error", error);
-      return null;
+    const missingRequired = ownFields.some(
+      (field) =>
+        field.required && !entries.some((entry) => entry.fieldId === field.id)
+    );
+
+    if (missingRequired || !entries.length) {
+      return NextResponse.json(
+        { error: "fields_incomplete" },
+        { status: 400 }
+      );
     }
-  })();
 
-  if (!mergedBuffer) {
+    const dateDisplay = parseDateDisplay(payload.dateDisplay);
+    let signatureOverlay: Buffer | null = null;
+    let firstOverlay: Buffer | null = null;
+    for (const field of ownFields) {
+      const entry = entries.find((item) => item.fieldId === field.id);
+      if (!entry) continue;
+
+      const value =
+        typeof entry.value === "string"
+          ? entry.value.trim().slice(0, maxFieldValueLength)
+          : "";
+      if (!isImageField(field.fieldType) && !value) {
+        return NextResponse.json(
+          { error: "fields_incomplete" },
+          { status: 400 }
+        );
+      }
+      if (field.fieldType === "date" && !isCalendarDate(value)) {
+        return NextResponse.json(
+          { error: "field_date_invalid" },
+          { status: 400 }
+        );
+      }
+
+      let image: Buffer | null;
+      if (isImageField(field.fieldType)) {
+        image = parsePngDataUrl(entry.imageDataUrl);
+      } else {
+        const page = pageSizes[field.page - 1];
+        const aspect =
+          (field.width * (page?.width ?? 1)) / (field.height * (page?.height ?? 1));
+        try {
+          image = await renderFieldTextImage(
+            field.fieldType === "date" ? formatDate(value, dateDisplay) : value,
+            aspect
+          );
+        } catch (renderError) {
+          console.error("field render error", renderError);
+          return NextResponse.json(
+            { error: isPdf ? "pdf_merge_failed" : "image_merge_failed" },
+            { status: 500 }
+          );
+        }
+      }
+      if (!image) {
+        return NextResponse.json(
+          { error: "signature_image_invalid" },
+          { status: 400 }
+        );
+      }
+
+      stamps.push({
+        image,
+        placement: {
+          page: field.page,
+          x: field.x,
+          y: field.y,
+          width: field.width,
+          height: field.height,
+        },
+      });
+      filledFields.push({
+        id: field.id,
+        value: isImageField(field.fieldType) ? null : value,
+      });
+      if (field.fieldType === "signature") signatureOverlay ??= image;
+      firstOverlay ??= image;
+    }
+
+    // The stored overlay is the signer's signature when they placed one.
+    overlayBuffer = signatureOverlay ?? firstOverlay;
+  } else {
+    const requested: unknown = isPdf ? payload.placements : payload.placement;
+
+    if (
+      !payload.overlayDataUrl ||
+      requested === undefined ||
+      requested === null ||
+      (Array.isArray(requested) && !requested.length)
+    ) {
+      return NextResponse.json(
+        { error: "signature_missing" },
+        { status: 400 }
+      );
+    }
+
+    const requestedValid = isPdf
+      ? Array.isArray(requested) &&
+        requested.every((placement) => isValidPdfPlacement(placement, pageCount))
+      : isValidPlacement(requested);
+
+    if (!requestedValid) {
+      return NextResponse.json(
+        { error: "signature_placement_invalid" },
+        { status: 400 }
+      );
+    }
+
+    overlayBuffer = parsePngDataUrl(payload.overlayDataUrl);
+    if (!overlayBuffer) {
+      return NextResponse.json(
+        { error: "signature_image_invalid" },
+        { status: 400 }
+      );
+    }
+
+    const image = overlayBuffer;
+    stamps.push(
+      ...(isPdf
+        ? (requested as PdfSignaturePlacement[])
+        : [{ ...(requested as SignaturePlacement), page: 1 }]
+      ).map((placement) => ({ image, placement }))
+    );
+  }
+
+  if (!overlayBuffer || !stamps.length) {
     return NextResponse.json(
-      { error: "Invalid merged image data." },
+      { error: "signature_missing" },
       { status: 400 }
     );
   }
 
-  const nextVersion = (typedDocument.current_version ?? 1) + 1;
-  const mergedPath = buildMergedPath(projectId, documentId, nextVersion, "png");
+  const placementsValid = stamps.every(({ placement }) =>
+    isPdf ? isValidPdfPlacement(placement, pageCount) : isValidPlacement(placement)
+  );
 
-  try {
-    await uploadDocumentFile(mergedPath, mergedBuffer, "image/png");
-  } catch (mergeUploadError: unknown) {
-    handleStorageError(mergeUploadError);
+  if (!placementsValid) {
     return NextResponse.json(
-      { error: "Failed to store merged document." },
-      { status: 500 }
+      { error: "signature_placement_invalid" },
+      { status: 400 }
     );
   }
 
-  const versionPayload: DocumentVersionInsert = {
-    document_id: documentId,
-    version: nextVersion,
-    merged_file_path: mergedPath,
+  const stampAll = async (base: Uint8Array) => {
+    if (isPdf) return stampImagesOnPdf(base, stamps);
+    let merged = base;
+    for (const { image, placement } of stamps) {
+      merged = await stampSignatureOnImage(merged, image, placement);
+    }
+    return merged;
   };
 
-  const { error: versionInsertError } = await supabase
-    .from("document_versions")
-    .insert(versionPayload as unknown as never);
+  let mergedBuffer: Uint8Array;
+  try {
+    mergedBuffer = await stampAll(source);
+  } catch (error) {
+    console.error("signature stamp error", error);
+    return NextResponse.json(
+      { error: isPdf ? "pdf_merge_failed" : "image_merge_failed" },
+      { status: 500 }
+    );
+  }
+
+  const overlayPath = buildOverlayPath(projectId, documentId, invitee.id);
+  try {
+    await uploadDocumentFile(overlayPath, overlayBuffer, "image/png");
+  } catch (error: unknown) {
+    handleStorageError(error);
+    return NextResponse.json(
+      { error: "signature_store_failed" },
+      { status: 500 }
+    );
+  }
 
-  if (versionInsertError) {
-    console.error("version insert error", versionInsertError);
+  // A parallel signer who takes the version number first becomes the new
+  // source: this signature is stamped again on top of theirs.
+  let nextVersion: number;
+  try {
+    ({ version: nextVersion } = await addDocumentVersion({
+      documentId,
+      document: typedDocument,
+      buildPath: (version) =>
+        buildMergedPath(projectId, documentId, version, isPdf ? "pdf" : "png"),
+      build: async (latest) => {
+        if (latest) {
+          source = await downloadDocumentFile(getCurrentDocumentPath(latest));
+          mergedBuffer = await stampAll(source);
+        }
+        const columns: DocumentVersionColumns = { created_by: invitee.id };
+        return {
+          file: Buffer.from(mergedBuffer),
+          contentType: isPdf ? "application/pdf" : "image/png",
+          columns,
+          hashes: { source_sha256: sha256Hex(source), sha256: sha256Hex(mergedBuffer) },
+        };
+      },
+    }));
+  } catch (versionError: unknown) {
+    handleStorageError(versionError);
     return NextResponse.json(
-      { error: "Failed to store document version." },
+      { error: "signed_document_store_failed" },
       { status: 500 }
     );
   }
@@ -185,30 +523,33 @@ export async function POST(
   if (docUpdateError) {
     console.error("document update error", docUpdateError);
     return NextResponse.json(
-      { error: "Failed to update document state." },
+      { error: "document_update_failed" },
       { status: 500 }
     );
   }
 
-  const placementPayload = payload.placement
-    ? {
-        ...payload.placement,
-        opacity,
-        mode,
-        penColor: meta.penColor ?? null,
-        penWidth: meta.penWidth ?? null,
-        typedSize: meta.typedSize ?? null,
-        uploadedFileName: meta.uploadedFileName ?? null,
-      }
-    : null;
+  const strokeMeta = {
+    mode,
+    penColor: meta.penColor ?? null,
+    penWidth: meta.penWidth ?? null,
+    typedSize: meta.typedSize ?? null,
+    uploadedFileName: meta.uploadedFileName ?? null,
+  };
+
+  const placementPayload = ownFields.length
+    ? { fields: filledFields.map((field) => field.id), ...strokeMeta }
+    : isPdf
+    ? { placements: stamps.map((stamp) => stamp.placement), ...strokeMeta }
+    : { ...payload.placement, ...strokeMeta };
 
   const typedText = mode === "typed" ? meta.typedText ?? null : null;
   const typedFont = mode === "typed" ? meta.typedFont ?? null : null;
   const typedColor = mode === "typed" ? meta.typedColor ?? null : null;
+  const { ipAddress, userAgent } = getRequestClientInfo(request);
 
   const signaturePayload: SignatureUpsertPayload = {
     document_id: documentId,
-    invitee_id: payload.inviteeId,
+    invitee_id: invitee.id,
     version: nextVersion,
     overlay_image_path: overlayPath,
     strokes_json: placementPayload,
@@ -216,6 +557,16 @@ export async function POST(
     typed_font: typedFont,
     typed_color: typedColor,
     signed_at: new Date().toISOString(),
+    ip_address: ipAddress,
+    user_agent: userAgent,
+    // Signing after a decline, a void or a revision replaces that record.
+    status: "signed",
+    decline_reason: null,
+    declined_at: null,
+    voided_at: null,
+    voided_by: null,
+    void_reason: null,
+    stale_at: null,
   };
 
   const { error: upsertError } = await supabase
@@ -225,15 +576,34 @@ export async function POST(
   if (upsertError) {
     console.error("signature upsert error", upsertError);
     return NextResponse.json(
-      { error: "Failed to record signature." },
+      { error: "signature_record_failed" },
       { status: 500 }
     );
   }
 
+  for (const field of filledFields) {
+    const fieldPayload: FieldUpdatePayload = {
+      value: field.value,
+      filled_at: signaturePayload.signed_at,
+    };
+    const { error: fieldError } = await supabase
+      .from("document_fields")
+      .update(fieldPayload as unknown as never)
+      .eq("id", field.id);
+
+    if (fieldError) {
+      console.error("field update error", fieldError);
+      return NextResponse.json(
+        { error: "document_fields_failed" },
+        { status: 500 }
+      );
+    }
+  }
+
   await logServerActivity({
     projectId,
-    inviteeId: payload.inviteeId,
-    actorName: payload.actorName ?? null,
+    inviteeId: invitee.id,
+    actorName: invitee.name,
     action: "document_signed",
     details: {
       summary: "سند امضا شد",
@@ -241,7 +611,68 @@ export async function POST(
     },
   });
 
-  return NextResponse.json({ success: true, version: nextVersion });
+  if (signers.length) {
+    const signedAfter = Array.from(new Set([...signedInviteeIds, invitee.id]));
+    const previousStep = getCurrentSigningStep(signers, signedInviteeIds);
+    const nextStep = getCurrentSigningStep(signers, signedAfter);
+    if (nextStep !== null && nextStep !== previousStep) {
+      const turnInviteeIds = getSignersOnTurn(signers, signedAfter);
+      await logServerActivity({
+        projectId,
+        inviteeId: invitee.id,
+        actorName: invitee.name,
+        action: "signing_turn_advanced",
+        details: {
+          summary: "نوبت امضا به مرحله بعد رسید",
+          data: {
+            documentId,
+            step: nextStep,
+            inviteeIds: turnInviteeIds,
+          },
+        },
+      });
+      after(() =>
+        notifyInvitees({
+          projectId,
+          inviteeIds: turnInviteeIds,
+          event: {
+            type: "signingTurn",
+            documentName: typedDocument.file_path.split("/").pop() ?? documentId,
+          },
+          baseUrl: request.nextUrl.origin,
+        })
+      );
+    }
+  }
+
+  // The signature is already stored at this point, so a failed certificate
+  // is only logged; signing again retries it.
+  const certificateVersion = await issueCompletionCertificate(
+    projectId,
+    documentId
+  ).catch((error) => {
+    console.error("certificate issue error", error);
+    return null;
+  });
+
+  if (certificateVersion) {
+    await logServerActivity({
+      projectId,
+      inviteeId: invitee.id,
+      actorName: invitee.name,
+      action: "document_completed",
+      details: {
+        summary: "گواهی تکمیل امضا صادر شد",
+        data: { documentId, version: certificateVersion },
+      },
+    });
+  }
+
+  return NextResponse.json({
+    success: true,
+    version: certificateVersion ?? nextVersion,
+    completed: Boolean(certificateVersion),
+  });
 }
 
 
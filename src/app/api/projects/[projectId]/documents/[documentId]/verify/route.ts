@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { getSessionInvitee } from "@/lib/auth";
+import { sha256Hex } from "@/lib/audit";
+import {
+  canViewDocumentRow,
+  downloadDocumentFile,
+  isCompletedDocument,
+  isSignedRow,
+  type DocumentAccessRow,
+} from "@/lib/documents";
+import { isOrganizerRole } from "@/lib/roles";
+
+type VerifyDocumentRow = DocumentAccessRow & {
+  current_version: number;
+  document_versions?: Array<{
+    version: number;
+    merged_file_path: string;
+    source_sha256: string | null;
+    sha256: string | null;
+    is_certificate: boolean | null;
+    is_revision: boolean | null;
+    created_at: string;
+  }>;
+  document_signatures?: Array<{
+    invitee_id: string;
+    version: number;
+    status: string;
+    signed_at: string | null;
+    ip_address: string | null;
+    user_agent: string | null;
+  }>;
+};
+
+type VersionCheck = {
+  version: number;
+  isCertificate: boolean;
+  isRevision: boolean;
+  createdAt: string;
+  sha256: string | null;
+  sourceSha256: string | null;
+  computedSha256: string | null;
+  status: "match" | "mismatch" | "unrecorded" | "file_missing";
+  chained: boolean;
+};
+
+/**
+ * Recomputes the SHA-256 of every stored version and checks it against the
+ * recorded hash, and that each version was built from an earlier one (the
+ * one before it, or the one a void rolled back to). Revisions are new
+ * originals and have no source.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; documentId: string }> }
+) {
+  const { projectId, documentId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  const { data: document, error } = await supabase
+    .from("project_documents")
+    .select(
+      "current_version, shared_with_all, document_permissions(invitee_id, can_view), document_versions(version, merged_file_path, source_sha256, sha256, is_certificate, is_revision, created_at), document_signatures(invitee_id, version, status, signed_at, ip_address, user_agent)"
+    )
+    .eq("id", documentId)
+    .eq("project_id", projectId)
+    .is("deleted_at", null)
+    .single();
+
+  if (error || !document) {
+    return NextResponse.json(
+      { error: "document_not_found" },
+      { status: 404 }
+    );
+  }
+
+  const typedDocument = document as VerifyDocumentRow;
+
+  if (!canViewDocumentRow(typedDocument, invitee)) {
+    return NextResponse.json(
+      { error: "access_denied" },
+      { status: 403 }
+    );
+  }
+
+  const versions = [...(typedDocument.document_versions ?? [])].sort(
+    (a, b) => a.version - b.version
+  );
+
+  // One file at a time keeps memory flat for documents with many versions.
+  const checks: VersionCheck[] = [];
+  for (const [index, version] of versions.entries()) {
+    let computedSha256: string | null = null;
+    try {
+      computedSha256 = sha256Hex(await downloadDocumentFile(version.merged_file_path));
+    } catch (downloadError) {
+      console.error("verify download error", downloadError);
+    }
+
+    const earlier = versions.slice(0, index);
+    checks.push({
+      version: version.version,
+      isCertificate: Boolean(version.is_certificate),
+      isRevision: Boolean(version.is_revision),
+      createdAt: version.created_at,
+      sha256: version.sha256,
+      sourceSha256: version.source_sha256,
+      computedSha256,
+      status: !computedSha256
+        ? "file_missing"
+        : !version.sha256
+        ? "unrecorded"
+        : computedSha256 === version.sha256
+        ? "match"
+        : "mismatch",
+      chained:
+        earlier.length && !version.is_revision
+          ? earlier.some(
+              (item) => Boolean(item.sha256) && version.source_sha256 === item.sha256
+            )
+          : true,
+    });
+  }
+
+  const { data: inviteeRows } = await supabase
+    .from("project_invitees")
+    .select("id, name")
+    .eq("project_id", projectId);
+
+  const inviteeNames = new Map(
+    ((inviteeRows as Array<{ id: string; name: string }> | null) ?? []).map(
+      (row) => [row.id, row.name]
+    )
+  );
+  const showClientInfo = isOrganizerRole(invitee.role);
+
+  const signers = (typedDocument.document_signatures ?? [])
+    .filter((signature) => isSignedRow(signature) && signature.signed_at)
+    .map((signature) => ({
+      inviteeId: signature.invitee_id,
+      name: inviteeNames.get(signature.invitee_id) ?? null,
+      version: signature.version,
+      signedAt: signature.signed_at,
+      ipAddress: showClientInfo ? signature.ip_address : null,
+      userAgent: showClientInfo ? signature.user_agent : null,
+    }));
+
+  return NextResponse.json({
+    valid:
+      checks.length > 0 &&
+      checks.every((check) => check.status === "match" && check.chained),
+    completed: isCompletedDocument(typedDocument),
+    versions: checks,
+    signers,
+  });
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { getSessionInvitee } from "@/lib/auth";
+import {
+  canViewDocumentRow,
+  getVersionFileType,
+  type DocumentAccessRow,
+} from "@/lib/documents";
+import type { DocumentVersionEntry } from "@/types";
+
+type VersionsDocumentRow = DocumentAccessRow & {
+  current_version: number;
+  uploaded_by: string | null;
+  document_versions?: Array<{
+    version: number;
+    merged_file_path: string;
+    is_certificate: boolean | null;
+    is_revision: boolean | null;
+    created_by: string | null;
+    created_at: string;
+  }>;
+  document_signatures?: Array<{ invitee_id: string; version: number }>;
+};
+
+/** Every stored version of the document, oldest first, with who made it. */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; documentId: string }> }
+) {
+  const { projectId, documentId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  const { data: document, error } = await supabase
+    .from("project_documents")
+    .select(
+      "current_version, uploaded_by, shared_with_all, document_permissions(invitee_id, can_view), document_versions(version, merged_file_path, is_certificate, is_revision, created_by, created_at), document_signatures(invitee_id, version)"
+    )
+    .eq("id", documentId)
+    .eq("project_id", projectId)
+    .is("deleted_at", null)
+    .single();
+
+  if (error || !document) {
+    return NextResponse.json(
+      { error: "document_not_found" },
+      { status: 404 }
+    );
+  }
+
+  const typedDocument = document as VersionsDocumentRow;
+
+  if (!canViewDocumentRow(typedDocument, invitee)) {
+    return NextResponse.json(
+      { error: "access_denied" },
+      { status: 403 }
+    );
+  }
+
+  const { data: inviteeRows } = await supabase
+    .from("project_invitees")
+    .select("id, name")
+    .eq("project_id", projectId);
+
+  const inviteeNames = new Map(
+    ((inviteeRows as Array<{ id: string; name: string }> | null) ?? []).map(
+      (row) => [row.id, row.name]
+    )
+  );
+
+  // Versions stored before `created_by` existed fall back to the uploader
+  // for v1 and to the signature recorded against the version.
+  const versions: DocumentVersionEntry[] = [...(typedDocument.document_versions ?? [])]
+    .sort((a, b) => a.version - b.version)
+    .map((version) => {
+      const createdBy = version.is_certificate
+        ? null
+        : version.created_by ??
+          (version.version === 1
+            ? typedDocument.uploaded_by
+            : typedDocument.document_signatures?.find(
+                (signature) => signature.version === version.version
+              )?.invitee_id ?? null);
+      return {
+        version: version.version,
+        fileType: getVersionFileType(version.merged_file_path),
+        isCertificate: Boolean(version.is_certificate),
+        isRevision: Boolean(version.is_revision),
+        isCurrent: version.version === typedDocument.current_version,
+        createdBy,
+        createdByName: createdBy ? inviteeNames.get(createdBy) ?? null : null,
+        createdAt: version.created_at,
+      };
+    });
+
+  return NextResponse.json({
+    currentVersion: typedDocument.current_version,
+    versions,
+  });
+}
@@ -0,0 +1,268 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { getSessionInvitee } from "@/lib/auth";
+import {
+  downloadDocumentFile,
+  getVersionFileType,
+  isCompletedDocument,
+  isSignedRow,
+  isVoidedDocument,
+} from "@/lib/documents";
+import { logServerActivity } from "@/lib/logging";
+import { countPdfPages } from "@/lib/pdf";
+import { isOrganizerRole } from "@/lib/roles";
+
+type VoidDocumentRow = {
+  file_type: string;
+  total_pages: number | null;
+  current_version: number;
+  voided_at: string | null;
+  document_versions?: Array<{
+    version: number;
+    merged_file_path: string;
+    is_certificate: boolean | null;
+    is_revision: boolean | null;
+  }>;
+  document_signatures?: Array<{
+    invitee_id: string;
+    version: number;
+    status: string;
+  }>;
+};
+
+type SignatureVoidPayload = {
+  status: "voided";
+  voided_at: string;
+  voided_by: string;
+  void_reason: string | null;
+};
+
+type FieldResetPayload = {
+  value: null;
+  filled_at: null;
+};
+
+type DocumentVoidPayload = {
+  current_version: number;
+  file_type: string;
+  total_pages: number | null;
+  voided_at?: string;
+  voided_by?: string;
+  void_reason?: string | null;
+};
+
+const maxReasonLength = 500;
+
+/**
+ * Voids one invitee's signature, or the whole document when no `inviteeId`
+ * is given, and rolls `current_version` back to `version`. Signatures
+ * stamped after that version are voided along with it, since the file no
+ * longer carries them; a voided document is closed to further signing.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; documentId: string }> }
+) {
+  const { projectId, documentId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  let payload: { inviteeId?: unknown; version?: unknown; reason?: unknown };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
+  }
+
+  const { data: documentRow, error: documentError } = await supabase
+    .from("project_documents")
+    .select(
+      "file_type, total_pages, current_version, voided_at, document_versions(version, merged_file_path, is_certificate, is_revision), document_signatures(invitee_id, version, status)"
+    )
+    .eq("id", documentId)
+    .eq("project_id", projectId)
+    .is("deleted_at", null)
+    .single();
+
+  if (documentError || !documentRow) {
+    return NextResponse.json({ error: "document_not_found" }, { status: 404 });
+  }
+
+  const document = documentRow as VoidDocumentRow;
+
+  if (isVoidedDocument(document)) {
+    return NextResponse.json(
+      { error: "document_voided" },
+      { status: 409 }
+    );
+  }
+
+  const target = (document.document_versions ?? []).find(
+    (version) =>
+      version.version === payload.version &&
+      version.version <= document.current_version &&
+      !version.is_certificate
+  );
+  if (!target) {
+    return NextResponse.json(
+      { error: "void_version_invalid" },
+      { status: 400 }
+    );
+  }
+
+  const signatures = document.document_signatures ?? [];
+  const wholeDocument = payload.inviteeId == null;
+  let voidedInviteeIds: string[];
+
+  if (wholeDocument) {
+    voidedInviteeIds = signatures
+      .filter((signature) => signature.status !== "voided")
+      .map((signature) => signature.invitee_id);
+  } else {
+    const signature = signatures.find(
+      (item) => item.invitee_id === payload.inviteeId && isSignedRow(item)
+    );
+    if (!signature) {
+      return NextResponse.json(
+        { error: "signature_not_found" },
+        { status: 404 }
+      );
+    }
+    if (target.version >= signature.version) {
+      return NextResponse.json(
+        { error: "void_version_invalid" },
+        { status: 400 }
+      );
+    }
+    voidedInviteeIds = signatures
+      .filter((item) => isSignedRow(item) && item.version > target.version)
+      .map((item) => item.invitee_id);
+  }
+
+  const voidedAt = new Date().toISOString();
+  const reason =
+    typeof payload.reason === "string" && payload.reason.trim()
+      ? payload.reason.trim().slice(0, maxReasonLength)
+      : null;
+
+  // Rolling back past the certificate can return to an image original, and
+  // past a revision to a file with another type or page count.
+  const documentPayload: DocumentVoidPayload = {
+    current_version: target.version,
+    file_type: document.file_type,
+    total_pages: document.total_pages,
+  };
+  const crossesRevision = (document.document_versions ?? []).some(
+    (version) =>
+      version.is_revision &&
+      version.version > target.version &&
+      version.version <= document.current_version
+  );
+  if (isCompletedDocument(document) || crossesRevision) {
+    documentPayload.file_type = getVersionFileType(target.merged_file_path);
+    const isPdf = documentPayload.file_type === "pdf";
+    try {
+      documentPayload.total_pages = isPdf
+        ? await countPdfPages(await downloadDocumentFile(target.merged_file_path))
+        : null;
+    } catch (error) {
+      console.error("void page count error", error);
+      return NextResponse.json(
+        { error: "document_void_failed" },
+        { status: 500 }
+      );
+    }
+  }
+  if (wholeDocument) {
+    documentPayload.voided_at = voidedAt;
+    documentPayload.voided_by = invitee.id;
+    documentPayload.void_reason = reason;
+  }
+
+  if (voidedInviteeIds.length) {
+    const signaturePayload: SignatureVoidPayload = {
+      status: "voided",
+      voided_at: voidedAt,
+      voided_by: invitee.id,
+      void_reason: reason,
+    };
+    const { error: signatureError } = await supabase
+      .from("document_signatures")
+      .update(signaturePayload as unknown as never)
+      .eq("document_id", documentId)
+      .in("invitee_id", voidedInviteeIds);
+
+    if (signatureError) {
+      console.error("signature void error", signatureError);
+      return NextResponse.json(
+        { error: "document_void_failed" },
+        { status: 500 }
+      );
+    }
+
+    // Their fields are empty again in the version rolled back to.
+    const fieldPayload: FieldResetPayload = { value: null, filled_at: null };
+    const { error: fieldError } = await supabase
+      .from("document_fields")
+      .update(fieldPayload as unknown as never)
+      .eq("document_id", documentId)
+      .in("invitee_id", voidedInviteeIds);
+
+    if (fieldError) {
+      console.error("field reset error", fieldError);
+      return NextResponse.json(
+        { error: "document_void_failed" },
+        { status: 500 }
+      );
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from("project_documents")
+    .update(documentPayload as unknown as never)
+    .eq("id", documentId);
+
+  if (updateError) {
+    console.error("document void error", updateError);
+    return NextResponse.json(
+      { error: "document_void_failed" },
+      { status: 500 }
+    );
+  }
+
+  await logServerActivity({
+    projectId,
+    inviteeId: invitee.id,
+    actorName: invitee.name,
+    action: wholeDocument ? "document_voided" : "signature_voided",
+    details: {
+      summary: wholeDocument ? "سند باطل شد" : "امضا باطل شد",
+      data: {
+        documentId,
+        version: target.version,
+        inviteeIds: voidedInviteeIds,
+        reason,
+      },
+    },
+  });
+
+  return NextResponse.json({
+    success: true,
+    version: target.version,
+    voidedInviteeIds,
+  });
+}
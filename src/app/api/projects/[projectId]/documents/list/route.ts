@@ -4,6 +4,8 @@ import {
   filterDocumentsForInvitee,
   type DocumentQueryRow,
 } from "@/lib/documents";
+import { getSessionInvitee } from "@/lib/auth";
+import { isOrganizerRole } from "@/lib/roles";
 
 export async function GET(
   request: NextRequest,
@@ -12,36 +14,50 @@ export async function GET(
   try {
     const { projectId } = await context.params;
     const supabase = getServiceSupabaseClient();
+    const invitee = await getSessionInvitee(request, projectId);
+    if (!invitee) {
+      return NextResponse.json(
+        { error: "auth_required" },
+        { status: 401 }
+      );
+    }
     const searchParams = request.nextUrl.searchParams;
-    const inviteeId = searchParams.get("inviteeId");
     const includeAllParam = searchParams.get("includeAll") ?? "";
     const includeAll = ["1", "true", "yes"].includes(
       includeAllParam.toLowerCase()
     );
 
+    if (includeAll && !isOrganizerRole(invitee.role)) {
+      return NextResponse.json(
+        { error: "organizer_only" },
+        { status: 403 }
+      );
+    }
+
     const { data, error } = await supabase
       .from("project_documents")
       .select(
-        "id, project_id, file_path, file_type, total_pages, current_version, uploaded_by, shared_with_all, created_at, document_permissions(document_id, invitee_id, can_view, can_edit, created_at), document_versions(id, document_id, version, merged_file_path, created_at), document_signatures(id, document_id, invitee_id, version, strokes_json, typed_text, typed_font, typed_color, uploaded_signature_path, overlay_image_path, signed_at, created_at), document_notes(id, document_id, invitee_id, content, visible_to, allow_replies, created_at, document_note_replies(id, note_id, invitee_id, content, created_at)))"
+        "id, project_id, file_path, file_type, total_pages, current_version, uploaded_by, shared_with_all, voided_at, void_reason, due_at, created_at, document_permissions(document_id, invitee_id, can_view, can_edit, created_at), document_signers(document_id, invitee_id, step), document_versions(id, document_id, version, merged_file_path, sha256, is_certificate, is_revision, created_by, created_at), document_signatures(id, document_id, invitee_id, version, status, decline_reason, declined_at, voided_at, void_reason, stale_at, strokes_json, typed_text, typed_font, typed_color, uploaded_signature_path, overlay_image_path, signed_at, created_at), document_notes(id, document_id, invitee_id, content, visible_to, allow_replies, created_at, document_note_replies(id, note_id, invitee_id, content, created_at)))"
       )
-      .eq("project_id", projectId);
+      .eq("project_id", projectId)
+      .is("deleted_at", null);
 
     if (error) {
       console.error("documents list fetch error", error);
       return NextResponse.json(
-        { error: "دریافت اسناد با خطا مواجه شد." },
+        { error: "documents_fetch_failed" },
         { status: 500 }
       );
     }
 
     const rows = (data ?? []) as DocumentQueryRow[];
-    const documents = filterDocumentsForInvitee(rows, inviteeId, includeAll);
+    const documents = filterDocumentsForInvitee(rows, invitee.id, includeAll);
 
     return NextResponse.json({ documents });
   } catch (error) {
     console.error("documents list api error", error);
     return NextResponse.json(
-      { error: "دریافت اسناد با خطا مواجه شد." },
+      { error: "documents_fetch_failed" },
       { status: 500 }
     );
   }
@@ -1,10 +1,26 @@
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
 import { getServiceSupabaseClient } from "@/lib/serverSupabase";
 import {
   buildDocumentPath,
+  canSignDocumentRow,
+  canViewDocumentRow,
+  getUploadFileType,
   uploadDocumentFile,
 } from "@/lib/documents";
+import { sha256Hex } from "@/lib/audit";
+import { isIsoDate } from "@/lib/availability";
 import { logServerActivity } from "@/lib/logging";
+import { notifyInvitees } from "@/lib/notifications";
+import { countPdfPages } from "@/lib/pdf";
+import { getSessionInvitee } from "@/lib/auth";
+import { isInviteeRole, isOrganizerRole } from "@/lib/roles";
+import {
+  getSignersOnTurn,
+  normalizeSigningOrder,
+  type SigningStep,
+} from "@/lib/signingOrder";
+import { defaultProjectTimeZone, dueDateToInstant } from "@/lib/timezone";
+import type { InviteeRole } from "@/types";
 import { randomUUID } from "crypto";
 
 const bucket =
@@ -19,6 +35,7 @@ type DocumentInsertPayload = {
   current_version: number;
   uploaded_by: string | null;
   shared_with_all: boolean;
+  due_at: string | null;
 };
 
 type PermissionInsertPayload = {
@@ -28,10 +45,18 @@ type PermissionInsertPayload = {
   can_edit: boolean;
 };
 
+type SignerInsertPayload = {
+  document_id: string;
+  invitee_id: string;
+  step: number;
+};
+
 type DocumentVersionInsertPayload = {
   document_id: string;
   version: number;
   merged_file_path: string;
+  sha256: string;
+  created_by: string;
 };
 
 type DocumentRowOut = {
@@ -43,6 +68,7 @@ type DocumentRowOut = {
   current_version: number;
   uploaded_by: string | null;
   shared_with_all: boolean;
+  due_at: string | null;
   created_at: string;
 };
 
@@ -61,20 +87,35 @@ export async function POST(
   const { projectId } = await context.params;
   const supabase = getServiceSupabaseClient();
 
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
   const formData = await request.formData();
   const metadataRaw = formData.get("metadata");
   const file = formData.get("file");
 
   if (!file || !(file instanceof File)) {
     return NextResponse.json(
-      { error: "Missing file upload." },
+      { error: "file_missing" },
       { status: 400 }
     );
   }
 
   if (!metadataRaw || typeof metadataRaw !== "string") {
     return NextResponse.json(
-      { error: "Missing metadata payload." },
+      { error: "metadata_missing" },
       { status: 400 }
     );
   }
@@ -86,31 +127,88 @@ export async function POST(
       canView: boolean;
       canEdit: boolean;
     }>;
-    uploadedBy?: string | null;
+    signingOrder?: SigningStep[];
+    dueDate?: string | null;
   };
 
   try {
     metadata = JSON.parse(metadataRaw);
   } catch {
     return NextResponse.json(
-      { error: "Invalid metadata JSON." },
+      { error: "metadata_invalid" },
       { status: 400 }
     );
   }
 
-  const extension = file.name.split(".").pop()?.toLowerCase();
-  const mimeType = file.type;
-  const isPdf =
-    mimeType === "application/pdf" || extension === "pdf";
-  const isImage = mimeType.startsWith("image/") || ["png", "jpg", "jpeg"].includes(extension ?? "");
+  if (metadata.dueDate && !isIsoDate(metadata.dueDate)) {
+    return NextResponse.json(
+      { error: "due_date_invalid" },
+      { status: 400 }
+    );
+  }
 
-  if (!isPdf && !isImage) {
+  // The deadline is the end of the chosen day in the project's zone.
+  let dueAt: string | null = null;
+  if (metadata.dueDate) {
+    const { data: projectRow } = await supabase
+      .from("projects")
+      .select("time_zone")
+      .eq("id", projectId)
+      .single();
+    dueAt = dueDateToInstant(
+      metadata.dueDate,
+      (projectRow as { time_zone: string | null } | null)?.time_zone ??
+        defaultProjectTimeZone
+    );
+  }
+
+  const fileType = getUploadFileType(file);
+  if (!fileType) {
     return NextResponse.json(
-      { error: "Unsupported file type. Upload PDF or image." },
+      { error: "file_type_unsupported" },
       { status: 400 }
     );
   }
 
+  const { data: inviteeRows } = await supabase
+    .from("project_invitees")
+    .select("id, role")
+    .eq("project_id", projectId)
+    .is("removed_at", null);
+  const projectInvitees = (
+    (inviteeRows as Array<{ id: string; role: string | null }> | null) ?? []
+  ).map((row) => ({
+    id: row.id,
+    role: isInviteeRole(row.role) ? row.role : ("participant" as InviteeRole),
+  }));
+  const accessRow = {
+    shared_with_all: metadata.sharedWithAll ?? true,
+    document_permissions: (metadata.permissions ?? []).map((permission) => ({
+      invitee_id: permission.inviteeId,
+      can_view: permission.canView,
+      can_edit: permission.canEdit,
+    })),
+  };
+
+  // Everyone in the sequence must be able to sign under the permissions
+  // being uploaded with the document.
+  let signingOrder: SigningStep[] = [];
+  if (metadata.signingOrder?.length) {
+    const normalized = normalizeSigningOrder(metadata.signingOrder);
+    const canSign = (inviteeId: string) => {
+      const row = projectInvitees.find((item) => item.id === inviteeId);
+      return Boolean(row && canSignDocumentRow(accessRow, row));
+    };
+
+    if (!normalized || !normalized.every((signer) => canSign(signer.inviteeId))) {
+      return NextResponse.json(
+        { error: "signing_order_invalid" },
+        { status: 400 }
+      );
+    }
+    signingOrder = normalized;
+  }
+
   const documentId = randomUUID();
   const storagePath = buildDocumentPath(projectId, documentId, file.name);
 
@@ -119,22 +217,29 @@ export async function POST(
   } catch (error) {
     console.error("Upload error", error);
     return NextResponse.json(
-      { error: "Failed to upload document." },
+      { error: "document_upload_failed" },
       { status: 500 }
     );
   }
 
-  const fileType = isPdf ? "pdf" : "image";
+  const fileBytes = new Uint8Array(await file.arrayBuffer());
+  const totalPages = fileType === "pdf"
+    ? await countPdfPages(fileBytes).catch((error) => {
+        console.error("PDF page count error", error);
+        return null;
+      })
+    : 1;
 
   const documentPayload: DocumentInsertPayload = {
     id: documentId,
     project_id: projectId,
     file_path: storagePath,
     file_type: fileType,
-    total_pages: null,
+    total_pages: totalPages,
     current_version: 1,
-    uploaded_by: metadata.uploadedBy ?? null,
+    uploaded_by: invitee.id,
     shared_with_all: metadata.sharedWithAll ?? true,
+    due_at: dueAt,
   };
 
   const { data: documentRow, error: insertError } = await supabase
@@ -147,7 +252,7 @@ export async function POST(
     console.error("Document insert error", insertError);
     await supabase.storage.from(bucket).remove([storagePath]).catch(() => undefined);
     return NextResponse.json(
-      { error: "Failed to record document." },
+      { error: "document_create_failed" },
       { status: 500 }
     );
   }
@@ -166,7 +271,27 @@ export async function POST(
 
     if (permissionError) {
       return NextResponse.json(
-        { error: "Failed to store document permissions." },
+        { error: "document_permissions_failed" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (signingOrder.length) {
+    const signerPayload: SignerInsertPayload[] = signingOrder.map((signer) => ({
+      document_id: documentId,
+      invitee_id: signer.inviteeId,
+      step: signer.step,
+    }));
+
+    const { error: signersError } = await supabase
+      .from("document_signers")
+      .insert(signerPayload as unknown as never);
+
+    if (signersError) {
+      console.error("Signers insert error", signersError);
+      return NextResponse.json(
+        { error: "document_signers_failed" },
         { status: 500 }
       );
     }
@@ -176,6 +301,8 @@ export async function POST(
     document_id: documentId,
     version: 1,
     merged_file_path: storagePath,
+    sha256: sha256Hex(fileBytes),
+    created_by: invitee.id,
   };
 
   const { error: versionError, data: versionRow } = await supabase
@@ -187,7 +314,7 @@ export async function POST(
   if (versionError || !versionRow) {
     console.error("Version insert error", versionError);
     return NextResponse.json(
-      { error: "Failed to create document version record." },
+      { error: "document_version_store_failed" },
       { status: 500 }
     );
   }
@@ -197,8 +324,8 @@ export async function POST(
 
   await logServerActivity({
     projectId,
-    inviteeId: metadata.uploadedBy ?? null,
-    actorName: metadata.uploadedBy ?? "organizer",
+    inviteeId: invitee.id,
+    actorName: invitee.name,
     action: "document_uploaded",
     details: {
       summary: "فایل جدید بارگذاری شد",
@@ -206,6 +333,34 @@ export async function POST(
     },
   });
 
+  // Signers whose turn opens right away hear about that instead of the
+  // share, so nobody gets two emails for one upload.
+  const turnInviteeIds = getSignersOnTurn(signingOrder, []);
+  const sharedInviteeIds = projectInvitees
+    .filter(
+      (row) =>
+        row.id !== invitee.id &&
+        !turnInviteeIds.includes(row.id) &&
+        canViewDocumentRow(accessRow, row)
+    )
+    .map((row) => row.id);
+  after(() =>
+    Promise.all([
+      notifyInvitees({
+        projectId,
+        inviteeIds: sharedInviteeIds,
+        event: { type: "documentShared", documentName: file.name },
+        baseUrl: request.nextUrl.origin,
+      }),
+      notifyInvitees({
+        projectId,
+        inviteeIds: turnInviteeIds,
+        event: { type: "signingTurn", documentName: file.name },
+        baseUrl: request.nextUrl.origin,
+      }),
+    ])
+  );
+
   return NextResponse.json(
     {
       document: {
@@ -215,6 +370,7 @@ export async function POST(
         fileType: typedDoc.file_type,
         currentVersion: typedDoc.current_version,
         sharedWithAll: typedDoc.shared_with_all,
+        dueAt: typedDoc.due_at,
         createdAt: typedDoc.created_at,
       },
       version: {
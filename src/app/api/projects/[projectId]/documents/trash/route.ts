@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { getSessionInvitee } from "@/lib/auth";
+import { isOrganizerRole } from "@/lib/roles";
+import { getPurgeAt } from "@/lib/trash";
+import type { TrashedDocument } from "@/types";
+
+type TrashedDocumentRow = {
+  id: string;
+  file_path: string;
+  deleted_at: string;
+  deleted_by: string | null;
+};
+
+/** Documents in the project's trash, most recently deleted first. */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("project_documents")
+    .select("id, file_path, deleted_at, deleted_by")
+    .eq("project_id", projectId)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+
+  if (error) {
+    console.error("trash fetch error", error);
+    return NextResponse.json(
+      { error: "documents_fetch_failed" },
+      { status: 500 }
+    );
+  }
+
+  const { data: inviteeRows } = await supabase
+    .from("project_invitees")
+    .select("id, name")
+    .eq("project_id", projectId);
+
+  const inviteeNames = new Map(
+    ((inviteeRows as Array<{ id: string; name: string }> | null) ?? []).map(
+      (row) => [row.id, row.name]
+    )
+  );
+
+  const documents: TrashedDocument[] = ((data as TrashedDocumentRow[] | null) ?? []).map(
+    (row) => ({
+      id: row.id,
+      name: row.file_path.split("/").pop() ?? row.id,
+      deletedAt: row.deleted_at,
+      deletedByName: row.deleted_by ? inviteeNames.get(row.deleted_by) ?? null : null,
+      purgeAt: getPurgeAt(row.deleted_at),
+    })
+  );
+
+  return NextResponse.json({ documents });
+}
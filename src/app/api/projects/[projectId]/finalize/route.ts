@@ -0,0 +1,163 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { getSessionInvitee } from "@/lib/auth";
+import { isValidSlot } from "@/lib/availability";
+import { logServerActivity } from "@/lib/logging";
+import { notifyInvitees } from "@/lib/notifications";
+import { isOrganizerRole } from "@/lib/roles";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import type { FinalizedSlot } from "@/types";
+
+type FinalizeBody = {
+  date?: string;
+  startTime?: string;
+  endTime?: string;
+  location?: string | null;
+  notes?: string | null;
+};
+
+const isOptionalString = (value: unknown) =>
+  value === undefined || value === null || typeof value === "string";
+
+const requireOrganizer = async (request: NextRequest, projectId: string) => {
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return {
+      invitee: null,
+      response: NextResponse.json(
+        { error: "auth_required" },
+        { status: 401 }
+      ),
+    };
+  }
+  if (!isOrganizerRole(invitee.role)) {
+    return {
+      invitee: null,
+      response: NextResponse.json(
+        { error: "organizer_only" },
+        { status: 403 }
+      ),
+    };
+  }
+  return { invitee, response: null };
+};
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await context.params;
+    const { invitee, response } = await requireOrganizer(request, projectId);
+    if (!invitee) return response;
+
+    const body = (await request.json().catch(() => null)) as FinalizeBody | null;
+    if (!body || !isOptionalString(body.location) || !isOptionalString(body.notes)) {
+      return NextResponse.json(
+        { error: "invalid_payload" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidSlot(body)) {
+      return NextResponse.json(
+        { error: "slot_invalid" },
+        { status: 400 }
+      );
+    }
+
+    const finalizedSlot: FinalizedSlot = {
+      date: body.date as string,
+      startTime: body.startTime as string,
+      endTime: body.endTime as string,
+      location: body.location?.trim() || null,
+      notes: body.notes?.trim() || null,
+      finalizedAt: new Date().toISOString(),
+    };
+
+    const supabase = getServiceSupabaseClient();
+    const { error } = await supabase
+      .from("projects")
+      .update({ finalized_slot: finalizedSlot } as unknown as never)
+      .eq("id", projectId);
+
+    if (error) {
+      console.error("finalize slot error", error);
+      return NextResponse.json(
+        { error: "finalize_failed" },
+        { status: 500 }
+      );
+    }
+
+    await logServerActivity({
+      projectId,
+      inviteeId: invitee.id,
+      actorName: invitee.name,
+      action: "meeting_finalized",
+      details: {
+        summary: "زمان جلسه نهایی شد",
+        data: { ...finalizedSlot },
+      },
+    });
+
+    after(() =>
+      notifyInvitees({
+        projectId,
+        inviteeIds: "all",
+        event: { type: "meetingFinalized", slot: finalizedSlot },
+        baseUrl: request.nextUrl.origin,
+      })
+    );
+
+    return NextResponse.json({ finalizedSlot });
+  } catch (error) {
+    console.error("finalize api error", error);
+    return NextResponse.json(
+      { error: "finalize_failed" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await context.params;
+    const { invitee, response } = await requireOrganizer(request, projectId);
+    if (!invitee) return response;
+
+    const supabase = getServiceSupabaseClient();
+    const { error } = await supabase
+      .from("projects")
+      .update({ finalized_slot: null } as unknown as never)
+      .eq("id", projectId);
+
+    if (error) {
+      console.error("clear finalized slot error", error);
+      return NextResponse.json(
+        { error: "finalize_clear_failed" },
+        { status: 500 }
+      );
+    }
+
+    await logServerActivity({
+      projectId,
+      inviteeId: invitee.id,
+      actorName: invitee.name,
+      action: "meeting_finalized",
+      details: {
+        summary: "زمان نهایی جلسه لغو شد",
+        data: { finalizedSlot: null },
+      },
+    });
+
+    return NextResponse.json({ finalizedSlot: null });
+  } catch (error) {
+    console.error("finalize api error", error);
+    return NextResponse.json(
+      { error: "finalize_clear_failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCalendarFeedInvitee } from "@/lib/auth";
+import {
+  buildAvailabilityEvents,
+  buildCalendar,
+  calendarResponse,
+} from "@/lib/calendar";
+import { isOrganizerRole } from "@/lib/roles";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import type { AvailabilitySlot, ParticipantAvailability } from "@/types";
+
+type ResponseRow = {
+  id: string;
+  project_id: string;
+  invitee_id: string | null;
+  name: string;
+  slots: unknown;
+  created_at: string;
+};
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; inviteeId: string }> }
+) {
+  try {
+    const { projectId, inviteeId } = await context.params;
+    const invitee = await getCalendarFeedInvitee(request, projectId);
+    if (!invitee) {
+      return NextResponse.json(
+        { error: "auth_required" },
+        { status: 401 }
+      );
+    }
+
+    if (invitee.id !== inviteeId && !isOrganizerRole(invitee.role)) {
+      return NextResponse.json(
+        { error: "calendar_forbidden" },
+        { status: 403 }
+      );
+    }
+
+    const supabase = getServiceSupabaseClient();
+    const { data: projectData } = await supabase
+      .from("projects")
+      .select("id, title, time_zone")
+      .eq("id", projectId)
+      .maybeSingle();
+
+    if (!projectData) {
+      return NextResponse.json({ error: "project_not_found" }, { status: 404 });
+    }
+
+    const project = projectData as {
+      id: string;
+      title: string;
+      time_zone: string | null;
+    };
+
+    const { data: responseData } = await supabase
+      .from("availability_responses")
+      .select("id, project_id, invitee_id, name, slots, created_at")
+      .eq("project_id", projectId)
+      .eq("invitee_id", inviteeId)
+      .maybeSingle();
+
+    const row = responseData as ResponseRow | null;
+    const responses: ParticipantAvailability[] = row
+      ? [
+          {
+            id: row.id,
+            projectId: row.project_id,
+            inviteeId: row.invitee_id,
+            name: row.name,
+            slots: Array.isArray(row.slots)
+              ? (row.slots as AvailabilitySlot[])
+              : [],
+            createdAt: row.created_at,
+          },
+        ]
+      : [];
+
+    return calendarResponse(
+      buildCalendar({
+        name: `${project.title} – ${row?.name ?? invitee.name}`,
+        timeZone: project.time_zone ?? undefined,
+        events: buildAvailabilityEvents(
+          project,
+          responses,
+          `${request.nextUrl.origin}/project/${project.id}`
+        ),
+      }),
+      `calfind-${project.id}-${inviteeId}.ics`
+    );
+  } catch (error) {
+    console.error("invitee calendar export error", error);
+    return NextResponse.json(
+      { error: "calendar_export_failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,396 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { revokeAccessLink } from "@/lib/accessLinks";
+import {
+  getSessionInvitee,
+  hashPassword,
+  reissueSessionCookie,
+  revokeInviteeSessions,
+} from "@/lib/auth";
+import {
+  isInviteeNameTaken,
+  isReservedInviteeName,
+  mapProjectInviteeRow,
+  projectInviteeColumns,
+  removeInvitee,
+  type ProjectInviteeRow,
+} from "@/lib/invitees";
+import { logServerActivity } from "@/lib/logging";
+import { isEmailAddress } from "@/lib/mail";
+import { notifyInvitees } from "@/lib/notifications";
+import { assignableInviteeRoles, isInviteeRole, isOrganizerRole } from "@/lib/roles";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import type { InviteeRole } from "@/types";
+
+type UpdateInviteeBody = {
+  name?: string;
+  role?: InviteeRole;
+  // an empty value clears the address or the password
+  email?: string | null;
+  password?: string | null;
+};
+
+const isOptionalString = (value: unknown) =>
+  value === undefined || value === null || typeof value === "string";
+
+const isUpdateInviteeBody = (value: unknown): value is UpdateInviteeBody => {
+  if (!value || typeof value !== "object") return false;
+  const body = value as Record<string, unknown>;
+  return (
+    (body.name === undefined || typeof body.name === "string") &&
+    (body.role === undefined || isInviteeRole(body.role)) &&
+    isOptionalString(body.email) &&
+    isOptionalString(body.password)
+  );
+};
+
+type InviteeUpdatePayload = {
+  name?: string;
+  role?: InviteeRole;
+  email?: string | null;
+  password?: null;
+  password_hash?: string | null;
+};
+
+// Co-organizers manage everyone but the organizer, whose account they
+// could otherwise take over with a new password.
+const requireInviteeManager = async (
+  request: NextRequest,
+  projectId: string,
+  inviteeId: string
+) => {
+  const actor = await getSessionInvitee(request, projectId);
+  if (!actor) {
+    return {
+      actor: null,
+      target: null,
+      response: NextResponse.json(
+        { error: "auth_required" },
+        { status: 401 }
+      ),
+    };
+  }
+  if (!isOrganizerRole(actor.role)) {
+    return {
+      actor: null,
+      target: null,
+      response: NextResponse.json(
+        { error: "organizer_only" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const supabase = getServiceSupabaseClient();
+  const { data } = await supabase
+    .from("project_invitees")
+    .select(projectInviteeColumns)
+    .eq("id", inviteeId)
+    .eq("project_id", projectId)
+    .is("removed_at", null)
+    .maybeSingle();
+
+  const target = data as ProjectInviteeRow | null;
+  if (!target) {
+    return {
+      actor: null,
+      target: null,
+      response: NextResponse.json(
+        { error: "invitee_not_found" },
+        { status: 404 }
+      ),
+    };
+  }
+  if (target.role === "organizer" && actor.role !== "organizer") {
+    return {
+      actor: null,
+      target: null,
+      response: NextResponse.json(
+        { error: "invitee_forbidden" },
+        { status: 403 }
+      ),
+    };
+  }
+  return { actor, target, response: null };
+};
+
+/** Renames an invitee, changes their role or email, or resets their password. */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; inviteeId: string }> }
+) {
+  const { projectId, inviteeId } = await context.params;
+  const { actor, target, response } = await requireInviteeManager(
+    request,
+    projectId,
+    inviteeId
+  );
+  if (!actor) return response;
+
+  const body: unknown = await request.json().catch(() => null);
+  if (!isUpdateInviteeBody(body)) {
+    return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
+  }
+
+  const isOrganizerAccount = target.role === "organizer";
+  const update: InviteeUpdatePayload = {};
+  const changes: Record<string, unknown> = {};
+
+  if (body.name !== undefined) {
+    const name = body.name.trim();
+    if (!name) {
+      return NextResponse.json(
+        { error: "invitee_name_missing" },
+        { status: 400 }
+      );
+    }
+    if (name !== target.name) {
+      if (!isOrganizerAccount && isReservedInviteeName(name)) {
+        return NextResponse.json(
+          { error: "invitee_name_reserved" },
+          { status: 400 }
+        );
+      }
+      if (await isInviteeNameTaken(projectId, name, target.id)) {
+        return NextResponse.json(
+          { error: "invitee_name_taken" },
+          { status: 409 }
+        );
+      }
+      update.name = name;
+      changes.name = { from: target.name, to: name };
+    }
+  }
+
+  if (body.role !== undefined && body.role !== target.role) {
+    // There is exactly one organizer: it can neither be demoted nor given away.
+    if (isOrganizerAccount || !assignableInviteeRoles.includes(body.role)) {
+      return NextResponse.json(
+        { error: "invitee_role_invalid" },
+        { status: 400 }
+      );
+    }
+    update.role = body.role;
+    changes.role = { from: target.role, to: body.role };
+  }
+
+  if (body.email !== undefined) {
+    const email = body.email?.trim() || null;
+    if (email && !isEmailAddress(email)) {
+      return NextResponse.json(
+        { error: "invitee_email_invalid" },
+        { status: 400 }
+      );
+    }
+    if (email !== target.email) {
+      update.email = email;
+      // The address itself is not written to the log.
+      changes.email = email ? "set" : "cleared";
+    }
+  }
+
+  const passwordReset = body.password !== undefined;
+  const password = passwordReset ? body.password?.trim() : undefined;
+  const hasPassword = passwordReset
+    ? Boolean(password)
+    : Boolean(target.password_hash || target.password?.trim());
+  // Organizer roles can't sign in by name alone, so they keep a password.
+  if (
+    (update.role !== undefined || passwordReset) &&
+    isOrganizerRole(update.role ?? (isInviteeRole(target.role) ? target.role : null)) &&
+    !hasPassword
+  ) {
+    return NextResponse.json(
+      { error: "invitee_password_required" },
+      { status: 400 }
+    );
+  }
+  if (passwordReset) {
+    update.password = null;
+    update.password_hash = password ? await hashPassword(password) : null;
+  }
+
+  if (!Object.keys(update).length) {
+    return NextResponse.json({ invitee: mapProjectInviteeRow(target) });
+  }
+
+  const supabase = getServiceSupabaseClient();
+
+  // Availability rows carry the name too, and it must stay unique per project.
+  if (update.name) {
+    const { error: responsesError } = await supabase
+      .from("availability_responses")
+      .update({ name: update.name } as unknown as never)
+      .eq("project_id", projectId)
+      .eq("invitee_id", target.id);
+    if (responsesError) {
+      console.error("availability rename error", responsesError);
+      return NextResponse.json(
+        { error: "invitee_update_failed" },
+        { status: 500 }
+      );
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("project_invitees")
+    .update(update as unknown as never)
+    .eq("id", target.id)
+    .select(projectInviteeColumns)
+    .single();
+
+  if (error || !data) {
+    console.error("invitee update error", error);
+    return NextResponse.json(
+      { error: "invitee_update_failed" },
+      { status: 500 }
+    );
+  }
+
+  const invitee = mapProjectInviteeRow(data as ProjectInviteeRow);
+
+  // A new password signs the invitee out everywhere and takes back their
+  // sign-in link, which would otherwise get around it.
+  if (passwordReset) {
+    try {
+      if (!(await revokeAccessLink(projectId, target.id))) {
+        await revokeInviteeSessions(projectId, target.id);
+      }
+    } catch (revokeError) {
+      console.error("invitee session revoke error", revokeError);
+      return NextResponse.json(
+        { error: "invitee_update_failed" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (Object.keys(changes).length) {
+    await logServerActivity({
+      projectId,
+      inviteeId: actor.id,
+      actorName: actor.name,
+      action: "invitee_updated",
+      details: {
+        summary: "مشخصات مدعو ویرایش شد",
+        data: { inviteeId: invitee.id, inviteeName: invitee.name, changes },
+      },
+    });
+  }
+
+  if (passwordReset) {
+    await logServerActivity({
+      projectId,
+      inviteeId: actor.id,
+      actorName: actor.name,
+      action: "invitee_password_reset",
+      details: {
+        summary: invitee.hasPassword ? "رمز عبور مدعو تغییر کرد" : "رمز عبور مدعو حذف شد",
+        data: {
+          inviteeId: invitee.id,
+          inviteeName: invitee.name,
+          cleared: !invitee.hasPassword,
+        },
+      },
+    });
+  }
+
+  const updated = NextResponse.json({ invitee });
+  return passwordReset && actor.id === target.id
+    ? reissueSessionCookie(updated, projectId, actor.id)
+    : updated;
+}
+
+/**
+ * Removes an invitee. See `removeInvitee` for what happens to their
+ * availability, document access and signatures.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; inviteeId: string }> }
+) {
+  const { projectId, inviteeId } = await context.params;
+  const { actor, target, response } = await requireInviteeManager(
+    request,
+    projectId,
+    inviteeId
+  );
+  if (!actor) return response;
+
+  if (target.role === "organizer") {
+    return NextResponse.json(
+      { error: "invitee_remove_forbidden" },
+      { status: 403 }
+    );
+  }
+
+  if (target.id === actor.id) {
+    return NextResponse.json(
+      { error: "invitee_remove_self" },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const { kept, turnChanges, completedDocuments } = await removeInvitee(
+      projectId,
+      target.id
+    );
+
+    await logServerActivity({
+      projectId,
+      inviteeId: actor.id,
+      actorName: actor.name,
+      action: "invitee_removed",
+      details: {
+        summary: "مدعو از پروژه حذف شد",
+        data: { inviteeId: target.id, inviteeName: target.name, kept },
+      },
+    });
+
+    for (const change of turnChanges) {
+      await logServerActivity({
+        projectId,
+        inviteeId: actor.id,
+        actorName: actor.name,
+        action: "signing_turn_advanced",
+        details: {
+          summary: "نوبت امضا به مرحله بعد رسید",
+          data: {
+            documentId: change.documentId,
+            step: change.step,
+            inviteeIds: change.inviteeIds,
+          },
+        },
+      });
+      after(() =>
+        notifyInvitees({
+          projectId,
+          inviteeIds: change.inviteeIds,
+          event: { type: "signingTurn", documentName: change.documentName },
+          baseUrl: request.nextUrl.origin,
+        })
+      );
+    }
+
+    for (const completed of completedDocuments) {
+      await logServerActivity({
+        projectId,
+        inviteeId: actor.id,
+        actorName: actor.name,
+        action: "document_completed",
+        details: {
+          summary: "گواهی تکمیل امضا صادر شد",
+          data: completed,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, kept });
+  } catch (error) {
+    console.error("invitee remove error", error);
+    return NextResponse.json(
+      { error: "invitee_remove_failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { buildAccessLinkUrl, createAccessLink } from "@/lib/accessLinks";
+import { getSessionInvitee, hashPassword } from "@/lib/auth";
+import { resolveLocale } from "@/lib/i18n";
+import {
+  isInviteeNameTaken,
+  isReservedInviteeName,
+  mapProjectInviteeRow,
+  projectInviteeColumns,
+  type ProjectInviteeRow,
+} from "@/lib/invitees";
+import { logServerActivity } from "@/lib/logging";
+import { isEmailAddress } from "@/lib/mail";
+import { notifyInvitees } from "@/lib/notifications";
+import { assignableInviteeRoles, isInviteeRole, isOrganizerRole } from "@/lib/roles";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import type { InviteeRole } from "@/types";
+
+type AddInviteeBody = {
+  name?: string;
+  password?: string | null;
+  role?: InviteeRole | null;
+  email?: string | null;
+  // language of the invitation email; the organizer's UI language
+  locale?: string | null;
+};
+
+const isOptionalString = (value: unknown) =>
+  value === undefined || value === null || typeof value === "string";
+
+const isAddInviteeBody = (value: unknown): value is AddInviteeBody => {
+  if (!value || typeof value !== "object") return false;
+  const body = value as Record<string, unknown>;
+  return (
+    isOptionalString(body.name) &&
+    isOptionalString(body.password) &&
+    (body.role === undefined || body.role === null || isInviteeRole(body.role)) &&
+    isOptionalString(body.email) &&
+    isOptionalString(body.locale)
+  );
+};
+
+/** Adds an invitee to an existing project and sends their invitation. */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+
+  const actor = await getSessionInvitee(request, projectId);
+  if (!actor) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(actor.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  const body: unknown = await request.json().catch(() => null);
+  if (!isAddInviteeBody(body)) {
+    return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
+  }
+
+  const name = body.name?.trim();
+  if (!name) {
+    return NextResponse.json(
+      { error: "invitee_name_missing" },
+      { status: 400 }
+    );
+  }
+
+  if (isReservedInviteeName(name)) {
+    return NextResponse.json(
+      { error: "invitee_name_reserved" },
+      { status: 400 }
+    );
+  }
+
+  const email = body.email?.trim() || null;
+  if (email && !isEmailAddress(email)) {
+    return NextResponse.json(
+      { error: "invitee_email_invalid" },
+      { status: 400 }
+    );
+  }
+
+  if (await isInviteeNameTaken(projectId, name)) {
+    return NextResponse.json(
+      { error: "invitee_name_taken" },
+      { status: 409 }
+    );
+  }
+
+  const role =
+    body.role && assignableInviteeRoles.includes(body.role) ? body.role : "participant";
+  const password = body.password?.trim();
+  if (isOrganizerRole(role) && !password) {
+    return NextResponse.json(
+      { error: "invitee_password_required" },
+      { status: 400 }
+    );
+  }
+
+  const supabase = getServiceSupabaseClient();
+  const { data, error } = await supabase
+    .from("project_invitees")
+    .insert({
+      project_id: projectId,
+      name,
+      role,
+      password_hash: password ? await hashPassword(password) : null,
+      email,
+      locale: resolveLocale(body.locale),
+    } as unknown as never)
+    .select(projectInviteeColumns)
+    .single();
+
+  if (error || !data) {
+    console.error("invitee insert error", error);
+    return NextResponse.json(
+      { error: "invitee_create_failed" },
+      { status: 500 }
+    );
+  }
+
+  const invitee = mapProjectInviteeRow(data as ProjectInviteeRow);
+
+  await logServerActivity({
+    projectId,
+    inviteeId: actor.id,
+    actorName: actor.name,
+    action: "invitee_added",
+    details: {
+      summary: "مدعو جدید اضافه شد",
+      data: { inviteeId: invitee.id, inviteeName: invitee.name, role },
+    },
+  });
+
+  // As on project creation, a link that fails to be created can be made
+  // later from the access links panel.
+  let accessLink: string | null = null;
+  try {
+    const { token } = await createAccessLink(projectId, invitee.id);
+    accessLink = buildAccessLinkUrl(request.nextUrl.origin, projectId, token);
+  } catch (linkError) {
+    console.error("access link create error", linkError);
+  }
+
+  after(() =>
+    notifyInvitees({
+      projectId,
+      inviteeIds: [invitee.id],
+      event: { type: "invited" },
+      baseUrl: request.nextUrl.origin,
+      links: accessLink ? new Map([[invitee.id, accessLink]]) : undefined,
+    })
+  );
+
+  return NextResponse.json({ invitee, accessLink }, { status: 201 });
+}
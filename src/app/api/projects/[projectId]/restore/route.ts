@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionInvitee } from "@/lib/auth";
+import { logServerActivity } from "@/lib/logging";
+import { isOrganizerRole } from "@/lib/roles";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+
+type ProjectRestorePayload = {
+  deleted_at: null;
+  deleted_by: null;
+};
+
+/** Takes a project back out of the trash, as long as it hasn't been purged. */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId, {
+    includeDeletedProject: true,
+  });
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  const { data: projectRow, error } = await supabase
+    .from("projects")
+    .select("deleted_at")
+    .eq("id", projectId)
+    .single();
+
+  if (error || !projectRow) {
+    return NextResponse.json(
+      { error: "project_not_found" },
+      { status: 404 }
+    );
+  }
+
+  if (!(projectRow as { deleted_at: string | null }).deleted_at) {
+    return NextResponse.json(
+      { error: "project_not_in_trash" },
+      { status: 409 }
+    );
+  }
+
+  const restorePayload: ProjectRestorePayload = {
+    deleted_at: null,
+    deleted_by: null,
+  };
+
+  const { error: updateError } = await supabase
+    .from("projects")
+    .update(restorePayload as unknown as never)
+    .eq("id", projectId);
+
+  if (updateError) {
+    console.error("project restore error", updateError);
+    return NextResponse.json(
+      { error: "project_restore_failed" },
+      { status: 500 }
+    );
+  }
+
+  await logServerActivity({
+    projectId,
+    inviteeId: invitee.id,
+    actorName: invitee.name,
+    action: "project_restored",
+    details: {
+      summary: "پروژه از سطل زباله بازگردانده شد",
+    },
+  });
+
+  return NextResponse.json({ success: true });
+}
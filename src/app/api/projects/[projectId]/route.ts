@@ -0,0 +1,380 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionInvitee } from "@/lib/auth";
+import {
+  findOutOfWindowResponses,
+  isIsoDate,
+  isValidAvailabilityWindow,
+  trimSlotsToWindow,
+  type AvailabilityWindow,
+} from "@/lib/availability";
+import { logServerActivity } from "@/lib/logging";
+import { isOrganizerRole } from "@/lib/roles";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { defaultProjectTimeZone, dueDateToInstant } from "@/lib/timezone";
+import { getPurgeAt, purgeProject } from "@/lib/trash";
+import type { AvailabilitySlot } from "@/types";
+
+type ProjectTrashRow = {
+  title: string;
+  deleted_at: string | null;
+};
+
+type ProjectTrashPayload = {
+  deleted_at: string;
+  deleted_by: string;
+};
+
+type ProjectSettingsRow = {
+  title: string;
+  description: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  time_zone: string | null;
+  availability_due_at: string | null;
+};
+
+type ProjectSettingsBody = {
+  title?: string;
+  description?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  availabilityDueDate?: string | null;
+  // What to do with saved availability outside a narrowed window.
+  outOfWindow?: "trim" | "keep";
+};
+
+type ResponseSlotsRow = {
+  id: string;
+  invitee_id: string | null;
+  name: string;
+  slots: unknown;
+};
+
+const settingsFields = [
+  "title",
+  "description",
+  "start_date",
+  "end_date",
+  "start_time",
+  "end_time",
+  "availability_due_at",
+] as const;
+
+/**
+ * Updates the title, description, date range, daily hours and availability
+ * deadline; omitted fields keep their value. When the new window leaves
+ * saved availability outside it, the update is refused with the affected
+ * slots until the organizer resends it with `outOfWindow` set to `trim`
+ * (cut the slots to the window) or `keep` (leave them as they are).
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as ProjectSettingsBody | null;
+  if (!body) {
+    return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
+  }
+
+  const { data: projectData, error: projectError } = await supabase
+    .from("projects")
+    .select(
+      "title, description, start_date, end_date, start_time, end_time, time_zone, availability_due_at"
+    )
+    .eq("id", projectId)
+    .single();
+
+  if (projectError || !projectData) {
+    return NextResponse.json(
+      { error: "project_not_found" },
+      { status: 404 }
+    );
+  }
+
+  const current = projectData as ProjectSettingsRow;
+  const pick = <T,>(value: T | undefined, fallback: T) =>
+    value === undefined ? fallback : value;
+
+  const next: ProjectSettingsRow = {
+    ...current,
+    title: pick(body.title, current.title)?.trim() ?? "",
+    description: pick(body.description, current.description)?.trim() || null,
+    start_date: pick(body.startDate, current.start_date),
+    end_date: pick(body.endDate, current.end_date),
+    start_time: pick(body.startTime, current.start_time),
+    end_time: pick(body.endTime, current.end_time),
+  };
+
+  if (!next.title) {
+    return NextResponse.json(
+      { error: "project_fields_missing" },
+      { status: 400 }
+    );
+  }
+
+  const window: AvailabilityWindow = {
+    startDate: next.start_date,
+    endDate: next.end_date,
+    startTime: next.start_time,
+    endTime: next.end_time,
+  };
+  if (!isValidAvailabilityWindow(window)) {
+    return NextResponse.json(
+      { error: "project_window_invalid" },
+      { status: 400 }
+    );
+  }
+
+  if (body.availabilityDueDate !== undefined) {
+    if (body.availabilityDueDate !== null && !isIsoDate(body.availabilityDueDate)) {
+      return NextResponse.json(
+        { error: "due_date_invalid" },
+        { status: 400 }
+      );
+    }
+    next.availability_due_at = body.availabilityDueDate
+      ? dueDateToInstant(
+          body.availabilityDueDate,
+          current.time_zone ?? defaultProjectTimeZone
+        )
+      : null;
+  }
+
+  const windowChanged =
+    next.start_date !== current.start_date ||
+    next.end_date !== current.end_date ||
+    next.start_time !== current.start_time ||
+    next.end_time !== current.end_time;
+
+  let responses: Array<{
+    id: string;
+    inviteeId: string | null;
+    name: string;
+    slots: AvailabilitySlot[];
+  }> = [];
+  let outOfWindow: ReturnType<typeof findOutOfWindowResponses> = [];
+  if (windowChanged) {
+    const { data: responseRows, error: responsesError } = await supabase
+      .from("availability_responses")
+      .select("id, invitee_id, name, slots")
+      .eq("project_id", projectId);
+
+    if (responsesError) {
+      console.error("project settings responses error", responsesError);
+      return NextResponse.json(
+        { error: "project_update_failed" },
+        { status: 500 }
+      );
+    }
+
+    responses = ((responseRows as ResponseSlotsRow[] | null) ?? []).map((row) => ({
+      id: row.id,
+      inviteeId: row.invitee_id,
+      name: row.name,
+      slots: Array.isArray(row.slots) ? (row.slots as AvailabilitySlot[]) : [],
+    }));
+    outOfWindow = findOutOfWindowResponses(responses, window);
+
+    if (outOfWindow.length && body.outOfWindow !== "trim" && body.outOfWindow !== "keep") {
+      return NextResponse.json(
+        { error: "availability_outside_window", responses: outOfWindow },
+        { status: 409 }
+      );
+    }
+  }
+
+  const changes = settingsFields.filter((field) => next[field] !== current[field]);
+  if (!changes.length) {
+    return NextResponse.json({ success: true, changes });
+  }
+
+  const { error: updateError } = await supabase
+    .from("projects")
+    .update(
+      Object.fromEntries(changes.map((field) => [field, next[field]])) as unknown as never
+    )
+    .eq("id", projectId);
+
+  if (updateError) {
+    console.error("project update error", updateError);
+    return NextResponse.json(
+      { error: "project_update_failed" },
+      { status: 500 }
+    );
+  }
+
+  // The window is saved first: if trimming fails part way, the remaining
+  // slots are simply kept, which is a valid state too.
+  if (body.outOfWindow === "trim") {
+    for (const affected of outOfWindow) {
+      const response = responses.find((item) => item.id === affected.responseId);
+      if (!response) continue;
+      const { error: trimError } = await supabase
+        .from("availability_responses")
+        .update({ slots: trimSlotsToWindow(response.slots, window) } as unknown as never)
+        .eq("id", response.id);
+      if (trimError) {
+        console.error("availability trim error", trimError);
+        return NextResponse.json(
+          { error: "availability_trim_failed" },
+          { status: 500 }
+        );
+      }
+    }
+  }
+
+  await logServerActivity({
+    projectId,
+    inviteeId: invitee.id,
+    actorName: invitee.name,
+    action: "project_updated",
+    details: {
+      summary: "تنظیمات پروژه ویرایش شد",
+      data: {
+        changes,
+        ...(outOfWindow.length
+          ? {
+              outOfWindow: body.outOfWindow,
+              affectedInviteeIds: outOfWindow.map((item) => item.inviteeId),
+            }
+          : {}),
+      },
+    },
+  });
+
+  return NextResponse.json({ success: true, changes });
+}
+
+/**
+ * Moves the project to the trash, which closes it to every member until an
+ * organizer restores it. `?permanent=true` purges a project that is already
+ * in the trash, with all its documents and files.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const invitee = await getSessionInvitee(request, projectId, {
+    includeDeletedProject: true,
+  });
+  if (!invitee) {
+    return NextResponse.json(
+      { error: "auth_required" },
+      { status: 401 }
+    );
+  }
+
+  if (!isOrganizerRole(invitee.role)) {
+    return NextResponse.json(
+      { error: "organizer_only" },
+      { status: 403 }
+    );
+  }
+
+  const { data: projectRow, error } = await supabase
+    .from("projects")
+    .select("title, deleted_at")
+    .eq("id", projectId)
+    .single();
+
+  if (error || !projectRow) {
+    return NextResponse.json(
+      { error: "project_not_found" },
+      { status: 404 }
+    );
+  }
+
+  const project = projectRow as ProjectTrashRow;
+  const permanent = ["1", "true", "yes"].includes(
+    (request.nextUrl.searchParams.get("permanent") ?? "").toLowerCase()
+  );
+
+  if (permanent) {
+    if (!project.deleted_at) {
+      return NextResponse.json(
+        { error: "project_not_in_trash" },
+        { status: 409 }
+      );
+    }
+
+    try {
+      await purgeProject(projectId);
+    } catch (purgeError) {
+      console.error("project purge error", purgeError);
+      return NextResponse.json(
+        { error: "project_delete_failed" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, purged: true });
+  }
+
+  if (project.deleted_at) {
+    return NextResponse.json({
+      success: true,
+      deletedAt: project.deleted_at,
+      purgeAt: getPurgeAt(project.deleted_at),
+    });
+  }
+
+  const trashPayload: ProjectTrashPayload = {
+    deleted_at: new Date().toISOString(),
+    deleted_by: invitee.id,
+  };
+
+  const { error: updateError } = await supabase
+    .from("projects")
+    .update(trashPayload as unknown as never)
+    .eq("id", projectId);
+
+  if (updateError) {
+    console.error("project delete error", updateError);
+    return NextResponse.json(
+      { error: "project_delete_failed" },
+      { status: 500 }
+    );
+  }
+
+  await logServerActivity({
+    projectId,
+    inviteeId: invitee.id,
+    actorName: invitee.name,
+    action: "project_deleted",
+    details: {
+      summary: "پروژه به سطل زباله منتقل شد",
+      data: { title: project.title },
+    },
+  });
+
+  return NextResponse.json({
+    success: true,
+    deletedAt: trashPayload.deleted_at,
+    purgeAt: getPurgeAt(trashPayload.deleted_at),
+  });
+}
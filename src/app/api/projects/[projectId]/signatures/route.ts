@@ -0,0 +1,263 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { getSessionInvitee } from "@/lib/auth";
+import {
+  buildSavedSignaturePath,
+  downloadDocumentFile,
+  removeDocumentFiles,
+  uploadDocumentFile,
+} from "@/lib/documents";
+import { dataUrlToBuffer } from "@/lib/files";
+import { isPngImage } from "@/lib/images";
+import { canContribute } from "@/lib/roles";
+import type { SavedSignature, SavedSignatureKind, SignatureMode } from "@/types";
+
+type SavedSignatureRow = {
+  kind: SavedSignatureKind;
+  mode: SignatureMode;
+  image_path: string;
+  typed_text: string | null;
+  typed_font: string | null;
+  typed_color: string | null;
+  uploaded_file_name: string | null;
+  updated_at: string;
+};
+
+type SavedSignatureUpsertPayload = {
+  invitee_id: string;
+  kind: SavedSignatureKind;
+  mode: SignatureMode;
+  image_path: string;
+  typed_text: string | null;
+  typed_font: string | null;
+  typed_color: string | null;
+  uploaded_file_name: string | null;
+};
+
+const savedSignatureColumns =
+  "kind, mode, image_path, typed_text, typed_font, typed_color, uploaded_file_name, updated_at";
+const maxSignatureBytes = 2 * 1024 * 1024;
+
+const isSavedSignatureKind = (value: unknown): value is SavedSignatureKind =>
+  value === "signature" || value === "initials";
+
+const isSignatureMode = (value: unknown): value is SignatureMode =>
+  value === "draw" || value === "typed" || value === "upload";
+
+const optionalText = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim().slice(0, 200) : null;
+
+const mapSavedSignature = (
+  row: SavedSignatureRow,
+  image: Uint8Array
+): SavedSignature => ({
+  kind: row.kind,
+  mode: row.mode,
+  imageDataUrl: `data:image/png;base64,${Buffer.from(image).toString("base64")}`,
+  typedText: row.typed_text,
+  typedFont: row.typed_font,
+  typedColor: row.typed_color,
+  uploadedFileName: row.uploaded_file_name,
+  updatedAt: row.updated_at,
+});
+
+const getSigningInvitee = async (request: NextRequest, projectId: string) => {
+  const invitee = await getSessionInvitee(request, projectId);
+  if (!invitee) {
+    return {
+      response: NextResponse.json({ error: "auth_required" }, { status: 401 }),
+    };
+  }
+  if (!canContribute(invitee.role)) {
+    return {
+      response: NextResponse.json({ error: "sign_forbidden" }, { status: 403 }),
+    };
+  }
+  return { invitee };
+};
+
+/** The session invitee's saved signature and initials, as PNG data URLs. */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const { invitee, response } = await getSigningInvitee(request, projectId);
+  if (!invitee) return response;
+
+  const { data, error } = await supabase
+    .from("invitee_signatures")
+    .select(savedSignatureColumns)
+    .eq("invitee_id", invitee.id);
+
+  if (error) {
+    console.error("saved signatures fetch error", error);
+    return NextResponse.json(
+      { error: "saved_signatures_fetch_failed" },
+      { status: 500 }
+    );
+  }
+
+  const signatures: SavedSignature[] = [];
+  for (const row of (data as SavedSignatureRow[] | null) ?? []) {
+    try {
+      signatures.push(
+        mapSavedSignature(row, await downloadDocumentFile(row.image_path))
+      );
+    } catch (fileError) {
+      console.error("saved signature file error", fileError);
+    }
+  }
+
+  return NextResponse.json({ signatures });
+}
+
+/** Saves or replaces the invitee's signature or initials. */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const { invitee, response } = await getSigningInvitee(request, projectId);
+  if (!invitee) return response;
+
+  let payload: {
+    kind?: unknown;
+    mode?: unknown;
+    imageDataUrl?: unknown;
+    typedText?: unknown;
+    typedFont?: unknown;
+    typedColor?: unknown;
+    uploadedFileName?: unknown;
+  };
+
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
+  }
+
+  if (!isSavedSignatureKind(payload.kind) || !isSignatureMode(payload.mode)) {
+    return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
+  }
+
+  let image: Buffer | null = null;
+  try {
+    image =
+      typeof payload.imageDataUrl === "string"
+        ? dataUrlToBuffer(payload.imageDataUrl)
+        : null;
+  } catch (parseError) {
+    console.error("saved signature parse error", parseError);
+  }
+
+  if (!image || !isPngImage(image) || image.length > maxSignatureBytes) {
+    return NextResponse.json(
+      { error: "signature_image_invalid" },
+      { status: 400 }
+    );
+  }
+
+  const { data: existing } = await supabase
+    .from("invitee_signatures")
+    .select("image_path")
+    .eq("invitee_id", invitee.id)
+    .eq("kind", payload.kind)
+    .maybeSingle();
+
+  const imagePath = buildSavedSignaturePath(projectId, invitee.id, payload.kind);
+  try {
+    await uploadDocumentFile(imagePath, image, "image/png");
+  } catch (uploadError) {
+    console.error("saved signature upload error", uploadError);
+    return NextResponse.json(
+      { error: "saved_signature_store_failed" },
+      { status: 500 }
+    );
+  }
+
+  const typed = payload.mode === "typed";
+  const upsertPayload: SavedSignatureUpsertPayload = {
+    invitee_id: invitee.id,
+    kind: payload.kind,
+    mode: payload.mode,
+    image_path: imagePath,
+    typed_text: typed ? optionalText(payload.typedText) : null,
+    typed_font: typed ? optionalText(payload.typedFont) : null,
+    typed_color: typed ? optionalText(payload.typedColor) : null,
+    uploaded_file_name:
+      payload.mode === "upload" ? optionalText(payload.uploadedFileName) : null,
+  };
+
+  const { data: saved, error: upsertError } = await supabase
+    .from("invitee_signatures")
+    .upsert(upsertPayload as unknown as never, { onConflict: "invitee_id,kind" })
+    .select(savedSignatureColumns)
+    .single();
+
+  if (upsertError || !saved) {
+    console.error("saved signature upsert error", upsertError);
+    return NextResponse.json(
+      { error: "saved_signature_store_failed" },
+      { status: 500 }
+    );
+  }
+
+  // The replaced image is no longer referenced; failing to remove it only
+  // leaves an orphaned file behind.
+  const previousPath = (existing as { image_path: string } | null)?.image_path;
+  if (previousPath) {
+    await removeDocumentFiles([previousPath]).catch((removeError) => {
+      console.error("saved signature cleanup error", removeError);
+    });
+  }
+
+  return NextResponse.json({
+    signature: mapSavedSignature(saved as SavedSignatureRow, image),
+  });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+  const supabase = getServiceSupabaseClient();
+
+  const { invitee, response } = await getSigningInvitee(request, projectId);
+  if (!invitee) return response;
+
+  const kind = request.nextUrl.searchParams.get("kind");
+  if (!isSavedSignatureKind(kind)) {
+    return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
+  }
+
+  const { data: deleted, error: deleteError } = await supabase
+    .from("invitee_signatures")
+    .delete()
+    .eq("invitee_id", invitee.id)
+    .eq("kind", kind)
+    .select("image_path");
+
+  if (deleteError) {
+    console.error("saved signature delete error", deleteError);
+    return NextResponse.json(
+      { error: "saved_signature_delete_failed" },
+      { status: 500 }
+    );
+  }
+
+  await removeDocumentFiles(
+    ((deleted as Array<{ image_path: string }> | null) ?? []).map(
+      (row) => row.image_path
+    )
+  ).catch((removeError) => {
+    console.error("saved signature cleanup error", removeError);
+  });
+
+  return NextResponse.json({ success: true });
+}
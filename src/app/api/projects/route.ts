@@ -0,0 +1,281 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { buildAccessLinkUrl, createAccessLink } from "@/lib/accessLinks";
+import { generateSecret, hashPassword, setSessionCookie } from "@/lib/auth";
+import { resolveLocale, type Locale } from "@/lib/i18n";
+import { logServerActivity } from "@/lib/logging";
+import { isEmailAddress } from "@/lib/mail";
+import { notifyInvitees } from "@/lib/notifications";
+import {
+  isIsoDate,
+  isValidAvailabilityWindow,
+  type AvailabilityWindow,
+} from "@/lib/availability";
+import { isReservedInviteeName } from "@/lib/invitees";
+import { isInviteeRole } from "@/lib/roles";
+import {
+  defaultProjectTimeZone,
+  dueDateToInstant,
+  isValidTimeZone,
+} from "@/lib/timezone";
+import type { InviteeRole } from "@/types";
+
+type ProjectInsertPayload = {
+  title: string;
+  description: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  time_zone: string;
+  availability_due_at: string | null;
+};
+
+type InviteeInsertPayload = {
+  project_id: string;
+  name: string;
+  role: InviteeRole;
+  password_hash: string | null;
+  email: string | null;
+  locale: Locale;
+};
+
+type InviteeRowOut = {
+  id: string;
+  name: string;
+  role: InviteeRole;
+  session_version: number;
+};
+
+type CreateProjectBody = {
+  title?: string;
+  description?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  timeZone?: string | null;
+  availabilityDueDate?: string | null;
+  // language of the invitees' emails; the creator's UI language by default
+  locale?: string | null;
+  invitees?: Array<{
+    name: string;
+    password?: string | null;
+    role?: InviteeRole;
+    email?: string | null;
+  }>;
+};
+
+export async function POST(request: NextRequest) {
+  const supabase = getServiceSupabaseClient();
+
+  let body: CreateProjectBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid_payload" }, { status: 400 });
+  }
+
+  const title = body.title?.trim();
+  const invitees = (body.invitees ?? []).filter((invitee) =>
+    invitee?.name?.trim()
+  );
+
+  if (!title || invitees.length === 0) {
+    return NextResponse.json(
+      { error: "project_fields_missing" },
+      { status: 400 }
+    );
+  }
+
+  const inviteeNames = invitees.map((invitee) => invitee.name.trim());
+  if (inviteeNames.some(isReservedInviteeName)) {
+    return NextResponse.json(
+      { error: "invitee_name_reserved" },
+      { status: 400 }
+    );
+  }
+
+  if (new Set(inviteeNames).size !== inviteeNames.length) {
+    return NextResponse.json(
+      { error: "invitee_name_taken" },
+      { status: 409 }
+    );
+  }
+
+  if (invitees.some((invitee) => invitee.email?.trim() && !isEmailAddress(invitee.email.trim()))) {
+    return NextResponse.json(
+      { error: "invitee_email_invalid" },
+      { status: 400 }
+    );
+  }
+
+  const window: AvailabilityWindow = {
+    startDate: body.startDate ?? null,
+    endDate: body.endDate ?? null,
+    startTime: body.startTime ?? null,
+    endTime: body.endTime ?? null,
+  };
+  if (!isValidAvailabilityWindow(window)) {
+    return NextResponse.json(
+      { error: "project_window_invalid" },
+      { status: 400 }
+    );
+  }
+
+  if (body.availabilityDueDate && !isIsoDate(body.availabilityDueDate)) {
+    return NextResponse.json(
+      { error: "due_date_invalid" },
+      { status: 400 }
+    );
+  }
+
+  const timeZone = isValidTimeZone(body.timeZone)
+    ? body.timeZone
+    : defaultProjectTimeZone;
+
+  const projectPayload: ProjectInsertPayload = {
+    title,
+    description: body.description ?? null,
+    start_date: window.startDate,
+    end_date: window.endDate,
+    start_time: window.startTime,
+    end_time: window.endTime,
+    time_zone: timeZone,
+    availability_due_at: body.availabilityDueDate
+      ? dueDateToInstant(body.availabilityDueDate, timeZone)
+      : null,
+  };
+
+  const { data: projectRow, error: projectError } = await supabase
+    .from("projects")
+    .insert(projectPayload as unknown as never)
+    .select("id")
+    .single();
+
+  if (projectError || !projectRow) {
+    console.error("project insert error", projectError);
+    return NextResponse.json(
+      { error: "project_create_failed" },
+      { status: 500 }
+    );
+  }
+
+  const projectId = (projectRow as { id: string }).id;
+  const locale = resolveLocale(body.locale);
+
+  // The organizer account is always created here with a generated secret;
+  // invitees submitted by the form can at most be co-organizers.
+  const organizerSecret = generateSecret();
+
+  const inviteePayload: InviteeInsertPayload[] = await Promise.all(
+    [
+      ...invitees.map((invitee) => ({
+        name: invitee.name.trim(),
+        password: invitee.password?.trim() ?? "",
+        role:
+          isInviteeRole(invitee.role) && invitee.role !== "organizer"
+            ? invitee.role
+            : ("participant" as InviteeRole),
+        email: invitee.email?.trim() || null,
+      })),
+      {
+        name: "admin",
+        password: organizerSecret,
+        role: "organizer" as InviteeRole,
+        email: null,
+      },
+    ].map(async (invitee) => ({
+      project_id: projectId,
+      name: invitee.name,
+      role: invitee.role,
+      password_hash: invitee.password
+        ? await hashPassword(invitee.password)
+        : null,
+      email: invitee.email,
+      locale,
+    }))
+  );
+
+  const { data: inviteeRows, error: inviteeError } = await supabase
+    .from("project_invitees")
+    .insert(inviteePayload as unknown as never)
+    .select("id, name, role, session_version");
+
+  if (inviteeError || !inviteeRows) {
+    console.error("invitee insert error", inviteeError);
+    await supabase.from("projects").delete().eq("id", projectId);
+    return NextResponse.json(
+      { error: "invitees_create_failed" },
+      { status: 500 }
+    );
+  }
+
+  const typedInvitees = inviteeRows as unknown as InviteeRowOut[];
+  const adminInvitee = typedInvitees.find(
+    (invitee) => invitee.role === "organizer"
+  );
+
+  await logServerActivity({
+    projectId,
+    inviteeId: adminInvitee?.id ?? null,
+    actorName: "organizer",
+    action: "project_created",
+    details: { summary: "پروژه جدید ساخته شد" },
+  });
+
+  // Everyone but the organizer gets a personal sign-in link. A link that
+  // fails to be created can be made later from the project page.
+  const accessLinks = new Map<string, string>();
+  await Promise.all(
+    typedInvitees
+      .filter((invitee) => invitee.role !== "organizer")
+      .map(async (invitee) => {
+        try {
+          const { token } = await createAccessLink(projectId, invitee.id);
+          accessLinks.set(
+            invitee.id,
+            buildAccessLinkUrl(request.nextUrl.origin, projectId, token)
+          );
+        } catch (error) {
+          console.error("access link create error", error);
+        }
+      })
+  );
+
+  after(() =>
+    notifyInvitees({
+      projectId,
+      inviteeIds: typedInvitees
+        .filter((invitee) => invitee.role !== "organizer")
+        .map((invitee) => invitee.id),
+      event: { type: "invited" },
+      baseUrl: request.nextUrl.origin,
+      links: accessLinks,
+    })
+  );
+
+  const response = NextResponse.json(
+    {
+      projectId,
+      invitees: typedInvitees.map((invitee) => ({
+        id: invitee.id,
+        name: invitee.name,
+        role: invitee.role,
+        accessLink: accessLinks.get(invitee.id) ?? null,
+      })),
+      organizerSecret,
+    },
+    { status: 201 }
+  );
+
+  // The creator is signed in as admin so the follow-up document uploads
+  // are attributed to them.
+  return adminInvitee
+    ? setSessionCookie(response, {
+        id: adminInvitee.id,
+        projectId,
+        sessionVersion: adminInvitee.session_version,
+      })
+    : response;
+}
@@ -1,5 +1,9 @@
 import type { Metadata } from "next";
 import { Vazirmatn } from "next/font/google";
+import { I18nProvider } from "@/components/I18nProvider";
+import { LocaleSwitcher } from "@/components/LocaleSwitcher";
+import { createTranslator, getDirection } from "@/lib/i18n";
+import { getRequestLocale } from "@/lib/requestLocale";
 import "./globals.css";
 
 const vazirmatn = Vazirmatn({
@@ -9,25 +13,34 @@ const vazirmatn = Vazirmatn({
   weight: ["300", "400", "500", "600", "700"],
 });
 
-export const metadata: Metadata = {
-  title: "کال‌فایند | زمان حضور جمعی",
-  description: "یافتن زمان مناسب برای گروه‌ها با استفاده از تقویم شمسی",
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const t = createTranslator(await getRequestLocale());
+  return {
+    title: t("meta.title"),
+    description: t("meta.description"),
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getRequestLocale();
+  const t = createTranslator(locale);
+
   return (
-    <html lang="fa" dir="rtl">
+    <html lang={locale} dir={getDirection(locale)}>
       <body className={`${vazirmatn.variable} font-sans antialiased bg-slate-50 text-slate-800`}>
-        <div className="flex min-h-screen flex-col">
-          <main className="flex-1">{children}</main>
-          <footer className="bg-slate-900/95 py-6 text-center text-xs font-medium text-slate-100">
-            تمامی حقوق برای سهیل توکل پور محفوظ است.
-          </footer>
-        </div>
+        <I18nProvider locale={locale}>
+          <div className="flex min-h-screen flex-col">
+            <main className="flex-1">{children}</main>
+            <footer className="flex flex-wrap items-center justify-center gap-3 bg-slate-900/95 py-6 text-center text-xs font-medium text-slate-100">
+              <span>{t("layout.copyright")}</span>
+              <LocaleSwitcher />
+            </footer>
+          </div>
+        </I18nProvider>
       </body>
     </html>
   );
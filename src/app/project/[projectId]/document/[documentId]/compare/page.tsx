@@ -0,0 +1,354 @@
+/* eslint-disable @next/next/no-img-element */
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { useI18n } from "@/components/I18nProvider";
+import { diffImages, type ImageDiff } from "@/lib/canvasImages";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { formatDate, formatDigits } from "@/lib/format";
+import { loadPdfPreview, renderPdfPage } from "@/lib/pdfPreview";
+import type { DocumentVersionEntry } from "@/types";
+
+type LoadedVersion = {
+  version: number;
+  url: string;
+  pdf: PDFDocumentProxy | null;
+  pageCount: number;
+};
+
+type CompareMode = "side" | "overlay";
+
+const parseVersion = (value: string | string[] | undefined) => {
+  const version = Number(Array.isArray(value) ? value[0] : value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+export default function DocumentComparePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ projectId: string; documentId: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const [resolvedParams, setResolvedParams] = useState<{
+    projectId: string;
+    documentId: string;
+  } | null>(null);
+  const [versions, setVersions] = useState<DocumentVersionEntry[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageCount, setPageCount] = useState(1);
+  const [pages, setPages] = useState<{ before: string | null; after: string | null }>({
+    before: null,
+    after: null,
+  });
+  const [diff, setDiff] = useState<ImageDiff | null>(null);
+  const [mode, setMode] = useState<CompareMode>("overlay");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const router = useRouter();
+  const { locale, t, tError } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+  const loadedRef = useRef<{ before: LoadedVersion | null; after: LoadedVersion | null }>({
+    before: null,
+    after: null,
+  });
+
+  useEffect(() => {
+    Promise.all([params, searchParams]).then(([routeParams, query]) => {
+      setResolvedParams(routeParams);
+      setFromVersion(parseVersion(query.from));
+      setToVersion(parseVersion(query.to));
+    });
+  }, [params, searchParams]);
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      if (!resolvedParams) return;
+      try {
+        const response = await fetch(
+          `/api/projects/${resolvedParams.projectId}/documents/${resolvedParams.documentId}/versions`
+        );
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(body?.error ?? "document_not_found");
+        }
+        const timeline = (body.versions ?? []) as DocumentVersionEntry[];
+        if (timeline.length < 2) {
+          setError(t("compare.error.singleVersion"));
+          setLoading(false);
+          return;
+        }
+        setVersions(timeline);
+        // Without a choice in the URL, compare the current version with the
+        // one before it.
+        const current = timeline.find((entry) => entry.isCurrent) ?? timeline.at(-1);
+        setToVersion((value) => value ?? current?.version ?? null);
+        setFromVersion(
+          (value) =>
+            value ??
+            timeline.filter((entry) => entry.version < (current?.version ?? 0)).at(-1)
+              ?.version ??
+            null
+        );
+      } catch (fetchError) {
+        console.error(fetchError);
+        setError(
+          tError(
+            fetchError instanceof Error ? fetchError.message : null,
+            "compare.error.load"
+          )
+        );
+        setLoading(false);
+      }
+    };
+
+    loadVersions();
+  }, [resolvedParams, t, tError]);
+
+  useEffect(() => {
+    const loadVersion = async (version: number): Promise<LoadedVersion> => {
+      if (!resolvedParams) throw new Error("document_not_found");
+      const response = await fetch(
+        `/api/projects/${resolvedParams.projectId}/documents/${resolvedParams.documentId}/download?version=${version}`
+      );
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok || !body.url) {
+        throw new Error(body?.error ?? "download_link_failed");
+      }
+      if (body.fileType !== "pdf") {
+        return { version, url: body.url, pdf: null, pageCount: 1 };
+      }
+      const pdf = await loadPdfPreview(body.url);
+      return { version, url: body.url, pdf, pageCount: pdf.numPages };
+    };
+
+    const loadBoth = async () => {
+      if (!resolvedParams || fromVersion === null || toVersion === null) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const [before, after] = await Promise.all([
+          loadVersion(fromVersion),
+          loadVersion(toVersion),
+        ]);
+        loadedRef.current = { before, after };
+        setPageCount(Math.max(before.pageCount, after.pageCount));
+        setCurrentPage(1);
+      } catch (loadError) {
+        console.error(loadError);
+        setError(
+          tError(
+            loadError instanceof Error ? loadError.message : null,
+            "compare.error.load"
+          )
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBoth();
+  }, [resolvedParams, fromVersion, toVersion, tError]);
+
+  useEffect(() => {
+    const renderSide = async (side: LoadedVersion | null, page: number) => {
+      if (!side || page > side.pageCount) return null;
+      return side.pdf ? renderPdfPage(side.pdf, page) : side.url;
+    };
+
+    const renderPages = async () => {
+      const { before, after } = loadedRef.current;
+      if (loading || !before || !after) return;
+      try {
+        const [beforeUrl, afterUrl] = await Promise.all([
+          renderSide(before, currentPage),
+          renderSide(after, currentPage),
+        ]);
+        setPages({ before: beforeUrl, after: afterUrl });
+        setDiff(await diffImages(beforeUrl, afterUrl));
+      } catch (renderError) {
+        console.error(renderError);
+        setError(t("compare.error.render"));
+      }
+    };
+
+    renderPages();
+  }, [loading, currentPage, t]);
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-100 text-rose-500">
+        {error}
+      </div>
+    );
+  }
+
+  const versionLabel = (version: number) => {
+    const entry = versions.find((item) => item.version === version);
+    return t("compare.versionOption", {
+      version: formatDigits(version, dateDisplay.digits),
+      author: entry?.isCertificate
+        ? t("compare.certificate")
+        : entry?.createdByName ?? t("common.unknown"),
+      date: entry ? formatDate(entry.createdAt, dateDisplay) : "",
+    });
+  };
+
+  const versionSelect = (
+    value: number | null,
+    onChange: (version: number) => void,
+    label: string
+  ) => (
+    <label className="flex flex-col gap-2">
+      {label}
+      <select
+        value={value ?? ""}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
+      >
+        {versions.map((entry) => (
+          <option key={entry.version} value={entry.version}>
+            {versionLabel(entry.version)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const pageImage = (url: string | null, alt: string) =>
+    url ? (
+      <img
+        src={url}
+        alt={alt}
+        className="w-full rounded-2xl border border-slate-200 bg-white object-contain"
+      />
+    ) : (
+      <div className="flex aspect-[3/4] items-center justify-center rounded-2xl border border-dashed border-slate-300 bg-white text-xs text-slate-400">
+        {t("compare.pageMissing")}
+      </div>
+    );
+
+  return (
+    <div className="min-h-screen bg-slate-100 py-10">
+      <div className="mx-auto flex max-w-5xl flex-col gap-6 px-4 sm:px-6 lg:px-8">
+        <header className="rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur">
+          <h1 className="text-lg font-semibold text-slate-700">{t("compare.title")}</h1>
+          <p className="mt-2 text-sm text-slate-500">{t("compare.description")}</p>
+        </header>
+
+        <section className="space-y-3 rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm">
+          <div className="grid gap-3 text-xs text-slate-600 sm:grid-cols-2">
+            {versionSelect(fromVersion, setFromVersion, t("compare.from"))}
+            {versionSelect(toVersion, setToVersion, t("compare.to"))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            {(["overlay", "side"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`rounded-full border px-4 py-2 font-semibold transition ${
+                  mode === option
+                    ? "border-sky-500 bg-sky-500 text-white"
+                    : "border-slate-200 bg-white text-slate-600 hover:bg-slate-100"
+                }`}
+                onClick={() => setMode(option)}
+              >
+                {t(`compare.mode.${option}`)}
+              </button>
+            ))}
+            {pageCount > 1 ? (
+              <div className="flex items-center gap-2 ms-auto">
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200 bg-white px-3 py-2 font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                  disabled={currentPage <= 1}
+                  onClick={() => setCurrentPage((page) => page - 1)}
+                >
+                  {t("sign.previousPage")}
+                </button>
+                <span className="text-slate-500">
+                  {t("sign.pageOf", {
+                    page: formatDigits(currentPage, dateDisplay.digits),
+                    count: formatDigits(pageCount, dateDisplay.digits),
+                  })}
+                </span>
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200 bg-white px-3 py-2 font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                  disabled={currentPage >= pageCount}
+                  onClick={() => setCurrentPage((page) => page + 1)}
+                >
+                  {t("sign.nextPage")}
+                </button>
+              </div>
+            ) : null}
+          </div>
+          {diff && !loading ? (
+            <p className="text-xs text-slate-500">
+              {diff.bounds
+                ? t("compare.changed", {
+                    percent: formatDigits(
+                      Math.max(0.1, Math.round(diff.changedRatio * 1000) / 10),
+                      dateDisplay.digits
+                    ),
+                  })
+                : t("compare.unchanged")}
+            </p>
+          ) : null}
+        </section>
+
+        {loading ? (
+          <p className="text-center text-sm text-slate-500">{t("compare.loading")}</p>
+        ) : mode === "side" ? (
+          <section className="grid gap-4 sm:grid-cols-2">
+            {[
+              { version: fromVersion, url: pages.before },
+              { version: toVersion, url: pages.after },
+            ].map(({ version, url }, index) => (
+              <div key={index} className="space-y-2">
+                <p className="text-xs font-semibold text-slate-600">
+                  {version !== null ? versionLabel(version) : null}
+                </p>
+                {pageImage(url, t("compare.pageAlt"))}
+              </div>
+            ))}
+          </section>
+        ) : diff ? (
+          <section className="relative mx-auto w-full max-w-3xl">
+            <img
+              src={diff.overlayUrl}
+              alt={t("compare.overlayAlt")}
+              className="w-full rounded-2xl border border-slate-200 bg-white"
+            />
+            {diff.bounds ? (
+              <div
+                className="pointer-events-none absolute rounded-lg border-2 border-rose-500"
+                style={{
+                  left: `${diff.bounds.x * 100}%`,
+                  top: `${diff.bounds.y * 100}%`,
+                  width: `${diff.bounds.width * 100}%`,
+                  height: `${diff.bounds.height * 100}%`,
+                }}
+              />
+            ) : null}
+          </section>
+        ) : null}
+
+        <div className="flex flex-wrap gap-2 text-xs">
+          <button
+            type="button"
+            className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-600 transition hover:bg-slate-100"
+            onClick={() => router.back()}
+          >
+            {t("compare.back")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
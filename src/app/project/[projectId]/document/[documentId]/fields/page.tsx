@@ -0,0 +1,521 @@
+/* eslint-disable @next/next/no-img-element */
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { useI18n } from "@/components/I18nProvider";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { documentFieldTypes, type DocumentFieldInput } from "@/lib/fields";
+import { formatDigits } from "@/lib/format";
+import { loadPdfPreview, renderPdfPage } from "@/lib/pdfPreview";
+import type { DocumentField, DocumentFieldType } from "@/types";
+
+type DraftField = DocumentFieldInput & { key: string };
+
+type DragState = {
+  key: string;
+  mode: "move" | "resize";
+  offsetX: number;
+  offsetY: number;
+};
+
+const defaultFieldSize: Record<DocumentFieldType, { width: number; height: number }> = {
+  signature: { width: 0.3, height: 0.08 },
+  initials: { width: 0.12, height: 0.06 },
+  date: { width: 0.2, height: 0.04 },
+  text: { width: 0.3, height: 0.04 },
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const toDraftField = (field: DocumentField): DraftField => ({
+  key: field.id,
+  inviteeId: field.inviteeId,
+  fieldType: field.fieldType,
+  label: field.label ?? null,
+  page: field.page,
+  x: field.x,
+  y: field.y,
+  width: field.width,
+  height: field.height,
+  required: field.required,
+});
+
+export default function DocumentFieldsPage({
+  params,
+}: {
+  params: Promise<{ projectId: string; documentId: string }>;
+}) {
+  const [resolvedParams, setResolvedParams] = useState<{
+    projectId: string;
+    documentId: string;
+  } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [documentUrl, setDocumentUrl] = useState<string | null>(null);
+  const [documentType, setDocumentType] = useState<"image" | "pdf">("image");
+  const [pageCount, setPageCount] = useState(1);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [assignees, setAssignees] = useState<Array<{ id: string; name: string }>>([]);
+  const [locked, setLocked] = useState(false);
+  const [fields, setFields] = useState<DraftField[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [fieldType, setFieldType] = useState<DocumentFieldType>("signature");
+  const [assigneeId, setAssigneeId] = useState("");
+  const [label, setLabel] = useState("");
+  const [required, setRequired] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const router = useRouter();
+  const { locale, t, tError } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+  const previewRef = useRef<HTMLDivElement | null>(null);
+  const pdfRef = useRef<PDFDocumentProxy | null>(null);
+
+  useEffect(() => {
+    params.then(setResolvedParams);
+  }, [params]);
+
+  useEffect(() => {
+    const loadDocument = async () => {
+      if (!resolvedParams) return;
+      const basePath = `/api/projects/${resolvedParams.projectId}/documents/${resolvedParams.documentId}`;
+      try {
+        const documentResponse = await fetch(basePath);
+        const fieldsResponse = await fetch(`${basePath}/fields`);
+        for (const response of [documentResponse, fieldsResponse]) {
+          if (!response.ok) {
+            const body = await response.json().catch(() => ({}));
+            throw new Error(body?.error ?? "document_not_found");
+          }
+        }
+
+        const documentBody = (await documentResponse.json()) as {
+          document: { fileType: string; signedUrl: string };
+        };
+        const fieldsBody = (await fieldsResponse.json()) as {
+          fields: DocumentField[];
+          assignees: Array<{ id: string; name: string }>;
+          locked: boolean;
+        };
+
+        setAssignees(fieldsBody.assignees);
+        setAssigneeId(fieldsBody.assignees[0]?.id ?? "");
+        setLocked(fieldsBody.locked);
+        setFields(fieldsBody.fields.map(toDraftField));
+
+        if (documentBody.document.fileType === "pdf") {
+          const pdf = await loadPdfPreview(documentBody.document.signedUrl);
+          pdfRef.current = pdf;
+          setDocumentType("pdf");
+          setPageCount(pdf.numPages);
+          setDocumentUrl(await renderPdfPage(pdf, 1));
+        } else {
+          setDocumentUrl(documentBody.document.signedUrl);
+        }
+      } catch (loadError) {
+        console.error(loadError);
+        setError(
+          tError(
+            loadError instanceof Error ? loadError.message : null,
+            "sign.error.unknown"
+          )
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDocument();
+  }, [resolvedParams, tError]);
+
+  const goToPage = async (pageNumber: number) => {
+    const pdf = pdfRef.current;
+    if (!pdf || pageNumber < 1 || pageNumber > pageCount) return;
+    try {
+      setDocumentUrl(await renderPdfPage(pdf, pageNumber));
+      setCurrentPage(pageNumber);
+    } catch (pageError) {
+      console.error("PDF render error", pageError);
+      alert(t("sign.error.pdfRender"));
+    }
+  };
+
+  const updateField = (key: string, patch: Partial<DraftField>) => {
+    setFields((prev) =>
+      prev.map((field) => (field.key === key ? { ...field, ...patch } : field))
+    );
+  };
+
+  const handleAddField = () => {
+    if (!assigneeId) return;
+    const size = defaultFieldSize[fieldType];
+    const key = crypto.randomUUID();
+    setFields((prev) => [
+      ...prev,
+      {
+        key,
+        inviteeId: assigneeId,
+        fieldType,
+        label: label.trim() || null,
+        page: currentPage,
+        x: (1 - size.width) / 2,
+        y: (1 - size.height) / 2,
+        ...size,
+        required,
+      },
+    ]);
+    setSelectedKey(key);
+    setLabel("");
+  };
+
+  const handleRemoveField = (key: string) => {
+    setFields((prev) => prev.filter((field) => field.key !== key));
+    if (selectedKey === key) setSelectedKey(null);
+  };
+
+  // Boxes are kept as page fractions, so pointer positions are converted
+  // against the preview's rendered size.
+  const pointerFraction = (event: React.PointerEvent) => {
+    const rect = previewRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    };
+  };
+
+  const handlePointerDown = (
+    event: React.PointerEvent<HTMLElement>,
+    field: DraftField,
+    mode: DragState["mode"]
+  ) => {
+    if (locked) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const point = pointerFraction(event);
+    if (!point) return;
+    previewRef.current?.setPointerCapture(event.pointerId);
+    setSelectedKey(field.key);
+    setDrag({
+      key: field.key,
+      mode,
+      offsetX: point.x - field.x,
+      offsetY: point.y - field.y,
+    });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const point = pointerFraction(event);
+    const field = fields.find((item) => item.key === drag.key);
+    if (!point || !field) return;
+
+    if (drag.mode === "move") {
+      updateField(field.key, {
+        x: clamp(point.x - drag.offsetX, 0, 1 - field.width),
+        y: clamp(point.y - drag.offsetY, 0, 1 - field.height),
+      });
+    } else {
+      updateField(field.key, {
+        width: clamp(point.x - field.x, 0.03, 1 - field.x),
+        height: clamp(point.y - field.y, 0.02, 1 - field.y),
+      });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    setDrag(null);
+    try {
+      previewRef.current?.releasePointerCapture(event.pointerId);
+    } catch {
+      // ignore
+    }
+  };
+
+  const handleSave = async () => {
+    if (!resolvedParams) return;
+    setSaving(true);
+    try {
+      const response = await fetch(
+        `/api/projects/${resolvedParams.projectId}/documents/${resolvedParams.documentId}/fields`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            fields: fields.map(
+              (field): DocumentFieldInput => ({
+                inviteeId: field.inviteeId,
+                fieldType: field.fieldType,
+                label: field.label,
+                page: field.page,
+                x: field.x,
+                y: field.y,
+                width: field.width,
+                height: field.height,
+                required: field.required,
+              })
+            ),
+          }),
+        }
+      );
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body?.error ?? "document_fields_failed");
+      }
+      alert(t("fields.saved"));
+      router.back();
+    } catch (saveError) {
+      console.error(saveError);
+      alert(
+        tError(
+          saveError instanceof Error ? saveError.message : null,
+          "errors.document_fields_failed"
+        )
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-100 text-slate-600">
+        {t("fields.loading")}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-100 text-rose-500">
+        {error}
+      </div>
+    );
+  }
+
+  const assigneeName = (inviteeId: string) =>
+    assignees.find((assignee) => assignee.id === inviteeId)?.name ??
+    t("common.unknown");
+  const pageFields = fields.filter((field) => field.page === currentPage);
+
+  return (
+    <div className="min-h-screen bg-slate-100 py-10">
+      <div className="mx-auto flex max-w-4xl flex-col gap-6 px-4 sm:px-6 lg:px-8">
+        <header className="rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur">
+          <h1 className="text-lg font-semibold text-slate-700">{t("fields.title")}</h1>
+          <p className="mt-2 text-sm text-slate-500">{t("fields.description")}</p>
+          {locked ? (
+            <p className="mt-2 text-sm text-rose-500">{t("fields.locked")}</p>
+          ) : null}
+        </header>
+
+        {!locked ? (
+          <section className="space-y-3 rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm">
+            {assignees.length ? (
+              <div className="grid gap-3 text-xs text-slate-600 sm:grid-cols-2">
+                <label className="flex flex-col gap-2">
+                  {t("fields.type")}
+                  <select
+                    value={fieldType}
+                    onChange={(event) =>
+                      setFieldType(event.target.value as DocumentFieldType)
+                    }
+                    className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
+                  >
+                    {documentFieldTypes.map((type) => (
+                      <option key={type} value={type}>
+                        {t(`sign.field.${type}`)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-2">
+                  {t("fields.assignee")}
+                  <select
+                    value={assigneeId}
+                    onChange={(event) => setAssigneeId(event.target.value)}
+                    className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
+                  >
+                    {assignees.map((assignee) => (
+                      <option key={assignee.id} value={assignee.id}>
+                        {assignee.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-2">
+                  {t("fields.label")}
+                  <input
+                    type="text"
+                    value={label}
+                    onChange={(event) => setLabel(event.target.value)}
+                    className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
+                  />
+                </label>
+                <div className="flex items-end justify-between gap-3">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={required}
+                      onChange={(event) => setRequired(event.target.checked)}
+                    />
+                    {t("fields.required")}
+                  </label>
+                  <button
+                    type="button"
+                    className="rounded-full border border-sky-200 bg-sky-50 px-4 py-2 font-semibold text-sky-700 transition hover:bg-sky-100"
+                    onClick={handleAddField}
+                  >
+                    {t("fields.add")}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-rose-500">{t("fields.noAssignees")}</p>
+            )}
+          </section>
+        ) : null}
+
+        <section className="space-y-3 rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm">
+          {documentType === "pdf" && pageCount > 1 ? (
+            <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-slate-600">
+              <button
+                type="button"
+                className="rounded-full border border-slate-200 bg-white px-3 py-1 font-semibold transition hover:bg-slate-100 disabled:opacity-40"
+                disabled={currentPage <= 1}
+                onClick={() => goToPage(currentPage - 1)}
+              >
+                {t("sign.previousPage")}
+              </button>
+              <span>
+                {t("sign.pageOf", {
+                  page: formatDigits(currentPage, dateDisplay.digits),
+                  count: formatDigits(pageCount, dateDisplay.digits),
+                })}
+              </span>
+              <button
+                type="button"
+                className="rounded-full border border-slate-200 bg-white px-3 py-1 font-semibold transition hover:bg-slate-100 disabled:opacity-40"
+                disabled={currentPage >= pageCount}
+                onClick={() => goToPage(currentPage + 1)}
+              >
+                {t("sign.nextPage")}
+              </button>
+            </div>
+          ) : null}
+          {documentUrl ? (
+            <div
+              ref={previewRef}
+              className="relative mx-auto w-fit"
+              style={{ touchAction: "none" }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+            >
+              <img
+                src={documentUrl}
+                alt={t("sign.documentAlt")}
+                className="max-h-[640px] w-auto select-none rounded-2xl border border-slate-200 object-contain"
+                draggable={false}
+              />
+              {pageFields.map((field) => (
+                <div
+                  key={field.key}
+                  className={`absolute cursor-grab overflow-hidden rounded-md border-2 px-1 text-[10px] font-semibold active:cursor-grabbing ${
+                    field.key === selectedKey
+                      ? "border-emerald-500 bg-emerald-100/60 text-emerald-700"
+                      : "border-dashed border-sky-500 bg-sky-100/50 text-sky-700"
+                  }`}
+                  style={{
+                    left: `${field.x * 100}%`,
+                    top: `${field.y * 100}%`,
+                    width: `${field.width * 100}%`,
+                    height: `${field.height * 100}%`,
+                    touchAction: "none",
+                  }}
+                  onPointerDown={(event) => handlePointerDown(event, field, "move")}
+                >
+                  {field.label || t(`sign.field.${field.fieldType}`)} · {assigneeName(field.inviteeId)}
+                  {!locked ? (
+                    <span
+                      role="presentation"
+                      className="absolute bottom-0.5 right-0.5 h-3 w-3 cursor-se-resize rounded-full bg-emerald-500"
+                      onPointerDown={(event) => handlePointerDown(event, field, "resize")}
+                    />
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </section>
+
+        <section className="space-y-3 rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm">
+          {fields.length ? (
+            <ul className="space-y-2 text-xs text-slate-600">
+              {fields.map((field) => (
+                <li
+                  key={field.key}
+                  className={`flex items-center justify-between gap-3 rounded-xl border px-3 py-2 ${
+                    field.key === selectedKey
+                      ? "border-emerald-200 bg-emerald-50"
+                      : "border-slate-200 bg-white"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    className="text-start"
+                    onClick={() => {
+                      setSelectedKey(field.key);
+                      if (field.page !== currentPage) goToPage(field.page);
+                    }}
+                  >
+                    {t("fields.item", {
+                      type: field.label || t(`sign.field.${field.fieldType}`),
+                      name: assigneeName(field.inviteeId),
+                      page: formatDigits(field.page, dateDisplay.digits),
+                    })}
+                    {field.required ? "" : ` · ${t("sign.fieldOptional")}`}
+                  </button>
+                  {!locked ? (
+                    <button
+                      type="button"
+                      className="font-semibold text-rose-500 transition hover:text-rose-600"
+                      onClick={() => handleRemoveField(field.key)}
+                    >
+                      {t("common.remove")}
+                    </button>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-slate-400">{t("fields.empty")}</p>
+          )}
+          <div className="flex flex-wrap gap-2 text-xs">
+            <button
+              type="button"
+              className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-600 transition hover:bg-slate-100"
+              onClick={() => router.back()}
+            >
+              {t("fields.back")}
+            </button>
+            {!locked ? (
+              <button
+                type="button"
+                className="rounded-full border border-emerald-500 bg-emerald-500 px-4 py-2 font-semibold text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={saving}
+                onClick={handleSave}
+              >
+                {saving ? t("fields.saving") : t("fields.save")}
+              </button>
+            ) : null}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,22 @@
 /* eslint-disable @next/next/no-img-element */
 "use client";
 
-import { ChangeEvent, useEffect, useMemo, useRef, useState } from "react";
-import SignatureCanvas from "react-signature-canvas";
-import { useRouter, useSearchParams } from "next/navigation";
-import { getSupabaseClient } from "@/lib/supabaseClient";
-import { logClientActivity } from "@/lib/logging";
+import { useEffect, useRef, useState } from "react";
+import dayjs from "dayjs";
+import dynamic from "next/dynamic";
+import { useRouter } from "next/navigation";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import type { DateObject } from "react-multi-date-picker";
+import { useI18n } from "@/components/I18nProvider";
+import { SignatureCreator, type SignatureMeta } from "@/components/SignatureCreator";
+import { fitImageToAspect, renderTextImage } from "@/lib/canvasImages";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { isImageField } from "@/lib/fields";
+import { formatDate, formatDigits, getPickerCalendar } from "@/lib/format";
+import type { PdfSignaturePlacement } from "@/lib/pdf";
+import { loadPdfPreview, renderPdfPage } from "@/lib/pdfPreview";
+import { getSavedSignatureMeta, useSavedSignatures } from "@/lib/savedSignatures";
+import type { DocumentField, SavedSignatureKind } from "@/types";
 
 type DocumentResponse = {
   document: {
@@ -13,36 +24,29 @@ type DocumentResponse = {
     projectId: string;
     fileType: string;
     signedUrl: string;
+    fields?: DocumentField[];
   };
 };
 
-type SignatureMode = "draw" | "typed" | "upload";
-
-type SignatureMeta = {
-  mode: SignatureMode;
-  opacity: number;
-  penColor?: string;
-  penWidth?: number;
-  typedText?: string;
-  typedFont?: string;
-  typedColor?: string;
-  typedSize?: number;
-  uploadedFileName?: string | null;
+// The image is only the preview: the server writes date and text fields
+// itself from `value`, an ISO date for date fields.
+type FieldEntry = {
+  imageDataUrl: string;
+  value?: string;
 };
 
-const fontOptions = [
-  { value: "Vazirmatn", label: "وزیرمتن" },
-  { value: "Sahel", label: "ساحل" },
-  { value: "Tanha", label: "تنهــا" },
-  { value: "Lalezar", label: "لاله‌زار" },
-  { value: "Arial", label: "Arial" },
-];
+const DatePicker = dynamic(() => import("react-multi-date-picker"), {
+  ssr: false,
+});
 
-const modeOptions: Array<{ value: SignatureMode; label: string }> = [
-  { value: "draw", label: "رسم دستی" },
-  { value: "typed", label: "متن تایپی" },
-  { value: "upload", label: "آپلود تصویر امضا" },
-];
+const today = () => dayjs().format("YYYY-MM-DD");
+
+// Date and text fields are written in the UI font, like printed text.
+const fieldFont = "Vazirmatn";
+const fieldColor = "#0f172a";
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
 
 export default function DocumentSignPage({
   params,
@@ -57,24 +61,18 @@ export default function DocumentSignPage({
   const [error, setError] = useState<string | null>(null);
   const [documentUrl, setDocumentUrl] = useState<string | null>(null);
   const [documentType, setDocumentType] = useState<"image" | "pdf">("image");
+  const [pageCount, setPageCount] = useState(1);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pagePlacements, setPagePlacements] = useState<PdfSignaturePlacement[]>([]);
   const [baseImage, setBaseImage] = useState<HTMLImageElement | null>(null);
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
   const [signatureImage, setSignatureImage] = useState<HTMLImageElement | null>(null);
   const [signatureMeta, setSignatureMeta] = useState<SignatureMeta | null>(null);
-
-  const supabase = useMemo(() => getSupabaseClient(), []);
-  const hasLoggedView = useRef(false);
-
-  const [mode, setMode] = useState<SignatureMode>("draw");
-  const [penColor, setPenColor] = useState("#0ea5e9");
-  const [penWidth, setPenWidth] = useState(3);
-  const [opacity, setOpacity] = useState(1);
-  const [typedText, setTypedText] = useState("سهیل توکل پور");
-  const [typedFont, setTypedFont] = useState("Vazirmatn");
-  const [typedSize, setTypedSize] = useState(36);
-  const [typedColor, setTypedColor] = useState("#0ea5e9");
-  const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
-  const [uploadedDataUrl, setUploadedDataUrl] = useState<string | null>(null);
+  const [fields, setFields] = useState<DocumentField[]>([]);
+  const [activeFieldIndex, setActiveFieldIndex] = useState(0);
+  const [fieldEntries, setFieldEntries] = useState<Record<string, FieldEntry>>({});
+  const [fieldText, setFieldText] = useState("");
+  const [savingKind, setSavingKind] = useState<SavedSignatureKind | null>(null);
 
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
@@ -86,10 +84,15 @@ export default function DocumentSignPage({
     height: 90,
   });
 
-  const searchParams = useSearchParams();
   const router = useRouter();
-  const signatureRef = useRef<SignatureCanvas | null>(null);
+  const { locale, t, tError } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+  const pickerCalendar = getPickerCalendar(dateDisplay);
+  const { signatures: savedSignatures, saveSignature } = useSavedSignatures(
+    resolvedParams?.projectId ?? null
+  );
   const previewRef = useRef<HTMLDivElement | null>(null);
+  const pdfRef = useRef<PDFDocumentProxy | null>(null);
 
   useEffect(() => {
     params.then(setResolvedParams);
@@ -98,72 +101,49 @@ export default function DocumentSignPage({
   useEffect(() => {
     const loadDocument = async () => {
       if (!resolvedParams) return;
-      const inviteeId = searchParams.get("invitee");
-      if (!inviteeId) {
-        setError("ابتدا باید از طریق لینک دعوت وارد شوید.");
-        setLoading(false);
-        return;
-      }
       try {
         const response = await fetch(
-          `/api/projects/${resolvedParams.projectId}/documents/${resolvedParams.documentId}?inviteeId=${inviteeId}`
+          `/api/projects/${resolvedParams.projectId}/documents/${resolvedParams.documentId}`
         );
+        if (response.status === 401) {
+          setError(t("errors.auth_required"));
+          return;
+        }
         if (!response.ok) {
           const body = await response.json().catch(() => ({}));
-          throw new Error(body?.error ?? "دریافت سند با خطا مواجه شد.");
+          throw new Error(body?.error ?? "document_not_found");
         }
         const body = (await response.json()) as DocumentResponse;
         const fileType = body.document.fileType === "pdf" ? "pdf" : "image";
+        const documentFields = body.document.fields ?? [];
         setDocumentType(fileType);
+        setFields(documentFields);
         let derivedUrl = body.document.signedUrl;
 
         if (fileType === "pdf") {
           try {
-            const pdfjsLib = await import("pdfjs-dist");
-            pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
-            const loadingTask = pdfjsLib.getDocument({ url: body.document.signedUrl });
-            const pdf = await loadingTask.promise;
-            if (pdf.numPages < 1) {
-              throw new Error("PDF has no pages");
-            }
-            const page = await pdf.getPage(1);
-            const viewport = page.getViewport({ scale: 2 });
-            const canvas = document.createElement("canvas");
-            const context = canvas.getContext("2d");
-            if (!context) {
-              throw new Error("Failed to get canvas context");
-            }
-            canvas.width = viewport.width;
-            canvas.height = viewport.height;
-            await page.render({ canvasContext: context, viewport, canvas }).promise;
-            derivedUrl = canvas.toDataURL("image/png");
+            const pdf = await loadPdfPreview(body.document.signedUrl);
+            const firstPage = Math.min(documentFields[0]?.page ?? 1, pdf.numPages);
+            pdfRef.current = pdf;
+            setPageCount(pdf.numPages);
+            setCurrentPage(firstPage);
+            derivedUrl = await renderPdfPage(pdf, firstPage);
           } catch (pdfError) {
             console.error("PDF render error", pdfError);
-            setError("امکان نمایش فایل PDF وجود ندارد.");
+            setError(t("sign.error.pdfRender"));
             setLoading(false);
             return;
           }
         }
 
         setDocumentUrl(derivedUrl);
-        const actorName = searchParams.get("actorName");
-        if (!hasLoggedView.current) {
-          await logClientActivity(supabase, {
-            projectId: resolvedParams.projectId,
-            inviteeId,
-            actorName: actorName ?? null,
-            action: "document_viewed",
-            details: {
-              summary: "مشاهده سند",
-              data: { documentId: resolvedParams.documentId },
-            },
-          });
-          hasLoggedView.current = true;
-        }
       } catch (fetchError) {
         console.error(fetchError);
         setError(
-          fetchError instanceof Error ? fetchError.message : "خطای ناشناخته رخ داد."
+          tError(
+            fetchError instanceof Error ? fetchError.message : null,
+            "sign.error.unknown"
+          )
         );
       } finally {
         setLoading(false);
@@ -171,7 +151,7 @@ export default function DocumentSignPage({
     };
 
     loadDocument();
-  }, [resolvedParams, searchParams, supabase]);
+  }, [resolvedParams, t, tError]);
 
   useEffect(() => {
     if (!documentUrl) return;
@@ -186,11 +166,10 @@ export default function DocumentSignPage({
     image.src = documentUrl;
   }, [documentUrl]);
 
-  useEffect(() => {
-    signatureRef.current?.clear();
+  const resetSignaturePreview = () => {
     setSignatureImage(null);
     setSignatureMeta(null);
-  }, [mode]);
+  };
 
   const applySignaturePreview = (dataUrl: string, meta: SignatureMeta) => {
     const image = new Image();
@@ -212,83 +191,30 @@ export default function DocumentSignPage({
     image.src = dataUrl;
   };
 
-  const createSignaturePreview = async () => {
+  const handleCreateSignature = (dataUrl: string, meta: SignatureMeta) => {
     if (!baseImage) {
-      alert("تا بارگذاری کامل سند صبر کنید.");
+      alert(t("sign.error.documentLoading"));
       return;
     }
+    applySignaturePreview(dataUrl, meta);
+  };
 
-    if (mode === "draw") {
-      if (!signatureRef.current || signatureRef.current.isEmpty()) {
-        alert("ابتدا امضای خود را رسم کنید.");
-        return;
-      }
-      const trimmed = signatureRef.current.getTrimmedCanvas();
-      const canvas = document.createElement("canvas");
-      canvas.width = trimmed.width;
-      canvas.height = trimmed.height;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.globalAlpha = opacity;
-      ctx.drawImage(trimmed, 0, 0);
-      applySignaturePreview(canvas.toDataURL("image/png"), {
-        mode: "draw",
-        opacity,
-        penColor,
-        penWidth,
-      });
-    } else if (mode === "typed") {
-      if (!typedText.trim()) {
-        alert("متن امضا را وارد کنید.");
-        return;
-      }
-      const tempCanvas = document.createElement("canvas");
-      const tempCtx = tempCanvas.getContext("2d");
-      if (!tempCtx) return;
-      const fontSpec = `${typedSize}px ${typedFont}`;
-      tempCtx.font = fontSpec;
-      const textWidth = tempCtx.measureText(typedText).width + typedSize * 0.5;
-      const textHeight = typedSize * 1.6;
-      tempCanvas.width = Math.max(textWidth, 10);
-      tempCanvas.height = Math.max(textHeight, 10);
-      const ctx = tempCanvas.getContext("2d");
-      if (!ctx) return;
-      ctx.font = fontSpec;
-      ctx.fillStyle = typedColor;
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      ctx.globalAlpha = opacity;
-      ctx.fillText(typedText, tempCanvas.width / 2, tempCanvas.height / 2);
-      applySignaturePreview(tempCanvas.toDataURL("image/png"), {
-        mode: "typed",
-        opacity,
-        typedText,
-        typedFont,
-        typedColor,
-        typedSize,
-      });
-    } else if (mode === "upload") {
-      if (!uploadedDataUrl) {
-        alert("فایلی برای امضا انتخاب نشده است.");
-        return;
-      }
-      const image = new Image();
-      image.onload = () => {
-        const canvas = document.createElement("canvas");
-        canvas.width = image.width;
-        canvas.height = image.height;
-        const ctx = canvas.getContext("2d");
-        if (!ctx) return;
-        ctx.globalAlpha = opacity;
-        ctx.drawImage(image, 0, 0);
-        applySignaturePreview(canvas.toDataURL("image/png"), {
-          mode: "upload",
-          opacity,
-          uploadedFileName,
-        });
-      };
-      image.src = uploadedDataUrl;
+  const storeSignature = async (kind: SavedSignatureKind) => {
+    if (!signatureImage || !signatureMeta) return;
+    setSavingKind(kind);
+    try {
+      await saveSignature(kind, signatureImage.src, signatureMeta);
+      alert(t("savedSignatures.saved"));
+    } catch (saveError) {
+      console.error(saveError);
+      alert(
+        tError(
+          saveError instanceof Error ? saveError.message : null,
+          "savedSignatures.error.store"
+        )
+      );
+    } finally {
+      setSavingKind(null);
     }
   };
 
@@ -348,93 +274,199 @@ export default function DocumentSignPage({
     }
   };
 
-  const saveMergedSignature = async () => {
-    if (!resolvedParams || !baseImage || !signatureImage || !signatureMeta) {
-      alert("ابتدا امضا را ساخته و روی سند قرار دهید.");
-      return;
+  const toPlacement = (page: number): PdfSignaturePlacement => {
+    const width = clamp(signatureBox.width / canvasSize.width, 0, 1);
+    const height = clamp(signatureBox.height / canvasSize.height, 0, 1);
+    return {
+      page,
+      x: clamp(signatureBox.x / canvasSize.width, 0, 1 - width),
+      y: clamp(signatureBox.y / canvasSize.height, 0, 1 - height),
+      width,
+      height,
+    };
+  };
+
+  const goToPage = async (pageNumber: number) => {
+    const pdf = pdfRef.current;
+    if (!pdf || pageNumber < 1 || pageNumber > pageCount) return;
+    try {
+      setDocumentUrl(await renderPdfPage(pdf, pageNumber));
+      setCurrentPage(pageNumber);
+    } catch (pageError) {
+      console.error("PDF render error", pageError);
+      alert(t("sign.error.pdfRender"));
     }
-    const inviteeId = searchParams.get("invitee");
-    const actorName = searchParams.get("actorName");
-    if (!inviteeId) return;
-
-    const canvas = document.createElement("canvas");
-    canvas.width = baseImage.width;
-    canvas.height = baseImage.height;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    ctx.drawImage(baseImage, 0, 0, canvas.width, canvas.height);
-
-    const scaleX = baseImage.width / canvasSize.width;
-    const scaleY = baseImage.height / canvasSize.height;
-    ctx.globalAlpha = signatureMeta.opacity;
-    ctx.drawImage(
-      signatureImage,
-      signatureBox.x * scaleX,
-      signatureBox.y * scaleY,
-      signatureBox.width * scaleX,
-      signatureBox.height * scaleY
+  };
+
+  const placeOnCurrentPage = () => {
+    if (!signatureImage) return;
+    setPagePlacements((prev) =>
+      [...prev.filter((item) => item.page !== currentPage), toPlacement(currentPage)].sort(
+        (a, b) => a.page - b.page
+      )
+    );
+  };
+
+  const removeFromCurrentPage = () => {
+    setPagePlacements((prev) => prev.filter((item) => item.page !== currentPage));
+  };
+
+  // The server composites the overlay onto the stored image itself.
+  const buildImageSignaturePayload = (
+    image: HTMLImageElement,
+    meta: SignatureMeta
+  ) => {
+    const { x, y, width, height } = toPlacement(1);
+    return {
+      overlayDataUrl: image.src,
+      placement: { x, y, width, height },
+      meta,
+    };
+  };
+
+  // The server stamps the overlay into the original PDF; if the signer
+  // never pinned it to a page, the box on the visible page is used.
+  const buildPdfSignaturePayload = (
+    image: HTMLImageElement,
+    meta: SignatureMeta
+  ) => ({
+    overlayDataUrl: image.src,
+    placements: pagePlacements.length ? pagePlacements : [toPlacement(currentPage)],
+    meta,
+  });
+
+  const activeField = fields[activeFieldIndex] ?? null;
+
+  const goToField = async (index: number) => {
+    const field = fields[index];
+    if (!field) return;
+    setActiveFieldIndex(index);
+    setFieldText(
+      fieldEntries[field.id]?.value ?? (field.fieldType === "date" ? today() : "")
     );
+    if (documentType === "pdf" && field.page !== currentPage) {
+      await goToPage(field.page);
+    }
+  };
+
+  // Signature and initials fields take the current preview; date and text
+  // fields are rendered from what the signer typed.
+  const applyToActiveField = async () => {
+    if (!activeField) return;
+    const aspect =
+      (activeField.width * canvasSize.width) / (activeField.height * canvasSize.height);
+    let entry: FieldEntry;
+
+    try {
+      if (isImageField(activeField.fieldType)) {
+        if (!signatureImage) {
+          alert(t("sign.error.previewMissing"));
+          return;
+        }
+        entry = { imageDataUrl: await fitImageToAspect(signatureImage.src, aspect) };
+      } else {
+        const isDate = activeField.fieldType === "date";
+        const value = fieldText.trim() || (isDate ? today() : "");
+        const rendered = value
+          ? renderTextImage(
+              isDate ? formatDate(value, dateDisplay) : value,
+              fieldFont,
+              48,
+              fieldColor,
+              1
+            )
+          : null;
+        if (!rendered) {
+          alert(t("sign.error.fieldValueMissing"));
+          return;
+        }
+        entry = { imageDataUrl: await fitImageToAspect(rendered, aspect), value };
+      }
+    } catch (applyError) {
+      console.error(applyError);
+      alert(t("sign.error.unknown"));
+      return;
+    }
 
-    const mergedDataUrl = canvas.toDataURL("image/png");
+    const nextEntries = { ...fieldEntries, [activeField.id]: entry };
+    setFieldEntries(nextEntries);
+    const nextIndex = fields.findIndex((field) => !nextEntries[field.id]);
+    if (nextIndex >= 0) {
+      await goToField(nextIndex);
+    }
+  };
 
+  const fieldsComplete =
+    fields.some((field) => fieldEntries[field.id]) &&
+    fields.every((field) => !field.required || fieldEntries[field.id]);
+
+  const submitSignature = async (signaturePayload: Record<string, unknown>) => {
+    if (!resolvedParams) return;
     try {
       const response = await fetch(
         `/api/projects/${resolvedParams.projectId}/documents/${resolvedParams.documentId}/sign`,
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            inviteeId,
-            actorName: actorName ?? undefined,
-            overlayDataUrl: signatureImage.src,
-            mergedDataUrl,
-            placement: {
-              x: signatureBox.x / canvasSize.width,
-              y: signatureBox.y / canvasSize.height,
-              width: signatureBox.width / canvasSize.width,
-              height: signatureBox.height / canvasSize.height,
-            },
-            meta: signatureMeta,
-          }),
+          body: JSON.stringify(signaturePayload),
         }
       );
 
+      const body = await response.json().catch(() => ({}));
       if (!response.ok) {
-        const body = await response.json().catch(() => ({}));
-        throw new Error(body?.error ?? "ذخیره نسخه امضا شده با خطا مواجه شد.");
+        throw new Error(body?.error ?? "signed_document_store_failed");
       }
 
-      alert("نسخه امضا شده ذخیره شد.");
+      alert(t(body?.completed ? "sign.savedCompleted" : "sign.saved"));
       router.back();
     } catch (saveError) {
       console.error(saveError);
       alert(
-        saveError instanceof Error
-          ? saveError.message
-          : "ذخیره نسخه امضا شده انجام نشد."
+        tError(
+          saveError instanceof Error ? saveError.message : null,
+          "errors.signed_document_store_failed"
+        )
       );
     }
   };
 
-  const handleUploadChange = (event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0] ?? null;
-    setUploadedFileName(file?.name ?? null);
-    if (!file) {
-      setUploadedDataUrl(null);
+  const saveMergedSignature = async () => {
+    if (!resolvedParams || !baseImage || !signatureImage || !signatureMeta) {
+      alert(t("sign.error.previewMissing"));
+      return;
+    }
+
+    await submitSignature(
+      documentType === "pdf"
+        ? buildPdfSignaturePayload(signatureImage, signatureMeta)
+        : buildImageSignaturePayload(signatureImage, signatureMeta)
+    );
+  };
+
+  const saveFieldSignature = async () => {
+    if (!fieldsComplete) {
+      alert(t("sign.error.fieldsIncomplete"));
       return;
     }
-    const reader = new FileReader();
-    reader.onload = () => {
-      setUploadedDataUrl(reader.result as string);
-    };
-    reader.readAsDataURL(file);
+
+    await submitSignature({
+      fieldEntries: fields
+        .filter((field) => fieldEntries[field.id])
+        .map((field) => {
+          const { imageDataUrl, value } = fieldEntries[field.id];
+          return isImageField(field.fieldType)
+            ? { fieldId: field.id, imageDataUrl }
+            : { fieldId: field.id, value };
+        }),
+      dateDisplay,
+      meta: signatureMeta ?? { mode: "typed", opacity: 1 },
+    });
   };
 
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-slate-100 text-slate-600">
-        در حال آماده‌سازی سند...
+        {t("sign.loading")}
       </div>
     );
   }
@@ -447,192 +479,299 @@ export default function DocumentSignPage({
     );
   }
 
+  const currentPlacement = pagePlacements.find((item) => item.page === currentPage);
+
+  const pageNavigator =
+    documentType === "pdf" && pageCount > 1 ? (
+      <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-slate-600">
+        <button
+          type="button"
+          className="rounded-full border border-slate-200 bg-white px-3 py-1 font-semibold transition hover:bg-slate-100 disabled:opacity-40"
+          disabled={currentPage <= 1}
+          onClick={() => goToPage(currentPage - 1)}
+        >
+          {t("sign.previousPage")}
+        </button>
+        <span>
+          {t("sign.pageOf", {
+            page: formatDigits(currentPage, dateDisplay.digits),
+            count: formatDigits(pageCount, dateDisplay.digits),
+          })}
+        </span>
+        <button
+          type="button"
+          className="rounded-full border border-slate-200 bg-white px-3 py-1 font-semibold transition hover:bg-slate-100 disabled:opacity-40"
+          disabled={currentPage >= pageCount}
+          onClick={() => goToPage(currentPage + 1)}
+        >
+          {t("sign.nextPage")}
+        </button>
+      </div>
+    ) : null;
+
   return (
     <div className="min-h-screen bg-slate-100 py-10">
       <div className="mx-auto flex max-w-4xl flex-col gap-6 px-4 sm:px-6 lg:px-8">
         <header className="rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur">
-          <h1 className="text-lg font-semibold text-slate-700">امضای سند</h1>
+          <h1 className="text-lg font-semibold text-slate-700">{t("sign.title")}</h1>
           <p className="mt-2 text-sm text-slate-500">
-            سند زیر را بررسی کنید و سپس امضای خود را در بخش پایین ثبت نمایید.
+            {t("sign.description")}
           </p>
         </header>
 
-        <section className="rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm">
+        <section className="space-y-3 rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm">
+          {pageNavigator}
           {documentUrl ? (
-            <img
-              src={documentUrl}
-              alt="سند برای امضا"
-              className="mx-auto max-h-[480px] w-auto rounded-2xl border border-slate-200 object-contain"
-            />
+            <div className="relative mx-auto w-fit">
+              <img
+                src={documentUrl}
+                alt={t("sign.documentAlt")}
+                className="max-h-[480px] w-auto rounded-2xl border border-slate-200 object-contain"
+              />
+              {fields
+                .map((field, index) => ({ field, index }))
+                .filter(
+                  ({ field }) => documentType !== "pdf" || field.page === currentPage
+                )
+                .map(({ field, index }) => (
+                  <button
+                    key={field.id}
+                    type="button"
+                    className={`absolute overflow-hidden rounded-md border-2 text-[10px] font-semibold ${
+                      index === activeFieldIndex
+                        ? "border-emerald-500 bg-emerald-100/50 text-emerald-700"
+                        : "border-dashed border-sky-500 bg-sky-100/40 text-sky-700"
+                    }`}
+                    style={{
+                      left: `${field.x * 100}%`,
+                      top: `${field.y * 100}%`,
+                      width: `${field.width * 100}%`,
+                      height: `${field.height * 100}%`,
+                    }}
+                    onClick={() => goToField(index)}
+                  >
+                    {fieldEntries[field.id] ? (
+                      <img
+                        src={fieldEntries[field.id].imageDataUrl}
+                        alt={t(`sign.field.${field.fieldType}`)}
+                        className="h-full w-full object-contain"
+                      />
+                    ) : (
+                      field.label || t(`sign.field.${field.fieldType}`)
+                    )}
+                  </button>
+                ))}
+            </div>
           ) : (
             <p className="text-sm text-slate-500">
-              پیش‌نمایش سند برای این نوع فایل در حال حاضر پشتیبانی نمی‌شود. لطفاً همچنان امضای خود را ثبت کنید.
+              {t("sign.previewUnsupported")}
             </p>
           )}
         </section>
 
-        <section className="space-y-4 rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm">
-          <div className="flex flex-wrap gap-3">
-            {modeOptions.map((option) => (
-              <button
-                key={option.value}
-                type="button"
-                className={`rounded-full px-4 py-2 text-xs font-semibold transition ${
-                  mode === option.value
-                    ? "bg-emerald-500 text-white"
-                    : "bg-slate-100 text-slate-600"
-                }`}
-                onClick={() => setMode(option.value)}
-              >
-                {option.label}
-              </button>
-            ))}
-          </div>
-
-          {mode === "draw" ? (
-            <div className="grid gap-4 sm:grid-cols-2">
-              <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
-                رنگ قلم
-                <input
-                  type="color"
-                  value={penColor}
-                  onChange={(event) => setPenColor(event.target.value)}
-                />
-              </label>
-              <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
-                ضخامت قلم
-                <input
-                  type="range"
-                  min={1}
-                  max={12}
-                  value={penWidth}
-                  onChange={(event) => setPenWidth(Number(event.target.value))}
-                />
-              </label>
+        {activeField ? (
+          <section className="space-y-4 rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-sm font-semibold text-slate-700">
+                {t("sign.fieldProgress", {
+                  index: formatDigits(activeFieldIndex + 1, dateDisplay.digits),
+                  count: formatDigits(fields.length, dateDisplay.digits),
+                })}
+              </h2>
+              <span className="text-xs text-slate-500">
+                {t(`sign.field.${activeField.fieldType}`)}
+                {activeField.label ? ` – ${activeField.label}` : ""}
+                {documentType === "pdf"
+                  ? ` · ${t("sign.fieldPage", {
+                      page: formatDigits(activeField.page, dateDisplay.digits),
+                    })}`
+                  : ""}
+                {activeField.required ? "" : ` · ${t("sign.fieldOptional")}`}
+              </span>
             </div>
-          ) : null}
-
-          {mode === "typed" ? (
-            <div className="space-y-3 text-xs text-slate-600">
-              <label className="flex flex-col gap-2">
-                متن امضا
-                <input
-                  type="text"
-                  value={typedText}
-                  onChange={(event) => setTypedText(event.target.value)}
-                  className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
-                />
-              </label>
-              <div className="grid gap-4 sm:grid-cols-2">
-                <label className="flex items-center justify-between gap-3">
-                  رنگ متن
-                  <input
-                    type="color"
-                    value={typedColor}
-                    onChange={(event) => setTypedColor(event.target.value)}
+            <div className="flex flex-wrap gap-2 text-xs">
+              {fields.map((field, index) => (
+                <button
+                  key={field.id}
+                  type="button"
+                  className={`rounded-full border px-3 py-1 font-semibold transition ${
+                    index === activeFieldIndex
+                      ? "border-emerald-500 bg-emerald-500 text-white"
+                      : fieldEntries[field.id]
+                      ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                      : "border-slate-200 bg-white text-slate-600 hover:bg-slate-100"
+                  }`}
+                  onClick={() => goToField(index)}
+                >
+                  {fieldEntries[field.id] ? "✓ " : ""}
+                  {formatDigits(index + 1, dateDisplay.digits)}
+                </button>
+              ))}
+            </div>
+            {isImageField(activeField.fieldType) ? (
+              <p className="text-xs text-slate-500">{t("sign.fieldImageHint")}</p>
+            ) : (
+              <label className="flex flex-col gap-2 text-xs text-slate-600">
+                {t("sign.fieldValue")}
+                {activeField.fieldType === "date" ? (
+                  <DatePicker
+                    value={fieldText ? dayjs(fieldText).toDate() : null}
+                    onChange={(value) =>
+                      setFieldText(
+                        value
+                          ? dayjs((value as DateObject).toDate()).format("YYYY-MM-DD")
+                          : ""
+                      )
+                    }
+                    calendar={pickerCalendar.calendar}
+                    locale={pickerCalendar.locale}
+                    calendarPosition="bottom-right"
+                    inputClass="w-full rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
                   />
-                </label>
-                <label className="flex items-center justify-between gap-3">
-                  اندازه فونت
+                ) : (
                   <input
-                    type="range"
-                    min={24}
-                    max={96}
-                    value={typedSize}
-                    onChange={(event) => setTypedSize(Number(event.target.value))}
+                    type="text"
+                    value={fieldText}
+                    onChange={(event) => setFieldText(event.target.value)}
+                    className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
                   />
-                </label>
-              </div>
-              <label className="flex flex-col gap-2">
-                نوع فونت
-                <select
-                  value={typedFont}
-                  onChange={(event) => setTypedFont(event.target.value)}
-                  className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
-                >
-                  {fontOptions.map((option) => (
-                    <option key={option.value} value={option.value}>
-                      {option.label}
-                    </option>
-                  ))}
-                </select>
-              </label>
-            </div>
-          ) : null}
-
-          {mode === "upload" ? (
-            <div className="space-y-3 text-xs text-slate-600">
-              <label className="flex flex-col gap-2">
-                انتخاب تصویر امضا (PNG ترجیح داده می‌شود)
-                <input
-                  type="file"
-                  accept="image/*"
-                  onChange={handleUploadChange}
-                  className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
-                />
+                )}
               </label>
-              {uploadedFileName ? (
-                <p className="text-xs text-slate-500">فایل انتخابی: {uploadedFileName}</p>
-              ) : null}
-            </div>
-          ) : null}
-
-          <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
-            شفافیت / شدت نمایش امضا
-            <input
-              type="range"
-              min={20}
-              max={100}
-              value={opacity * 100}
-              onChange={(event) => setOpacity(Number(event.target.value) / 100)}
-            />
-          </label>
-
-          {mode === "draw" ? (
-            <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white">
-              <SignatureCanvas
-                ref={signatureRef}
-                penColor={penColor}
-                minWidth={penWidth / 2}
-                maxWidth={penWidth}
-                backgroundColor="rgba(255,255,255,0)"
-                canvasProps={{ className: "w-full h-64" }}
-              />
-            </div>
-          ) : (
-            <div className="rounded-2xl border border-dashed border-slate-200 bg-white px-4 py-6 text-center text-xs text-slate-500">
-              {mode === "typed"
-                ? "پس از تنظیم متن و گزینه‌ها، روی «ساخت پیش‌نمایش امضا» کلیک کنید."
-                : "پس از انتخاب تصویر، برای جایگذاری روی سند پیش‌نمایش بسازید."}
-            </div>
-          )}
-          <div className="flex flex-wrap gap-2 text-xs">
-            {mode === "draw" ? (
+            )}
+            <div className="flex flex-wrap gap-2 text-xs">
               <button
                 type="button"
-                className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-600 transition hover:bg-slate-100"
-                onClick={() => signatureRef.current?.clear()}
+                className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                disabled={activeFieldIndex <= 0}
+                onClick={() => goToField(activeFieldIndex - 1)}
+              >
+                {t("sign.previousField")}
+              </button>
+              <button
+                type="button"
+                className="rounded-full border border-sky-200 bg-sky-50 px-4 py-2 font-semibold text-sky-700 transition hover:bg-sky-100"
+                onClick={applyToActiveField}
+              >
+                {t("sign.applyToField")}
+              </button>
+              <button
+                type="button"
+                className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                disabled={activeFieldIndex >= fields.length - 1}
+                onClick={() => goToField(activeFieldIndex + 1)}
+              >
+                {t("sign.nextField")}
+              </button>
+              <button
+                type="button"
+                className="rounded-full border border-emerald-500 bg-emerald-500 px-4 py-2 font-semibold text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={!fieldsComplete}
+                onClick={saveFieldSignature}
               >
-                پاک‌سازی نقاشی
+                {t("sign.save")}
               </button>
+            </div>
+          </section>
+        ) : null}
+
+        {!activeField || isImageField(activeField.fieldType) ? (
+          <>
+            {savedSignatures.length ? (
+              <section className="space-y-3 rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h2 className="text-sm font-semibold text-slate-700">
+                    {t("savedSignatures.pickTitle")}
+                  </h2>
+                  <button
+                    type="button"
+                    className="text-xs font-semibold text-sky-600 hover:underline"
+                    onClick={() =>
+                      resolvedParams &&
+                      router.push(`/project/${resolvedParams.projectId}/signatures`)
+                    }
+                  >
+                    {t("savedSignatures.manage")}
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-3">
+                  {savedSignatures.map((saved) => (
+                    <div
+                      key={saved.kind}
+                      className="flex flex-col items-center gap-2 rounded-2xl border border-slate-200 bg-white p-3"
+                    >
+                      <span className="text-xs font-semibold text-slate-600">
+                        {t(`savedSignatures.kind.${saved.kind}`)}
+                      </span>
+                      <img
+                        src={saved.imageDataUrl}
+                        alt={t(`savedSignatures.kind.${saved.kind}`)}
+                        className="h-16 max-w-[12rem] object-contain"
+                      />
+                      <button
+                        type="button"
+                        className="rounded-full border border-sky-200 bg-sky-50 px-3 py-1 text-xs font-semibold text-sky-700 transition hover:bg-sky-100"
+                        onClick={() =>
+                          handleCreateSignature(
+                            saved.imageDataUrl,
+                            getSavedSignatureMeta(saved)
+                          )
+                        }
+                      >
+                        {t("savedSignatures.use")}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </section>
             ) : null}
-            <button
-              type="button"
-              className="rounded-full border border-emerald-500 bg-emerald-500 px-4 py-2 font-semibold text-white transition hover:bg-emerald-600"
-              onClick={createSignaturePreview}
+            <SignatureCreator
+              onCreate={handleCreateSignature}
+              onModeChange={resetSignaturePreview}
             >
-              ساخت پیش‌نمایش امضا
-            </button>
-          </div>
-        </section>
+              {activeField && signatureImage ? (
+                <img
+                  src={signatureImage.src}
+                  alt={t("sign.previewAlt")}
+                  className="mx-auto max-h-24 rounded-xl border border-slate-200 bg-white object-contain"
+                />
+              ) : null}
+              {signatureImage && signatureMeta ? (
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {(["signature", "initials"] as const).map((kind) => (
+                    <button
+                      key={kind}
+                      type="button"
+                      className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                      disabled={savingKind !== null}
+                      onClick={() => storeSignature(kind)}
+                    >
+                      {t(`savedSignatures.saveAs.${kind}`)}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+            </SignatureCreator>
+          </>
+        ) : null}
 
-        {signatureImage ? (
+        {signatureImage && !activeField ? (
           <section className="space-y-4 rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm">
             <h2 className="text-sm font-semibold text-slate-700">
-              جایگذاری امضا روی سند
+              {t("sign.placement")}
             </h2>
             {documentType === "pdf" ? (
-              <p className="text-xs text-slate-500">صفحه نخست فایل PDF برای امضا نمایش داده شده است.</p>
+              <div className="space-y-2">
+                {pageNavigator}
+                <p className="text-xs text-slate-500">
+                  {pagePlacements.length
+                    ? t("sign.placedPages", {
+                        pages: pagePlacements
+                          .map((item) => formatDigits(item.page, dateDisplay.digits))
+                          .join(t("common.listSeparator")),
+                      })
+                    : t("sign.placementHint")}
+                </p>
+              </div>
             ) : null}
             <div
               ref={previewRef}
@@ -645,10 +784,21 @@ export default function DocumentSignPage({
               {documentUrl ? (
                 <img
                   src={documentUrl}
-                  alt="سند برای امضا"
+                  alt={t("sign.documentAlt")}
                   className="h-full w-full object-contain"
                 />
               ) : null}
+              {documentType === "pdf" && currentPlacement ? (
+                <div
+                  className="pointer-events-none absolute rounded-2xl border-2 border-dashed border-sky-500 bg-sky-100/40"
+                  style={{
+                    left: `${currentPlacement.x * 100}%`,
+                    top: `${currentPlacement.y * 100}%`,
+                    width: `${currentPlacement.width * 100}%`,
+                    height: `${currentPlacement.height * 100}%`,
+                  }}
+                />
+              ) : null}
               <div
                 className="absolute cursor-grab rounded-2xl border-2 border-emerald-500 bg-white/80 shadow-lg transition active:cursor-grabbing"
                 style={{
@@ -662,7 +812,7 @@ export default function DocumentSignPage({
               >
                 <img
                   src={signatureImage.src}
-                  alt="پیش‌نمایش امضا"
+                  alt={t("sign.previewAlt")}
                   className="h-full w-full object-contain"
                   draggable={false}
                 />
@@ -680,19 +830,39 @@ export default function DocumentSignPage({
                 type="button"
                 className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-600 transition hover:bg-slate-100"
                 onClick={() => {
-                  signatureRef.current?.clear();
                   setSignatureImage(null);
                   setSignatureMeta(null);
+                  setPagePlacements([]);
                 }}
               >
-                بازگشت به ساخت امضا
+                {t("sign.back")}
               </button>
+              {documentType === "pdf" ? (
+                <>
+                  <button
+                    type="button"
+                    className="rounded-full border border-sky-200 bg-sky-50 px-4 py-2 font-semibold text-sky-700 transition hover:bg-sky-100"
+                    onClick={placeOnCurrentPage}
+                  >
+                    {currentPlacement ? t("sign.movePlacement") : t("sign.placeOnPage")}
+                  </button>
+                  {currentPlacement ? (
+                    <button
+                      type="button"
+                      className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-rose-500 transition hover:bg-rose-50"
+                      onClick={removeFromCurrentPage}
+                    >
+                      {t("sign.removeFromPage")}
+                    </button>
+                  ) : null}
+                </>
+              ) : null}
               <button
                 type="button"
                 className="rounded-full border border-emerald-500 bg-emerald-500 px-4 py-2 font-semibold text-white transition hover:bg-emerald-600"
                 onClick={saveMergedSignature}
               >
-                ذخیره نسخه امضا شده
+                {t("sign.save")}
               </button>
             </div>
           </section>
@@ -1,18 +1,39 @@
 import { notFound } from "next/navigation";
 import { ProjectClient } from "@/components/ProjectClient";
+import { TrashedProjectNotice } from "@/components/TrashedProjectNotice";
 import { getServiceSupabaseClient } from "@/lib/serverSupabase";
-import { mapDocumentQueryRow, type DocumentQueryRow } from "@/lib/documents";
+import {
+  createCalendarFeedToken,
+  createSupabaseAccessToken,
+  getSessionInviteeFromCookies,
+} from "@/lib/auth";
+import { toFinalizedSlot } from "@/lib/availability";
+import {
+  mapProjectInviteeRow,
+  projectInviteeColumns,
+  type ProjectInviteeRow,
+} from "@/lib/invitees";
+import { isOrganizerRole } from "@/lib/roles";
+import { defaultProjectTimeZone } from "@/lib/timezone";
+import { getPurgeAt } from "@/lib/trash";
+import {
+  filterDocumentsForInvitee,
+  type DocumentQueryRow,
+} from "@/lib/documents";
 import type {
+  AccessLinkFailure,
   AvailabilitySlot,
   ParticipantAvailability,
   ProjectDocumentWithRelations,
-  ProjectInvitee,
 } from "@/types";
 
 type PageProps = {
   params: Promise<{ projectId: string }>;
+  searchParams: Promise<{ link?: string | string[] }>;
 };
 
+const accessLinkFailures: AccessLinkFailure[] = ["invalid", "expired", "revoked"];
+
 type ProjectRow = {
   id: string;
   title: string;
@@ -21,14 +42,10 @@ type ProjectRow = {
   end_date: string | null;
   start_time: string | null;
   end_time: string | null;
-  created_at: string;
-};
-
-type InviteeRow = {
-  id: string;
-  project_id: string;
-  name: string;
-  password: string | null;
+  time_zone: string | null;
+  finalized_slot: unknown;
+  availability_due_at: string | null;
+  deleted_at: string | null;
   created_at: string;
 };
 
@@ -43,14 +60,15 @@ type ResponseRow = {
 
 export const revalidate = 0;
 
-export default async function ProjectPage({ params }: PageProps) {
+export default async function ProjectPage({ params, searchParams }: PageProps) {
   const { projectId } = await params;
+  const { link } = await searchParams;
   const supabase = getServiceSupabaseClient();
 
   const { data, error } = await supabase
     .from("projects")
     .select(
-      "id, title, description, start_date, end_date, start_time, end_time, created_at"
+      "id, title, description, start_date, end_date, start_time, end_time, time_zone, finalized_slot, availability_due_at, deleted_at, created_at"
     )
     .eq("id", projectId)
     .single();
@@ -61,26 +79,55 @@ export default async function ProjectPage({ params }: PageProps) {
 
   const projectRow = data as ProjectRow;
 
+  // Only organizers learn that the project is in the trash, so they can
+  // restore it; everyone else sees it as gone.
+  if (projectRow.deleted_at) {
+    const organizer = await getSessionInviteeFromCookies(projectId, {
+      includeDeletedProject: true,
+    });
+    if (!organizer || !isOrganizerRole(organizer.role)) {
+      notFound();
+    }
+    return (
+      <main className="min-h-screen bg-slate-100 py-10">
+        <div className="mx-auto max-w-4xl px-4 sm:px-6 lg:px-8">
+          <TrashedProjectNotice
+            projectId={projectId}
+            title={projectRow.title}
+            purgeAt={getPurgeAt(projectRow.deleted_at)}
+          />
+        </div>
+      </main>
+    );
+  }
+
+  const sessionInvitee = await getSessionInviteeFromCookies(projectId);
+
   const { data: inviteesData } = await supabase
     .from("project_invitees")
-    .select("id, project_id, name, password, created_at")
+    .select(projectInviteeColumns)
     .eq("project_id", projectId)
     .order("created_at", { ascending: true });
 
-  const invitees: ProjectInvitee[] =
-    (inviteesData as InviteeRow[] | null)?.map((item) => ({
-      id: item.id,
-      projectId: item.project_id,
-      name: item.name,
-      password: item.password,
-      createdAt: item.created_at,
-    })) ?? [];
-
-  const { data: responsesData } = await supabase
-    .from("availability_responses")
-    .select("id, project_id, invitee_id, name, slots, created_at")
-    .eq("project_id", projectId)
-    .order("created_at", { ascending: true });
+  const inviteeRows = (inviteesData as ProjectInviteeRow[] | null) ?? [];
+  const invitees = inviteeRows
+    .filter((item) => !item.removed_at)
+    .map(mapProjectInviteeRow);
+  // Removed invitees who had signed stay around so their signatures,
+  // notes and uploads still show a name.
+  const removedInvitees = inviteeRows
+    .filter((item) => item.removed_at)
+    .map(mapProjectInviteeRow);
+
+  // Same rule as the "members can read availabilities" policy: only an
+  // active member of the project sees anyone's responses.
+  const { data: responsesData } = sessionInvitee
+    ? await supabase
+        .from("availability_responses")
+        .select("id, project_id, invitee_id, name, slots, created_at")
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: true })
+    : { data: null };
 
   const initialResponses: ParticipantAvailability[] =
     (responsesData as ResponseRow[] | null)?.map((item) => ({
@@ -97,12 +144,18 @@ export default async function ProjectPage({ params }: PageProps) {
   const { data: documentsData } = await supabase
     .from("project_documents")
     .select(
-      "id, project_id, file_path, file_type, total_pages, current_version, uploaded_by, shared_with_all, created_at, document_permissions(document_id, invitee_id, can_view, can_edit, created_at), document_versions(id, document_id, version, merged_file_path, created_at), document_signatures(id, document_id, invitee_id, version, strokes_json, typed_text, typed_font, typed_color, uploaded_signature_path, overlay_image_path, signed_at, created_at), document_notes(id, document_id, invitee_id, content, visible_to, allow_replies, created_at, document_note_replies(id, note_id, invitee_id, content, created_at))"
+      "id, project_id, file_path, file_type, total_pages, current_version, uploaded_by, shared_with_all, voided_at, void_reason, due_at, created_at, document_permissions(document_id, invitee_id, can_view, can_edit, created_at), document_signers(document_id, invitee_id, step), document_versions(id, document_id, version, merged_file_path, sha256, is_certificate, is_revision, created_by, created_at), document_signatures(id, document_id, invitee_id, version, status, decline_reason, declined_at, voided_at, void_reason, stale_at, strokes_json, typed_text, typed_font, typed_color, uploaded_signature_path, overlay_image_path, signed_at, created_at), document_notes(id, document_id, invitee_id, content, visible_to, allow_replies, created_at, document_note_replies(id, note_id, invitee_id, content, created_at))"
     )
-    .eq("project_id", projectId);
+    .eq("project_id", projectId)
+    .is("deleted_at", null);
 
-  const documents: ProjectDocumentWithRelations[] =
-    (documentsData as DocumentQueryRow[] | null)?.map(mapDocumentQueryRow) ?? [];
+  const documents: ProjectDocumentWithRelations[] = sessionInvitee
+    ? filterDocumentsForInvitee(
+        (documentsData as DocumentQueryRow[] | null) ?? [],
+        sessionInvitee.id,
+        isOrganizerRole(sessionInvitee.role)
+      )
+    : [];
 
   return (
     <main className="min-h-screen bg-slate-100 py-10">
@@ -116,9 +169,36 @@ export default async function ProjectPage({ params }: PageProps) {
             endDate: projectRow.end_date,
             startTime: projectRow.start_time,
             endTime: projectRow.end_time,
+            timeZone: projectRow.time_zone ?? defaultProjectTimeZone,
+            finalizedSlot: toFinalizedSlot(projectRow.finalized_slot),
+            availabilityDueAt: projectRow.availability_due_at,
             createdAt: projectRow.created_at,
           }}
           invitees={invitees}
+          removedInvitees={removedInvitees}
+          initialParticipant={
+            sessionInvitee
+              ? {
+                  id: sessionInvitee.id,
+                  inviteeId: sessionInvitee.id,
+                  name: sessionInvitee.name,
+                  role: sessionInvitee.role,
+                }
+              : null
+          }
+          initialAccessToken={
+            sessionInvitee ? createSupabaseAccessToken(sessionInvitee) : null
+          }
+          initialCalendarFeedToken={
+            sessionInvitee
+              ? createCalendarFeedToken(sessionInvitee)
+              : null
+          }
+          linkError={
+            !sessionInvitee && accessLinkFailures.includes(link as AccessLinkFailure)
+              ? (link as AccessLinkFailure)
+              : null
+          }
           initialResponses={initialResponses}
           documents={documents}
         />
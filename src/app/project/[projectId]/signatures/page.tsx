@@ -0,0 +1,198 @@
+/* eslint-disable @next/next/no-img-element */
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useI18n } from "@/components/I18nProvider";
+import { SignatureCreator, type SignatureMeta } from "@/components/SignatureCreator";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { formatDate } from "@/lib/format";
+import { useSavedSignatures } from "@/lib/savedSignatures";
+import type { SavedSignatureKind } from "@/types";
+
+const savedSignatureKinds: SavedSignatureKind[] = ["signature", "initials"];
+
+export default function SavedSignaturesPage({
+  params,
+}: {
+  params: Promise<{ projectId: string }>;
+}) {
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [kind, setKind] = useState<SavedSignatureKind>("signature");
+  const [draft, setDraft] = useState<{ dataUrl: string; meta: SignatureMeta } | null>(
+    null
+  );
+  const [busy, setBusy] = useState(false);
+
+  const router = useRouter();
+  const { locale, t, tError } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+  const { signatures, loading, error, saveSignature, removeSignature } =
+    useSavedSignatures(projectId);
+
+  useEffect(() => {
+    params.then((value) => setProjectId(value.projectId));
+  }, [params]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setBusy(true);
+    try {
+      await saveSignature(kind, draft.dataUrl, draft.meta);
+      setDraft(null);
+      alert(t("savedSignatures.saved"));
+    } catch (saveError) {
+      console.error(saveError);
+      alert(
+        tError(
+          saveError instanceof Error ? saveError.message : null,
+          "savedSignatures.error.store"
+        )
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (target: SavedSignatureKind) => {
+    if (!confirm(t("savedSignatures.confirmDelete"))) return;
+    setBusy(true);
+    try {
+      await removeSignature(target);
+    } catch (removeError) {
+      console.error(removeError);
+      alert(
+        tError(
+          removeError instanceof Error ? removeError.message : null,
+          "savedSignatures.error.delete"
+        )
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-100 text-slate-600">
+        {t("savedSignatures.loading")}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-100 text-rose-500">
+        {tError(error, "savedSignatures.error.fetch")}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-100 py-10">
+      <div className="mx-auto flex max-w-3xl flex-col gap-6 px-4 sm:px-6 lg:px-8">
+        <header className="rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur">
+          <h1 className="text-lg font-semibold text-slate-700">
+            {t("savedSignatures.title")}
+          </h1>
+          <p className="mt-2 text-sm text-slate-500">
+            {t("savedSignatures.description")}
+          </p>
+        </header>
+
+        <section className="grid gap-3 sm:grid-cols-2">
+          {savedSignatureKinds.map((item) => {
+            const saved = signatures.find((signature) => signature.kind === item);
+            return (
+              <div
+                key={item}
+                className="flex flex-col gap-3 rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm"
+              >
+                <h2 className="text-sm font-semibold text-slate-700">
+                  {t(`savedSignatures.kind.${item}`)}
+                </h2>
+                {saved ? (
+                  <>
+                    <img
+                      src={saved.imageDataUrl}
+                      alt={t(`savedSignatures.kind.${item}`)}
+                      className="mx-auto h-20 max-w-full object-contain"
+                    />
+                    <p className="text-xs text-slate-500">
+                      {t("savedSignatures.updatedAt", {
+                        date: formatDate(saved.updatedAt, dateDisplay),
+                      })}
+                    </p>
+                    <button
+                      type="button"
+                      className="self-start rounded-full border border-rose-200 bg-rose-50 px-4 py-2 text-xs font-semibold text-rose-600 transition hover:bg-rose-100 disabled:opacity-40"
+                      disabled={busy}
+                      onClick={() => handleRemove(item)}
+                    >
+                      {t("savedSignatures.delete")}
+                    </button>
+                  </>
+                ) : (
+                  <p className="text-xs text-slate-500">{t("savedSignatures.empty")}</p>
+                )}
+              </div>
+            );
+          })}
+        </section>
+
+        <SignatureCreator
+          onCreate={(dataUrl, meta) => setDraft({ dataUrl, meta })}
+          onModeChange={() => setDraft(null)}
+        >
+          {draft ? (
+            <div className="space-y-3">
+              <img
+                src={draft.dataUrl}
+                alt={t("sign.previewAlt")}
+                className="mx-auto max-h-24 rounded-xl border border-slate-200 bg-white object-contain"
+              />
+              <div className="flex flex-wrap items-end gap-2 text-xs text-slate-600">
+                <label className="flex flex-col gap-2">
+                  {t("savedSignatures.kindLabel")}
+                  <select
+                    value={kind}
+                    onChange={(event) =>
+                      setKind(event.target.value as SavedSignatureKind)
+                    }
+                    className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
+                  >
+                    {savedSignatureKinds.map((item) => (
+                      <option key={item} value={item}>
+                        {t(`savedSignatures.kind.${item}`)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  type="button"
+                  className="rounded-full border border-emerald-500 bg-emerald-500 px-4 py-2 font-semibold text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-60"
+                  disabled={busy}
+                  onClick={handleSave}
+                >
+                  {signatures.some((signature) => signature.kind === kind)
+                    ? t("savedSignatures.replace")
+                    : t("savedSignatures.save")}
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </SignatureCreator>
+
+        <div className="flex flex-wrap gap-2 text-xs">
+          <button
+            type="button"
+            className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-600 transition hover:bg-slate-100"
+            onClick={() => router.back()}
+          >
+            {t("savedSignatures.back")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
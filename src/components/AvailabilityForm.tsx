@@ -10,17 +10,33 @@ import {
 } from "react";
 import type { DateObject as PickerDateObject } from "react-multi-date-picker";
 import DateObject from "react-date-object";
-import persian from "react-date-object/calendars/persian";
-import persian_fa from "react-date-object/locales/persian_fa";
 import dayjs from "dayjs";
+import { useI18n } from "@/components/I18nProvider";
 import { TimelineVisualizer } from "@/components/TimelineVisualizer";
 import { TimeRangeSelector } from "@/components/TimeRangeSelector";
 import { buildTimeline } from "@/lib/availability";
+import { importFreeSlotsFromCalendar } from "@/lib/calendarImport";
 import { buildColorMapFromIds } from "@/lib/colors";
 import { getSupabaseClient } from "@/lib/supabaseClient";
 import { logClientActivity } from "@/lib/logging";
-import { formatJalaliDate, formatSlotLabel, toPersianDigits } from "@/lib/format";
-import type { AvailabilitySlot, ParticipantAvailability } from "@/types";
+import {
+  convertSlot,
+  convertSlots,
+  defaultProjectTimeZone,
+  shiftTimeWindow,
+} from "@/lib/timezone";
+import {
+  defaultDateDisplay,
+  formatDate,
+  formatDigits,
+  formatSlotLabel,
+  getPickerCalendar,
+} from "@/lib/format";
+import type {
+  AvailabilitySlot,
+  DateDisplay,
+  ParticipantAvailability,
+} from "@/types";
 
 const DatePicker = dynamic(() => import("react-multi-date-picker"), {
   ssr: false,
@@ -33,6 +49,12 @@ type Props = {
   allowedTimes: { startMinutes: number; endMinutes: number };
   onSaved?: () => void;
   initialSlots?: AvailabilitySlot[];
+  readOnly?: boolean;
+  /** Zone the saved slots and the allowed window are expressed in. */
+  projectTimeZone?: string;
+  /** Zone the participant edits in; slots are converted back on save. */
+  displayTimeZone?: string;
+  dateDisplay?: DateDisplay;
 };
 
 export type AvailabilityFormHandle = {
@@ -41,8 +63,56 @@ export type AvailabilityFormHandle = {
 };
 
 export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
-  ({ projectId, participant, allowedDates, allowedTimes, onSaved, initialSlots }, ref) => {
+  (
+    {
+      projectId,
+      participant,
+      allowedDates: projectAllowedDates,
+      allowedTimes: projectAllowedTimes,
+      onSaved,
+      initialSlots,
+      readOnly = false,
+      projectTimeZone = defaultProjectTimeZone,
+      displayTimeZone = projectTimeZone,
+      dateDisplay = defaultDateDisplay,
+    },
+    ref
+  ) => {
+    const { t } = useI18n();
     const supabase = useMemo(() => getSupabaseClient(), []);
+    const pickerCalendar = getPickerCalendar(dateDisplay);
+
+    const allowedTimes = useMemo(
+      () =>
+        shiftTimeWindow(
+          projectAllowedTimes,
+          projectAllowedDates.start ?? dayjs().format("YYYY-MM-DD"),
+          projectTimeZone,
+          displayTimeZone
+        ),
+      [projectAllowedTimes, projectAllowedDates.start, projectTimeZone, displayTimeZone]
+    );
+
+    const allowedDates = useMemo(() => {
+      const edge = (date: string | null | undefined, side: "first" | "last") => {
+        if (!date) return date;
+        const pieces = convertSlot(
+          {
+            date,
+            startTime: minutesToTime(projectAllowedTimes.startMinutes),
+            endTime: minutesToTime(projectAllowedTimes.endMinutes),
+          },
+          projectTimeZone,
+          displayTimeZone
+        );
+        const piece = side === "first" ? pieces[0] : pieces[pieces.length - 1];
+        return piece?.date ?? date;
+      };
+      return {
+        start: edge(projectAllowedDates.start, "first"),
+        end: edge(projectAllowedDates.end, "last"),
+      };
+    }, [projectAllowedDates, projectAllowedTimes, projectTimeZone, displayTimeZone]);
 
     const [selectedDates, setSelectedDates] = useState<PickerDateObject[]>([]);
     const initialEnd = Math.min(
@@ -56,7 +126,9 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
       minutesToTime(Math.max(allowedTimes.startMinutes + 15, initialEnd))
     );
     const [slots, setSlots] = useState<AvailabilitySlot[]>(() =>
-      (initialSlots ?? []).map((slot) => ({ ...slot }))
+      convertSlots(initialSlots ?? [], projectTimeZone, displayTimeZone).map(
+        (slot) => ({ ...slot })
+      )
     );
     const [dateTimeDrafts, setDateTimeDrafts] = useState<
       Record<string, { startTime: string; endTime: string }>
@@ -71,8 +143,8 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
 
     const pickerFromIso = (iso: string) =>
       new DateObject({ date: iso, format: "YYYY-MM-DD" }).convert(
-        persian,
-        persian_fa
+        pickerCalendar.calendar,
+        pickerCalendar.locale
       );
 
     const ensureDraftForDate = (
@@ -97,14 +169,14 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
 
     const minDate = allowedDates.start
       ? new DateObject({ date: allowedDates.start, format: "YYYY-MM-DD" }).convert(
-          persian,
-          persian_fa
+          pickerCalendar.calendar,
+          pickerCalendar.locale
         )
       : undefined;
     const maxDate = allowedDates.end
       ? new DateObject({ date: allowedDates.end, format: "YYYY-MM-DD" }).convert(
-          persian,
-          persian_fa
+          pickerCalendar.calendar,
+          pickerCalendar.locale
         )
       : undefined;
 
@@ -136,6 +208,7 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
 
     useImperativeHandle(ref, () => ({
       prefillSlot: (slot, options) => {
+        if (readOnly) return;
         setError(null);
         const iso = slot.date;
         setDateTimeDrafts((prev) => ({
@@ -154,18 +227,21 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
         setStartTime(slot.startTime);
         setEndTime(slot.endTime);
         setInfo(
-          options?.message ??
-            "بازه برای استفاده انتخاب شد. تاریخ موردنظر را انتخاب و دکمه افزودن را بزنید."
+          options?.message ?? t("availability.info.prefilled")
         );
       },
       addSlot: (slot, options) => {
+        if (readOnly) return;
         appendSlots([slot], options?.message);
       },
     }));
 
     const normalizedInitialSlots = useMemo(
-      () => (initialSlots ?? []).map((slot) => ({ ...slot })),
-      [initialSlots]
+      () =>
+        convertSlots(initialSlots ?? [], projectTimeZone, displayTimeZone).map(
+          (slot) => ({ ...slot })
+        ),
+      [initialSlots, projectTimeZone, displayTimeZone]
     );
 
     useEffect(() => {
@@ -224,11 +300,48 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
         setInfo(
           message ??
             (candidates.length > 1
-              ? "بازه‌های جدید ثبت شدند."
-              : "بازه جدید ثبت شد.")
+              ? t("availability.info.slotsAdded")
+              : t("availability.info.slotAdded"))
         );
       } else {
-        setError("این بازه از پیش ثبت شده یا خارج از محدوده مجاز است.");
+        setError(t("availability.error.duplicate"));
+      }
+    };
+
+    const handleCalendarImport = async (
+      event: React.ChangeEvent<HTMLInputElement>
+    ) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file || readOnly) return;
+
+      try {
+        const { slots: freeSlots, busyEventCount } = importFreeSlotsFromCalendar(
+          await file.text(),
+          {
+            startDate: allowedDates.start,
+            endDate: allowedDates.end,
+            startMinutes: allowedTimes.startMinutes,
+            endMinutes: allowedTimes.endMinutes,
+            timeZone: displayTimeZone,
+          }
+        );
+
+        if (!freeSlots.length) {
+          setError(t("availability.error.importEmpty"));
+          return;
+        }
+
+        appendSlots(
+          freeSlots,
+          t("availability.info.imported", {
+            events: formatDigits(busyEventCount, dateDisplay.digits),
+            slots: formatDigits(freeSlots.length, dateDisplay.digits),
+          })
+        );
+      } catch (importError) {
+        console.error(importError);
+        setError(t("availability.error.importFailed"));
       }
     };
 
@@ -278,7 +391,7 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
       setError(null);
       setInfo(null);
       if (!selectedDates.length) {
-        setError("ابتدا حداقل یک تاریخ را انتخاب کنید.");
+        setError(t("availability.error.noDates"));
         return;
       }
 
@@ -291,13 +404,21 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
           continue;
         }
         if (draft.startTime >= draft.endTime) {
-          setError(`ساعت پایان باید بعد از ساعت شروع باشد (${formatJalaliDate(iso)})`);
+          setError(
+            t("availability.error.endBeforeStart", {
+              date: formatDate(iso, dateDisplay),
+            })
+          );
           return;
         }
         const startMinutes = timeToMinutes(draft.startTime);
         const endMinutes = timeToMinutes(draft.endTime);
         if (startMinutes < allowedTimes.startMinutes || endMinutes > allowedTimes.endMinutes) {
-          setError(`لطفاً ساعاتی در بازه مجاز انتخاب کنید (${formatJalaliDate(iso)})`);
+          setError(
+            t("availability.error.outsideWindow", {
+              date: formatDate(iso, dateDisplay),
+            })
+          );
           return;
         }
         newSlots.push({
@@ -308,15 +429,15 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
       }
 
       if (!newSlots.length) {
-        setError("ابتدا بازه زمانی معتبری انتخاب کنید.");
+        setError(t("availability.error.noValidSlot"));
         return;
       }
 
       appendSlots(
         newSlots,
         newSlots.length > 1
-          ? "بازه‌های جدید ثبت شدند."
-          : "بازه جدید ثبت شد."
+          ? t("availability.info.slotsAdded")
+          : t("availability.info.slotAdded")
       );
     };
 
@@ -333,6 +454,7 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
     };
 
     const handleSlotQuickFill = (slot: AvailabilitySlot) => {
+      if (readOnly) return;
       setError(null);
       const iso = slot.date;
       setSelectedDates((prev) => {
@@ -352,16 +474,28 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
       setActiveDateIso(iso);
       setStartTime(slot.startTime);
       setEndTime(slot.endTime);
-      setInfo("این بازه برای ویرایش مجدد انتخاب شد.");
+      setInfo(t("availability.info.editing"));
     };
 
     const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
       event.preventDefault();
+      if (readOnly) return;
       setError(null);
       setInfo(null);
 
       if (!slots.length) {
-        setError("حداقل یک بازه زمانی اضافه کنید.");
+        setError(t("availability.error.noSlots"));
+        return;
+      }
+
+      const projectSlots = convertSlots(slots, displayTimeZone, projectTimeZone);
+      if (
+        projectSlots.some(
+          (slot) =>
+            !isSlotWithinRange(slot, projectAllowedDates, projectAllowedTimes)
+        )
+      ) {
+        setError(t("availability.error.outsideProjectWindow"));
         return;
       }
 
@@ -375,7 +509,7 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
               project_id: projectId,
               invitee_id: participant.inviteeId,
               name: participant.name,
-              slots,
+              slots: projectSlots,
             },
             { onConflict: "invitee_id" }
           );
@@ -391,7 +525,7 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
           action: "availability_saved",
           details: {
             summary: "بازه‌های زمانی به‌روزرسانی شد",
-            data: { slotCount: slots.length },
+            data: { slotCount: projectSlots.length },
           },
         });
 
@@ -399,7 +533,7 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
         onSaved?.();
       } catch (submitError) {
         console.error(submitError);
-        setError("خطا در ذخیره‌سازی. لطفاً دوباره تلاش کنید.");
+        setError(t("availability.error.saveFailed"));
         setStatus("idle");
         return;
       }
@@ -451,119 +585,142 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
     return (
       <div className="rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur sm:p-8">
         <form className="space-y-5" onSubmit={handleSubmit}>
-          <div className="space-y-4">
-            <div className="grid gap-4 sm:grid-cols-[2fr,1fr]">
-              <div className="space-y-2">
-                <label className="block text-sm font-semibold text-slate-700">
-                  انتخاب تاریخ‌ها
-                </label>
-                <DatePicker
-                  multiple
-                  value={selectedDates}
-                  onChange={handleDateChange}
-                  calendar={persian}
-                  locale={persian_fa}
-                  calendarPosition="bottom-right"
-                  className="w-full rounded-2xl border border-slate-200 bg-white text-sm shadow-inner"
-                  inputClass="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm focus:outline-none"
-                  minDate={minDate}
-                  maxDate={maxDate}
-                  mapDays={({ date }) => {
-                    const iso = dayjs(date.toDate()).format("YYYY-MM-DD");
-                    const disabled =
-                      (allowedStartIso && iso < allowedStartIso) ||
-                      (allowedEndIso && iso > allowedEndIso);
-                    return disabled
-                      ? {
-                          disabled: true,
-                          className: "pointer-events-none opacity-30",
-                        }
-                      : {};
-                  }}
-                  placeholder="تاریخ‌های مجاز را انتخاب کنید"
-                />
-                {selectedDates.length ? (
-                  <div className="flex flex-wrap items-center gap-2 text-[11px] text-slate-600">
-                    {selectedDates.map((dateObject) => {
-                      const isoDate = isoFromPicker(dateObject);
-                      const isActive = isoDate === activeDateIso;
-                      return (
-                        <button
-                          key={isoDate}
-                          type="button"
-                          onClick={() => {
-                            setDateTimeDrafts((prev) => {
-                              const next = ensureDraftForDate(isoDate, prev);
-                              const draft = next[isoDate];
-                              setStartTime(draft.startTime);
-                              setEndTime(draft.endTime);
-                              return next;
-                            });
-                            setActiveDateIso(isoDate);
-                          }}
-                          className={`rounded-full px-3 py-1 font-semibold shadow-sm transition ${
-                            isActive
-                              ? "bg-sky-600 text-white hover:bg-sky-700"
-                              : "bg-sky-50 text-sky-600 hover:bg-sky-100"
-                          }`}
-                        >
-                          {formatJalaliDate(isoDate)}
-                        </button>
-                      );
-                    })}
-                    <button
-                      type="button"
-                      onClick={handleClearSelection}
-                      className="rounded-full bg-transparent px-2 py-1 font-semibold text-rose-500 transition hover:bg-rose-50"
-                    >
-                      پاک‌سازی
-                    </button>
-                  </div>
-                ) : (
-                  <p className="text-xs text-slate-400">
-                    تنها تاریخ‌های تعریف‌شده توسط برگزارکننده مجاز هستند.
-                  </p>
-                )}
-
+          {readOnly ? (
+            <div className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-500">
+              {t("availability.locked")}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-[2fr,1fr]">
+                <div className="space-y-2">
+                  <label className="block text-sm font-semibold text-slate-700">
+                    {t("availability.pickDates")}
+                  </label>
+                  <DatePicker
+                    multiple
+                    value={selectedDates}
+                    onChange={handleDateChange}
+                    calendar={pickerCalendar.calendar}
+                    locale={pickerCalendar.locale}
+                    calendarPosition="bottom-right"
+                    className="w-full rounded-2xl border border-slate-200 bg-white text-sm shadow-inner"
+                    inputClass="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm focus:outline-none"
+                    minDate={minDate}
+                    maxDate={maxDate}
+                    mapDays={({ date }) => {
+                      const iso = dayjs(date.toDate()).format("YYYY-MM-DD");
+                      const disabled =
+                        (allowedStartIso && iso < allowedStartIso) ||
+                        (allowedEndIso && iso > allowedEndIso);
+                      return disabled
+                        ? {
+                            disabled: true,
+                            className: "pointer-events-none opacity-30",
+                          }
+                        : {};
+                    }}
+                    placeholder={t("availability.pickDatesPlaceholder")}
+                  />
+                  {selectedDates.length ? (
+                    <div className="flex flex-wrap items-center gap-2 text-[11px] text-slate-600">
+                      {selectedDates.map((dateObject) => {
+                        const isoDate = isoFromPicker(dateObject);
+                        const isActive = isoDate === activeDateIso;
+                        return (
+                          <button
+                            key={isoDate}
+                            type="button"
+                            onClick={() => {
+                              setDateTimeDrafts((prev) => {
+                                const next = ensureDraftForDate(isoDate, prev);
+                                const draft = next[isoDate];
+                                setStartTime(draft.startTime);
+                                setEndTime(draft.endTime);
+                                return next;
+                              });
+                              setActiveDateIso(isoDate);
+                            }}
+                            className={`rounded-full px-3 py-1 font-semibold shadow-sm transition ${
+                              isActive
+                                ? "bg-sky-600 text-white hover:bg-sky-700"
+                                : "bg-sky-50 text-sky-600 hover:bg-sky-100"
+                            }`}
+                          >
+                            {formatDate(isoDate, dateDisplay)}
+                          </button>
+                        );
+                      })}
+                      <button
+                        type="button"
+                        onClick={handleClearSelection}
+                        className="rounded-full bg-transparent px-2 py-1 font-semibold text-rose-500 transition hover:bg-rose-50"
+                      >
+                        {t("availability.clearSelection")}
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-slate-400">
+                      {t("availability.allowedDatesHint")}
+                    </p>
+                  )}
+
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-semibold text-slate-700">
+                    {t("availability.timeRange")}
+                  </label>
+                  {activeDateIso ? (
+                    <p className="text-xs text-slate-500">
+                      {t("availability.timeRangeFor", {
+                        date: formatDate(activeDateIso, dateDisplay),
+                      })}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-slate-400">
+                      {t("availability.timeRangeHint")}
+                    </p>
+                  )}
+                  <TimeRangeSelector
+                    value={[startMinutes, endMinutes]}
+                    onChange={handleTimeRangeChange}
+                    minMinutes={allowedTimes.startMinutes}
+                    maxMinutes={allowedTimes.endMinutes}
+                    digits={dateDisplay.digits}
+                  />
+                </div>
               </div>
 
-              <div className="space-y-2">
-                <label className="block text-sm font-semibold text-slate-700">
-                  بازه زمانی (گرافیکی)
-                </label>
-                {activeDateIso ? (
-                  <p className="text-xs text-slate-500">
-                    تنظیم بازه برای تاریخ {formatJalaliDate(activeDateIso)}
-                  </p>
-                ) : (
-                  <p className="text-xs text-slate-400">
-                    برای تنظیم بازه، ابتدا تاریخ را انتخاب کنید.
-                  </p>
-                )}
-                <TimeRangeSelector
-                  value={[startMinutes, endMinutes]}
-                  onChange={handleTimeRangeChange}
-                  minMinutes={allowedTimes.startMinutes}
-                  maxMinutes={allowedTimes.endMinutes}
+              <button
+                type="button"
+                onClick={handleAddSlot}
+                className="w-full rounded-2xl border border-dashed border-sky-300 bg-sky-50 px-4 py-3 text-sm font-semibold text-sky-700 transition hover:border-sky-400 hover:bg-sky-100"
+              >
+                {t("availability.addSlot")}
+              </button>
+
+              <label className="flex w-full cursor-pointer items-center justify-center gap-2 rounded-2xl border border-dashed border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-600 transition hover:border-slate-400 hover:bg-slate-50">
+                <input
+                  type="file"
+                  accept=".ics,text/calendar"
+                  onChange={handleCalendarImport}
+                  className="hidden"
                 />
-              </div>
+                {t("availability.importCalendar")}
+              </label>
             </div>
-
-            <button
-              type="button"
-              onClick={handleAddSlot}
-              className="w-full rounded-2xl border border-dashed border-sky-300 bg-sky-50 px-4 py-3 text-sm font-semibold text-sky-700 transition hover:border-sky-400 hover:bg-sky-100"
-            >
-              افزودن بازه زمانی برای تاریخ‌های انتخابی
-            </button>
-          </div>
+          )}
 
           {slots.length ? (
             <div className="space-y-4 rounded-2xl bg-slate-50/80 p-4">
               <div className="flex items-center justify-between">
-                <p className="text-sm font-semibold text-slate-600">بازه‌های انتخابی شما</p>
+                <p className="text-sm font-semibold text-slate-600">
+                  {t("availability.yourSlots")}
+                </p>
                 <span className="text-xs text-slate-500">
-                  {toPersianDigits(slots.length)} بازه ثبت شده
+                  {t("availability.slotCount", {
+                    count: formatDigits(slots.length, dateDisplay.digits),
+                  })}
                 </span>
               </div>
               <TimelineVisualizer
@@ -573,7 +730,8 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
                 maxParticipants={1}
                 emptyMessage=""
                 showLegend={false}
-                editableParticipantIds={[participant.id]}
+                dateDisplay={dateDisplay}
+                editableParticipantIds={readOnly ? [] : [participant.id]}
                 editableBounds={{
                   minMinutes: allowedTimes.startMinutes,
                   maxMinutes: allowedTimes.endMinutes,
@@ -619,10 +777,10 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
                   setActiveDateIso(date);
                   const message =
                     mode === "move"
-                      ? "بازه جابه‌جا شد."
+                      ? t("availability.info.moved")
                       : mode === "resize-start"
-                      ? "ساعت شروع بازه تنظیم شد."
-                      : "ساعت پایان بازه تنظیم شد.";
+                      ? t("availability.info.startAdjusted")
+                      : t("availability.info.endAdjusted");
                   setInfo(message);
                 }}
               />
@@ -642,18 +800,24 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
                     }}
                   >
                     <span className="text-slate-600">
-                      {toPersianDigits(index + 1)}. {formatSlotLabel(slot.date, slot.startTime, slot.endTime)}
+                      {formatDigits(index + 1, dateDisplay.digits)}.{" "}
+                      {formatSlotLabel(slot.date, slot.startTime, slot.endTime, {
+                        display: dateDisplay,
+                        t,
+                      })}
                     </span>
-                    <button
-                      type="button"
-                      onClick={(event) => {
-                        event.stopPropagation();
-                        handleRemoveSlot(index);
-                      }}
-                      className="text-xs font-semibold text-rose-500 transition hover:text-rose-600"
-                    >
-                      حذف
-                    </button>
+                    {readOnly ? null : (
+                      <button
+                        type="button"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          handleRemoveSlot(index);
+                        }}
+                        className="text-xs font-semibold text-rose-500 transition hover:text-rose-600"
+                      >
+                        {t("common.remove")}
+                      </button>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -674,17 +838,19 @@ export const AvailabilityForm = forwardRef<AvailabilityFormHandle, Props>(
 
           {status === "saved" ? (
             <div className="rounded-xl bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
-              زمان‌های شما ثبت شد و برای سایر اعضا نمایش داده می‌شود.
+              {t("availability.saved")}
             </div>
           ) : null}
 
-          <button
-            type="submit"
-            disabled={status === "saving"}
-            className="w-full rounded-2xl bg-emerald-500 px-4 py-3 text-sm font-semibold text-white shadow-lg transition hover:bg-emerald-600 focus:outline-none focus:ring-2 focus:ring-emerald-100 disabled:cursor-not-allowed disabled:bg-slate-300"
-          >
-            {status === "saving" ? "در حال ثبت..." : "ثبت زمان‌های من"}
-          </button>
+          {readOnly ? null : (
+            <button
+              type="submit"
+              disabled={status === "saving"}
+              className="w-full rounded-2xl bg-emerald-500 px-4 py-3 text-sm font-semibold text-white shadow-lg transition hover:bg-emerald-600 focus:outline-none focus:ring-2 focus:ring-emerald-100 disabled:cursor-not-allowed disabled:bg-slate-300"
+            >
+              {status === "saving" ? t("common.saving") : t("availability.submit")}
+            </button>
+          )}
         </form>
       </div>
     );
@@ -1,8 +1,13 @@
 import { buildTimeline, type TimelineSegment } from "@/lib/availability";
-import type { AvailabilitySlot, ParticipantAvailability } from "@/types";
+import type {
+  AvailabilitySlot,
+  DateDisplay,
+  ParticipantAvailability,
+} from "@/types";
 import { TimelineVisualizer } from "@/components/TimelineVisualizer";
+import { useI18n } from "@/components/I18nProvider";
 import { buildParticipantColorMap } from "@/lib/colors";
-import { toPersianDigits } from "@/lib/format";
+import { defaultDateDisplay, formatDigits } from "@/lib/format";
 
 type Props = {
   responses: ParticipantAvailability[];
@@ -11,17 +16,23 @@ type Props = {
     slot: AvailabilitySlot,
     info: { owned: boolean; participantIds: string[] }
   ) => void;
+  timeZoneLabel?: string;
+  dateDisplay?: DateDisplay;
 };
 
 export const AvailabilitySummary = ({
   responses,
   currentParticipantId,
   onSegmentSelect,
+  timeZoneLabel,
+  dateDisplay = defaultDateDisplay,
 }: Props) => {
+  const { t } = useI18n();
+
   if (!responses.length) {
     return (
       <div className="rounded-3xl border border-slate-200 bg-white/60 p-6 text-sm text-slate-500 shadow-sm">
-        هنوز شخصی زمان آزاد خود را ثبت نکرده است. منتظر پاسخ دوستان باشید.
+        {t("summary.empty")}
       </div>
     );
   }
@@ -64,7 +75,11 @@ export const AvailabilitySummary = ({
   return (
     <div className="space-y-4">
       <div className="rounded-3xl border border-slate-200 bg-white/70 px-4 py-3 text-xs text-slate-500 shadow-sm">
-        <span>تعداد شرکت‌کنندگان: {toPersianDigits(responses.length)}</span>
+        <span>
+          {t("summary.participantCount", {
+            count: formatDigits(responses.length, dateDisplay.digits),
+          })}
+        </span>
         <div className="mt-3 flex flex-wrap gap-2 text-[11px] text-slate-600">
           {responses.map((response) => (
             <span
@@ -85,8 +100,10 @@ export const AvailabilitySummary = ({
         nameMap={participantNameMap}
         colorMap={colorMap}
         maxParticipants={responses.length}
-        emptyMessage="هنوز بازه‌ای برای نمایش وجود ندارد."
+        emptyMessage={t("summary.timelineEmpty")}
         onSelectSegment={handleTimelineSelect}
+        timeZoneLabel={timeZoneLabel}
+        dateDisplay={dateDisplay}
       />
     </div>
   );
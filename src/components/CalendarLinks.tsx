@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+
+type CalendarLinksProps = {
+  projectId: string;
+  inviteeId: string;
+  finalized: boolean;
+  feedToken: string | null;
+};
+
+/**
+ * iCalendar downloads for the signed-in invitee, plus a copyable webcal
+ * subscription link when the session carries a feed token.
+ */
+export const CalendarLinks = ({
+  projectId,
+  inviteeId,
+  finalized,
+  feedToken,
+}: CalendarLinksProps) => {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopyFeedLink = async () => {
+    if (!feedToken) return;
+    const url = new URL(
+      `/api/projects/${projectId}/calendar.ics`,
+      window.location.origin
+    );
+    url.searchParams.set("token", feedToken);
+    const feedUrl = url.toString().replace(/^https?:/, "webcal:");
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 3000);
+    } catch (copyError) {
+      console.error(copyError);
+      window.prompt(t("project.calendar.feedPrompt"), feedUrl);
+    }
+  };
+
+  return (
+    <section className="flex flex-wrap items-center gap-2 rounded-3xl border border-slate-200 bg-white/70 p-4 text-xs shadow-sm">
+      <span className="font-semibold text-slate-600">{t("project.calendar.label")}</span>
+      <a
+        href={`/api/projects/${projectId}/calendar.ics`}
+        className="rounded-full border border-slate-200 bg-white px-3 py-1 font-semibold text-slate-600 transition hover:bg-slate-100"
+      >
+        {finalized ? t("project.calendar.addMeeting") : t("project.calendar.download")}
+      </a>
+      <a
+        href={`/api/projects/${projectId}/calendar.ics?include=availability`}
+        className="rounded-full border border-slate-200 bg-white px-3 py-1 font-semibold text-slate-600 transition hover:bg-slate-100"
+      >
+        {t("project.calendar.allAvailability")}
+      </a>
+      <a
+        href={`/api/projects/${projectId}/invitees/${inviteeId}/calendar.ics`}
+        className="rounded-full border border-slate-200 bg-white px-3 py-1 font-semibold text-slate-600 transition hover:bg-slate-100"
+      >
+        {t("project.calendar.mine")}
+      </a>
+      {feedToken ? (
+        <button
+          type="button"
+          onClick={handleCopyFeedLink}
+          className="rounded-full border border-sky-200 bg-sky-50 px-3 py-1 font-semibold text-sky-700 transition hover:bg-sky-100"
+        >
+          {copied ? t("project.calendar.copied") : t("project.calendar.copyFeed")}
+        </button>
+      ) : null}
+    </section>
+  );
+};
@@ -3,13 +3,18 @@
 import dynamic from "next/dynamic";
 import { useEffect, useMemo, useState } from "react";
 import type { DateObject } from "react-multi-date-picker";
-import persian from "react-date-object/calendars/persian";
-import persian_fa from "react-date-object/locales/persian_fa";
 import dayjs from "dayjs";
 import { z } from "zod";
-import { getSupabaseClient } from "@/lib/supabaseClient";
+import { DateDisplaySelect } from "@/components/DateDisplaySelect";
+import { useI18n } from "@/components/I18nProvider";
 import { TimeRangeSelector } from "@/components/TimeRangeSelector";
-import { logClientActivity } from "@/lib/logging";
+import { TimeZoneSelect } from "@/components/TimeZoneSelect";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { formatDigits, getPickerCalendar } from "@/lib/format";
+import { isMessageKey } from "@/lib/i18n";
+import { assignableInviteeRoles, canContribute, formatInviteeRole } from "@/lib/roles";
+import { defaultProjectTimeZone } from "@/lib/timezone";
+import type { InviteeRole } from "@/types";
 
 type InviteePermission = {
   inviteeName: string;
@@ -22,18 +27,25 @@ type PendingDocument = {
   file: File;
   sharedWithAll: boolean;
   permissions: InviteePermission[];
+  signInOrder: boolean;
+  // Step per invitee name; 0 leaves the invitee out of the sequence.
+  signingSteps: Record<string, number>;
+  dueDate: DateObject | null;
   error?: string | null;
 };
 
+
 const DatePicker = dynamic(() => import("react-multi-date-picker"), {
   ssr: false,
 });
 
 const formSchema = z.object({
-  title: z.string().min(3, "عنوان باید حداقل سه نویسه باشد"),
+  title: z.string().min(3, "createProject.error.titleTooShort"),
   description: z.string().optional(),
 });
 
+const emailSchema = z.email();
+
 const minutesToTime = (minutes: number) => {
   const clamped = Math.max(0, Math.min(minutes, 24 * 60));
   const hours = Math.floor(clamped / 60)
@@ -49,23 +61,31 @@ const toIsoDate = (dateObject: DateObject | null) => {
 };
 
 export const CreateProjectForm = () => {
-  const supabase = getSupabaseClient();
-
+  const { locale, t, tError } = useI18n();
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [dateRange, setDateRange] = useState<DateObject[]>([]);
+  const [availabilityDueDate, setAvailabilityDueDate] = useState<DateObject | null>(null);
   const [allowedTimeRange, setAllowedTimeRange] = useState<[number, number]>([
     9 * 60,
     18 * 60,
   ]);
-  const [invitees, setInvitees] = useState<Array<{ name: string; password: string }>>([]);
+  const [timeZone, setTimeZone] = useState(defaultProjectTimeZone);
+  const [dateDisplay, setDateDisplay] = useDateDisplay(locale);
+  const pickerCalendar = getPickerCalendar(dateDisplay);
+  const [invitees, setInvitees] = useState<
+    Array<{ name: string; password: string; email: string; role: InviteeRole }>
+  >([]);
   const [inviteeName, setInviteeName] = useState("");
   const [inviteePassword, setInviteePassword] = useState("");
+  const [inviteeEmail, setInviteeEmail] = useState("");
+  const [inviteeRole, setInviteeRole] = useState<InviteeRole>("participant");
   const [documents, setDocuments] = useState<PendingDocument[]>([]);
   const [adminCredentials, setAdminCredentials] = useState<{ username: string; password: string } | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [accessLinks, setAccessLinks] = useState<Array<{ name: string; url: string }>>([]);
 
   useEffect(() => {
     setDocuments((prev) =>
@@ -98,12 +118,12 @@ export const CreateProjectForm = () => {
   const handleAddInvitee = () => {
     setError(null);
     if (!inviteeName.trim()) {
-      setError("لطفاً نام مدعو را وارد کنید.");
+      setError(t("createProject.error.inviteeNameMissing"));
       return;
     }
 
     if (inviteeName.trim().toLowerCase() === "admin") {
-      setError('نام "admin" رزرو شده است.');
+      setError(t("createProject.error.inviteeNameReserved"));
       return;
     }
 
@@ -112,16 +132,28 @@ export const CreateProjectForm = () => {
     );
 
     if (exists) {
-      setError("این نام قبلاً اضافه شده است.");
+      setError(t("createProject.error.inviteeDuplicate"));
+      return;
+    }
+
+    if (inviteeEmail.trim() && !emailSchema.safeParse(inviteeEmail.trim()).success) {
+      setError(t("createProject.error.inviteeEmailInvalid"));
       return;
     }
 
     setInvitees((prev) => [
       ...prev,
-      { name: inviteeName.trim(), password: inviteePassword.trim() },
+      {
+        name: inviteeName.trim(),
+        password: inviteePassword.trim(),
+        email: inviteeEmail.trim(),
+        role: inviteeRole,
+      },
     ]);
     setInviteeName("");
     setInviteePassword("");
+    setInviteeEmail("");
+    setInviteeRole("participant");
   };
 
   const handleRemoveInvitee = (name: string) => {
@@ -141,6 +173,9 @@ export const CreateProjectForm = () => {
           canView: true,
           canEdit: true,
         })),
+        signInOrder: false,
+        signingSteps: {},
+        dueDate: null,
       }));
       return [...prev, ...newDocs];
     });
@@ -180,6 +215,61 @@ export const CreateProjectForm = () => {
     );
   };
 
+  const isEligibleSigner = (doc: PendingDocument, name: string) => {
+    const invitee = invitees.find((item) => item.name === name);
+    if (!invitee || !canContribute(invitee.role)) return false;
+    return (
+      doc.sharedWithAll ||
+      doc.permissions.some(
+        (permission) => permission.inviteeName === name && permission.canEdit
+      )
+    );
+  };
+
+  const getEligibleSigners = (doc: PendingDocument) =>
+    invitees
+      .map((invitee) => invitee.name)
+      .filter((name) => isEligibleSigner(doc, name));
+
+  const handleToggleSignInOrder = (documentId: string, enabled: boolean) => {
+    setDocuments((prev) =>
+      prev.map((doc) =>
+        doc.id === documentId
+          ? {
+              ...doc,
+              signInOrder: enabled,
+              signingSteps: Object.fromEntries(
+                getEligibleSigners(doc).map((name, index) => [name, index + 1])
+              ),
+            }
+          : doc
+      )
+    );
+  };
+
+  const handleSigningStepChange = (
+    documentId: string,
+    inviteeName: string,
+    step: number
+  ) => {
+    setDocuments((prev) =>
+      prev.map((doc) =>
+        doc.id === documentId
+          ? {
+              ...doc,
+              signingSteps: { ...doc.signingSteps, [inviteeName]: step },
+            }
+          : doc
+      )
+    );
+  };
+
+  const handleDueDateChange = (documentId: string, dueDate: DateObject | null) => {
+    setDocuments((prev) =>
+      prev.map((doc) => (doc.id === documentId ? { ...doc, dueDate } : doc))
+    );
+  };
+
   const handleRemoveDocument = (documentId: string) => {
     setDocuments((prev) => prev.filter((doc) => doc.id !== documentId));
   };
@@ -188,89 +278,85 @@ export const CreateProjectForm = () => {
     event.preventDefault();
     setError(null);
     setShareUrl(null);
+    setAccessLinks([]);
     setAdminCredentials(null);
 
     const parsed = formSchema.safeParse({ title, description });
 
     if (!parsed.success) {
-      setError(parsed.error.issues[0]?.message ?? "ورودی نامعتبر است");
+      const message = parsed.error.issues[0]?.message ?? "";
+      setError(
+        t(isMessageKey(message) ? message : "createProject.error.invalidInput")
+      );
       return;
     }
 
     if (!startDate || !endDate) {
-      setError("لطفاً بازهٔ تاریخ مجاز را انتخاب کنید.");
+      setError(t("createProject.error.dateRangeMissing"));
       return;
     }
 
     if (invitees.length === 0) {
-      setError("حداقل یک مدعو باید تعریف شود.");
+      setError(t("createProject.error.inviteesMissing"));
       return;
     }
 
     setLoading(true);
 
     try {
-      const { data, error: insertError } = await supabase
-        .from("projects")
-        .insert({
+      const projectResponse = await fetch("/api/projects", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
           title: parsed.data.title,
           description: parsed.data.description,
-          start_date: startDate,
-          end_date: endDate,
-          start_time: minutesToTime(allowedTimeRange[0]),
-          end_time: minutesToTime(allowedTimeRange[1]),
-        })
-        .select("id")
-        .single();
-
-      if (insertError || !data) {
-        throw insertError ?? new Error("عدم دریافت شناسه پروژه");
-      }
-
-      const adminPasscode = Math.floor(1000 + Math.random() * 9000)
-        .toString();
-      const adminInvitee = {
-        project_id: data.id,
-        name: "admin",
-        password: adminPasscode,
-      };
-
-      const inviteeRecords = [
-        ...invitees.map((invitee) => ({
-          project_id: data.id,
-          name: invitee.name,
-          password: invitee.password ? invitee.password : null,
-        })),
-        adminInvitee,
-      ];
-
-      const { error: inviteeError } = await supabase
-        .from("project_invitees")
-        .insert(inviteeRecords);
+          startDate,
+          endDate,
+          startTime: minutesToTime(allowedTimeRange[0]),
+          endTime: minutesToTime(allowedTimeRange[1]),
+          timeZone,
+          availabilityDueDate: toIsoDate(availabilityDueDate),
+          invitees: invitees.map((invitee) => ({
+            name: invitee.name,
+            password: invitee.password ? invitee.password : null,
+            email: invitee.email ? invitee.email : null,
+            role: invitee.role,
+          })),
+          locale,
+        }),
+      });
 
-      if (inviteeError) {
-        throw inviteeError;
+      if (!projectResponse.ok) {
+        const body = await projectResponse.json().catch(() => ({}));
+        throw new Error(body?.error ?? "project_create_failed");
       }
 
-      setAdminCredentials({ username: "admin", password: adminPasscode });
+      const data = (await projectResponse.json()) as {
+        projectId: string;
+        invitees: Array<{ id: string; name: string; accessLink: string | null }>;
+        organizerSecret: string;
+      };
 
-      await logClientActivity(supabase, {
-        projectId: data.id,
-        action: "project_created",
-        actorName: "organizer",
-        details: { summary: "پروژه جدید ساخته شد" },
-      });
+      setAdminCredentials({ username: "admin", password: data.organizerSecret });
+      setAccessLinks(
+        data.invitees.flatMap((row) =>
+          row.accessLink ? [{ name: row.name, url: row.accessLink }] : []
+        )
+      );
 
-      const { data: inviteeRows } = await supabase
-        .from("project_invitees")
-        .select("id, name")
-        .eq("project_id", data.id);
       const inviteeMap = new Map(
-        (inviteeRows ?? []).map((row) => [row.name, row.id])
+        data.invitees.map((row) => [row.name, row.id])
       );
-      const adminInviteeRowId = inviteeMap.get("admin") ?? null;
 
       for (const doc of documents) {
+        // Invitees with the same step sign in parallel.
+        const signingOrder = doc.signInOrder
+          ? getEligibleSigners(doc).flatMap((name) => {
+              const inviteeId = inviteeMap.get(name);
+              const step = doc.signingSteps[name] ?? 0;
+              return inviteeId && step > 0 ? [{ inviteeId, step }] : [];
+            })
+          : [];
         const formPayload = new FormData();
         formPayload.append("file", doc.file);
         formPayload.append(
@@ -293,11 +379,12 @@ export const CreateProjectForm = () => {
                     (permission): permission is { inviteeId: string; canView: boolean; canEdit: boolean } =>
                       Boolean(permission)
                   ),
-            uploadedBy: adminInviteeRowId,
+            signingOrder,
+            dueDate: toIsoDate(doc.dueDate),
           })
         );
 
-        const response = await fetch(`/api/projects/${data.id}/documents`, {
+        const response = await fetch(`/api/projects/${data.projectId}/documents`, {
           method: "POST",
           body: formPayload,
         });
@@ -305,31 +392,36 @@ export const CreateProjectForm = () => {
         if (!response.ok) {
           const body = await response.json().catch(() => ({}));
           console.error("Document upload failed", body);
-          throw new Error(body?.error ?? "Failed to upload document");
+          throw new Error(body?.error ?? "document_upload_failed");
         }
       }
 
       const origin =
         typeof window !== "undefined" ? window.location.origin : "";
-      setShareUrl(`${origin}/project/${data.id}`);
+      setShareUrl(`${origin}/project/${data.projectId}`);
       setTitle("");
       setDescription("");
       setDateRange([]);
+      setAvailabilityDueDate(null);
       setAllowedTimeRange([9 * 60, 18 * 60]);
       setInvitees([]);
       setDocuments([]);
     } catch (submitError) {
       console.error(submitError);
-      setError("خطایی رخ داد. لطفاً دوباره تلاش کنید.");
+      setError(
+        tError(
+          submitError instanceof Error ? submitError.message : null,
+          "common.genericError"
+        )
+      );
     } finally {
       setLoading(false);
     }
   };
 
-  const handleCopy = () => {
-    if (!shareUrl) return;
-    navigator.clipboard.writeText(shareUrl).catch(() => {
-      setError("امکان کپی خودکار فراهم نشد. لطفاً دستی کپی کنید.");
+  const handleCopy = (value: string) => {
+    navigator.clipboard.writeText(value).catch(() => {
+      setError(t("common.copyFailed"));
     });
   };
 
@@ -338,25 +430,25 @@ export const CreateProjectForm = () => {
       <form className="space-y-5" onSubmit={handleSubmit}>
         <div>
           <label className="mb-2 block text-sm font-semibold text-slate-700">
-            عنوان پروژه
+            {t("createProject.title")}
           </label>
           <input
             type="text"
             value={title}
             onChange={(event) => setTitle(event.target.value)}
-            placeholder="مثلاً «جلسه برنامه‌ریزی تیم محتوا»"
+            placeholder={t("createProject.titlePlaceholder")}
             className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm shadow-inner transition focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-100"
           />
         </div>
 
         <div>
           <label className="mb-2 block text-sm font-semibold text-slate-700">
-            توضیحات (اختیاری)
+            {t("createProject.description")}
           </label>
           <textarea
             value={description}
             onChange={(event) => setDescription(event.target.value)}
-            placeholder="جزئیات جلسه یا یادداشت‌های تکمیلی را بنویسید."
+            placeholder={t("createProject.descriptionPlaceholder")}
             className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm shadow-inner transition focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-100"
             rows={3}
           />
@@ -364,33 +456,66 @@ export const CreateProjectForm = () => {
 
         <div className="grid gap-4 sm:grid-cols-2">
           <div className="space-y-2">
-            <label className="block text-sm font-semibold text-slate-700">
-              بازه تاریخ مجاز (شمسی)
-            </label>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <label className="block text-sm font-semibold text-slate-700">
+                {t("createProject.dateRange", {
+                  calendar: t(`calendar.${dateDisplay.calendar}`),
+                })}
+              </label>
+              <DateDisplaySelect value={dateDisplay} onChange={setDateDisplay} />
+            </div>
             <DatePicker
               range
               value={dateRange}
               onChange={(value) => setDateRange((value as DateObject[]) ?? [])}
-              calendar={persian}
-              locale={persian_fa}
+              calendar={pickerCalendar.calendar}
+              locale={pickerCalendar.locale}
+              calendarPosition="bottom-right"
+              className="w-full rounded-2xl border border-slate-200 bg-white text-sm shadow-inner"
+              inputClass="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm focus:outline-none"
+              placeholder={t("createProject.dateRangePlaceholder")}
+            />
+            <p className="text-xs text-slate-500">
+              {t("createProject.dateRangeHint")}
+            </p>
+            <label className="block pt-2 text-sm font-semibold text-slate-700">
+              {t("createProject.availabilityDueDate")}
+            </label>
+            <DatePicker
+              value={availabilityDueDate}
+              onChange={(value) => setAvailabilityDueDate((value as DateObject | null) ?? null)}
+              calendar={pickerCalendar.calendar}
+              locale={pickerCalendar.locale}
               calendarPosition="bottom-right"
               className="w-full rounded-2xl border border-slate-200 bg-white text-sm shadow-inner"
               inputClass="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm focus:outline-none"
-              placeholder="از چه تاریخی تا چه تاریخی؟"
+              placeholder={t("createProject.dueDatePlaceholder")}
             />
             <p className="text-xs text-slate-500">
-              فقط در این بازه زمانی امکان ثبت حضور وجود خواهد داشت.
+              {t("createProject.availabilityDueDateHint")}
             </p>
           </div>
 
           <div className="space-y-2">
             <label className="block text-sm font-semibold text-slate-700">
-              بازه ساعت مجاز
+              {t("createProject.timeRange")}
             </label>
             <TimeRangeSelector
               value={allowedTimeRange}
               onChange={setAllowedTimeRange}
+              digits={dateDisplay.digits}
+            />
+            <label className="block pt-2 text-sm font-semibold text-slate-700">
+              {t("createProject.timeZone")}
+            </label>
+            <TimeZoneSelect
+              value={timeZone}
+              onChange={setTimeZone}
+              digits={dateDisplay.digits}
             />
+            <p className="text-xs text-slate-500">
+              {t("createProject.timeZoneHint")}
+            </p>
           </div>
         </div>
 
@@ -398,35 +523,64 @@ export const CreateProjectForm = () => {
           <div className="flex flex-col gap-3 sm:flex-row">
             <div className="flex-1">
               <label className="mb-2 block text-sm font-semibold text-slate-700">
-                نام مدعو
+                {t("createProject.inviteeName")}
               </label>
               <input
                 type="text"
                 value={inviteeName}
                 onChange={(event) => setInviteeName(event.target.value)}
                 className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm shadow-inner transition focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-100"
-                placeholder="مثلاً «سارا ناصری»"
+                placeholder={t("createProject.inviteeNamePlaceholder")}
               />
             </div>
             <div className="flex-1">
               <label className="mb-2 block text-sm font-semibold text-slate-700">
-                رمز عبور (اختیاری)
+                {t("createProject.inviteePassword")}
               </label>
               <input
                 type="text"
                 value={inviteePassword}
                 onChange={(event) => setInviteePassword(event.target.value)}
                 className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm shadow-inner transition focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-100"
-                placeholder="در صورت نیاز به حفاظت"
+                placeholder={t("createProject.inviteePasswordPlaceholder")}
               />
             </div>
+            <div className="flex-1">
+              <label className="mb-2 block text-sm font-semibold text-slate-700">
+                {t("createProject.inviteeEmail")}
+              </label>
+              <input
+                type="email"
+                dir="ltr"
+                value={inviteeEmail}
+                onChange={(event) => setInviteeEmail(event.target.value)}
+                className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm shadow-inner transition focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-100"
+                placeholder={t("createProject.inviteeEmailPlaceholder")}
+              />
+            </div>
+            <div className="sm:w-44">
+              <label className="mb-2 block text-sm font-semibold text-slate-700">
+                {t("createProject.inviteeRole")}
+              </label>
+              <select
+                value={inviteeRole}
+                onChange={(event) => setInviteeRole(event.target.value as InviteeRole)}
+                className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm shadow-inner transition focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-100"
+              >
+                {assignableInviteeRoles.map((role) => (
+                  <option key={role} value={role}>
+                    {formatInviteeRole(role, t)}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
           <button
             type="button"
             onClick={handleAddInvitee}
             className="mt-3 w-full rounded-2xl border border-dashed border-sky-300 bg-sky-50 px-4 py-3 text-sm font-semibold text-sky-700 transition hover:border-sky-400 hover:bg-sky-100"
           >
-            افزودن مدعو
+            {t("createProject.addInvitee")}
           </button>
 
           {invitees.length ? (
@@ -438,14 +592,20 @@ export const CreateProjectForm = () => {
                 >
                   <span>
                     {invitee.name}
-                    {invitee.password ? " • رمز دارد" : " • بدون رمز"}
+                    {` • ${formatInviteeRole(invitee.role, t)}`}
+                    {` • ${
+                      invitee.password
+                        ? t("createProject.hasPassword")
+                        : t("createProject.noPassword")
+                    }`}
+                    {invitee.email ? ` • ${invitee.email}` : ""}
                   </span>
                   <button
                     type="button"
                     onClick={() => handleRemoveInvitee(invitee.name)}
                     className="text-xs font-semibold text-rose-500 transition hover:text-rose-600"
                   >
-                    حذف
+                    {t("common.remove")}
                   </button>
                 </li>
               ))}
@@ -457,14 +617,14 @@ export const CreateProjectForm = () => {
           <div className="flex items-center justify-between">
             <div>
               <h3 className="text-sm font-semibold text-slate-700">
-                مدارک نیازمند امضا
+                {t("createProject.documents")}
               </h3>
               <p className="text-xs text-slate-500">
-                فایل‌های PDF یا تصویر را بارگذاری کنید و مشخص کنید چه کسانی به آن‌ها دسترسی دارند.
+                {t("createProject.documentsHint")}
               </p>
             </div>
             <label className="inline-flex cursor-pointer items-center rounded-2xl border border-dashed border-sky-300 bg-sky-50 px-4 py-2 text-xs font-semibold text-sky-700 transition hover:border-sky-400 hover:bg-sky-100">
-              انتخاب فایل
+              {t("createProject.chooseFiles")}
               <input
                 type="file"
                 accept="application/pdf,image/*"
@@ -489,14 +649,23 @@ export const CreateProjectForm = () => {
                       onClick={() => handleRemoveDocument(document.id)}
                       className="text-xs font-semibold text-rose-500 transition hover:text-rose-600"
                     >
-                      حذف
+                      {t("common.remove")}
                     </button>
                   </div>
                   <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
                     <span>
-                      حجم فایل: {(document.file.size / 1024 / 1024).toFixed(2)} مگابایت
+                      {t("createProject.fileSize", {
+                        size: formatDigits(
+                          (document.file.size / 1024 / 1024).toFixed(2),
+                          dateDisplay.digits
+                        ),
+                      })}
+                    </span>
+                    <span>
+                      {t("createProject.fileType", {
+                        type: document.file.type || t("createProject.fileTypeUnknown"),
+                      })}
                     </span>
-                    <span>نوع: {document.file.type || "نامشخص"}</span>
                   </div>
                   <div className="space-y-2 rounded-xl bg-slate-50 px-3 py-3">
                     <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
@@ -507,12 +676,12 @@ export const CreateProjectForm = () => {
                           handleToggleSharedWithAll(document.id, event.target.checked)
                         }
                       />
-                      اشتراک‌گذاری با تمام مدعوین
+                      {t("createProject.shareWithAll")}
                     </label>
                     {!document.sharedWithAll ? (
                       <div className="space-y-2">
                         <p className="text-xs text-slate-500">
-                          تعیین دسترسی برای هر مدعو:
+                          {t("createProject.permissionsHint")}
                         </p>
                         <div className="space-y-2">
                         {document.permissions.map((permission) => (
@@ -535,7 +704,7 @@ export const CreateProjectForm = () => {
                                       )
                                     }
                                   />
-                                  مشاهده
+                                  {t("createProject.canView")}
                                 </label>
                                 <label className="flex items-center gap-1">
                                   <input
@@ -550,7 +719,7 @@ export const CreateProjectForm = () => {
                                       )
                                     }
                                   />
-                                  امضا / ویرایش
+                                  {t("createProject.canEdit")}
                                 </label>
                               </div>
                             </div>
@@ -559,16 +728,83 @@ export const CreateProjectForm = () => {
                       </div>
                     ) : (
                       <p className="text-xs text-slate-500">
-                        همه‌ی مدعوین می‌توانند این سند را مشاهده و امضا کنند.
+                        {t("createProject.sharedWithAllHint")}
                       </p>
                     )}
                   </div>
+                  <div className="space-y-2 rounded-xl bg-slate-50 px-3 py-3">
+                    <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={document.signInOrder}
+                        onChange={(event) =>
+                          handleToggleSignInOrder(document.id, event.target.checked)
+                        }
+                      />
+                      {t("createProject.signInOrder")}
+                    </label>
+                    {document.signInOrder ? (
+                      <div className="space-y-2">
+                        <p className="text-xs text-slate-500">
+                          {t("createProject.signInOrderHint")}
+                        </p>
+                        {getEligibleSigners(document).map((name, _, eligible) => (
+                          <div
+                            key={name}
+                            className="flex items-center justify-between gap-3 rounded-lg bg-white px-3 py-2 text-xs text-slate-600"
+                          >
+                            <span>{name}</span>
+                            <select
+                              value={document.signingSteps[name] ?? 0}
+                              onChange={(event) =>
+                                handleSigningStepChange(
+                                  document.id,
+                                  name,
+                                  Number(event.target.value)
+                                )
+                              }
+                              className="rounded-lg border border-slate-200 bg-white px-2 py-1"
+                            >
+                              <option value={0}>{t("createProject.signingStepNone")}</option>
+                              {eligible.map((_, index) => (
+                                <option key={index + 1} value={index + 1}>
+                                  {t("createProject.signingStep", {
+                                    step: formatDigits(index + 1, dateDisplay.digits),
+                                  })}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                  <div className="space-y-2 rounded-xl bg-slate-50 px-3 py-3">
+                    <label className="block text-sm font-semibold text-slate-700">
+                      {t("createProject.documentDueDate")}
+                    </label>
+                    <DatePicker
+                      value={document.dueDate}
+                      onChange={(value) =>
+                        handleDueDateChange(document.id, (value as DateObject | null) ?? null)
+                      }
+                      calendar={pickerCalendar.calendar}
+                      locale={pickerCalendar.locale}
+                      calendarPosition="bottom-right"
+                      className="w-full rounded-lg border border-slate-200 bg-white text-xs"
+                      inputClass="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs focus:outline-none"
+                      placeholder={t("createProject.dueDatePlaceholder")}
+                    />
+                    <p className="text-xs text-slate-500">
+                      {t("createProject.documentDueDateHint")}
+                    </p>
+                  </div>
                 </div>
               ))}
             </div>
           ) : (
             <p className="text-xs text-slate-400">
-              هنوز فایلی اضافه نشده است.
+              {t("createProject.noDocuments")}
             </p>
           )}
         </div>
@@ -582,35 +818,70 @@ export const CreateProjectForm = () => {
           disabled={loading}
           className="w-full rounded-2xl bg-sky-500 px-4 py-3 text-sm font-semibold text-white shadow-lg transition hover:bg-sky-600 focus:outline-none focus:ring-2 focus:ring-sky-100 disabled:cursor-not-allowed disabled:bg-slate-300"
         >
-          {loading ? "در حال ساخت لینک..." : "ساخت لینک دعوت"}
+          {loading ? t("createProject.submitting") : t("createProject.submit")}
         </button>
       </form>
 
       {shareUrl ? (
         <div className="mt-6 space-y-3 rounded-2xl bg-sky-50/70 p-4 text-sm text-slate-700">
-          <p className="font-semibold text-sky-800">لینک دعوت آماده است:</p>
+          <p className="font-semibold text-sky-800">{t("createProject.shareReady")}</p>
           <div className="flex flex-col gap-3 sm:flex-row">
             <code className="flex-1 rounded-xl bg-white px-3 py-2 text-xs text-slate-600 shadow-inner">
               {shareUrl}
             </code>
             <button
-              onClick={handleCopy}
+              onClick={() => handleCopy(shareUrl)}
               className="rounded-xl bg-sky-500 px-3 py-2 text-xs font-semibold text-white transition hover:bg-sky-600"
             >
-              کپی لینک
+              {t("createProject.copyLink")}
             </button>
           </div>
           <p className="text-xs text-slate-500">
-            لینک را فقط برای مدعوین تعریف‌شده ارسال کنید. هر شخص با نام خود وارد می‌شود.
+            {t("createProject.shareHint")}
           </p>
+          {accessLinks.length ? (
+            <div className="space-y-2 rounded-xl bg-white/80 p-3 text-xs text-slate-600 shadow-inner">
+              <p className="font-semibold text-slate-700">
+                {t("createProject.accessLinks")}
+              </p>
+              <ul className="space-y-2">
+                {accessLinks.map((link) => (
+                  <li key={link.name} className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                    <span className="font-semibold sm:w-28">{link.name}</span>
+                    <code dir="ltr" className="flex-1 truncate rounded-lg bg-slate-50 px-2 py-1 text-[11px]">
+                      {link.url}
+                    </code>
+                    <button
+                      type="button"
+                      onClick={() => handleCopy(link.url)}
+                      className="rounded-lg bg-sky-500 px-2 py-1 text-[11px] font-semibold text-white transition hover:bg-sky-600"
+                    >
+                      {t("createProject.copyLink")}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-[11px] text-slate-500">
+                {t("createProject.accessLinksHint")}
+              </p>
+            </div>
+          ) : null}
           {adminCredentials ? (
             <div className="space-y-2 rounded-xl bg-white/80 p-3 text-xs text-slate-600 shadow-inner">
-              <p className="font-semibold text-slate-700">اطلاعات ورود مدیر:</p>
+              <p className="font-semibold text-slate-700">
+                {t("createProject.adminCredentials")}
+              </p>
               <div className="flex flex-wrap items-center gap-2">
-                <span className="rounded-full bg-slate-100 px-3 py-1">نام کاربری: admin</span>
-                <span className="rounded-full bg-slate-100 px-3 py-1">رمز عبور: {adminCredentials.password}</span>
+                <span className="rounded-full bg-slate-100 px-3 py-1">
+                  {t("createProject.adminUsername")} <code dir="ltr">admin</code>
+                </span>
+                <span className="rounded-full bg-slate-100 px-3 py-1">
+                  {t("createProject.adminPassword")} <code dir="ltr">{adminCredentials.password}</code>
+                </span>
               </div>
-              <p className="text-[11px] text-slate-500">این اطلاعات را فقط برای برگزارکننده نگه دارید.</p>
+              <p className="text-[11px] text-slate-500">
+                {t("createProject.adminHint")}
+              </p>
             </div>
           ) : null}
         </div>
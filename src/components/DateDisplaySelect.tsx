@@ -0,0 +1,43 @@
+import { useI18n } from "@/components/I18nProvider";
+import { calendarSystems, isCalendarSystem } from "@/lib/format";
+import type { DateDisplay } from "@/types";
+
+type Props = {
+  value: DateDisplay;
+  onChange: (value: DateDisplay) => void;
+};
+
+export const DateDisplaySelect = ({ value, onChange }: Props) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+      <select
+        value={value.calendar}
+        onChange={(event) => {
+          const calendar = event.target.value;
+          if (isCalendarSystem(calendar)) onChange({ ...value, calendar });
+        }}
+        className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs focus:border-sky-400 focus:outline-none"
+      >
+        {calendarSystems.map((calendar) => (
+          <option key={calendar} value={calendar}>
+            {t("calendar.option", { name: t(`calendar.${calendar}`) })}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() =>
+          onChange({
+            ...value,
+            digits: value.digits === "persian" ? "latin" : "persian",
+          })
+        }
+        className="rounded-full border border-slate-200 bg-white px-3 py-1 font-semibold text-slate-600 transition hover:bg-slate-100"
+      >
+        {value.digits === "persian" ? t("digits.toLatin") : t("digits.toPersian")}
+      </button>
+    </div>
+  );
+};
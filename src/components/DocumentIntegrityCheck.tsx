@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { formatDigits } from "@/lib/format";
+
+type DocumentIntegrityCheckProps = {
+  projectId: string;
+  documentId: string;
+};
+
+type VersionCheckResponse = {
+  version: number;
+  status: string;
+  chained: boolean;
+};
+
+type CheckResult = {
+  valid: boolean;
+  failedVersions: number[];
+};
+
+/**
+ * Re-hashes every stored version of a document against the recorded hash
+ * chain and lists the versions that no longer match.
+ */
+export const DocumentIntegrityCheck = ({
+  projectId,
+  documentId,
+}: DocumentIntegrityCheckProps) => {
+  const { locale, t, tError } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<CheckResult | null>(null);
+
+  const handleVerify = async () => {
+    setChecking(true);
+    setResult(null);
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/documents/${documentId}/verify`
+      );
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body?.error ?? "document_verify_failed");
+      }
+      const failedVersions = ((body.versions ?? []) as VersionCheckResponse[])
+        .filter((check) => check.status !== "match" || !check.chained)
+        .map((check) => check.version);
+      setResult({ valid: Boolean(body.valid), failedVersions });
+    } catch (verifyError) {
+      console.error(verifyError);
+      alert(
+        tError(
+          verifyError instanceof Error ? verifyError.message : null,
+          "errors.document_verify_failed"
+        )
+      );
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <button
+        type="button"
+        className="rounded-full border border-slate-200 bg-white px-3 py-1 font-semibold text-slate-600 transition hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+        disabled={checking}
+        onClick={handleVerify}
+      >
+        {checking ? t("project.documents.verifying") : t("project.documents.verify")}
+      </button>
+      {result ? (
+        <p className={result.valid ? "text-emerald-600" : "text-rose-500"}>
+          {result.valid
+            ? t("project.documents.verified")
+            : t("project.documents.verifyFailed", {
+                versions: result.failedVersions
+                  .map((version) => formatDigits(version, dateDisplay.digits))
+                  .join(t("common.listSeparator")),
+              })}
+        </p>
+      ) : null}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 "use client";
 
 import { useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
 import { formatJalaliDate } from "@/lib/format";
 import type { DocumentSignatureNote, ProjectInvitee } from "@/types";
 
@@ -67,6 +68,7 @@ export const DocumentNotesPanel = ({
   currentInviteeId,
   onCreateNote,
 }: Props) => {
+  const { t } = useI18n();
   const [expanded, setExpanded] = useState(false);
   const [body, setBody] = useState("");
   const [visibilityMode, setVisibilityMode] = useState<"ALL" | "CUSTOM">("ALL");
@@ -83,11 +85,11 @@ export const DocumentNotesPanel = ({
 
   const handleSubmit = async () => {
     if (!body.trim()) {
-      setError("متن یادداشت را بنویسید.");
+      setError(t("project.notes.contentMissing"));
       return;
     }
     if (visibilityMode === "CUSTOM" && selectedInvitees.length === 0) {
-      setError("حداقل یک مخاطب انتخاب کنید.");
+      setError(t("notesPanel.recipientsMissing"));
       return;
     }
     setError(null);
@@ -107,7 +109,7 @@ export const DocumentNotesPanel = ({
       setVisibilityMode("ALL");
     } catch (err) {
       console.error(err);
-      setError("ثبت یادداشت انجام نشد.");
+      setError(t("errors.note_create_failed"));
     } finally {
       setPending(false);
     }
@@ -129,7 +131,7 @@ export const DocumentNotesPanel = ({
       setReplyDrafts((prev) => ({ ...prev, [parent.id]: "" }));
     } catch (err) {
       console.error(err);
-      setError("ثبت پاسخ انجام نشد.");
+      setError(t("errors.reply_create_failed"));
     } finally {
       setPending(false);
     }
@@ -142,18 +144,18 @@ export const DocumentNotesPanel = ({
         className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100"
         onClick={() => setExpanded((prev) => !prev)}
       >
-        {expanded ? "پنهان کردن یادداشت‌ها" : "مشاهده یادداشت‌ها"}
+        {expanded ? t("notesPanel.hide") : t("notesPanel.show")}
       </button>
       {expanded ? (
         <div className="space-y-4 rounded-2xl border border-slate-200 bg-white/80 p-4 shadow-inner">
           <div className="space-y-2">
             <label className="text-sm font-semibold text-slate-700">
-              یادداشت جدید
+              {t("notesPanel.newNote")}
             </label>
             <textarea
               value={body}
               onChange={(event) => setBody(event.target.value)}
-              placeholder="متن یادداشت..."
+              placeholder={t("project.notes.placeholder")}
               className="w-full rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:border-sky-400 focus:outline-none"
               rows={3}
             />
@@ -165,7 +167,7 @@ export const DocumentNotesPanel = ({
                   checked={visibilityMode === "ALL"}
                   onChange={() => setVisibilityMode("ALL")}
                 />
-                برای همه
+                {t("notesPanel.everyone")}
               </label>
               <label className="flex items-center gap-2">
                 <input
@@ -174,7 +176,7 @@ export const DocumentNotesPanel = ({
                   checked={visibilityMode === "CUSTOM"}
                   onChange={() => setVisibilityMode("CUSTOM")}
                 />
-                انتخاب مخاطب
+                {t("notesPanel.pickRecipients")}
               </label>
               <label className="flex items-center gap-2">
                 <input
@@ -182,7 +184,7 @@ export const DocumentNotesPanel = ({
                   checked={allowReplies}
                   onChange={(event) => setAllowReplies(event.target.checked)}
                 />
-                امکان پاسخ
+                {t("notesPanel.repliesAllowed")}
               </label>
             </div>
             {visibilityMode === "CUSTOM" ? (
@@ -219,14 +221,14 @@ export const DocumentNotesPanel = ({
               onClick={handleSubmit}
               disabled={pending}
             >
-              ثبت یادداشت
+              {t("project.notes.add")}
             </button>
           </div>
 
           <div className="space-y-3">
             {tree.length === 0 ? (
               <p className="text-xs text-slate-500">
-                هنوز یادداشتی برای این سند ثبت نشده است.
+                {t("project.notes.empty")}
               </p>
             ) : (
               tree.map((note) => (
@@ -247,13 +249,15 @@ export const DocumentNotesPanel = ({
                         {note.visibleTo && note.visibleTo.length
                           ? note.visibleTo
                               .map((id) => inviteeNameMap[id] ?? "-")
-                              .join("، ")
-                          : "نمایش برای همه"}
+                              .join(t("common.listSeparator"))
+                          : t("notesPanel.visibleToAll")}
                       </span>
                     </span>
                     <span className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-slate-50 px-2 py-0.5">
                       <span>{note.allowReplies ? "💬" : "🚫"}</span>
-                      <span>{note.allowReplies ? "امکان پاسخ" : "بدون پاسخ"}</span>
+                      <span>{note.allowReplies
+                          ? t("notesPanel.repliesAllowed")
+                          : t("notesPanel.noReplies")}</span>
                     </span>
                   </div>
                   {note.allowReplies ? (
@@ -276,7 +280,7 @@ export const DocumentNotesPanel = ({
                               [note.id]: event.target.value,
                             }))
                           }
-                          placeholder="پاسخ خود را بنویسید..."
+                          placeholder={t("project.notes.replyPlaceholder")}
                           className="w-full rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:border-sky-400 focus:outline-none"
                           rows={2}
                         />
@@ -286,7 +290,7 @@ export const DocumentNotesPanel = ({
                           onClick={() => handleReplySubmit(note)}
                           disabled={pending}
                         >
-                          ثبت پاسخ
+                          {t("notesPanel.replySubmit")}
                         </button>
                       </div>
                     </div>
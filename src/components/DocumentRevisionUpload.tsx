@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { ProjectDocumentWithRelations } from "@/types";
+
+type DocumentRevisionUploadProps = {
+  projectId: string;
+  document: ProjectDocumentWithRelations;
+  onRevised: () => Promise<void> | void;
+};
+
+/**
+ * Organizer file picker that uploads a revised document, after confirming
+ * when someone has already signed or declined.
+ */
+export const DocumentRevisionUpload = ({
+  projectId,
+  document,
+  onRevised,
+}: DocumentRevisionUploadProps) => {
+  const { t, tError } = useI18n();
+  const [uploading, setUploading] = useState(false);
+
+  const handleRevision = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    const hasResponses = document.signatures.some(
+      (item) => item.status === "signed" || item.status === "declined"
+    );
+    if (hasResponses && !confirm(t("project.documents.reviseConfirm"))) return;
+
+    setUploading(true);
+    try {
+      const formPayload = new FormData();
+      formPayload.append("file", file);
+      const response = await fetch(
+        `/api/projects/${projectId}/documents/${document.id}/revision`,
+        { method: "POST", body: formPayload }
+      );
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body?.error ?? "document_revision_failed");
+      }
+      await onRevised();
+    } catch (revisionError) {
+      console.error(revisionError);
+      alert(
+        tError(
+          revisionError instanceof Error ? revisionError.message : null,
+          "errors.document_revision_failed"
+        )
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <label
+      className={`inline-flex items-center rounded-full border border-sky-200 bg-white px-3 py-1 font-semibold text-sky-700 transition hover:bg-sky-50 ${
+        uploading ? "cursor-not-allowed opacity-60" : "cursor-pointer"
+      }`}
+    >
+      {uploading ? t("project.documents.revising") : t("project.documents.uploadRevision")}
+      <input
+        type="file"
+        accept="application/pdf,image/*"
+        className="hidden"
+        disabled={uploading}
+        onChange={(event) => {
+          handleRevision(event.target.files);
+          event.target.value = "";
+        }}
+      />
+    </label>
+  );
+};
@@ -0,0 +1,72 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { formatDigits } from "@/lib/format";
+import type { SigningStep } from "@/lib/signingOrder";
+
+type DocumentSigningOrderProps = {
+  signers: SigningStep[];
+  signedIds: string[];
+  declinedIds: string[];
+  onTurn: string[];
+  inviteeNameMap: Map<string, string>;
+};
+
+/**
+ * The document's signers in step order, each marked signed, declined, on
+ * turn or waiting.
+ */
+export const DocumentSigningOrder = ({
+  signers,
+  signedIds,
+  declinedIds,
+  onTurn,
+  inviteeNameMap,
+}: DocumentSigningOrderProps) => {
+  const { locale, t } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+
+  return (
+    <div className="space-y-1 rounded-xl border border-slate-100 bg-slate-50/70 px-3 py-2 text-xs">
+      <p className="font-semibold text-slate-600">{t("project.documents.signingOrder")}</p>
+      <ol className="space-y-1">
+        {signers.map((signer) => {
+          const signed = signedIds.includes(signer.inviteeId);
+          const declined = declinedIds.includes(signer.inviteeId);
+          const turn = onTurn.includes(signer.inviteeId);
+          return (
+            <li key={signer.inviteeId} className="flex items-center justify-between gap-2">
+              <span>
+                {t("project.documents.signingStep", {
+                  step: formatDigits(signer.step, dateDisplay.digits),
+                })}
+                {" – "}
+                {inviteeNameMap.get(signer.inviteeId) ?? t("common.unknown")}
+              </span>
+              <span
+                className={
+                  signed
+                    ? "text-emerald-600"
+                    : declined
+                    ? "text-rose-500"
+                    : turn
+                    ? "text-sky-600"
+                    : "text-slate-400"
+                }
+              >
+                {signed
+                  ? t("project.documents.signerSigned")
+                  : declined
+                  ? t("project.documents.signerDeclined")
+                  : turn
+                  ? t("project.documents.signerOnTurn")
+                  : t("project.documents.signerWaiting")}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { formatDate } from "@/lib/format";
+import type { TrashedDocument } from "@/types";
+
+type DocumentTrashPanelProps = {
+  projectId: string;
+  // bumped by the parent after it moves a document to the trash
+  reloadKey: number;
+  onChanged: () => Promise<void> | void;
+};
+
+/**
+ * Organizer list of deleted documents, each restorable or removed for good
+ * until the purge job takes it.
+ */
+export const DocumentTrashPanel = ({
+  projectId,
+  reloadKey,
+  onChanged,
+}: DocumentTrashPanelProps) => {
+  const { locale, t, tError } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+  const [documents, setDocuments] = useState<TrashedDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/trash`);
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body?.error ?? "documents_fetch_failed");
+      }
+      setDocuments((body.documents ?? []) as TrashedDocument[]);
+      setError(null);
+    } catch (trashError) {
+      console.error(trashError);
+      setError(
+        tError(
+          trashError instanceof Error ? trashError.message : null,
+          "errors.documents_fetch_failed"
+        )
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, tError]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash, reloadKey]);
+
+  const handleTrashAction = async (
+    item: TrashedDocument,
+    action: "restore" | "purge"
+  ) => {
+    if (
+      action === "purge" &&
+      !confirm(t("project.trash.purgeConfirm", { name: item.name }))
+    ) {
+      return;
+    }
+    try {
+      const response = await fetch(
+        action === "restore"
+          ? `/api/projects/${projectId}/documents/${item.id}/restore`
+          : `/api/projects/${projectId}/documents/${item.id}?permanent=true`,
+        { method: action === "restore" ? "POST" : "DELETE" }
+      );
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(
+          body?.error ??
+            (action === "restore" ? "document_restore_failed" : "document_delete_failed")
+        );
+      }
+      await Promise.all([onChanged(), loadTrash()]);
+    } catch (trashError) {
+      console.error(trashError);
+      alert(
+        tError(
+          trashError instanceof Error ? trashError.message : null,
+          action === "restore"
+            ? "errors.document_restore_failed"
+            : "errors.document_delete_failed"
+        )
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-2xl border border-slate-200 bg-slate-50/70 px-4 py-3 text-xs">
+      <p className="font-semibold text-slate-600">{t("project.trash.title")}</p>
+      {loading ? (
+        <p className="text-slate-500">{t("project.trash.loading")}</p>
+      ) : error ? (
+        <p className="text-rose-500">{error}</p>
+      ) : documents.length ? (
+        <ul className="space-y-2">
+          {documents.map((item) => (
+            <li key={item.id} className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-slate-600">
+                <span className="font-semibold">{item.name}</span>{" "}
+                {t("project.trash.entry", {
+                  name: item.deletedByName ?? t("common.unknown"),
+                  date: formatDate(item.deletedAt, dateDisplay),
+                  purgeDate: formatDate(item.purgeAt, dateDisplay),
+                })}
+              </span>
+              <span className="flex gap-2">
+                <button
+                  type="button"
+                  className="font-semibold text-sky-600 hover:underline"
+                  onClick={() => handleTrashAction(item, "restore")}
+                >
+                  {t("project.trash.restore")}
+                </button>
+                <button
+                  type="button"
+                  className="font-semibold text-rose-600 hover:underline"
+                  onClick={() => handleTrashAction(item, "purge")}
+                >
+                  {t("project.trash.purge")}
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-slate-500">{t("project.trash.empty")}</p>
+      )}
+    </div>
+  );
+};
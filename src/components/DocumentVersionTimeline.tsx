@@ -0,0 +1,127 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useI18n } from "@/components/I18nProvider";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { formatDate, formatDigits } from "@/lib/format";
+import type { DocumentVersionEntry, ProjectDocumentWithRelations } from "@/types";
+
+type DocumentVersionTimelineProps = {
+  projectId: string;
+  document: ProjectDocumentWithRelations;
+  onDownload: (version: number) => void;
+};
+
+/**
+ * Every version of a document, newest first, with who made it and links to
+ * download it or compare it with the one before.
+ */
+export const DocumentVersionTimeline = ({
+  projectId,
+  document,
+  onDownload,
+}: DocumentVersionTimelineProps) => {
+  const router = useRouter();
+  const { locale, t, tError } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+  const [versions, setVersions] = useState<DocumentVersionEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/documents/${document.id}/versions`
+      );
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body?.error ?? "document_versions_failed");
+      }
+      setVersions(((body.versions ?? []) as DocumentVersionEntry[]).reverse());
+      setError(null);
+    } catch (timelineError) {
+      console.error(timelineError);
+      setError(
+        tError(
+          timelineError instanceof Error ? timelineError.message : null,
+          "errors.document_versions_failed"
+        )
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, document.id, tError]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  return (
+    <div className="space-y-2 rounded-xl border border-slate-100 bg-slate-50/70 px-3 py-2 text-xs">
+      {loading ? (
+        <p className="text-slate-500">{t("project.documents.versionsLoading")}</p>
+      ) : error ? (
+        <p className="text-rose-500">{error}</p>
+      ) : (
+        <ol className="space-y-2">
+          {versions.map((entry, index, entries) => {
+            const previous = entries[index + 1];
+            return (
+              <li
+                key={entry.version}
+                className="flex flex-wrap items-center justify-between gap-2"
+              >
+                <span className="text-slate-600">
+                  {t("project.documents.versionEntry", {
+                    version: formatDigits(entry.version, dateDisplay.digits),
+                    author: entry.isCertificate
+                      ? t("project.documents.versionCertificate")
+                      : entry.createdByName ?? t("common.unknown"),
+                    date: formatDate(entry.createdAt, dateDisplay),
+                  })}
+                  {entry.isRevision ? (
+                    <span className="ms-2 rounded-full bg-sky-100 px-2 py-0.5 text-[10px] font-semibold text-sky-700">
+                      {t("project.documents.versionRevision")}
+                    </span>
+                  ) : null}
+                  {entry.isCurrent ? (
+                    <span className="ms-2 rounded-full bg-emerald-100 px-2 py-0.5 text-[10px] font-semibold text-emerald-700">
+                      {t("project.documents.versionCurrent")}
+                    </span>
+                  ) : entry.version > document.currentVersion ? (
+                    <span className="ms-2 rounded-full bg-slate-200 px-2 py-0.5 text-[10px] font-semibold text-slate-500">
+                      {t("project.documents.versionRolledBack")}
+                    </span>
+                  ) : null}
+                </span>
+                <span className="flex gap-2">
+                  <button
+                    type="button"
+                    className="font-semibold text-sky-600 hover:underline"
+                    onClick={() => onDownload(entry.version)}
+                  >
+                    {t("project.documents.download")}
+                  </button>
+                  {previous ? (
+                    <button
+                      type="button"
+                      className="font-semibold text-sky-600 hover:underline"
+                      onClick={() =>
+                        router.push(
+                          `/project/${projectId}/document/${document.id}/compare?from=${previous.version}&to=${entry.version}`
+                        )
+                      }
+                    >
+                      {t("project.documents.compareWithPrevious")}
+                    </button>
+                  ) : null}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
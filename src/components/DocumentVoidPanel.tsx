@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { formatDate, formatDigits } from "@/lib/format";
+import type { ProjectDocumentWithRelations } from "@/types";
+
+type DocumentVoidPanelProps = {
+  projectId: string;
+  document: ProjectDocumentWithRelations;
+  inviteeNameMap: Map<string, string>;
+  onVoided: () => Promise<void> | void;
+};
+
+// Versions a void can roll back to: nothing past the current one, and never
+// the certificate.
+const getRollbackVersions = (document: ProjectDocumentWithRelations) =>
+  document.versions
+    .filter(
+      (version) =>
+        version.version <= document.currentVersion && !version.isCertificate
+    )
+    .sort((a, b) => b.version - a.version);
+
+/**
+ * Organizer form that voids one signature or the whole document and rolls
+ * the document back to a chosen version.
+ */
+export const DocumentVoidPanel = ({
+  projectId,
+  document,
+  inviteeNameMap,
+  onVoided,
+}: DocumentVoidPanelProps) => {
+  const { locale, t, tError } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+  const rollbackVersions = getRollbackVersions(document);
+  const [inviteeId, setInviteeId] = useState("");
+  const [version, setVersion] = useState(rollbackVersions.at(-1)?.version ?? 1);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Voiding a signature suggests the version just before it was signed.
+  const handleTargetChange = (nextInviteeId: string) => {
+    setInviteeId(nextInviteeId);
+    const voidedSignature = document.signatures.find(
+      (item) => item.inviteeId === nextInviteeId
+    );
+    if (!voidedSignature) return;
+    const previous = rollbackVersions.find(
+      (item) => item.version < voidedSignature.version
+    );
+    if (previous) setVersion(previous.version);
+  };
+
+  const submitVoid = async () => {
+    const confirmed = window.confirm(
+      inviteeId
+        ? t("project.documents.voidSignatureConfirm")
+        : t("project.documents.voidDocumentConfirm")
+    );
+    if (!confirmed) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/documents/${document.id}/void`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            inviteeId: inviteeId || null,
+            version,
+            reason: reason.trim() || null,
+          }),
+        }
+      );
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setError(
+          tError((body as { error?: string }).error, "errors.document_void_failed")
+        );
+        setSaving(false);
+        return;
+      }
+      await onVoided();
+    } catch (voidError) {
+      console.error(voidError);
+      setError(t("errors.document_void_failed"));
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-xl border border-rose-100 bg-rose-50/60 px-3 py-3 text-xs text-slate-600">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <label className="flex flex-col gap-1">
+          {t("project.documents.voidTarget")}
+          <select
+            value={inviteeId}
+            onChange={(event) => handleTargetChange(event.target.value)}
+            className="rounded-xl border border-slate-200 bg-white px-2 py-1"
+          >
+            <option value="">{t("project.documents.voidWholeDocument")}</option>
+            {document.signatures
+              .filter((item) => item.status === "signed")
+              .map((item) => (
+                <option key={item.inviteeId} value={item.inviteeId}>
+                  {t("project.documents.voidSignatureOf", {
+                    name: inviteeNameMap.get(item.inviteeId) ?? t("common.unknown"),
+                  })}
+                </option>
+              ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          {t("project.documents.voidRollback")}
+          <select
+            value={version}
+            onChange={(event) => setVersion(Number(event.target.value))}
+            className="rounded-xl border border-slate-200 bg-white px-2 py-1"
+          >
+            {rollbackVersions.map((item) => (
+              <option key={item.version} value={item.version}>
+                {t("project.documents.versionOption", {
+                  version: formatDigits(item.version, dateDisplay.digits),
+                  date: formatDate(item.createdAt, dateDisplay),
+                })}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <input
+        type="text"
+        value={reason}
+        placeholder={t("project.documents.voidReason")}
+        onChange={(event) => setReason(event.target.value)}
+        className="w-full rounded-xl border border-slate-200 bg-white px-2 py-1"
+      />
+      {error ? <p className="text-rose-500">{error}</p> : null}
+      <button
+        type="button"
+        className="rounded-full border border-rose-500 bg-rose-500 px-3 py-1 font-semibold text-white transition hover:bg-rose-600 disabled:cursor-not-allowed disabled:opacity-60"
+        disabled={saving}
+        onClick={submitVoid}
+      >
+        {saving ? t("project.documents.voiding") : t("project.documents.voidSubmit")}
+      </button>
+    </div>
+  );
+};
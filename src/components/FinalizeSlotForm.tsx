@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { AvailabilitySlot, FinalizedSlot } from "@/types";
+
+type FinalizeSlotFormProps = {
+  projectId: string;
+  slot: AvailabilitySlot;
+  slotLabel: string;
+  onFinalized: (finalizedSlot: FinalizedSlot | null) => void;
+  onCancel: () => void;
+};
+
+/**
+ * Organizer form that fixes the meeting to a suggested slot, with an
+ * optional location and notes.
+ */
+export const FinalizeSlotForm = ({
+  projectId,
+  slot,
+  slotLabel,
+  onFinalized,
+  onCancel,
+}: FinalizeSlotFormProps) => {
+  const { t, tError } = useI18n();
+  const [location, setLocation] = useState("");
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/finalize`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...slot,
+          location: location.trim() || null,
+          notes: notes.trim() || null,
+        }),
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError(tError((body as { error?: string }).error, "errors.finalize_failed"));
+        setSaving(false);
+        return;
+      }
+
+      onFinalized((body as { finalizedSlot: FinalizedSlot | null }).finalizedSlot);
+    } catch (finalizeError) {
+      console.error(finalizeError);
+      setError(t("errors.finalize_failed"));
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-3xl border border-emerald-200 bg-emerald-50/60 p-4 text-sm shadow-sm">
+      <p className="font-semibold text-emerald-800">
+        {t("project.finalize.title")} {slotLabel}
+      </p>
+      <input
+        type="text"
+        value={location}
+        onChange={(event) => setLocation(event.target.value)}
+        placeholder={t("project.finalize.locationPlaceholder")}
+        className="w-full rounded-xl border border-emerald-200 bg-white px-3 py-2 text-sm focus:border-emerald-400 focus:outline-none"
+      />
+      <textarea
+        value={notes}
+        onChange={(event) => setNotes(event.target.value)}
+        placeholder={t("project.finalize.notesPlaceholder")}
+        rows={2}
+        className="w-full rounded-xl border border-emerald-200 bg-white px-3 py-2 text-sm focus:border-emerald-400 focus:outline-none"
+      />
+      {error ? <p className="text-xs text-rose-600">{error}</p> : null}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={saving}
+          className="rounded-full bg-emerald-500 px-4 py-1.5 text-xs font-semibold text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:bg-slate-300"
+        >
+          {saving ? t("common.saving") : t("project.finalize.confirm")}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full border border-slate-200 bg-white px-4 py-1.5 text-xs font-semibold text-slate-600 transition hover:bg-slate-100"
+        >
+          {t("common.cancel")}
+        </button>
+      </div>
+    </div>
+  );
+};
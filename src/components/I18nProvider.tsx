@@ -0,0 +1,63 @@
+"use client";
+
+import { createContext, useCallback, useContext, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import {
+  createTranslator,
+  defaultLocale,
+  getDirection,
+  localeCookieName,
+  translateApiError,
+  type Locale,
+  type MessageKey,
+  type Translate,
+} from "@/lib/i18n";
+
+type I18nContextValue = {
+  locale: Locale;
+  dir: "rtl" | "ltr";
+  t: Translate;
+  tError: (code: unknown, fallback: MessageKey) => string;
+  setLocale: (locale: Locale) => void;
+};
+
+const buildValue = (
+  locale: Locale,
+  setLocale: (locale: Locale) => void
+): I18nContextValue => {
+  const t = createTranslator(locale);
+  return {
+    locale,
+    dir: getDirection(locale),
+    t,
+    tError: (code, fallback) => translateApiError(t, code, fallback),
+    setLocale,
+  };
+};
+
+const I18nContext = createContext<I18nContextValue>(
+  buildValue(defaultLocale, () => undefined)
+);
+
+type Props = {
+  locale: Locale;
+  children: React.ReactNode;
+};
+
+export const I18nProvider = ({ locale, children }: Props) => {
+  const router = useRouter();
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      document.cookie = `${localeCookieName}=${next}; path=/; max-age=31536000; samesite=lax`;
+      router.refresh();
+    },
+    [router]
+  );
+
+  const value = useMemo(() => buildValue(locale, setLocale), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
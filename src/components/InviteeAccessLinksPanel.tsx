@@ -0,0 +1,231 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { formatDate, formatDigits } from "@/lib/format";
+import { formatInviteeRole } from "@/lib/roles";
+import type { InviteeAccessLink, InviteeRole, ProjectInvitee } from "@/types";
+
+type InviteeAccessLinksPanelProps = {
+  projectId: string;
+  invitees: ProjectInvitee[];
+  actorRole: InviteeRole;
+};
+
+const isExpired = (link: InviteeAccessLink) =>
+  new Date(link.expiresAt).getTime() <= Date.now();
+
+/**
+ * Organizer view of everyone's personal sign-in links. Links are stored
+ * hashed, so a new link is shown once, right after it is created.
+ */
+export const InviteeAccessLinksPanel = ({
+  projectId,
+  invitees,
+  actorRole,
+}: InviteeAccessLinksPanelProps) => {
+  const { locale, t, tError } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+  const [links, setLinks] = useState<InviteeAccessLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyInviteeId, setBusyInviteeId] = useState<string | null>(null);
+  const [freshLinks, setFreshLinks] = useState<Record<string, string>>({});
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/access-links`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body?.error ?? "access_links_fetch_failed");
+      }
+      const body = (await response.json()) as { links: InviteeAccessLink[] };
+      setLinks(body.links ?? []);
+      setError(null);
+    } catch (loadError) {
+      console.error(loadError);
+      setError(
+        tError(
+          loadError instanceof Error ? loadError.message : null,
+          "errors.access_links_fetch_failed"
+        )
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, tError]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const runAction = async (invitee: ProjectInvitee, action: "create" | "revoke") => {
+    const current = links.find((link) => link.inviteeId === invitee.id);
+    const live = current && !current.revokedAt && !isExpired(current);
+    if (
+      action === "create" &&
+      live &&
+      !confirm(t("project.accessLinks.replaceConfirm", { name: invitee.name }))
+    ) {
+      return;
+    }
+    if (
+      action === "revoke" &&
+      !confirm(t("project.accessLinks.revokeConfirm", { name: invitee.name }))
+    ) {
+      return;
+    }
+
+    setBusyInviteeId(invitee.id);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/access-links/${invitee.id}`,
+        { method: action === "create" ? "POST" : "DELETE" }
+      );
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          body?.error ??
+            (action === "create" ? "access_link_create_failed" : "access_link_revoke_failed")
+        );
+      }
+      setFreshLinks((prev) => {
+        const next = { ...prev };
+        if (action === "create") {
+          next[invitee.id] = (body as { url: string }).url;
+        } else {
+          delete next[invitee.id];
+        }
+        return next;
+      });
+      await loadLinks();
+    } catch (actionError) {
+      console.error(actionError);
+      setError(
+        tError(
+          actionError instanceof Error ? actionError.message : null,
+          action === "create"
+            ? "errors.access_link_create_failed"
+            : "errors.access_link_revoke_failed"
+        )
+      );
+    } finally {
+      setBusyInviteeId(null);
+    }
+  };
+
+  const handleCopy = (value: string) => {
+    navigator.clipboard.writeText(value).catch(() => {
+      setError(t("common.copyFailed"));
+    });
+  };
+
+  const describeLink = (link: InviteeAccessLink | undefined) => {
+    if (!link) return t("project.accessLinks.none");
+    if (link.revokedAt) {
+      return t("project.accessLinks.revoked", { date: formatDate(link.revokedAt, dateDisplay) });
+    }
+    return t(isExpired(link) ? "project.accessLinks.expired" : "project.accessLinks.active", {
+      date: formatDate(link.expiresAt, dateDisplay),
+    });
+  };
+
+  return (
+    <section className="space-y-4 rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur">
+      <div className="space-y-1">
+        <h2 className="text-lg font-semibold text-slate-700">
+          {t("project.accessLinks.title")}
+        </h2>
+        <p className="text-xs text-slate-500">{t("project.accessLinks.hint")}</p>
+      </div>
+      {error ? (
+        <div className="rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">{error}</div>
+      ) : null}
+      {loading ? (
+        <p className="text-sm text-slate-500">{t("project.accessLinks.loading")}</p>
+      ) : (
+        <ul className="space-y-3">
+          {invitees.map((invitee) => {
+            const link = links.find((item) => item.inviteeId === invitee.id);
+            const live = Boolean(link && !link.revokedAt && !isExpired(link));
+            const freshLink = freshLinks[invitee.id];
+            // Only the organizer manages the organizer's own link.
+            const manageable = invitee.role !== "organizer" || actorRole === "organizer";
+            const busy = busyInviteeId === invitee.id;
+            return (
+              <li
+                key={invitee.id}
+                className="space-y-2 rounded-2xl border border-slate-200 bg-white px-4 py-3 text-xs text-slate-600 shadow-sm"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="space-y-1">
+                    <p className="font-semibold text-slate-700">
+                      {invitee.name}
+                      <span className="font-normal text-slate-400">
+                        {` • ${formatInviteeRole(invitee.role, t)}`}
+                      </span>
+                    </p>
+                    <p className={live ? "text-emerald-600" : "text-slate-500"}>
+                      {describeLink(link)}
+                    </p>
+                    {link ? (
+                      <p className="text-[11px] text-slate-400">
+                        {link.lastUsedAt
+                          ? t("project.accessLinks.lastUsed", {
+                              date: formatDate(link.lastUsedAt, dateDisplay),
+                              count: formatDigits(link.useCount, dateDisplay.digits),
+                            })
+                          : t("project.accessLinks.neverUsed")}
+                      </p>
+                    ) : null}
+                  </div>
+                  {manageable ? (
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        className="rounded-full border border-sky-200 bg-sky-50 px-3 py-1 font-semibold text-sky-700 transition hover:bg-sky-100 disabled:cursor-not-allowed disabled:opacity-60"
+                        disabled={busy}
+                        onClick={() => runAction(invitee, "create")}
+                      >
+                        {live ? t("project.accessLinks.replace") : t("project.accessLinks.create")}
+                      </button>
+                      {live ? (
+                        <button
+                          type="button"
+                          className="rounded-full border border-rose-200 bg-white px-3 py-1 font-semibold text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
+                          disabled={busy}
+                          onClick={() => runAction(invitee, "revoke")}
+                        >
+                          {t("project.accessLinks.revoke")}
+                        </button>
+                      ) : null}
+                    </div>
+                  ) : null}
+                </div>
+                {freshLink ? (
+                  <div className="space-y-1 rounded-xl bg-sky-50/70 p-2">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                      <code dir="ltr" className="flex-1 truncate rounded-lg bg-white px-2 py-1 text-[11px]">
+                        {freshLink}
+                      </code>
+                      <button
+                        type="button"
+                        onClick={() => handleCopy(freshLink)}
+                        className="rounded-lg bg-sky-500 px-2 py-1 text-[11px] font-semibold text-white transition hover:bg-sky-600"
+                      >
+                        {t("createProject.copyLink")}
+                      </button>
+                    </div>
+                    <p className="text-[11px] text-slate-500">{t("project.accessLinks.shownOnce")}</p>
+                  </div>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,449 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { MessageKey } from "@/lib/i18n";
+import { assignableInviteeRoles, formatInviteeRole } from "@/lib/roles";
+import type { InviteeRole, ProjectInvitee } from "@/types";
+
+type InviteeManagerPanelProps = {
+  projectId: string;
+  invitees: ProjectInvitee[];
+  actorId: string;
+  actorRole: InviteeRole;
+  onChanged: () => void;
+};
+
+type InviteeDraft = {
+  name: string;
+  role: InviteeRole;
+  email: string;
+  clearEmail: boolean;
+  password: string;
+  clearPassword: boolean;
+};
+
+const emptyDraft: InviteeDraft = {
+  name: "",
+  role: "participant",
+  email: "",
+  clearEmail: false,
+  password: "",
+  clearPassword: false,
+};
+
+const inputClass =
+  "w-full rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner transition focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-100";
+
+/**
+ * Organizer list of the project's invitees: add someone late, rename them,
+ * change their role or email, reset their password or remove them.
+ */
+export const InviteeManagerPanel = ({
+  projectId,
+  invitees,
+  actorId,
+  actorRole,
+  onChanged,
+}: InviteeManagerPanelProps) => {
+  const { locale, t, tError } = useI18n();
+  const [newInvitee, setNewInvitee] = useState<InviteeDraft>(emptyDraft);
+  const [adding, setAdding] = useState(false);
+  const [addedLink, setAddedLink] = useState<{ name: string; url: string } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<InviteeDraft>(emptyDraft);
+  const [busyInviteeId, setBusyInviteeId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(body?.error ?? fallback);
+    }
+    return body;
+  };
+
+  const reportError = (actionError: unknown, fallbackKey: MessageKey) => {
+    console.error(actionError);
+    setError(
+      tError(actionError instanceof Error ? actionError.message : null, fallbackKey)
+    );
+  };
+
+  const handleAdd = async () => {
+    if (!newInvitee.name.trim()) {
+      setError(t("createProject.error.inviteeNameMissing"));
+      return;
+    }
+    setAdding(true);
+    setError(null);
+    try {
+      const body = (await request(
+        `/api/projects/${projectId}/invitees`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            name: newInvitee.name.trim(),
+            role: newInvitee.role,
+            email: newInvitee.email.trim() || null,
+            password: newInvitee.password.trim() || null,
+            locale,
+          }),
+        },
+        "invitee_create_failed"
+      )) as { invitee: ProjectInvitee; accessLink: string | null };
+      setAddedLink(
+        body.accessLink ? { name: body.invitee.name, url: body.accessLink } : null
+      );
+      setNewInvitee(emptyDraft);
+      onChanged();
+    } catch (addError) {
+      reportError(addError, "errors.invitee_create_failed");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const startEditing = (invitee: ProjectInvitee) => {
+    setEditingId(invitee.id);
+    setDraft({ ...emptyDraft, name: invitee.name, role: invitee.role });
+    setError(null);
+  };
+
+  const handleSave = async (invitee: ProjectInvitee) => {
+    const payload: Record<string, string | null> = {};
+    if (draft.name.trim() !== invitee.name) payload.name = draft.name.trim();
+    if (draft.role !== invitee.role) payload.role = draft.role;
+    if (draft.clearEmail) payload.email = null;
+    else if (draft.email.trim()) payload.email = draft.email.trim();
+    if (draft.clearPassword) payload.password = null;
+    else if (draft.password.trim()) payload.password = draft.password.trim();
+
+    if (!Object.keys(payload).length) {
+      setEditingId(null);
+      return;
+    }
+
+    setBusyInviteeId(invitee.id);
+    setError(null);
+    try {
+      await request(
+        `/api/projects/${projectId}/invitees/${invitee.id}`,
+        { method: "PATCH", body: JSON.stringify(payload) },
+        "invitee_update_failed"
+      );
+      setEditingId(null);
+      onChanged();
+    } catch (saveError) {
+      reportError(saveError, "errors.invitee_update_failed");
+    } finally {
+      setBusyInviteeId(null);
+    }
+  };
+
+  const handleRemove = async (invitee: ProjectInvitee) => {
+    if (!confirm(t("project.invitees.removeConfirm", { name: invitee.name }))) return;
+    setBusyInviteeId(invitee.id);
+    setError(null);
+    try {
+      await request(
+        `/api/projects/${projectId}/invitees/${invitee.id}`,
+        { method: "DELETE" },
+        "invitee_remove_failed"
+      );
+      if (editingId === invitee.id) setEditingId(null);
+      onChanged();
+    } catch (removeError) {
+      reportError(removeError, "errors.invitee_remove_failed");
+    } finally {
+      setBusyInviteeId(null);
+    }
+  };
+
+  const handleCopy = (value: string) => {
+    navigator.clipboard.writeText(value).catch(() => {
+      setError(t("common.copyFailed"));
+    });
+  };
+
+  return (
+    <section className="space-y-4 rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur">
+      <div className="space-y-1">
+        <h2 className="text-lg font-semibold text-slate-700">
+          {t("project.invitees.title")}
+        </h2>
+        <p className="text-xs text-slate-500">{t("project.invitees.hint")}</p>
+      </div>
+      {error ? (
+        <div className="rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">{error}</div>
+      ) : null}
+
+      <ul className="space-y-3">
+        {invitees.map((invitee) => {
+          const isOrganizerAccount = invitee.role === "organizer";
+          // Only the organizer manages the organizer's own account.
+          const manageable = !isOrganizerAccount || actorRole === "organizer";
+          const removable = !isOrganizerAccount && invitee.id !== actorId;
+          const editing = editingId === invitee.id;
+          const busy = busyInviteeId === invitee.id;
+          return (
+            <li
+              key={invitee.id}
+              className="space-y-3 rounded-2xl border border-slate-200 bg-white px-4 py-3 text-xs text-slate-600 shadow-sm"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p>
+                  <span className="font-semibold text-slate-700">{invitee.name}</span>
+                  {` • ${formatInviteeRole(invitee.role, t)}`}
+                  {` • ${
+                    invitee.hasPassword
+                      ? t("createProject.hasPassword")
+                      : t("createProject.noPassword")
+                  }`}
+                  {` • ${
+                    invitee.hasEmail
+                      ? t("project.invitees.hasEmail")
+                      : t("project.invitees.noEmail")
+                  }`}
+                  {invitee.id === actorId ? ` • ${t("project.invitees.you")}` : ""}
+                </p>
+                {manageable && !editing ? (
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      className="rounded-full border border-sky-200 bg-sky-50 px-3 py-1 font-semibold text-sky-700 transition hover:bg-sky-100 disabled:cursor-not-allowed disabled:opacity-60"
+                      disabled={busy}
+                      onClick={() => startEditing(invitee)}
+                    >
+                      {t("project.invitees.edit")}
+                    </button>
+                    {removable ? (
+                      <button
+                        type="button"
+                        className="rounded-full border border-rose-200 bg-white px-3 py-1 font-semibold text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
+                        disabled={busy}
+                        onClick={() => handleRemove(invitee)}
+                      >
+                        {t("common.remove")}
+                      </button>
+                    ) : null}
+                  </div>
+                ) : null}
+              </div>
+
+              {editing ? (
+                <div className="space-y-3 rounded-xl bg-slate-50 p-3">
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <label className="space-y-1">
+                      <span className="block font-semibold text-slate-700">
+                        {t("createProject.inviteeName")}
+                      </span>
+                      <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(event) =>
+                          setDraft((prev) => ({ ...prev, name: event.target.value }))
+                        }
+                        className={inputClass}
+                      />
+                    </label>
+                    {isOrganizerAccount ? null : (
+                      <label className="space-y-1">
+                        <span className="block font-semibold text-slate-700">
+                          {t("createProject.inviteeRole")}
+                        </span>
+                        <select
+                          value={draft.role}
+                          onChange={(event) =>
+                            setDraft((prev) => ({
+                              ...prev,
+                              role: event.target.value as InviteeRole,
+                            }))
+                          }
+                          className={inputClass}
+                        >
+                          {assignableInviteeRoles.map((role) => (
+                            <option key={role} value={role}>
+                              {formatInviteeRole(role, t)}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+                    <label className="space-y-1">
+                      <span className="block font-semibold text-slate-700">
+                        {t("project.invitees.newEmail")}
+                      </span>
+                      <input
+                        type="email"
+                        dir="ltr"
+                        value={draft.email}
+                        disabled={draft.clearEmail}
+                        onChange={(event) =>
+                          setDraft((prev) => ({ ...prev, email: event.target.value }))
+                        }
+                        className={inputClass}
+                        placeholder={t(
+                          invitee.hasEmail
+                            ? "project.invitees.keepEmail"
+                            : "createProject.inviteeEmailPlaceholder"
+                        )}
+                      />
+                      {invitee.hasEmail ? (
+                        <span className="flex items-center gap-2 text-slate-500">
+                          <input
+                            type="checkbox"
+                            checked={draft.clearEmail}
+                            onChange={(event) =>
+                              setDraft((prev) => ({
+                                ...prev,
+                                clearEmail: event.target.checked,
+                              }))
+                            }
+                          />
+                          {t("project.invitees.clearEmail")}
+                        </span>
+                      ) : null}
+                    </label>
+                    <label className="space-y-1">
+                      <span className="block font-semibold text-slate-700">
+                        {t("project.invitees.newPassword")}
+                      </span>
+                      <input
+                        type="text"
+                        value={draft.password}
+                        disabled={draft.clearPassword}
+                        onChange={(event) =>
+                          setDraft((prev) => ({ ...prev, password: event.target.value }))
+                        }
+                        className={inputClass}
+                        placeholder={t("project.invitees.keepPassword")}
+                      />
+                      {invitee.hasPassword && !isOrganizerAccount ? (
+                        <span className="flex items-center gap-2 text-slate-500">
+                          <input
+                            type="checkbox"
+                            checked={draft.clearPassword}
+                            onChange={(event) =>
+                              setDraft((prev) => ({
+                                ...prev,
+                                clearPassword: event.target.checked,
+                              }))
+                            }
+                          />
+                          {t("project.invitees.clearPassword")}
+                        </span>
+                      ) : null}
+                    </label>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => handleSave(invitee)}
+                      className="rounded-full bg-sky-500 px-4 py-1.5 font-semibold text-white transition hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {busy ? t("common.saving") : t("project.invitees.save")}
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => setEditingId(null)}
+                      className="rounded-full border border-slate-200 bg-white px-4 py-1.5 font-semibold text-slate-600 transition hover:bg-slate-100"
+                    >
+                      {t("common.cancel")}
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="space-y-3 rounded-2xl border border-dashed border-sky-300 bg-sky-50/50 p-4 text-xs">
+        <h3 className="text-sm font-semibold text-slate-700">
+          {t("project.invitees.addTitle")}
+        </h3>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <input
+            type="text"
+            value={newInvitee.name}
+            onChange={(event) =>
+              setNewInvitee((prev) => ({ ...prev, name: event.target.value }))
+            }
+            className={inputClass}
+            placeholder={t("createProject.inviteeName")}
+          />
+          <select
+            value={newInvitee.role}
+            onChange={(event) =>
+              setNewInvitee((prev) => ({
+                ...prev,
+                role: event.target.value as InviteeRole,
+              }))
+            }
+            className={inputClass}
+          >
+            {assignableInviteeRoles.map((role) => (
+              <option key={role} value={role}>
+                {formatInviteeRole(role, t)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={newInvitee.password}
+            onChange={(event) =>
+              setNewInvitee((prev) => ({ ...prev, password: event.target.value }))
+            }
+            className={inputClass}
+            placeholder={t("createProject.inviteePassword")}
+          />
+          <input
+            type="email"
+            dir="ltr"
+            value={newInvitee.email}
+            onChange={(event) =>
+              setNewInvitee((prev) => ({ ...prev, email: event.target.value }))
+            }
+            className={inputClass}
+            placeholder={t("createProject.inviteeEmail")}
+          />
+        </div>
+        <button
+          type="button"
+          disabled={adding}
+          onClick={handleAdd}
+          className="w-full rounded-2xl bg-sky-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {adding ? t("project.invitees.adding") : t("createProject.addInvitee")}
+        </button>
+        {addedLink ? (
+          <div className="space-y-1 rounded-xl bg-white p-2">
+            <p className="font-semibold text-slate-700">
+              {t("project.invitees.added", { name: addedLink.name })}
+            </p>
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+              <code dir="ltr" className="flex-1 truncate rounded-lg bg-slate-50 px-2 py-1 text-[11px]">
+                {addedLink.url}
+              </code>
+              <button
+                type="button"
+                onClick={() => handleCopy(addedLink.url)}
+                className="rounded-lg bg-sky-500 px-2 py-1 text-[11px] font-semibold text-white transition hover:bg-sky-600"
+              >
+                {t("createProject.copyLink")}
+              </button>
+            </div>
+            <p className="text-[11px] text-slate-500">{t("project.accessLinks.shownOnce")}</p>
+          </div>
+        ) : null}
+      </div>
+    </section>
+  );
+};
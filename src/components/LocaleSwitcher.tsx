@@ -0,0 +1,19 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+
+export const LocaleSwitcher = () => {
+  const { locale, setLocale, t } = useI18n();
+  const next = locale === "fa" ? "en" : "fa";
+
+  return (
+    <button
+      type="button"
+      onClick={() => setLocale(next)}
+      lang={next}
+      className="rounded-full border border-slate-600 px-3 py-1 text-[11px] font-semibold text-slate-100 transition hover:bg-slate-800"
+    >
+      {t("locale.switch")}
+    </button>
+  );
+};
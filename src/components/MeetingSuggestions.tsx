@@ -0,0 +1,206 @@
+import { useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { suggestMeetingTimes } from "@/lib/availability";
+import { defaultDateDisplay, formatDigits, formatSlotLabel } from "@/lib/format";
+import type {
+  AvailabilitySlot,
+  DateDisplay,
+  ParticipantAvailability,
+  ProjectInvitee,
+} from "@/types";
+
+type Props = {
+  responses: ParticipantAvailability[];
+  invitees: ProjectInvitee[];
+  onFinalize?: (slot: AvailabilitySlot) => void;
+  timeZones?: { from: string; to: string };
+  dateDisplay?: DateDisplay;
+};
+
+const durationOptions = [30, 60, 90, 120, 180];
+
+export const MeetingSuggestions = ({
+  responses,
+  invitees,
+  onFinalize,
+  timeZones,
+  dateDisplay = defaultDateDisplay,
+}: Props) => {
+  const { t } = useI18n();
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [minParticipants, setMinParticipants] = useState(1);
+  const [requiredInviteeIds, setRequiredInviteeIds] = useState<string[]>([]);
+
+  const suggestions = useMemo(
+    () =>
+      suggestMeetingTimes(responses, {
+        durationMinutes,
+        minParticipants,
+        requiredInviteeIds,
+      }),
+    [responses, durationMinutes, minParticipants, requiredInviteeIds]
+  );
+
+  const responseNameMap = useMemo(
+    () =>
+      responses.reduce<Record<string, string>>((acc, item) => {
+        acc[item.id] = item.name;
+        return acc;
+      }, {}),
+    [responses]
+  );
+
+  const inviteeNameMap = useMemo(
+    () =>
+      invitees.reduce<Record<string, string>>((acc, item) => {
+        acc[item.id] = item.name;
+        return acc;
+      }, {}),
+    [invitees]
+  );
+
+  const toggleRequired = (inviteeId: string) => {
+    setRequiredInviteeIds((previous) =>
+      previous.includes(inviteeId)
+        ? previous.filter((id) => id !== inviteeId)
+        : [...previous, inviteeId]
+    );
+  };
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-slate-200 bg-white/70 p-4 shadow-sm">
+      <div>
+        <h3 className="text-sm font-semibold text-slate-700">
+          {t("suggestions.title", { count: formatDigits(5, dateDisplay.digits) })}
+        </h3>
+        <p className="mt-1 text-xs text-slate-500">
+          {t("suggestions.description")}
+        </p>
+      </div>
+
+      <div className="grid gap-3 text-xs text-slate-600 sm:grid-cols-2">
+        <label className="flex flex-col gap-1">
+          <span className="font-semibold">{t("suggestions.duration")}</span>
+          <select
+            value={durationMinutes}
+            onChange={(event) => setDurationMinutes(Number(event.target.value))}
+            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm focus:border-emerald-400 focus:outline-none"
+          >
+            {durationOptions.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {t("common.minutes", {
+                  count: formatDigits(minutes, dateDisplay.digits),
+                })}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-semibold">{t("suggestions.minParticipants")}</span>
+          <input
+            type="number"
+            min={1}
+            max={Math.max(1, responses.length)}
+            value={minParticipants}
+            onChange={(event) =>
+              setMinParticipants(Math.max(1, Number(event.target.value) || 1))
+            }
+            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm focus:border-emerald-400 focus:outline-none"
+          />
+        </label>
+      </div>
+
+      {invitees.length ? (
+        <div className="space-y-2 text-xs text-slate-600">
+          <span className="font-semibold">{t("suggestions.required")}</span>
+          <div className="flex flex-wrap gap-2">
+            {invitees.map((invitee) => {
+              const active = requiredInviteeIds.includes(invitee.id);
+              return (
+                <button
+                  key={invitee.id}
+                  type="button"
+                  onClick={() => toggleRequired(invitee.id)}
+                  className={`rounded-full border px-3 py-1 font-semibold transition ${
+                    active
+                      ? "border-emerald-300 bg-emerald-50 text-emerald-700"
+                      : "border-slate-200 bg-white text-slate-500 hover:border-emerald-200"
+                  }`}
+                >
+                  {invitee.name}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ) : null}
+
+      {suggestions.length ? (
+        <ol className="space-y-2">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.date}_${suggestion.startTime}`}
+              className={`rounded-2xl border px-4 py-3 text-sm ${
+                suggestion.missingRequiredInviteeIds.length
+                  ? "border-amber-200 bg-amber-50/70"
+                  : "border-emerald-200 bg-emerald-50/60"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-slate-700">
+                  {formatDigits(index + 1, dateDisplay.digits)}.{" "}
+                  {formatSlotLabel(
+                    suggestion.date,
+                    suggestion.startTime,
+                    suggestion.endTime,
+                    { zones: timeZones, display: dateDisplay, t }
+                  )}
+                </span>
+                <span className="rounded-full bg-white px-2 py-0.5 text-[11px] font-semibold text-slate-600">
+                  {t("suggestions.attendance", {
+                    count: formatDigits(suggestion.participantIds.length, dateDisplay.digits),
+                    total: formatDigits(responses.length, dateDisplay.digits),
+                  })}
+                </span>
+              </div>
+              <p className="mt-2 text-xs text-slate-500">
+                {suggestion.participantIds
+                  .map((id) => responseNameMap[id] ?? "")
+                  .filter(Boolean)
+                  .join(t("common.listSeparator"))}
+              </p>
+              {suggestion.missingRequiredInviteeIds.length ? (
+                <p className="mt-1 text-xs font-semibold text-amber-700">
+                  {t("suggestions.missingRequired")}{" "}
+                  {suggestion.missingRequiredInviteeIds
+                    .map((id) => inviteeNameMap[id] ?? "")
+                    .filter(Boolean)
+                    .join(t("common.listSeparator"))}
+                </p>
+              ) : null}
+              {onFinalize ? (
+                <button
+                  type="button"
+                  onClick={() =>
+                    onFinalize({
+                      date: suggestion.date,
+                      startTime: suggestion.startTime,
+                      endTime: suggestion.endTime,
+                    })
+                  }
+                  className="mt-2 rounded-full border border-emerald-300 bg-white px-3 py-1 text-[11px] font-semibold text-emerald-700 transition hover:bg-emerald-100"
+                >
+                  {t("suggestions.finalize")}
+                </button>
+              ) : null}
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="rounded-2xl border border-dashed border-slate-200 px-4 py-3 text-xs text-slate-500">
+          {t("suggestions.empty")}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -6,12 +6,54 @@ import {
   type AvailabilityFormHandle,
 } from "@/components/AvailabilityForm";
 import { AvailabilitySummary } from "@/components/AvailabilitySummary";
-import { getSupabaseClient } from "@/lib/supabaseClient";
-import { formatJalaliDate, formatSlotLabel, toPersianDigits } from "@/lib/format";
+import { CalendarLinks } from "@/components/CalendarLinks";
+import { DateDisplaySelect } from "@/components/DateDisplaySelect";
+import { DocumentIntegrityCheck } from "@/components/DocumentIntegrityCheck";
+import { DocumentRevisionUpload } from "@/components/DocumentRevisionUpload";
+import { DocumentSigningOrder } from "@/components/DocumentSigningOrder";
+import { DocumentTrashPanel } from "@/components/DocumentTrashPanel";
+import { DocumentVersionTimeline } from "@/components/DocumentVersionTimeline";
+import { DocumentVoidPanel } from "@/components/DocumentVoidPanel";
+import { FinalizeSlotForm } from "@/components/FinalizeSlotForm";
+import { useI18n } from "@/components/I18nProvider";
+import { InviteeAccessLinksPanel } from "@/components/InviteeAccessLinksPanel";
+import { InviteeManagerPanel } from "@/components/InviteeManagerPanel";
+import { MeetingSuggestions } from "@/components/MeetingSuggestions";
+import { ProjectSettingsPanel } from "@/components/ProjectSettingsPanel";
+import { TimeZoneSelect } from "@/components/TimeZoneSelect";
+import {
+  getSupabaseClient,
+  setSupabaseAccessToken,
+} from "@/lib/supabaseClient";
+import { toFinalizedSlot } from "@/lib/availability";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import {
+  formatDate,
+  formatDigits,
+  formatSlotLabel,
+  formatTime,
+} from "@/lib/format";
+import { isMessageKey } from "@/lib/i18n";
 import { logClientActivity } from "@/lib/logging";
+import { canContribute, formatInviteeRole, isOrganizerRole } from "@/lib/roles";
+import {
+  getSignersOnTurn,
+  isSigningTurn,
+  type SigningStep,
+} from "@/lib/signingOrder";
+import {
+  convertResponses,
+  formatUtcOffset,
+  getBrowserTimeZone,
+  instantToZonedDate,
+  isValidTimeZone,
+} from "@/lib/timezone";
 import type {
+  AccessLinkFailure,
   AvailabilitySlot,
   DocumentNote,
+  FinalizedSlot,
+  InviteeRole,
   ParticipantAvailability,
   Project,
   ProjectActivityLog,
@@ -20,9 +62,23 @@ import type {
 } from "@/types";
 import { useRouter } from "next/navigation";
 
+type ParticipantIdentity = {
+  id: string;
+  inviteeId: string;
+  name: string;
+  role: InviteeRole;
+};
+
 type Props = {
   project: Project;
   invitees: ProjectInvitee[];
+  // Removed invitees kept only so their past activity still shows a name.
+  removedInvitees?: ProjectInvitee[];
+  initialParticipant?: ParticipantIdentity | null;
+  initialAccessToken?: string | null;
+  initialCalendarFeedToken?: string | null;
+  // Why a personal sign-in link was refused, when it sent the visitor here.
+  linkError?: AccessLinkFailure | null;
   initialResponses: ParticipantAvailability[];
   documents: ProjectDocumentWithRelations[];
 };
@@ -42,18 +98,80 @@ type ReplyDraftState = {
   saving?: boolean;
 };
 
-type StepStatus = "done" | "current" | "pending" | "skipped";
-type ProgressStep = { key: string; label: string; status: StepStatus };
-type ParticipantSignatureStatus = "done" | "pending" | "not_required";
+const displayTimeZoneStorageKey = "calfind_display_time_zone";
+
+type StepStatus = "done" | "current" | "waiting" | "pending" | "skipped";
+type ProgressStep = {
+  key: "auth" | "availability" | "signature";
+  status: StepStatus;
+};
+type ParticipantSignatureStatus =
+  | "done"
+  | "pending"
+  | "declined"
+  | "voided"
+  | "not_required";
+
+const canEditDocument = (
+  document: ProjectDocumentWithRelations,
+  inviteeId: string
+) => {
+  if (document.sharedWithAll) return true;
+  const permission = document.permissions.find(
+    (item) => item.inviteeId === inviteeId
+  );
+  return permission?.canEdit ?? false;
+};
+
+// With a signing sequence only the listed invitees sign; otherwise anyone
+// who can edit the document does.
+const isDocumentSigner = (
+  document: ProjectDocumentWithRelations,
+  inviteeId: string
+) =>
+  document.signers.length
+    ? document.signers.some((signer) => signer.inviteeId === inviteeId)
+    : canEditDocument(document, inviteeId);
+
+const hasSigned = (document: ProjectDocumentWithRelations, inviteeId: string) =>
+  document.signatures.some(
+    (signature) => signature.inviteeId === inviteeId && signature.status === "signed"
+  );
+
+const isPastDue = (dueAt: string) => new Date(dueAt).getTime() < Date.now();
+
+const getSigningState = (document: ProjectDocumentWithRelations) => {
+  const signers: SigningStep[] = document.signers.map((signer) => ({
+    inviteeId: signer.inviteeId,
+    step: signer.step,
+  }));
+  const signedIds = document.signatures
+    .filter((signature) => signature.status === "signed" && signature.signedAt)
+    .map((signature) => signature.inviteeId);
+  return {
+    signers,
+    signedIds,
+    onTurn: getSignersOnTurn(signers, signedIds),
+  };
+};
 
 export const ProjectClient = ({
   project,
   invitees,
+  removedInvitees = [],
+  initialParticipant = null,
+  initialAccessToken = null,
+  initialCalendarFeedToken = null,
+  linkError = null,
   initialResponses,
   documents,
 }: Props) => {
   const router = useRouter();
-  const supabase = useMemo(() => getSupabaseClient(), []);
+  const { locale, t, tError } = useI18n();
+  const supabase = useMemo(
+    () => getSupabaseClient(initialAccessToken),
+    [initialAccessToken]
+  );
   const formRef = useRef<AvailabilityFormHandle>(null);
   const [responses, setResponses] =
     useState<ParticipantAvailability[]>(initialResponses);
@@ -63,27 +181,63 @@ export const ProjectClient = ({
   const [showResponses, setShowResponses] = useState(false);
   const [selectedInviteeId, setSelectedInviteeId] = useState<string>("");
   const [passwordInput, setPasswordInput] = useState("");
-  const [authError, setAuthError] = useState<string | null>(null);
-  const [currentParticipant, setCurrentParticipant] = useState<
-    { id: string; inviteeId: string; name: string } | null
-  >(null);
+  const [authError, setAuthError] = useState<string | null>(() =>
+    linkError ? t(`errors.access_link_${linkError}`) : null
+  );
+  const [currentParticipant, setCurrentParticipant] =
+    useState<ParticipantIdentity | null>(initialParticipant);
 
   const [activityLogs, setActivityLogs] = useState<ProjectActivityLog[]>([]);
   const [logsLoading, setLogsLoading] = useState(false);
   const [noteDrafts, setNoteDrafts] = useState<Record<string, NoteDraftState>>({});
   const [replyDrafts, setReplyDrafts] = useState<Record<string, ReplyDraftState>>({});
+  const [voidingDocumentIds, setVoidingDocumentIds] = useState<string[]>([]);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [trashReloadKey, setTrashReloadKey] = useState(0);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [timelineDocumentIds, setTimelineDocumentIds] = useState<string[]>([]);
+  const [finalizedSlot, setFinalizedSlot] = useState<FinalizedSlot | null>(
+    project.finalizedSlot ?? null
+  );
+  const [calendarFeedToken, setCalendarFeedToken] = useState<string | null>(
+    initialCalendarFeedToken
+  );
+  const [finalizeSlot, setFinalizeSlot] = useState<AvailabilitySlot | null>(null);
+  const [displayTimeZone, setDisplayTimeZone] = useState(project.timeZone);
+  const [dateDisplay, setDateDisplay] = useDateDisplay(locale);
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(displayTimeZoneStorageKey);
+    setDisplayTimeZone(isValidTimeZone(stored) ? stored : getBrowserTimeZone());
+  }, []);
+
+  const handleDisplayTimeZoneChange = (timeZone: string) => {
+    setDisplayTimeZone(timeZone);
+    window.localStorage.setItem(displayTimeZoneStorageKey, timeZone);
+  };
+
+  const slotLabelOptions = useMemo(
+    () => ({
+      zones: { from: project.timeZone, to: displayTimeZone },
+      display: dateDisplay,
+      t,
+    }),
+    [project.timeZone, displayTimeZone, dateDisplay, t]
+  );
+
+  const displayResponses = useMemo(
+    () => convertResponses(responses, project.timeZone, displayTimeZone),
+    [responses, project.timeZone, displayTimeZone]
+  );
 
   const fetchDocuments = useCallback(
-    async (options?: { inviteeId?: string; includeAll?: boolean }) => {
+    async (options?: { participant?: ParticipantIdentity }) => {
+      const participant = options?.participant ?? currentParticipant;
+      if (!participant) return;
       try {
         const params = new URLSearchParams();
-        const inviteeId = options?.inviteeId ?? currentParticipant?.inviteeId;
-        const includeAll = options?.includeAll ??
-          (currentParticipant?.name?.toLowerCase() === "admin");
+        const includeAll = isOrganizerRole(participant.role);
 
-        if (inviteeId) {
-          params.set("inviteeId", inviteeId);
-        }
         if (includeAll) {
           params.set("includeAll", "1");
         }
@@ -161,6 +315,32 @@ export const ProjectClient = ({
     };
   }, [project.id, refreshResponses, supabase]);
 
+  useEffect(() => {
+    const channel = supabase
+      .channel(`projects_${project.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "projects",
+          filter: `id=eq.${project.id}`,
+        },
+        (payload) => {
+          setFinalizedSlot(
+            toFinalizedSlot(
+              (payload.new as { finalized_slot?: unknown }).finalized_slot
+            )
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [project.id, supabase]);
+
   useEffect(() => {
     setProjectDocuments(documents);
   }, [documents]);
@@ -241,20 +421,17 @@ export const ProjectClient = ({
 
     if (info.owned && ownedResponse) {
       formRef.current?.prefillSlot(slot, {
-        message:
-          "این بازه جزو زمان‌های شماست. می‌توانید آن را ویرایش کرده و دوباره ذخیره کنید.",
+        message: t("project.summary.ownSlot"),
       });
       setShowResponses(true);
       return;
     }
 
-    const confirmed = window.confirm(
-      "این بازه متعلق به فرد دیگری است. آیا می‌خواهید آن را به زمان‌های خود اضافه کنید؟"
-    );
+    const confirmed = window.confirm(t("project.summary.confirmAddOthers"));
 
     if (confirmed) {
       formRef.current?.addSlot(slot, {
-        message: "این بازه به زمان‌های شما اضافه شد.",
+        message: t("project.summary.slotAdded"),
       });
     }
   };
@@ -265,16 +442,32 @@ export const ProjectClient = ({
 
   const inviteeNameMap = useMemo(() => {
     const map = new Map<string, string>();
-    invitees.forEach((invitee) => map.set(invitee.id, invitee.name));
+    [...removedInvitees, ...invitees].forEach((invitee) =>
+      map.set(invitee.id, invitee.name)
+    );
     return map;
-  }, [invitees]);
+  }, [invitees, removedInvitees]);
+
+  const formatInviteeNames = (inviteeIds: string[]) =>
+    inviteeIds
+      .map((id) => inviteeNameMap.get(id) ?? t("common.unknown"))
+      .join(t("common.listSeparator"));
+
+  const contributingInvitees = useMemo(
+    () => invitees.filter((invitee) => canContribute(invitee.role)),
+    [invitees]
+  );
 
-  const isAdmin = currentParticipant?.name?.toLowerCase() === "admin";
+  const isOrganizer = isOrganizerRole(currentParticipant?.role);
+  const isContributor = canContribute(currentParticipant?.role);
 
-  const adminInviteeId = useMemo(() => {
-    const admin = invitees.find((invitee) => invitee.name?.toLowerCase() === "admin");
-    return admin?.id ?? null;
-  }, [invitees]);
+  const organizerInviteeIds = useMemo(
+    () =>
+      invitees
+        .filter((invitee) => isOrganizerRole(invitee.role))
+        .map((invitee) => invitee.id),
+    [invitees]
+  );
 
   const ensureEssentialInvitees = useCallback(
     (ids: string[]) => {
@@ -282,12 +475,10 @@ export const ProjectClient = ({
       if (currentInviteeId) {
         set.add(currentInviteeId);
       }
-      if (adminInviteeId) {
-        set.add(adminInviteeId);
-      }
+      organizerInviteeIds.forEach((id) => set.add(id));
       return Array.from(set);
     },
-    [adminInviteeId, currentInviteeId]
+    [organizerInviteeIds, currentInviteeId]
   );
 
   const buildDefaultNoteDraft = useCallback((): NoteDraftState => {
@@ -299,8 +490,8 @@ export const ProjectClient = ({
     };
   }, [ensureEssentialInvitees]);
 
-  const isNoteVisibleToViewer = (note: DocumentNote, viewerId?: string | null, adminView?: boolean) => {
-    if (adminView) return true;
+  const isNoteVisibleToViewer = (note: DocumentNote, viewerId?: string | null, organizerView?: boolean) => {
+    if (organizerView) return true;
     if (!viewerId) return false;
     if (note.inviteeId === viewerId) return true;
     const targets = note.visibleTo;
@@ -366,10 +557,10 @@ export const ProjectClient = ({
   useEffect(() => {
     setNoteDrafts({});
     setReplyDrafts({});
-  }, [currentInviteeId, isAdmin]);
+  }, [currentInviteeId, isOrganizer]);
 
   useEffect(() => {
-    if (!isAdmin) {
+    if (!isOrganizer) {
       setActivityLogs([]);
       return;
     }
@@ -395,11 +586,11 @@ export const ProjectClient = ({
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [fetchActivityLogs, isAdmin, project.id, supabase]);
+  }, [fetchActivityLogs, isOrganizer, project.id, supabase]);
 
   const accessibleDocuments = useMemo(() => {
     if (!currentParticipant) return [];
-    if (currentParticipant.name?.toLowerCase() === "admin") {
+    if (isOrganizerRole(currentParticipant.role)) {
       return projectDocuments;
     }
     return projectDocuments.filter((document) => {
@@ -419,7 +610,7 @@ export const ProjectClient = ({
     const trimmed = draft.content.trim();
 
     if (!trimmed) {
-      updateNoteDraft(document.id, { error: "متن یادداشت را وارد کنید." });
+      updateNoteDraft(document.id, { error: t("project.notes.contentMissing") });
       return;
     }
 
@@ -431,8 +622,6 @@ export const ProjectClient = ({
 
     try {
       const payload: Record<string, unknown> = {
-        inviteeId: currentParticipant.inviteeId,
-        actorName: currentParticipant.name,
         content: trimmed,
         shareWithAll: draft.shareWithAll,
         allowReplies: draft.allowReplies,
@@ -453,7 +642,10 @@ export const ProjectClient = ({
       if (!response.ok) {
         const body = await response.json().catch(() => ({}));
         updateNoteDraft(document.id, {
-          error: (body as { error?: string }).error ?? "ثبت یادداشت با خطا مواجه شد.",
+          error: tError(
+            (body as { error?: string }).error,
+            "errors.note_create_failed"
+          ),
           saving: false,
         });
         return;
@@ -467,7 +659,7 @@ export const ProjectClient = ({
     } catch (error) {
       console.error(error);
       updateNoteDraft(document.id, {
-        error: "ثبت یادداشت با خطا مواجه شد.",
+        error: t("errors.note_create_failed"),
         saving: false,
       });
     }
@@ -479,7 +671,7 @@ export const ProjectClient = ({
     const trimmed = draft.content.trim();
 
     if (!trimmed) {
-      updateReplyDraft(noteId, { error: "متن پاسخ را وارد کنید." });
+      updateReplyDraft(noteId, { error: t("project.notes.replyMissing") });
       return;
     }
 
@@ -492,8 +684,6 @@ export const ProjectClient = ({
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            inviteeId: currentParticipant.inviteeId,
-            actorName: currentParticipant.name,
             content: trimmed,
           }),
         }
@@ -502,7 +692,10 @@ export const ProjectClient = ({
       if (!response.ok) {
         const body = await response.json().catch(() => ({}));
         updateReplyDraft(noteId, {
-          error: (body as { error?: string }).error ?? "ثبت پاسخ با خطا مواجه شد.",
+          error: tError(
+            (body as { error?: string }).error,
+            "errors.reply_create_failed"
+          ),
           saving: false,
         });
         return;
@@ -516,57 +709,38 @@ export const ProjectClient = ({
     } catch (error) {
       console.error(error);
       updateReplyDraft(noteId, {
-        error: "ثبت پاسخ با خطا مواجه شد.",
+        error: t("errors.reply_create_failed"),
         saving: false,
       });
     }
   };
 
-  const canEditDocument = (
-    document: ProjectDocumentWithRelations,
-    inviteeId: string
-  ) => {
-    if (document.sharedWithAll) return true;
-    const permission = document.permissions.find(
-      (item) => item.inviteeId === inviteeId
+  const isDocumentCompleted = (document: ProjectDocumentWithRelations) =>
+    Boolean(
+      document.versions.find((version) => version.version === document.currentVersion)
+        ?.isCertificate
     );
-    return permission?.canEdit ?? false;
-  };
 
   const formatActivityAction = (action: string) => {
-    switch (action) {
-      case "project_created":
-        return "پروژه ساخته شد";
-      case "availability_saved":
-        return "دسترسی زمانی ثبت شد";
-      case "document_uploaded":
-        return "سند جدید بارگذاری شد";
-      case "document_downloaded":
-        return "دانلود سند";
-      case "document_viewed":
-        return "مشاهده سند";
-      case "document_signed":
-        return "سند امضا شد";
-      case "note_added":
-        return "یادداشت جدید درج شد";
-      case "note_replied":
-        return "پاسخ به یادداشت ثبت شد";
-      case "login_success":
-        return "ورود موفق";
-      case "login_failed":
-        return "ورود ناموفق";
-      default:
-        return action;
-    }
+    const key = `activity.${action}`;
+    return isMessageKey(key) ? t(key) : action;
   };
 
+  // Stored summaries are written in Persian, so other locales fall back to
+  // the translated action name.
   const formatActivitySummary = (log: ProjectActivityLog) => {
-    return log.details?.summary ?? formatActivityAction(log.action);
+    const summary = locale === "fa" ? log.details?.summary : undefined;
+    return summary ?? formatActivityAction(log.action);
   };
 
   const progressData = useMemo(() => {
-    if (!currentParticipant || isAdmin) {
-      return { steps: [] as ProgressStep[], progressPercent: 0, signatureSummary: "" };
+    if (!currentParticipant || isOrganizer || !isContributor) {
+      return {
+        steps: [] as ProgressStep[],
+        progressPercent: 0,
+        signatureSummary: "",
+        waitingOn: [] as Array<{ documentId: string; name: string; onTurn: string[] }>,
+      };
     }
 
     const availabilityResponse = responses.find(
@@ -574,22 +748,31 @@ export const ProjectClient = ({
     );
     const availabilityDone = Boolean(availabilityResponse?.slots?.length);
 
-    const editableDocs = projectDocuments.filter((document) =>
-      canEditDocument(document, currentParticipant.inviteeId)
+    const editableDocs = projectDocuments.filter(
+      (document) =>
+        !document.voidedAt && isDocumentSigner(document, currentParticipant.inviteeId)
     );
-    const completedSignatures = editableDocs.filter((document) =>
-      document.signatures.some(
-        (signature) => signature.inviteeId === currentParticipant.inviteeId
-      )
-    ).length;
+    const unsignedDocs = editableDocs.filter(
+      (document) => !hasSigned(document, currentParticipant.inviteeId)
+    );
+    const completedSignatures = editableDocs.length - unsignedDocs.length;
 
     const totalEditableDocs = editableDocs.length;
+    const waitingOn = unsignedDocs.flatMap((document) => {
+      const { signers, signedIds, onTurn } = getSigningState(document);
+      if (isSigningTurn(signers, signedIds, currentParticipant.inviteeId)) {
+        return [];
+      }
+      return [{ documentId: document.id, name: document.filePath.split("/").pop() ?? "", onTurn }];
+    });
 
     let signatureStatus: StepStatus;
     if (totalEditableDocs === 0) {
       signatureStatus = "skipped";
     } else if (completedSignatures === totalEditableDocs) {
       signatureStatus = "done";
+    } else if (availabilityDone && waitingOn.length === unsignedDocs.length) {
+      signatureStatus = "waiting";
     } else if (availabilityDone) {
       signatureStatus = "current";
     } else {
@@ -597,18 +780,18 @@ export const ProjectClient = ({
     }
 
     const baseSteps: ProgressStep[] = [
-      { key: "auth", label: "ورود", status: "done" },
-      {
-        key: "availability",
-        label: "زمان‌های من",
-        status: availabilityDone ? "done" : "pending",
-      },
-      { key: "signature", label: "امضا", status: signatureStatus },
+      { key: "auth", status: "done" },
+      { key: "availability", status: availabilityDone ? "done" : "pending" },
+      { key: "signature", status: signatureStatus },
     ];
 
     let currentAssigned = false;
     const normalizedSteps = baseSteps.map((step) => {
-      if (step.status === "done" || step.status === "skipped") {
+      if (
+        step.status === "done" ||
+        step.status === "skipped" ||
+        step.status === "waiting"
+      ) {
         return step;
       }
       if (!currentAssigned) {
@@ -629,35 +812,57 @@ export const ProjectClient = ({
 
     const signatureSummary =
       totalEditableDocs === 0
-        ? "سندی برای امضای شما ثبت نشده است."
+        ? t("project.progress.noDocuments")
         : completedSignatures === totalEditableDocs
-        ? "تمام اسناد شما امضا شده‌اند."
-        : `امضا نشده: ${toPersianDigits(
-            totalEditableDocs - completedSignatures
-          )} از ${toPersianDigits(totalEditableDocs)}`;
+        ? t("project.progress.allSigned")
+        : t("project.progress.unsigned", {
+            count: formatDigits(
+              totalEditableDocs - completedSignatures,
+              dateDisplay.digits
+            ),
+            total: formatDigits(totalEditableDocs, dateDisplay.digits),
+          });
 
-    return { steps: normalizedSteps, progressPercent, signatureSummary };
-  }, [currentParticipant, projectDocuments, responses, isAdmin]);
+    return { steps: normalizedSteps, progressPercent, signatureSummary, waitingOn };
+  }, [
+    currentParticipant,
+    projectDocuments,
+    responses,
+    isOrganizer,
+    isContributor,
+    dateDisplay.digits,
+    t,
+  ]);
 
   const participantStatuses = useMemo(() => {
     return invitees
-      .filter((invitee) => invitee.name?.toLowerCase() !== "admin")
+      .filter(
+        (invitee) => !isOrganizerRole(invitee.role) && canContribute(invitee.role)
+      )
       .map((invitee) => {
       const response = responses.find((item) => item.inviteeId === invitee.id);
       const hasAvailability = Boolean(response?.slots?.length);
-      const editableDocs = projectDocuments.filter((document) =>
-        canEditDocument(document, invitee.id)
+      // Voided documents need nothing more from anyone.
+      const editableDocs = projectDocuments.filter(
+        (document) => !document.voidedAt && isDocumentSigner(document, invitee.id)
       );
       const completedSignatures = editableDocs.filter((document) =>
-        document.signatures.some(
-          (signature) => signature.inviteeId === invitee.id
-        )
+        hasSigned(document, invitee.id)
       ).length;
+      const ownStatuses = editableDocs.flatMap((document) =>
+        document.signatures
+          .filter((signature) => signature.inviteeId === invitee.id)
+          .map((signature) => signature.status)
+      );
       const signatureStatus: ParticipantSignatureStatus =
         editableDocs.length === 0
           ? "not_required"
+          : ownStatuses.includes("declined")
+          ? "declined"
           : completedSignatures === editableDocs.length
           ? "done"
+          : ownStatuses.includes("voided")
+          ? "voided"
           : "pending";
 
       return {
@@ -672,57 +877,123 @@ export const ProjectClient = ({
     setAuthError(null);
     const invitee = invitees.find((item) => item.id === selectedInviteeId);
     if (!invitee) {
-      setAuthError("لطفاً نام خود را انتخاب کنید.");
+      setAuthError(t("project.auth.nameMissing"));
       return;
     }
 
-    if (invitee.password && invitee.password.trim().length > 0) {
-      if (invitee.password !== passwordInput.trim()) {
-        await logClientActivity(supabase, {
-          projectId: project.id,
+    try {
+      const response = await fetch(`/api/projects/${project.id}/auth`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
           inviteeId: invitee.id,
-          actorName: invitee.name,
-          action: "login_failed",
-          details: {
-            summary: "ورود ناموفق",
-            data: { reason: "incorrect_password" },
-          },
-        });
-        setAuthError("رمز عبور نادرست است.");
+          password: passwordInput.trim(),
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setAuthError(
+          tError((body as { error?: string }).error, "errors.login_failed")
+        );
         return;
       }
+
+      const body = (await response.json()) as {
+        invitee: { id: string; name: string; role: InviteeRole };
+        accessToken: string;
+        calendarFeedToken: string;
+      };
+      const participant: ParticipantIdentity = {
+        id: body.invitee.id,
+        inviteeId: body.invitee.id,
+        name: body.invitee.name,
+        role: body.invitee.role,
+      };
+
+      await setSupabaseAccessToken(body.accessToken);
+      setCalendarFeedToken(body.calendarFeedToken);
+      setCurrentParticipant(participant);
+      setPasswordInput("");
+
+      // The page only renders responses for a signed-in member.
+      refreshResponses();
+      await fetchDocuments({ participant });
+
+      if (isOrganizerRole(participant.role)) {
+        fetchActivityLogs();
+      }
+    } catch (authenticateError) {
+      console.error(authenticateError);
+      setAuthError(t("errors.login_failed"));
     }
+  };
 
-    setCurrentParticipant({
-      id: invitee.id,
-      inviteeId: invitee.id,
-      name: invitee.name,
-    });
-    setPasswordInput("");
-
-    await logClientActivity(supabase, {
-      projectId: project.id,
-      inviteeId: invitee.id,
-      actorName: invitee.name,
-      action: "login_success",
-      details: {
-        summary: "ورود موفق",
-        data: { inviteeId: invitee.id, inviteeName: invitee.name },
-      },
-    });
+  const handleDeleteProject = async () => {
+    if (!confirm(t("project.deleteConfirm", { title: project.title }))) return;
+    try {
+      const response = await fetch(`/api/projects/${project.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body?.error ?? "project_delete_failed");
+      }
+      router.refresh();
+    } catch (deleteError) {
+      console.error(deleteError);
+      alert(
+        tError(
+          deleteError instanceof Error ? deleteError.message : null,
+          "errors.project_delete_failed"
+        )
+      );
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch(`/api/projects/${project.id}/auth`, { method: "DELETE" });
+    } catch (logoutError) {
+      console.error(logoutError);
+    }
+    await setSupabaseAccessToken(null);
+    setCalendarFeedToken(null);
+    setCurrentParticipant(null);
+    setSelectedInviteeId("");
+    setProjectDocuments([]);
+    setResponses([]);
+  };
 
-    const isAdminLogin = invitee.name?.toLowerCase() === "admin";
-    await fetchDocuments({ inviteeId: invitee.id, includeAll: isAdminLogin });
+  const handleFinalizeClear = async () => {
+    const confirmed = window.confirm(t("project.finalize.confirmClear"));
+    if (!confirmed) return;
 
-    if (isAdminLogin) {
+    try {
+      const response = await fetch(`/api/projects/${project.id}/finalize`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        window.alert(
+          tError((body as { error?: string }).error, "errors.finalize_clear_failed")
+        );
+        return;
+      }
+      setFinalizedSlot(null);
       fetchActivityLogs();
+    } catch (clearError) {
+      console.error(clearError);
+      window.alert(t("errors.finalize_clear_failed"));
     }
   };
 
-  const handleDownload = async (documentId: string) => {
+  const handleDownload = async (documentId: string, version?: number) => {
     try {
       const response = await fetch(
-        `/api/projects/${project.id}/documents/${documentId}/download`
+        `/api/projects/${project.id}/documents/${documentId}/download${
+          version ? `?version=${version}` : ""
+        }`
       );
       if (!response.ok) {
         throw new Error("Failed to get download link.");
@@ -742,36 +1013,100 @@ export const ProjectClient = ({
               data: {
                 documentId,
                 documentName: documentMeta?.filePath?.split('/')?.pop() ?? documentId,
+                version: body.version,
               },
             },
           });
-          if (currentParticipant.name?.toLowerCase() === "admin") {
+          if (isOrganizerRole(currentParticipant.role)) {
             fetchActivityLogs();
           }
         }
       }
     } catch (downloadError) {
       console.error(downloadError);
-      alert("دانلود سند با خطا مواجه شد.");
+      alert(t("errors.download_link_failed"));
+    }
+  };
+
+  const handleDeleteDocument = async (document: ProjectDocumentWithRelations) => {
+    const name = document.filePath.split("/").pop() ?? "";
+    if (!confirm(t("project.documents.deleteConfirm", { name }))) return;
+    try {
+      const response = await fetch(
+        `/api/projects/${project.id}/documents/${document.id}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body?.error ?? "document_delete_failed");
+      }
+      await fetchDocuments();
+      setTrashReloadKey((key) => key + 1);
+    } catch (deleteError) {
+      console.error(deleteError);
+      alert(
+        tError(
+          deleteError instanceof Error ? deleteError.message : null,
+          "errors.document_delete_failed"
+        )
+      );
     }
   };
 
+  const toggleVersionTimeline = (documentId: string) =>
+    setTimelineDocumentIds((previous) =>
+      previous.includes(documentId)
+        ? previous.filter((id) => id !== documentId)
+        : [...previous, documentId]
+    );
+
   const handleSign = (documentId: string) => {
     if (!currentParticipant) return;
-    const params = new URLSearchParams({
-      invitee: currentParticipant.inviteeId,
-      actorName: currentParticipant.name,
-    });
-    router.push(
-      `/project/${project.id}/document/${documentId}/sign?${params.toString()}`
-    );
+    router.push(`/project/${project.id}/document/${documentId}/sign`);
   };
 
+  const handleDecline = async (documentId: string) => {
+    if (!currentParticipant) return;
+    const reason = window.prompt(t("project.documents.declinePrompt"))?.trim();
+    if (!reason) return;
+
+    try {
+      const response = await fetch(
+        `/api/projects/${project.id}/documents/${documentId}/decline`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ reason }),
+        }
+      );
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body?.error ?? "document_decline_failed");
+      }
+      await fetchDocuments();
+    } catch (declineError) {
+      console.error(declineError);
+      alert(
+        tError(
+          declineError instanceof Error ? declineError.message : null,
+          "errors.document_decline_failed"
+        )
+      );
+    }
+  };
+
+  const toggleVoidPanel = (documentId: string) =>
+    setVoidingDocumentIds((previous) =>
+      previous.includes(documentId)
+        ? previous.filter((id) => id !== documentId)
+        : [...previous, documentId]
+    );
+
   return (
     <div className="space-y-8">
       <header className="rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur sm:p-8">
         <div className="space-y-2">
-          <p className="text-xs.font-semibold text-sky-600">لینک پروژه</p>
+          <p className="text-xs.font-semibold text-sky-600">{t("project.header.eyebrow")}</p>
           <h1 className="text-2xl font-bold text-slate-800">{project.title}</h1>
           {project.description ? (
             <p className="text-sm leading-relaxed text-slate-600">
@@ -781,39 +1116,156 @@ export const ProjectClient = ({
         </div>
         <div className="mt-6 flex flex-wrap gap-3 text-xs text-slate-500">
           <span className="rounded-full bg-slate-100 px-3 py-1">
-            تاریخ ایجاد: {formatJalaliDate(project.createdAt)}
+            {t("project.header.createdAt", {
+              date: formatDate(project.createdAt, dateDisplay),
+            })}
           </span>
           {project.startDate && project.endDate ? (
             <span className="rounded-full bg-slate-100 px-3 py-1">
-              بازه تاریخ مجاز: {formatJalaliDate(project.startDate)} تا {formatJalaliDate(project.endDate)}
+              {t("project.header.dateRange", {
+                start: formatDate(project.startDate, dateDisplay),
+                end: formatDate(project.endDate, dateDisplay),
+              })}
             </span>
           ) : null}
           {project.startTime && project.endTime ? (
             <span className="rounded-full bg-slate-100 px-3 py-1">
-              بازه ساعت مجاز: {project.startTime} تا {project.endTime}
+              {t("project.header.timeRange", {
+                start: formatTime(project.startTime, dateDisplay.digits),
+                end: formatTime(project.endTime, dateDisplay.digits),
+              })}
             </span>
           ) : null}
           <span className="rounded-full bg-slate-100 px-3 py-1">
-            تعداد پاسخ‌ها: {toPersianDigits(participantCount)}
+            {t("project.header.timeZone")}{" "}
+            <span dir="ltr">
+              {project.timeZone} (
+              {formatDigits(formatUtcOffset(project.timeZone), dateDisplay.digits)})
+            </span>
+          </span>
+          <span className="rounded-full bg-slate-100 px-3 py-1">
+            {t("project.header.responseCount", {
+              count: formatDigits(participantCount, dateDisplay.digits),
+            })}
           </span>
         </div>
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+          <label className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+            <span className="font-semibold">{t("project.header.displayTimeZone")}</span>
+            <TimeZoneSelect
+              value={displayTimeZone}
+              onChange={handleDisplayTimeZoneChange}
+              digits={dateDisplay.digits}
+              className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs focus:border-sky-400 focus:outline-none"
+            />
+          </label>
+          <DateDisplaySelect value={dateDisplay} onChange={setDateDisplay} />
+        </div>
         <div className="mt-6 rounded-2xl bg-slate-50/80 p-4 text-sm leading-7 text-slate-600">
-          <p>۱. نام خود را از فهرست مدعوین انتخاب کرده و در صورت نیاز رمز را وارد کنید.</p>
-          <p>۲. تنها تاریخ‌ها و ساعت‌های مجاز توسط برگزارکننده قابل انتخاب هستند.</p>
-          <p>۳. هر زمان بخواهید می‌توانید با همان نام و رمز، بازه‌های خود را به‌روزرسانی کنید.</p>
+          <p>{t("project.header.step1")}</p>
+          <p>{t("project.header.step2")}</p>
+          <p>{t("project.header.step3")}</p>
         </div>
       </header>
 
+      {finalizedSlot ? (
+        <section className="flex flex-wrap items-start justify-between gap-3 rounded-3xl border border-sky-200 bg-sky-50/70 p-5 text-sm text-sky-800 shadow-sm">
+          <div className="space-y-1">
+            <p className="font-semibold">
+              🔒 {t("project.finalize.done")}{" "}
+              {formatSlotLabel(
+                finalizedSlot.date,
+                finalizedSlot.startTime,
+                finalizedSlot.endTime,
+                slotLabelOptions
+              )}
+            </p>
+            {finalizedSlot.location ? (
+              <p className="text-xs">
+                {t("project.finalize.location", { location: finalizedSlot.location })}
+              </p>
+            ) : null}
+            {finalizedSlot.notes ? (
+              <p className="text-xs leading-6">{finalizedSlot.notes}</p>
+            ) : null}
+          </div>
+          {isOrganizer ? (
+            <button
+              type="button"
+              onClick={handleFinalizeClear}
+              className="rounded-full border border-sky-200 bg-white px-3 py-1 text-xs font-semibold text-sky-700 transition hover:bg-sky-100"
+            >
+              {t("project.finalize.clear")}
+            </button>
+          ) : null}
+        </section>
+      ) : null}
+
       {currentParticipant ? (
-        <section className="rounded-3xl border border-emerald-200 bg-emerald-50/60 p-5 text-sm font-semibold text-emerald-700 shadow-sm">
-          {currentParticipant.name} عزیز، خوش آمدید! زمان‌های خود را از بخش زیر به‌روزرسانی کنید.
+        <section className="flex flex-wrap items-center justify-between gap-3 rounded-3xl border border-emerald-200 bg-emerald-50/60 p-5 text-sm font-semibold text-emerald-700 shadow-sm">
+          <span>
+            {t("project.welcome", { name: currentParticipant.name })}
+            <span className="ms-2 rounded-full bg-white px-2 py-0.5 text-[11px] text-emerald-600">
+              {formatInviteeRole(currentParticipant.role, t)}
+            </span>
+          </span>
+          <div className="flex flex-wrap gap-2">
+            {isOrganizer ? (
+              <button
+                type="button"
+                onClick={() => setSettingsOpen((prev) => !prev)}
+                className="rounded-full border border-sky-200 bg-white px-3 py-1 text-xs font-semibold text-sky-700 transition hover:bg-sky-50"
+              >
+                {t("project.editSettings")}
+              </button>
+            ) : null}
+            {isOrganizer ? (
+              <button
+                type="button"
+                onClick={handleDeleteProject}
+                className="rounded-full border border-rose-200 bg-white px-3 py-1 text-xs font-semibold text-rose-600 transition hover:bg-rose-50"
+              >
+                {t("project.delete")}
+              </button>
+            ) : null}
+            <button
+              type="button"
+              onClick={handleLogout}
+              className="rounded-full border border-emerald-200 bg-white px-3 py-1 text-xs font-semibold text-emerald-700 transition hover:bg-emerald-100"
+            >
+              {t("project.logout")}
+            </button>
+          </div>
         </section>
       ) : null}
 
-      {currentParticipant && !isAdmin && progressData.steps.length ? (
+      {isOrganizer && settingsOpen ? (
+        <ProjectSettingsPanel
+          project={project}
+          onCancel={() => setSettingsOpen(false)}
+          onSaved={() => {
+            setSettingsOpen(false);
+            refreshResponses();
+            router.refresh();
+          }}
+        />
+      ) : null}
+
+      {currentParticipant ? (
+        <CalendarLinks
+          projectId={project.id}
+          inviteeId={currentParticipant.inviteeId}
+          finalized={Boolean(finalizedSlot)}
+          feedToken={calendarFeedToken}
+        />
+      ) : null}
+
+      {currentParticipant && !isOrganizer && progressData.steps.length ? (
         <section className="rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur">
           <div className="flex items-center justify-between gap-3">
-            <h2 className="text-sm font-semibold text-slate-700">پیشرفت شما</h2>
+            <h2 className="text-sm font-semibold text-slate-700">
+              {t("project.progress.title")}
+            </h2>
             {progressData.signatureSummary ? (
               <span className="text-xs text-slate-500">{progressData.signatureSummary}</span>
             ) : null}
@@ -831,6 +1283,8 @@ export const ProjectClient = ({
                   ? "✅"
                   : step.status === "current"
                   ? "🟢"
+                  : step.status === "waiting"
+                  ? "⏳"
                   : step.status === "pending"
                   ? "⚪️"
                   : "⏭️";
@@ -839,6 +1293,8 @@ export const ProjectClient = ({
                   ? "border-emerald-200 bg-emerald-50 text-emerald-700"
                   : step.status === "current"
                   ? "border-sky-200 bg-sky-50 text-sky-700"
+                  : step.status === "waiting"
+                  ? "border-amber-200 bg-amber-50 text-amber-700"
                   : step.status === "pending"
                   ? "border-slate-200 bg-white text-slate-500"
                   : "border-slate-200 bg-slate-100 text-slate-500";
@@ -848,21 +1304,85 @@ export const ProjectClient = ({
                   className={`flex flex-col items-center gap-1 rounded-2xl border px-3 py-2 ${toneClass}`}
                 >
                   <span className="text-base">{icon}</span>
-                  <span className="font-semibold">{step.label}</span>
+                  <span className="font-semibold">
+                    {t(`project.progress.step.${step.key}`)}
+                  </span>
                 </div>
               );
             })}
           </div>
+          {progressData.waitingOn.length ? (
+            <ul className="mt-4 space-y-1 text-xs text-amber-700">
+              {progressData.waitingOn.map((item) => (
+                <li key={item.documentId}>
+                  {t("project.progress.waitingOn", {
+                    document: item.name,
+                    names: formatInviteeNames(item.onTurn),
+                  })}
+                </li>
+              ))}
+            </ul>
+          ) : null}
         </section>
       ) : null}
 
       {currentParticipant ? (
         <section className="space-y-4 rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur">
-          <h2 className="text-lg font-semibold text-slate-700">مدارک در انتظار امضا</h2>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-lg font-semibold text-slate-700">
+              {t("project.documents.title")}
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {isContributor ? (
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200 bg-white px-4 py-2 text-xs font-semibold text-slate-600 transition hover:bg-slate-100"
+                  onClick={() => router.push(`/project/${project.id}/signatures`)}
+                >
+                  {t("project.documents.savedSignatures")}
+                </button>
+              ) : null}
+              {isOrganizer ? (
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200 bg-white px-4 py-2 text-xs font-semibold text-slate-600 transition hover:bg-slate-100"
+                  onClick={() => setTrashOpen((open) => !open)}
+                >
+                  {trashOpen ? t("project.trash.hide") : t("project.trash.show")}
+                </button>
+              ) : null}
+            </div>
+          </div>
+          {trashOpen ? (
+            <DocumentTrashPanel
+              projectId={project.id}
+              reloadKey={trashReloadKey}
+              onChanged={fetchDocuments}
+            />
+          ) : null}
           {accessibleDocuments.length ? (
             <div className="space-y-3">
               {accessibleDocuments.map((document) => {
-                const editable = canEditDocument(document, currentParticipant.inviteeId);
+                const completed = isDocumentCompleted(document);
+                const voided = Boolean(document.voidedAt);
+                const voiding = voidingDocumentIds.includes(document.id);
+                const timelineOpen = timelineDocumentIds.includes(document.id);
+                const declines = document.signatures.filter(
+                  (item) => item.status === "declined"
+                );
+                const staleSigners = document.signatures.filter(
+                  (item) => item.status === "stale"
+                );
+                const editable =
+                  isContributor && canEditDocument(document, currentParticipant.inviteeId);
+                const signingState = getSigningState(document);
+                const isSigner =
+                  isContributor && isDocumentSigner(document, currentParticipant.inviteeId);
+                const onTurn = isSigningTurn(
+                  signingState.signers,
+                  signingState.signedIds,
+                  currentParticipant.inviteeId
+                );
                 const signature = document.signatures.find(
                   (item) => item.inviteeId === currentParticipant.inviteeId
                 );
@@ -874,18 +1394,19 @@ export const ProjectClient = ({
                     isNoteVisibleToViewer(
                       note,
                       currentParticipant.inviteeId,
-                      isAdmin
+                      isOrganizer
                     )
                   ) ?? [];
-                const canAddNote = (isAdmin || editable) && (isAdmin || Boolean(signature?.signedAt));
+                const signed = signature?.status === "signed";
+                const canAddNote = (isOrganizer || editable) && (isOrganizer || signed);
                 const visibilityLabel = (note: DocumentNote) => {
                   if (!note.visibleTo || note.visibleTo.length === 0) {
-                    return "نمایش برای همه‌ی مدعوین";
+                    return t("project.notes.visibleToAll");
                   }
                   const names = note.visibleTo
-                    .map((id) => inviteeNameMap.get(id) ?? "نامشخص")
-                    .join("، ");
-                  return `نمایش برای: ${names}`;
+                    .map((id) => inviteeNameMap.get(id) ?? t("common.unknown"))
+                    .join(t("common.listSeparator"));
+                  return t("project.notes.visibleTo", { names });
                 };
 
                 return (
@@ -897,52 +1418,228 @@ export const ProjectClient = ({
                       <span className="font-semibold text-slate-700">
                         {document.filePath.split("/").pop()}
                       </span>
-                      <span className="rounded-full bg-slate-100 px-3 py-1 text-xs text-slate-500">
-                        نسخه فعلی: {toPersianDigits(document.currentVersion)}
-                      </span>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {completed ? (
+                          <span className="rounded-full bg-emerald-100 px-3 py-1 text-xs font-semibold text-emerald-700">
+                            {t("project.documents.completed")}
+                          </span>
+                        ) : null}
+                        {voided ? (
+                          <span className="rounded-full bg-rose-100 px-3 py-1 text-xs font-semibold text-rose-600">
+                            {t("project.documents.voided")}
+                          </span>
+                        ) : null}
+                        {document.dueAt && !completed && !voided ? (
+                          <span
+                            className={`rounded-full px-3 py-1 text-xs font-semibold ${
+                              isPastDue(document.dueAt)
+                                ? "bg-amber-100 text-amber-700"
+                                : "bg-slate-100 text-slate-500"
+                            }`}
+                          >
+                            {t(
+                              isPastDue(document.dueAt)
+                                ? "project.documents.overdue"
+                                : "project.documents.dueAt",
+                              {
+                                date: formatDate(
+                                  instantToZonedDate(document.dueAt, project.timeZone),
+                                  dateDisplay
+                                ),
+                              }
+                            )}
+                          </span>
+                        ) : null}
+                        <span className="rounded-full bg-slate-100 px-3 py-1 text-xs text-slate-500">
+                          {t("project.documents.currentVersion", {
+                            version: formatDigits(document.currentVersion, dateDisplay.digits),
+                          })}
+                        </span>
+                      </div>
                     </div>
                     <div className="text-xs text-slate-500">
-                      {signature?.signedAt
-                        ? `امضا شده در ${formatJalaliDate(signature.signedAt)}`
-                        : "هنوز امضا نشده"}
+                      {signed && signature?.signedAt
+                        ? t("project.documents.signedAt", {
+                            date: formatDate(signature.signedAt, dateDisplay),
+                          })
+                        : signature?.status === "declined"
+                        ? t("project.documents.youDeclined")
+                        : signature?.status === "voided"
+                        ? t("project.documents.yourSignatureVoided")
+                        : signature?.status === "stale"
+                        ? t("project.documents.yourSignatureStale")
+                        : t("project.documents.notSigned")}
                     </div>
+                    {voided ? (
+                      <p className="text-xs text-rose-500">
+                        {document.voidReason
+                          ? t("project.documents.voidedReason", {
+                              reason: document.voidReason,
+                            })
+                          : t("project.documents.voidedHint")}
+                      </p>
+                    ) : null}
+                    {declines.length ? (
+                      <ul className="space-y-1 text-xs text-rose-500">
+                        {declines.map((item) => (
+                          <li key={item.inviteeId}>
+                            {t("project.documents.declinedBy", {
+                              name: inviteeNameMap.get(item.inviteeId) ?? t("common.unknown"),
+                              reason: item.declineReason ?? "",
+                            })}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
+                    {staleSigners.length && !voided ? (
+                      <p className="text-xs text-amber-600">
+                        {t("project.documents.staleSigners", {
+                          names: formatInviteeNames(
+                            staleSigners.map((item) => item.inviteeId)
+                          ),
+                        })}
+                      </p>
+                    ) : null}
                     <div className="flex flex-wrap gap-2 text-xs">
                       <button
                         type="button"
                         className="rounded-full border border-slate-200 bg-white px-3 py-1 font-semibold text-slate-600 transition hover:bg-slate-100"
                         onClick={() => handleDownload(document.id)}
                       >
-                        دانلود
+                        {t("project.documents.download")}
+                      </button>
+                      <button
+                        type="button"
+                        className="rounded-full border border-slate-200 bg-white px-3 py-1 font-semibold text-slate-600 transition hover:bg-slate-100"
+                        onClick={() => toggleVersionTimeline(document.id)}
+                      >
+                        {timelineOpen
+                          ? t("project.documents.hideVersions")
+                          : t("project.documents.versions")}
                       </button>
                       <button
                         type="button"
                         className="rounded-full border border-emerald-500 bg-emerald-500 px-3 py-1 font-semibold text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-60"
-                        disabled={!editable}
+                        disabled={!isSigner || !onTurn || completed || voided}
                         onClick={() => handleSign(document.id)}
                       >
-                        امضای آنلاین
+                        {t("project.documents.sign")}
                       </button>
+                      {isSigner && !signed && !completed && !voided ? (
+                        <button
+                          type="button"
+                          className="rounded-full border border-rose-200 bg-rose-50 px-3 py-1 font-semibold text-rose-600 transition hover:bg-rose-100 disabled:cursor-not-allowed disabled:opacity-60"
+                          disabled={signature?.status === "declined"}
+                          onClick={() => handleDecline(document.id)}
+                        >
+                          {t("project.documents.decline")}
+                        </button>
+                      ) : null}
+                      {isOrganizer && !voided ? (
+                        <button
+                          type="button"
+                          className="rounded-full border border-rose-200 bg-white px-3 py-1 font-semibold text-rose-600 transition hover:bg-rose-50"
+                          onClick={() => toggleVoidPanel(document.id)}
+                        >
+                          {t("project.documents.void")}
+                        </button>
+                      ) : null}
+                      {isOrganizer ? (
+                        <button
+                          type="button"
+                          className="rounded-full border border-sky-200 bg-sky-50 px-3 py-1 font-semibold text-sky-700 transition hover:bg-sky-100 disabled:cursor-not-allowed disabled:opacity-60"
+                          disabled={
+                            completed ||
+                            voided ||
+                            document.signatures.some((item) => item.status === "signed")
+                          }
+                          onClick={() =>
+                            router.push(
+                              `/project/${project.id}/document/${document.id}/fields`
+                            )
+                          }
+                        >
+                          {t("project.documents.placeFields")}
+                        </button>
+                      ) : null}
+                      {isOrganizer && !voided ? (
+                        <DocumentRevisionUpload
+                          projectId={project.id}
+                          document={document}
+                          onRevised={async () => {
+                            setTimelineDocumentIds((previous) =>
+                              previous.filter((id) => id !== document.id)
+                            );
+                            await fetchDocuments();
+                          }}
+                        />
+                      ) : null}
+                      {isOrganizer ? (
+                        <button
+                          type="button"
+                          className="rounded-full border border-rose-200 bg-white px-3 py-1 font-semibold text-rose-600 transition hover:bg-rose-50"
+                          onClick={() => handleDeleteDocument(document)}
+                        >
+                          {t("project.documents.delete")}
+                        </button>
+                      ) : null}
                     </div>
+                    <DocumentIntegrityCheck projectId={project.id} documentId={document.id} />
+                    {timelineOpen ? (
+                      <DocumentVersionTimeline
+                        projectId={project.id}
+                        document={document}
+                        onDownload={(version) => handleDownload(document.id, version)}
+                      />
+                    ) : null}
+                    {voiding ? (
+                      <DocumentVoidPanel
+                        projectId={project.id}
+                        document={document}
+                        inviteeNameMap={inviteeNameMap}
+                        onVoided={async () => {
+                          await fetchDocuments();
+                          toggleVoidPanel(document.id);
+                        }}
+                      />
+                    ) : null}
                     {!editable ? (
                       <p className="text-xs text-rose-500">
-                        این سند فقط برای مشاهده شما فعال است.
+                        {t("project.documents.viewOnly")}
+                      </p>
+                    ) : null}
+                    {isSigner && !onTurn && !completed && !voided ? (
+                      <p className="text-xs text-amber-600">
+                        {t("project.documents.waitingForTurn", {
+                          names: formatInviteeNames(signingState.onTurn),
+                        })}
                       </p>
                     ) : null}
+                    {signingState.signers.length ? (
+                      <DocumentSigningOrder
+                        signers={signingState.signers}
+                        signedIds={signingState.signedIds}
+                        declinedIds={declines.map((item) => item.inviteeId)}
+                        onTurn={signingState.onTurn}
+                        inviteeNameMap={inviteeNameMap}
+                      />
+                    ) : null}
 
                     {visibleNotes.length ? (
                       <div className="space-y-3 rounded-xl border border-slate-100 bg-slate-50/70 px-3 py-3 text-xs">
                         {visibleNotes.map((note) => {
                           const authorName =
                             note.inviteeId
-                              ? inviteeNameMap.get(note.inviteeId) ?? "نامشخص"
-                              : "سیستم";
+                              ? inviteeNameMap.get(note.inviteeId) ?? t("common.unknown")
+                              : t("common.system");
                           const replyDraft = replyDraftFor(note.id);
                           const canReply =
+                            isContributor &&
                             note.allowReplies &&
                             isNoteVisibleToViewer(
                               note,
                               currentParticipant.inviteeId,
-                              isAdmin
+                              isOrganizer
                             );
                           return (
                             <div
@@ -952,7 +1649,7 @@ export const ProjectClient = ({
                               <div className="flex items-center justify-between gap-2">
                                 <span className="font-semibold text-slate-700">{authorName}</span>
                                 <span className="text-[11px] text-slate-500">
-                                  {formatJalaliDate(note.createdAt)}
+                                  {formatDate(note.createdAt, dateDisplay)}
                                 </span>
                               </div>
                               <p className="text-slate-600">{note.content}</p>
@@ -962,8 +1659,9 @@ export const ProjectClient = ({
                                   {note.replies.map((reply) => {
                                     const replier =
                                       reply.inviteeId
-                                        ? inviteeNameMap.get(reply.inviteeId) ?? "نامشخص"
-                                        : "سیستم";
+                                        ? inviteeNameMap.get(reply.inviteeId) ??
+                                          t("common.unknown")
+                                        : t("common.system");
                                     return (
                                       <div
                                         key={reply.id}
@@ -971,7 +1669,7 @@ export const ProjectClient = ({
                                       >
                                         <div className="flex items-center justify-between text-[11px]">
                                           <span className="font-semibold text-slate-600">{replier}</span>
-                                          <span className="text-slate-400">{formatJalaliDate(reply.createdAt)}</span>
+                                          <span className="text-slate-400">{formatDate(reply.createdAt, dateDisplay)}</span>
                                         </div>
                                         <p className="text-slate-600">{reply.content}</p>
                                       </div>
@@ -986,7 +1684,7 @@ export const ProjectClient = ({
                                     onChange={(event) =>
                                       updateReplyDraft(note.id, { content: event.target.value, error: null })
                                     }
-                                    placeholder="پاسخ خود را بنویسید..."
+                                    placeholder={t("project.notes.replyPlaceholder")}
                                     className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs shadow-inner focus:border-emerald-500 focus:outline-none"
                                   />
                                   {replyDraft.error ? (
@@ -998,7 +1696,9 @@ export const ProjectClient = ({
                                     disabled={replyDraft.saving}
                                     onClick={() => submitReply(note.id, document.id)}
                                   >
-                                    {replyDraft.saving ? "در حال ارسال..." : "ارسال پاسخ"}
+                                    {replyDraft.saving
+                                      ? t("project.notes.replySending")
+                                      : t("project.notes.replySubmit")}
                                   </button>
                                 </div>
                               ) : null}
@@ -1007,18 +1707,18 @@ export const ProjectClient = ({
                         })}
                       </div>
                     ) : (
-                      <p className="text-xs text-slate-400">یادداشتی برای این سند ثبت نشده است.</p>
+                      <p className="text-xs text-slate-400">{t("project.notes.empty")}</p>
                     )}
 
                     {canAddNote ? (
                       <div className="space-y-2 rounded-xl border border-slate-200 bg-slate-50/70 px-3 py-3 text-xs">
-                        <p className="font-semibold text-slate-700">ثبت یادداشت</p>
+                        <p className="font-semibold text-slate-700">{t("project.notes.add")}</p>
                         <textarea
                           value={noteDraft.content}
                           onChange={(event) =>
                             updateNoteDraft(document.id, { content: event.target.value, error: null })
                           }
-                          placeholder="متن یادداشت..."
+                          placeholder={t("project.notes.placeholder")}
                           className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs shadow-inner focus:border-emerald-500 focus:outline-none"
                         />
                         <label className="flex items-center gap-2">
@@ -1034,16 +1734,19 @@ export const ProjectClient = ({
                             }
                             className="rounded border-slate-300 text-emerald-500 focus:ring-emerald-500"
                           />
-                          نمایش برای تمام مدعوین
+                          {t("project.notes.shareWithAll")}
                         </label>
                         {!noteDraft.shareWithAll ? (
                           <div className="space-y-1">
-                            <p className="text-[11px] text-slate-500">انتخاب افراد:</p>
+                            <p className="text-[11px] text-slate-500">
+                              {t("project.notes.pickPeople")}
+                            </p>
                             <div className="flex flex-wrap gap-2">
                               {invitees.map((invitee) => {
                                 const checked = noteDraft.selectedInvitees.includes(invitee.id);
                                 const isEssential =
-                                  invitee.id === currentInviteeId || invitee.id === adminInviteeId;
+                                  invitee.id === currentInviteeId ||
+                                  organizerInviteeIds.includes(invitee.id);
                                 return (
                                   <label
                                     key={invitee.id}
@@ -1084,7 +1787,7 @@ export const ProjectClient = ({
                             }
                             className="rounded border-slate-300 text-emerald-500 focus:ring-emerald-500"
                           />
-                          اجازه پاسخ به یادداشت داده شود
+                          {t("project.notes.allowReplies")}
                         </label>
                         {noteDraft.error ? (
                           <p className="text-[11px] text-rose-500">{noteDraft.error}</p>
@@ -1095,43 +1798,68 @@ export const ProjectClient = ({
                           disabled={noteDraft.saving}
                           onClick={() => submitNote(document)}
                         >
-                          {noteDraft.saving ? "در حال ثبت..." : "ثبت یادداشت"}
+                          {noteDraft.saving ? t("common.saving") : t("project.notes.add")}
                         </button>
                       </div>
                     ) : editable ? (
-                      <p className="text-xs text-slate-400">برای افزودن یادداشت ابتدا سند را امضا کنید.</p>
+                      <p className="text-xs text-slate-400">{t("project.notes.signFirst")}</p>
                     ) : null}
                   </div>
                 );
               })}
             </div>
           ) : (
-            <p className="text-sm text-slate-500">سندی برای امضا در دسترس شما نیست.</p>
+            <p className="text-sm text-slate-500">{t("project.documents.empty")}</p>
           )}
         </section>
       ) : null}
 
-      {isAdmin ? (
+      {isOrganizer && currentParticipant ? (
+        <InviteeManagerPanel
+          projectId={project.id}
+          invitees={invitees}
+          actorId={currentParticipant.inviteeId}
+          actorRole={currentParticipant.role}
+          onChanged={() => {
+            refreshResponses();
+            router.refresh();
+          }}
+        />
+      ) : null}
+
+      {isOrganizer && currentParticipant ? (
+        <InviteeAccessLinksPanel
+          projectId={project.id}
+          invitees={invitees}
+          actorRole={currentParticipant.role}
+        />
+      ) : null}
+
+      {isOrganizer ? (
         <section className="space-y-4 rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur">
           <div className="flex flex-wrap items-center justify-between gap-3">
-            <h2 className="text-lg font-semibold text-slate-700">گزارش فعالیت‌ها</h2>
+            <h2 className="text-lg font-semibold text-slate-700">
+              {t("project.activity.title")}
+            </h2>
             <button
               type="button"
               className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100"
               onClick={fetchActivityLogs}
               disabled={logsLoading}
             >
-              {logsLoading ? "در حال بروزرسانی..." : "به‌روزرسانی"}
+              {logsLoading ? t("project.activity.refreshing") : t("project.activity.refresh")}
             </button>
           </div>
           {logsLoading ? (
-            <p className="text-sm text-slate-500">در حال بارگذاری گزارش‌ها...</p>
+            <p className="text-sm text-slate-500">{t("project.activity.loading")}</p>
           ) : activityLogs.length ? (
             <ul className="space-y-3">
               {activityLogs.map((log) => {
                 const actor =
                   log.actorName ??
-                  (log.inviteeId ? inviteeNameMap.get(log.inviteeId) ?? "نامشخص" : "سیستم");
+                  (log.inviteeId
+                    ? inviteeNameMap.get(log.inviteeId) ?? t("common.unknown")
+                    : t("common.system"));
                 return (
                   <li
                     key={log.id}
@@ -1139,9 +1867,11 @@ export const ProjectClient = ({
                   >
                     <div className="flex items-center justify-between gap-3">
                       <span className="font-semibold text-slate-700">{formatActivitySummary(log)}</span>
-                      <span className="text-[11px] text-slate-400">{formatJalaliDate(log.createdAt)}</span>
+                      <span className="text-[11px] text-slate-400">{formatDate(log.createdAt, dateDisplay)}</span>
+                    </div>
+                    <div className="text-[11px] text-slate-500">
+                      {t("project.activity.actor", { actor })}
                     </div>
-                    <div className="text-[11px] text-slate-500">اجرا توسط: {actor}</div>
                     {log.details?.data ? (
                       <pre className="whitespace-pre-wrap rounded-lg bg-slate-50 px-3 py-2 text-[11px] text-slate-500">
                         {JSON.stringify(log.details.data, null, 2)}
@@ -1152,7 +1882,7 @@ export const ProjectClient = ({
               })}
             </ul>
           ) : (
-            <p className="text-sm text-slate-500">هنوز فعالیتی ثبت نشده است.</p>
+            <p className="text-sm text-slate-500">{t("project.activity.empty")}</p>
           )}
         </section>
       ) : null}
@@ -1160,19 +1890,19 @@ export const ProjectClient = ({
       {currentParticipant ? null : (
         <section className="rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur sm:p-8">
           <h2 className="mb-4 text-lg font-semibold text-slate-700">
-            ورود مدعو
+            {t("project.auth.title")}
           </h2>
           <div className="space-y-4">
             <div>
               <label className="mb-2 block text-sm font-semibold text-slate-700">
-                نام خود را انتخاب کنید
+                {t("project.auth.pickName")}
               </label>
               <select
                 value={selectedInviteeId}
                 onChange={(event) => setSelectedInviteeId(event.target.value)}
                 className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm shadow-inner transition focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-100"
               >
-                <option value="">انتخاب نام...</option>
+                <option value="">{t("project.auth.pickNamePlaceholder")}</option>
                 {invitees.map((invitee) => (
                   <option key={invitee.id} value={invitee.id}>
                     {invitee.name}
@@ -1183,18 +1913,18 @@ export const ProjectClient = ({
             {(() => {
               const found = invitees.find((item) => item.id === selectedInviteeId);
               if (!found) return null;
-              if (!found.password) return null;
+              if (!found.hasPassword) return null;
               return (
                 <div>
                   <label className="mb-2 block text-sm font-semibold text-slate-700">
-                    رمز عبور
+                    {t("project.auth.password")}
                   </label>
                   <input
                     type="password"
                     value={passwordInput}
                     onChange={(event) => setPasswordInput(event.target.value)}
                     className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm.shadow-inner transition focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-100"
-                    placeholder="رمز تعیین‌شده توسط برگزارکننده"
+                    placeholder={t("project.auth.passwordPlaceholder")}
                   />
                 </div>
               );
@@ -1211,19 +1941,38 @@ export const ProjectClient = ({
               onClick={handleAuthenticate}
               className="w-full rounded-2xl bg-emerald-500 px-4 py-3 text-sm font-semibold text-white shadow-lg.transition hover:bg-emerald-600 focus:outline-none focus:ring-2 focus:ring-emerald-100"
             >
-              ادامه
+              {t("project.auth.submit")}
             </button>
           </div>
         </section>
       )}
 
-      {currentParticipant ? (
+      {currentParticipant && isContributor ? (
         <section>
           <h2 className="mb-4 text-lg font-semibold text-slate-700">
-            زمان‌های آزاد خود را ثبت کنید
+            {t("project.availability.title")}
           </h2>
+          {project.availabilityDueAt && !finalizedSlot ? (
+            <p
+              className={`-mt-2 mb-4 text-xs ${
+                isPastDue(project.availabilityDueAt) ? "text-amber-600" : "text-slate-500"
+              }`}
+            >
+              {t(
+                isPastDue(project.availabilityDueAt)
+                  ? "project.availability.overdue"
+                  : "project.availability.dueAt",
+                {
+                  date: formatDate(
+                    instantToZonedDate(project.availabilityDueAt, project.timeZone),
+                    dateDisplay
+                  ),
+                }
+              )}
+            </p>
+          ) : null}
           <AvailabilityForm
-            key={currentParticipant.inviteeId}
+            key={`${currentParticipant.inviteeId}_${displayTimeZone}`}
             ref={formRef}
             projectId={project.id}
             participant={currentParticipant}
@@ -1231,42 +1980,60 @@ export const ProjectClient = ({
             allowedTimes={allowedTimes}
             initialSlots={ownedResponse?.slots}
             onSaved={refreshResponses}
+            readOnly={Boolean(finalizedSlot)}
+            projectTimeZone={project.timeZone}
+            displayTimeZone={displayTimeZone}
+            dateDisplay={dateDisplay}
           />
         </section>
       ) : null}
 
       <section className="rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur">
-        <h2 className="text-lg font-semibold text-slate-700">وضعیت مشارکت‌کنندگان</h2>
+        <h2 className="text-lg font-semibold text-slate-700">
+          {t("project.participants.title")}
+        </h2>
         <div className="mt-4 grid gap-3 sm:grid-cols-2">
           {participantStatuses.map(({ invitee, hasAvailability, signatureStatus }) => {
             const isCurrent = currentParticipant?.inviteeId === invitee.id;
             const availabilityTone = hasAvailability
               ? {
                   icon: "✅",
-                  label: "زمان ثبت شده",
+                  label: t("project.participants.availabilityDone"),
                   className: "border-emerald-200 bg-emerald-50 text-emerald-700",
                 }
               : {
                   icon: "🕒",
-                  label: "در انتظار ثبت زمان",
+                  label: t("project.participants.availabilityPending"),
                   className: "border-amber-200 bg-amber-50 text-amber-700",
                 };
             const signatureTone =
               signatureStatus === "done"
                 ? {
                     icon: "✍️",
-                    label: "امضا کامل",
+                    label: t("project.participants.signatureDone"),
                     className: "border-emerald-200 bg-emerald-50 text-emerald-700",
                   }
+                : signatureStatus === "declined"
+                ? {
+                    icon: "✋",
+                    label: t("project.participants.signatureDeclined"),
+                    className: "border-rose-200 bg-rose-50 text-rose-600",
+                  }
+                : signatureStatus === "voided"
+                ? {
+                    icon: "↩️",
+                    label: t("project.participants.signatureVoided"),
+                    className: "border-orange-200 bg-orange-50 text-orange-700",
+                  }
                 : signatureStatus === "pending"
                 ? {
                     icon: "📝",
-                    label: "نیاز به امضا",
+                    label: t("project.participants.signaturePending"),
                     className: "border-amber-200 bg-amber-50 text-amber-700",
                   }
                 : {
                     icon: "ⓘ",
-                    label: "نیاز به امضا ندارد",
+                    label: t("project.participants.signatureNotRequired"),
                     className: "border-slate-200 bg-slate-100 text-slate-500",
                   };
             return (
@@ -1282,7 +2049,7 @@ export const ProjectClient = ({
                   <span className="font-semibold text-slate-700">{invitee.name}</span>
                   {isCurrent ? (
                     <span className="rounded-full bg-emerald-100 px-2 py-0.5 text-[10px] font-semibold text-emerald-700">
-                      شما
+                      {t("project.participants.you")}
                     </span>
                   ) : null}
                 </div>
@@ -1308,37 +2075,74 @@ export const ProjectClient = ({
 
       <section>
         <h2 className="mb-4 text-lg font-semibold text-slate-700">
-          جمع‌بندی گروه (به‌روزرسانی لحظه‌ای)
+          {t("project.summary.title")}
         </h2>
-        <div className="space-y-3">
-          {syncing ? (
-            <div className="rounded-3xl border border-slate-200 bg-white/60 p-4 text-sm text-slate-500 shadow-sm">
-              در حال به‌روزرسانی...
-            </div>
-          ) : null}
-          <AvailabilitySummary
-            responses={responses}
-            currentParticipantId={ownedResponse?.id}
-            onSegmentSelect={handleSummarySegmentSelect}
-          />
+        <div className="grid gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+          <div className="space-y-3">
+            {syncing ? (
+              <div className="rounded-3xl border border-slate-200 bg-white/60 p-4 text-sm text-slate-500 shadow-sm">
+                {t("project.summary.syncing")}
+              </div>
+            ) : null}
+            <AvailabilitySummary
+              responses={displayResponses}
+              currentParticipantId={ownedResponse?.id}
+              onSegmentSelect={handleSummarySegmentSelect}
+              timeZoneLabel={`${displayTimeZone} (${formatUtcOffset(displayTimeZone)})`}
+              dateDisplay={dateDisplay}
+            />
+          </div>
+          <div className="space-y-3">
+            {isOrganizer && finalizeSlot ? (
+              <FinalizeSlotForm
+                projectId={project.id}
+                slot={finalizeSlot}
+                slotLabel={formatSlotLabel(
+                  finalizeSlot.date,
+                  finalizeSlot.startTime,
+                  finalizeSlot.endTime,
+                  slotLabelOptions
+                )}
+                onFinalized={(slot) => {
+                  setFinalizedSlot(slot);
+                  setFinalizeSlot(null);
+                  fetchActivityLogs();
+                }}
+                onCancel={() => setFinalizeSlot(null)}
+              />
+            ) : null}
+            <MeetingSuggestions
+              responses={responses}
+              invitees={contributingInvitees}
+              timeZones={slotLabelOptions.zones}
+              dateDisplay={dateDisplay}
+              onFinalize={
+                isOrganizer && !finalizedSlot
+                  ? (slot) => setFinalizeSlot(slot)
+                  : undefined
+              }
+            />
+          </div>
         </div>
       </section>
 
       <section>
         <div className="mb-3 flex items-center justify-between">
-          <h2 className="text-lg font-semibold text-slate-700">پاسخ‌های ثبت‌شده</h2>
+          <h2 className="text-lg font-semibold text-slate-700">
+            {t("project.responses.title")}
+          </h2>
           <button
             type="button"
             onClick={() => setShowResponses((prev) => !prev)}
             className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100"
           >
-            {showResponses ? "بستن" : "مشاهده"}
+            {showResponses ? t("project.responses.hide") : t("project.responses.show")}
           </button>
         </div>
         {showResponses ? (
           responses.length === 0 ? (
             <div className="rounded-3xl border border-slate-200 bg-white/60 p-6 text-sm text-slate-500 shadow-sm">
-              هنوز پاسخی ثبت نشده است.
+              {t("project.responses.empty")}
             </div>
           ) : (
             <div className="space-y-3">
@@ -1352,7 +2156,7 @@ export const ProjectClient = ({
                       {response.name}
                     </span>
                     <span className="rounded-full bg-slate-100 px-3 py-1 text-xs text-slate-500">
-                      {formatJalaliDate(response.createdAt)}
+                      {formatDate(response.createdAt, dateDisplay)}
                     </span>
                   </div>
                   <ul className="mt-3 space-y-2 text-sm text-slate-600">
@@ -1361,7 +2165,12 @@ export const ProjectClient = ({
                         key={`${response.id}-${slot.date}-${slot.startTime}-${slot.endTime}`}
                         className="rounded-2xl bg-slate-50 px-3 py-2"
                       >
-                        {formatSlotLabel(slot.date, slot.startTime, slot.endTime)}
+                        {formatSlotLabel(
+                          slot.date,
+                          slot.startTime,
+                          slot.endTime,
+                          slotLabelOptions
+                        )}
                       </li>
                     ))}
                   </ul>
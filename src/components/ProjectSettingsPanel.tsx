@@ -0,0 +1,296 @@
+"use client";
+
+import dynamic from "next/dynamic";
+import { useState } from "react";
+import type { DateObject } from "react-multi-date-picker";
+import dayjs from "dayjs";
+import { useI18n } from "@/components/I18nProvider";
+import { TimeRangeSelector } from "@/components/TimeRangeSelector";
+import type { OutOfWindowResponse } from "@/lib/availability";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { formatDigits, formatSlotLabel, getPickerCalendar } from "@/lib/format";
+import { instantToZonedDate } from "@/lib/timezone";
+import type { Project } from "@/types";
+
+type ProjectSettingsPanelProps = {
+  project: Project;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+type SettingsPayload = {
+  title: string;
+  description: string | null;
+  startDate: string;
+  endDate: string;
+  startTime: string;
+  endTime: string;
+  availabilityDueDate: string | null;
+};
+
+const DatePicker = dynamic(() => import("react-multi-date-picker"), {
+  ssr: false,
+});
+
+const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const minutesToTime = (minutes: number) => {
+  const clamped = Math.max(0, Math.min(minutes, 24 * 60));
+  const hours = Math.floor(clamped / 60)
+    .toString()
+    .padStart(2, "0");
+  const mins = (clamped % 60).toString().padStart(2, "0");
+  return `${hours}:${mins}`;
+};
+
+const toIsoDate = (value: DateObject | Date | null | undefined) =>
+  value ? dayjs(value instanceof Date ? value : value.toDate()).format("YYYY-MM-DD") : null;
+
+// The pickers take local midnight, which `new Date("yyyy-mm-dd")` is not.
+const toPickerDate = (isoDate?: string | null) =>
+  isoDate ? dayjs(isoDate).toDate() : null;
+
+/**
+ * Organizer form for the project's title, description, availability window
+ * and deadline. Narrowing the window over saved availability asks whether
+ * to trim the slots left outside or keep them.
+ */
+export const ProjectSettingsPanel = ({
+  project,
+  onSaved,
+  onCancel,
+}: ProjectSettingsPanelProps) => {
+  const { locale, t, tError } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+  const pickerCalendar = getPickerCalendar(dateDisplay);
+  const [title, setTitle] = useState(project.title);
+  const [description, setDescription] = useState(project.description ?? "");
+  const [dateRange, setDateRange] = useState<Array<DateObject | Date>>(() =>
+    [toPickerDate(project.startDate), toPickerDate(project.endDate)].filter(
+      (value): value is Date => value !== null
+    )
+  );
+  const [timeRange, setTimeRange] = useState<[number, number]>([
+    project.startTime ? timeToMinutes(project.startTime) : 0,
+    project.endTime ? timeToMinutes(project.endTime) : 24 * 60,
+  ]);
+  const [dueDate, setDueDate] = useState(
+    project.availabilityDueAt
+      ? instantToZonedDate(project.availabilityDueAt, project.timeZone)
+      : null
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [outOfWindow, setOutOfWindow] = useState<OutOfWindowResponse[] | null>(null);
+
+  const save = async (choice?: "trim" | "keep") => {
+    setError(null);
+    const startDate = toIsoDate(dateRange[0]);
+    const endDate = toIsoDate(dateRange[1] ?? dateRange[0]);
+    if (title.trim().length < 3) {
+      setError(t("createProject.error.titleTooShort"));
+      return;
+    }
+    if (!startDate || !endDate) {
+      setError(t("createProject.error.dateRangeMissing"));
+      return;
+    }
+
+    const payload: SettingsPayload = {
+      title: title.trim(),
+      description: description.trim() || null,
+      startDate,
+      endDate,
+      startTime: minutesToTime(timeRange[0]),
+      endTime: minutesToTime(timeRange[1]),
+      availabilityDueDate: dueDate,
+    };
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/projects/${project.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(choice ? { ...payload, outOfWindow: choice } : payload),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (response.status === 409 && body?.error === "availability_outside_window") {
+        setOutOfWindow((body.responses ?? []) as OutOfWindowResponse[]);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(body?.error ?? "project_update_failed");
+      }
+      setOutOfWindow(null);
+      onSaved();
+    } catch (saveError) {
+      console.error(saveError);
+      setError(
+        tError(
+          saveError instanceof Error ? saveError.message : null,
+          "errors.project_update_failed"
+        )
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="space-y-5 rounded-3xl border border-slate-200 bg-white/70 p-6 shadow-sm backdrop-blur">
+      <h2 className="text-lg font-semibold text-slate-700">{t("project.settings.title")}</h2>
+
+      <div>
+        <label className="mb-2 block text-sm font-semibold text-slate-700">
+          {t("createProject.title")}
+        </label>
+        <input
+          type="text"
+          value={title}
+          onChange={(event) => setTitle(event.target.value)}
+          className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm shadow-inner transition focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-100"
+        />
+      </div>
+
+      <div>
+        <label className="mb-2 block text-sm font-semibold text-slate-700">
+          {t("createProject.description")}
+        </label>
+        <textarea
+          value={description}
+          onChange={(event) => setDescription(event.target.value)}
+          className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm shadow-inner transition focus:border-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-100"
+          rows={3}
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <label className="block text-sm font-semibold text-slate-700">
+            {t("createProject.dateRange", {
+              calendar: t(`calendar.${dateDisplay.calendar}`),
+            })}
+          </label>
+          <DatePicker
+            range
+            value={dateRange}
+            onChange={(value) => setDateRange((value as DateObject[]) ?? [])}
+            calendar={pickerCalendar.calendar}
+            locale={pickerCalendar.locale}
+            calendarPosition="bottom-right"
+            className="w-full rounded-2xl border border-slate-200 bg-white text-sm shadow-inner"
+            inputClass="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm focus:outline-none"
+            placeholder={t("createProject.dateRangePlaceholder")}
+          />
+          <label className="block pt-2 text-sm font-semibold text-slate-700">
+            {t("createProject.availabilityDueDate")}
+          </label>
+          <DatePicker
+            value={toPickerDate(dueDate)}
+            onChange={(value) => setDueDate(toIsoDate(value as DateObject | null))}
+            calendar={pickerCalendar.calendar}
+            locale={pickerCalendar.locale}
+            calendarPosition="bottom-right"
+            className="w-full rounded-2xl border border-slate-200 bg-white text-sm shadow-inner"
+            inputClass="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm focus:outline-none"
+            placeholder={t("createProject.dueDatePlaceholder")}
+          />
+          {dueDate ? (
+            <button
+              type="button"
+              onClick={() => setDueDate(null)}
+              className="text-xs font-semibold text-slate-500 transition hover:text-slate-700"
+            >
+              {t("project.settings.clearDueDate")}
+            </button>
+          ) : null}
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-semibold text-slate-700">
+            {t("createProject.timeRange")}
+          </label>
+          <TimeRangeSelector
+            value={timeRange}
+            onChange={setTimeRange}
+            digits={dateDisplay.digits}
+          />
+          <p className="text-xs text-slate-500">{t("project.settings.windowHint")}</p>
+        </div>
+      </div>
+
+      {outOfWindow ? (
+        <div className="space-y-3 rounded-2xl border border-amber-200 bg-amber-50/70 p-4 text-sm text-amber-800">
+          <p className="font-semibold">
+            {t("project.settings.outOfWindow", {
+              count: formatDigits(outOfWindow.length, dateDisplay.digits),
+            })}
+          </p>
+          <ul className="space-y-2 text-xs">
+            {outOfWindow.map((item) => (
+              <li key={item.responseId} className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold">{item.name}</span>
+                {item.slots.map((slot) => (
+                  <span
+                    key={`${slot.date}_${slot.startTime}_${slot.endTime}`}
+                    className="rounded-full bg-white px-2 py-0.5"
+                  >
+                    {formatSlotLabel(slot.date, slot.startTime, slot.endTime, {
+                      display: dateDisplay,
+                      t,
+                    })}
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs">{t("project.settings.outOfWindowHint")}</p>
+          <div className="flex flex-wrap gap-2 text-xs">
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => save("trim")}
+              className="rounded-full bg-amber-500 px-4 py-2 font-semibold text-white transition hover:bg-amber-600 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {t("project.settings.trim")}
+            </button>
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => save("keep")}
+              className="rounded-full border border-amber-300 bg-white px-4 py-2 font-semibold text-amber-700 transition hover:bg-amber-100 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {t("project.settings.keep")}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {error ? (
+        <div className="rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">{error}</div>
+      ) : null}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          disabled={saving}
+          onClick={() => save()}
+          className="rounded-2xl bg-sky-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {saving ? t("project.settings.saving") : t("project.settings.save")}
+        </button>
+        <button
+          type="button"
+          disabled={saving}
+          onClick={onCancel}
+          className="rounded-2xl border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-600 transition hover:bg-slate-100"
+        >
+          {t("common.cancel")}
+        </button>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,299 @@
+"use client";
+
+import { ChangeEvent, ReactNode, useRef, useState } from "react";
+import SignatureCanvas from "react-signature-canvas";
+import { useI18n } from "@/components/I18nProvider";
+import { renderTextImage } from "@/lib/canvasImages";
+import type { MessageKey } from "@/lib/i18n";
+import type { SignatureMode } from "@/types";
+
+export type SignatureMeta = {
+  mode: SignatureMode;
+  opacity: number;
+  penColor?: string;
+  penWidth?: number;
+  typedText?: string;
+  typedFont?: string;
+  typedColor?: string;
+  typedSize?: number;
+  uploadedFileName?: string | null;
+};
+
+type Props = {
+  onCreate: (dataUrl: string, meta: SignatureMeta) => void;
+  onModeChange?: () => void;
+  children?: ReactNode;
+};
+
+const fontOptions = [
+  { value: "Vazirmatn", label: "وزیرمتن" },
+  { value: "Sahel", label: "ساحل" },
+  { value: "Tanha", label: "تنهــا" },
+  { value: "Lalezar", label: "لاله‌زار" },
+  { value: "Arial", label: "Arial" },
+];
+
+const modeOptions: Array<{ value: SignatureMode; label: MessageKey }> = [
+  { value: "draw", label: "sign.mode.draw" },
+  { value: "typed", label: "sign.mode.typed" },
+  { value: "upload", label: "sign.mode.upload" },
+];
+
+/**
+ * Draw, type or upload a signature. The finished PNG is handed to
+ * `onCreate`; `children` render under the controls, e.g. a preview.
+ */
+export const SignatureCreator = ({ onCreate, onModeChange, children }: Props) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<SignatureMode>("draw");
+  const [penColor, setPenColor] = useState("#0ea5e9");
+  const [penWidth, setPenWidth] = useState(3);
+  const [opacity, setOpacity] = useState(1);
+  const [typedText, setTypedText] = useState("سهیل توکل پور");
+  const [typedFont, setTypedFont] = useState("Vazirmatn");
+  const [typedSize, setTypedSize] = useState(36);
+  const [typedColor, setTypedColor] = useState("#0ea5e9");
+  const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
+  const [uploadedDataUrl, setUploadedDataUrl] = useState<string | null>(null);
+  const signatureRef = useRef<SignatureCanvas | null>(null);
+
+  const handleModeChange = (nextMode: SignatureMode) => {
+    signatureRef.current?.clear();
+    setMode(nextMode);
+    onModeChange?.();
+  };
+
+  const createSignaturePreview = () => {
+    if (mode === "draw") {
+      if (!signatureRef.current || signatureRef.current.isEmpty()) {
+        alert(t("sign.error.drawingMissing"));
+        return;
+      }
+      const trimmed = signatureRef.current.getTrimmedCanvas();
+      const canvas = document.createElement("canvas");
+      canvas.width = trimmed.width;
+      canvas.height = trimmed.height;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.globalAlpha = opacity;
+      ctx.drawImage(trimmed, 0, 0);
+      onCreate(canvas.toDataURL("image/png"), {
+        mode: "draw",
+        opacity,
+        penColor,
+        penWidth,
+      });
+    } else if (mode === "typed") {
+      if (!typedText.trim()) {
+        alert(t("sign.error.typedMissing"));
+        return;
+      }
+      const dataUrl = renderTextImage(typedText, typedFont, typedSize, typedColor, opacity);
+      if (!dataUrl) return;
+      onCreate(dataUrl, {
+        mode: "typed",
+        opacity,
+        typedText,
+        typedFont,
+        typedColor,
+        typedSize,
+      });
+    } else if (mode === "upload") {
+      if (!uploadedDataUrl) {
+        alert(t("sign.error.uploadMissing"));
+        return;
+      }
+      const image = new Image();
+      image.onload = () => {
+        const canvas = document.createElement("canvas");
+        canvas.width = image.width;
+        canvas.height = image.height;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+        ctx.globalAlpha = opacity;
+        ctx.drawImage(image, 0, 0);
+        onCreate(canvas.toDataURL("image/png"), {
+          mode: "upload",
+          opacity,
+          uploadedFileName,
+        });
+      };
+      image.src = uploadedDataUrl;
+    }
+  };
+
+  const handleUploadChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null;
+    setUploadedFileName(file?.name ?? null);
+    if (!file) {
+      setUploadedDataUrl(null);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      setUploadedDataUrl(reader.result as string);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <section className="space-y-4 rounded-3xl border border-slate-200 bg-white/80 p-4 shadow-sm">
+      <div className="flex flex-wrap gap-3">
+        {modeOptions.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={`rounded-full px-4 py-2 text-xs font-semibold transition ${
+              mode === option.value
+                ? "bg-emerald-500 text-white"
+                : "bg-slate-100 text-slate-600"
+            }`}
+            onClick={() => handleModeChange(option.value)}
+          >
+            {t(option.label)}
+          </button>
+        ))}
+      </div>
+
+      {mode === "draw" ? (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
+            {t("sign.penColor")}
+            <input
+              type="color"
+              value={penColor}
+              onChange={(event) => setPenColor(event.target.value)}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
+            {t("sign.penWidth")}
+            <input
+              type="range"
+              min={1}
+              max={12}
+              value={penWidth}
+              onChange={(event) => setPenWidth(Number(event.target.value))}
+            />
+          </label>
+        </div>
+      ) : null}
+
+      {mode === "typed" ? (
+        <div className="space-y-3 text-xs text-slate-600">
+          <label className="flex flex-col gap-2">
+            {t("sign.typedText")}
+            <input
+              type="text"
+              value={typedText}
+              onChange={(event) => setTypedText(event.target.value)}
+              className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
+            />
+          </label>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="flex items-center justify-between gap-3">
+              {t("sign.typedColor")}
+              <input
+                type="color"
+                value={typedColor}
+                onChange={(event) => setTypedColor(event.target.value)}
+              />
+            </label>
+            <label className="flex items-center justify-between gap-3">
+              {t("sign.typedSize")}
+              <input
+                type="range"
+                min={24}
+                max={96}
+                value={typedSize}
+                onChange={(event) => setTypedSize(Number(event.target.value))}
+              />
+            </label>
+          </div>
+          <label className="flex flex-col gap-2">
+            {t("sign.typedFont")}
+            <select
+              value={typedFont}
+              onChange={(event) => setTypedFont(event.target.value)}
+              className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
+            >
+              {fontOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      ) : null}
+
+      {mode === "upload" ? (
+        <div className="space-y-3 text-xs text-slate-600">
+          <label className="flex flex-col gap-2">
+            {t("sign.uploadLabel")}
+            <input
+              type="file"
+              accept="image/*"
+              onChange={handleUploadChange}
+              className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-inner focus:outline-none focus:ring-2 focus:ring-sky-200"
+            />
+          </label>
+          {uploadedFileName ? (
+            <p className="text-xs text-slate-500">
+              {t("sign.uploadedFile", { name: uploadedFileName })}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+
+      <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
+        {t("sign.opacity")}
+        <input
+          type="range"
+          min={20}
+          max={100}
+          value={opacity * 100}
+          onChange={(event) => setOpacity(Number(event.target.value) / 100)}
+        />
+      </label>
+
+      {mode === "draw" ? (
+        <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white">
+          <SignatureCanvas
+            ref={signatureRef}
+            penColor={penColor}
+            minWidth={penWidth / 2}
+            maxWidth={penWidth}
+            backgroundColor="rgba(255,255,255,0)"
+            canvasProps={{ className: "w-full h-64" }}
+          />
+        </div>
+      ) : (
+        <div className="rounded-2xl border border-dashed border-slate-200 bg-white px-4 py-6 text-center text-xs text-slate-500">
+          {mode === "typed"
+            ? t("sign.typedHint")
+            : t("sign.uploadHint")}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2 text-xs">
+        {mode === "draw" ? (
+          <button
+            type="button"
+            className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-600 transition hover:bg-slate-100"
+            onClick={() => signatureRef.current?.clear()}
+          >
+            {t("sign.clearDrawing")}
+          </button>
+        ) : null}
+        <button
+          type="button"
+          className="rounded-full border border-emerald-500 bg-emerald-500 px-4 py-2 font-semibold text-white transition hover:bg-emerald-600"
+          onClick={createSignaturePreview}
+        >
+          {t("sign.createPreview")}
+        </button>
+      </div>
+      {children}
+    </section>
+  );
+};
@@ -1,6 +1,8 @@
 import * as Slider from "@radix-ui/react-slider";
-import { minutesToTimeLabel, toPersianDigits } from "@/lib/format";
+import { useI18n } from "@/components/I18nProvider";
+import { formatDigits, minutesToTimeLabel } from "@/lib/format";
 import { useMemo, useState } from "react";
+import type { DigitSystem } from "@/types";
 
 type Props = {
   value: [number, number];
@@ -8,6 +10,7 @@ type Props = {
   step?: number;
   minMinutes?: number;
   maxMinutes?: number;
+  digits?: DigitSystem;
 };
 
 const clampRange = (
@@ -29,19 +32,21 @@ export const TimeRangeSelector = ({
   step = 15,
   minMinutes = 0,
   maxMinutes = 24 * 60,
+  digits,
 }: Props) => {
+  const { t, dir } = useI18n();
   const bounds = useMemo(
     () => ({ min: minMinutes, max: maxMinutes }),
     [minMinutes, maxMinutes]
   );
   const clamped = clampRange(value, bounds);
-  const displayStart = minutesToTimeLabel(clamped[0]);
-  const displayEnd = minutesToTimeLabel(clamped[1]);
+  const displayStart = minutesToTimeLabel(clamped[0], digits);
+  const displayEnd = minutesToTimeLabel(clamped[1], digits);
   const [hover, setHover] = useState<{ left: number; minutes: number } | null>(null);
 
   const tooltipLabel = useMemo(
-    () => (hover ? minutesToTimeLabel(hover.minutes) : null),
-    [hover]
+    () => (hover ? minutesToTimeLabel(hover.minutes, digits) : null),
+    [hover, digits]
   );
 
   const toMinutes = (ratio: number) => {
@@ -51,9 +56,13 @@ export const TimeRangeSelector = ({
 
   return (
     <div className="space-y-3 rounded-2xl border border-slate-200 bg-white px-4 py-3 shadow-inner">
-      <div className="flex items-center justify-between text-xs font-semibold text-slate-600">
-        <span>ساعت پایان: {displayEnd}</span>
-        <span>ساعت شروع: {displayStart}</span>
+      {/* The slider always runs left to right, so keep the start label on the left. */}
+      <div
+        dir="ltr"
+        className="flex items-center justify-between text-xs font-semibold text-slate-600"
+      >
+        <span dir={dir}>{t("timeRange.start", { time: displayStart })}</span>
+        <span dir={dir}>{t("timeRange.end", { time: displayEnd })}</span>
       </div>
       <Slider.Root
         min={bounds.min}
@@ -93,7 +102,7 @@ export const TimeRangeSelector = ({
           <Slider.Thumb
             key={index}
             className="block h-5 w-5 rounded-full border-2 border-white bg-sky-500 shadow-lg transition hover:bg-sky-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-sky-500"
-            aria-label={index === 0 ? "زمان شروع" : "زمان پایان"}
+            aria-label={index === 0 ? t("timeRange.startLabel") : t("timeRange.endLabel")}
           />
         ))}
       </Slider.Root>
@@ -104,7 +113,7 @@ export const TimeRangeSelector = ({
             className="absolute -translate-x-1/2 text-[11px] text-slate-400"
             style={{ left: `${(hour / 24) * 100}%` }}
           >
-            {toPersianDigits(hour)}
+            {formatDigits(hour, digits)}
           </span>
         ))}
       </div>
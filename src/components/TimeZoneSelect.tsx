@@ -0,0 +1,45 @@
+import { useMemo } from "react";
+import { formatDigits } from "@/lib/format";
+import { formatUtcOffset, listTimeZones } from "@/lib/timezone";
+import type { DigitSystem } from "@/types";
+
+type Props = {
+  value: string;
+  onChange: (timeZone: string) => void;
+  className?: string;
+  digits?: DigitSystem;
+};
+
+export const TimeZoneSelect = ({
+  value,
+  onChange,
+  className,
+  digits = "persian",
+}: Props) => {
+  const options = useMemo(
+    () =>
+      listTimeZones().map((timeZone) => ({
+        value: timeZone,
+        label: `${timeZone} (${formatDigits(formatUtcOffset(timeZone), digits)})`,
+      })),
+    [digits]
+  );
+
+  return (
+    <select
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      dir="ltr"
+      className={
+        className ??
+        "w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm focus:border-emerald-400 focus:outline-none"
+      }
+    >
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+};
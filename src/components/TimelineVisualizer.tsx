@@ -1,8 +1,15 @@
 import { useEffect, useState } from "react";
 import type { PointerEvent as ReactPointerEvent } from "react";
-import { formatJalaliDate, minutesToTimeLabel, toPersianDigits } from "@/lib/format";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  defaultDateDisplay,
+  formatDate,
+  formatDigits,
+  minutesToTimeLabel,
+} from "@/lib/format";
 import type { TimelineByDate, TimelineSegment } from "@/lib/availability";
 import type { ParticipantColorMap } from "@/lib/colors";
+import type { DateDisplay } from "@/types";
 
 const dayMinutes = 24 * 60;
 const markerHours = Array.from({ length: 13 }, (_, index) => index * 2);
@@ -19,11 +26,15 @@ const getSegmentStyle = (segment: TimelineSegment) => {
   };
 };
 
-const toNameList = (participantIds: string[], nameMap: Record<string, string>) =>
+const toNameList = (
+  participantIds: string[],
+  nameMap: Record<string, string>,
+  separator: string
+) =>
   participantIds
     .map((id) => nameMap[id])
     .filter(Boolean)
-    .join("، ");
+    .join(separator);
 
 type TimelineVisualizerProps = {
   timeline: TimelineByDate;
@@ -43,6 +54,8 @@ type TimelineVisualizerProps = {
   editableStep?: number;
   editableMinDuration?: number;
   showLegend?: boolean;
+  timeZoneLabel?: string;
+  dateDisplay?: DateDisplay;
 };
 
 type EditMode = "move" | "resize-start" | "resize-end";
@@ -69,7 +82,7 @@ export const TimelineVisualizer = ({
   nameMap,
   colorMap,
   maxParticipants,
-  emptyMessage = "بازه زمانی انتخاب نشده است.",
+  emptyMessage,
   onSelectSegment,
   onSegmentChange,
   editableParticipantIds,
@@ -77,7 +90,10 @@ export const TimelineVisualizer = ({
   editableStep = 15,
   editableMinDuration = 15,
   showLegend = true,
+  timeZoneLabel,
+  dateDisplay = defaultDateDisplay,
 }: TimelineVisualizerProps) => {
+  const { t, dir } = useI18n();
   const entries = Object.entries(timeline).sort(([a], [b]) => a.localeCompare(b));
   const [dragState, setDragState] = useState<DragState | null>(null);
   const [justDragged, setJustDragged] = useState(false);
@@ -204,7 +220,7 @@ export const TimelineVisualizer = ({
   if (!entries.length) {
     return (
       <div className="rounded-3xl border border-slate-200 bg-white/60 p-6 text-sm text-slate-500 shadow-sm">
-        {emptyMessage}
+        {emptyMessage ?? t("timeline.empty")}
       </div>
     );
   }
@@ -257,11 +273,16 @@ export const TimelineVisualizer = ({
 
   return (
     <div className="space-y-6">
+      {timeZoneLabel ? (
+        <p className="text-[11px] text-slate-400" dir="ltr">
+          {timeZoneLabel}
+        </p>
+      ) : null}
       {entries.map(([date, segments]) => (
         <div key={date} className="space-y-3">
           <div className="flex flex-wrap items-center gap-3">
             <h3 className="text-sm font-semibold text-slate-700">
-              {formatJalaliDate(date)}
+              {formatDate(date, dateDisplay)}
             </h3>
             <div className="relative min-w-0 flex-1">
               <div className="relative h-5">
@@ -271,7 +292,7 @@ export const TimelineVisualizer = ({
                     className="absolute top-0 -translate-x-1/2 text-[11px] text-slate-400"
                     style={{ left: `${(hour / 24) * 100}%` }}
                   >
-                    {toPersianDigits(hour)}
+                    {formatDigits(hour, dateDisplay.digits)}
                   </span>
                 ))}
               </div>
@@ -308,7 +329,15 @@ export const TimelineVisualizer = ({
                 startMinutes: effectiveStart,
                 endMinutes: effectiveEnd,
               });
-              const names = toNameList(segment.participantIds, nameMap);
+              const names = toNameList(
+                segment.participantIds,
+                nameMap,
+                t("common.listSeparator")
+              );
+              const rangeLabel = t("format.timeRange", {
+                start: minutesToTimeLabel(effectiveStart, dateDisplay.digits),
+                end: minutesToTimeLabel(effectiveEnd, dateDisplay.digits),
+              });
               const participants = segment.participantIds.map((id) => colorMap[id]);
 
               const background = participants.length
@@ -364,11 +393,7 @@ export const TimelineVisualizer = ({
                     opacity,
                     touchAction: canEdit ? "none" : undefined,
                   }}
-                  title={
-                    names
-                      ? `${minutesToTimeLabel(effectiveStart)} تا ${minutesToTimeLabel(effectiveEnd)}\n${names}`
-                      : `${minutesToTimeLabel(effectiveStart)} تا ${minutesToTimeLabel(effectiveEnd)}`
-                  }
+                  title={names ? `${rangeLabel}\n${names}` : rangeLabel}
                   onClick={handleClick}
                   onPointerDown={(event) =>
                     canEdit &&
@@ -381,13 +406,13 @@ export const TimelineVisualizer = ({
                     )
                   }
                 >
-                  <span className="flex w-full flex-col items-center gap-1" dir="rtl">
-                    <span>
-                      {minutesToTimeLabel(effectiveStart)} تا {minutesToTimeLabel(effectiveEnd)}
-                    </span>
+                  <span className="flex w-full flex-col items-center gap-1" dir={dir}>
+                    <span>{rangeLabel}</span>
                     <span className="flex items-center gap-1 text-[10px] text-slate-600">
                       <span className="inline-flex h-2.5 w-2.5 rounded-full bg-white/70" />
-                      {toPersianDigits(participantCount)} نفر
+                      {t("common.people", {
+                        count: formatDigits(participantCount, dateDisplay.digits),
+                      })}
                     </span>
                   </span>
                   {canEdit ? (
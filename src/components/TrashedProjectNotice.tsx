@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useI18n } from "@/components/I18nProvider";
+import { useDateDisplay } from "@/lib/dateDisplay";
+import { formatDate } from "@/lib/format";
+
+type TrashedProjectNoticeProps = {
+  projectId: string;
+  title: string;
+  purgeAt: string;
+};
+
+/** Shown to organizers in place of a project that is in the trash. */
+export const TrashedProjectNotice = ({
+  projectId,
+  title,
+  purgeAt,
+}: TrashedProjectNoticeProps) => {
+  const [busy, setBusy] = useState(false);
+  const router = useRouter();
+  const { locale, t, tError } = useI18n();
+  const [dateDisplay] = useDateDisplay(locale);
+
+  const runAction = async (action: "restore" | "purge") => {
+    if (action === "purge" && !confirm(t("project.trashed.purgeConfirm", { title }))) {
+      return;
+    }
+    setBusy(true);
+    try {
+      const response = await fetch(
+        action === "restore"
+          ? `/api/projects/${projectId}/restore`
+          : `/api/projects/${projectId}?permanent=true`,
+        { method: action === "restore" ? "POST" : "DELETE" }
+      );
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(
+          body?.error ??
+            (action === "restore" ? "project_restore_failed" : "project_delete_failed")
+        );
+      }
+      if (action === "restore") {
+        router.refresh();
+      } else {
+        router.push("/");
+      }
+    } catch (actionError) {
+      console.error(actionError);
+      alert(
+        tError(
+          actionError instanceof Error ? actionError.message : null,
+          action === "restore"
+            ? "errors.project_restore_failed"
+            : "errors.project_delete_failed"
+        )
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4 rounded-3xl border border-rose-200 bg-rose-50/70 p-6 text-sm text-rose-700 shadow-sm">
+      <h1 className="text-lg font-semibold">{t("project.trashed.title", { title })}</h1>
+      <p>
+        {t("project.trashed.description", {
+          date: formatDate(purgeAt, dateDisplay),
+        })}
+      </p>
+      <div className="flex flex-wrap gap-2 text-xs">
+        <button
+          type="button"
+          className="rounded-full border border-emerald-500 bg-emerald-500 px-4 py-2 font-semibold text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-60"
+          disabled={busy}
+          onClick={() => runAction("restore")}
+        >
+          {t("project.trashed.restore")}
+        </button>
+        <button
+          type="button"
+          className="rounded-full border border-rose-200 bg-white px-4 py-2 font-semibold text-rose-600 transition hover:bg-rose-100 disabled:cursor-not-allowed disabled:opacity-60"
+          disabled={busy}
+          onClick={() => runAction("purge")}
+        >
+          {t("project.trashed.purge")}
+        </button>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,146 @@
+import { sha256Hex } from "@/lib/audit";
+import {
+  findActiveInvitee,
+  generateSecret,
+  revokeInviteeSessions,
+  type SessionInvitee,
+} from "@/lib/auth";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import type { AccessLinkFailure } from "@/types";
+
+/** How long a personal sign-in link works after it is created. */
+export const accessLinkLifetimeDays = 30;
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+type AccessLinkRow = {
+  id: string;
+  invitee_id: string;
+  expires_at: string;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  use_count: number;
+  created_at: string;
+};
+
+const hashToken = (token: string) => sha256Hex(Buffer.from(token));
+
+export const buildAccessLinkUrl = (baseUrl: string, projectId: string, token: string) =>
+  `${baseUrl}/api/projects/${projectId}/auth/link?token=${encodeURIComponent(token)}`;
+
+/**
+ * Revokes the invitee's live link, if any, and creates a new one. The
+ * token is only returned here; the database keeps its hash.
+ */
+export const createAccessLink = async (projectId: string, inviteeId: string) => {
+  const supabase = getServiceSupabaseClient();
+  await revokeAccessLink(projectId, inviteeId);
+
+  const token = generateSecret(32);
+  const expiresAt = new Date(Date.now() + accessLinkLifetimeDays * dayMs).toISOString();
+  const { error } = await supabase.from("invitee_access_links").insert({
+    project_id: projectId,
+    invitee_id: inviteeId,
+    token_hash: hashToken(token),
+    expires_at: expiresAt,
+  } as unknown as never);
+  if (error) {
+    throw error;
+  }
+  return { token, expiresAt };
+};
+
+/**
+ * Returns whether there was a live link to revoke. Revoking one also ends
+ * every session of the invitee, including any started through the link.
+ */
+export const revokeAccessLink = async (projectId: string, inviteeId: string) => {
+  const supabase = getServiceSupabaseClient();
+  const { data, error } = await supabase
+    .from("invitee_access_links")
+    .update({ revoked_at: new Date().toISOString() } as unknown as never)
+    .eq("project_id", projectId)
+    .eq("invitee_id", inviteeId)
+    .is("revoked_at", null)
+    .select("id");
+  if (error) {
+    throw error;
+  }
+  const revoked = Boolean((data as Array<{ id: string }> | null)?.length);
+  if (revoked) {
+    await revokeInviteeSessions(projectId, inviteeId);
+  }
+  return revoked;
+};
+
+/** The newest link of each invitee in the project, live or not. */
+export const listAccessLinks = async (projectId: string) => {
+  const supabase = getServiceSupabaseClient();
+  const { data, error } = await supabase
+    .from("invitee_access_links")
+    .select("id, invitee_id, expires_at, revoked_at, last_used_at, use_count, created_at")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false });
+  if (error) {
+    throw error;
+  }
+
+  const latest = new Map<string, AccessLinkRow>();
+  for (const row of (data as AccessLinkRow[] | null) ?? []) {
+    if (!latest.has(row.invitee_id)) latest.set(row.invitee_id, row);
+  }
+  return Array.from(latest.values()).map((row) => ({
+    inviteeId: row.invitee_id,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    lastUsedAt: row.last_used_at,
+    useCount: row.use_count,
+    createdAt: row.created_at,
+  }));
+};
+
+/**
+ * Signs an invitee in with a link token. Failures name the invitee when
+ * the token matched a link, so the attempt can be logged against them.
+ */
+export const redeemAccessLink = async (
+  projectId: string,
+  token: string
+): Promise<
+  | { ok: true; invitee: SessionInvitee }
+  | { ok: false; reason: AccessLinkFailure; invitee?: SessionInvitee }
+> => {
+  const supabase = getServiceSupabaseClient();
+  const { data } = await supabase
+    .from("invitee_access_links")
+    .select("id, invitee_id, expires_at, revoked_at, last_used_at, use_count, created_at")
+    .eq("project_id", projectId)
+    .eq("token_hash", hashToken(token))
+    .maybeSingle();
+
+  const row = data as AccessLinkRow | null;
+  if (!row) {
+    return { ok: false, reason: "invalid" };
+  }
+
+  const invitee = await findActiveInvitee(projectId, row.invitee_id);
+  if (!invitee) {
+    return { ok: false, reason: "invalid" };
+  }
+  if (row.revoked_at) {
+    return { ok: false, reason: "revoked", invitee };
+  }
+  if (new Date(row.expires_at).getTime() <= Date.now()) {
+    return { ok: false, reason: "expired", invitee };
+  }
+
+  await supabase
+    .from("invitee_access_links")
+    .update({
+      last_used_at: new Date().toISOString(),
+      use_count: row.use_count + 1,
+    } as unknown as never)
+    .eq("id", row.id);
+
+  return { ok: true, invitee };
+};
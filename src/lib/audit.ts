@@ -0,0 +1,17 @@
+import { createHash } from "crypto";
+import type { NextRequest } from "next/server";
+
+export const sha256Hex = (bytes: Uint8Array) =>
+  createHash("sha256").update(bytes).digest("hex");
+
+/**
+ * Where a request came from, as far as the server can tell. Behind a proxy
+ * the first `x-forwarded-for` hop is the client.
+ */
+export const getRequestClientInfo = (request: NextRequest) => ({
+  ipAddress:
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    null,
+  userAgent: request.headers.get("user-agent"),
+});
@@ -0,0 +1,427 @@
+import {
+  createHmac,
+  randomBytes,
+  scrypt as scryptCallback,
+  timingSafeEqual,
+} from "crypto";
+import { promisify } from "util";
+import { cookies } from "next/headers";
+import type { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { isInviteeRole, isOrganizerRole } from "@/lib/roles";
+import type { InviteeRole } from "@/types";
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const hashKeyLength = 64;
+const sessionMaxAgeSeconds = 60 * 60 * 24 * 7;
+
+export type InviteeSession = {
+  projectId: string;
+  inviteeId: string;
+  // Cookies issued before session versions existed carry none and count as 0.
+  version?: number;
+  expiresAt: number;
+};
+
+export type SessionInvitee = {
+  id: string;
+  projectId: string;
+  name: string;
+  role: InviteeRole;
+  sessionVersion: number;
+};
+
+type InviteeIdentityRow = {
+  id: string;
+  project_id: string;
+  name: string;
+  role: string | null;
+  session_version: number;
+};
+
+type SessionInviteeRow = InviteeIdentityRow & {
+  projects: { deleted_at: string | null } | null;
+};
+
+type SessionLookupOptions = {
+  // Restoring a project from the trash is the one thing its session allows.
+  includeDeletedProject?: boolean;
+};
+
+type InviteeCredentialRow = InviteeIdentityRow & {
+  password: string | null;
+  password_hash: string | null;
+};
+
+const getSessionSecret = () => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error(
+      "Missing session configuration. Ensure SESSION_SECRET is set."
+    );
+  }
+  return secret;
+};
+
+const getSupabaseJwtSecret = () => {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error(
+      "Missing Supabase configuration. Ensure SUPABASE_JWT_SECRET is set."
+    );
+  }
+  return secret;
+};
+
+const safeEqual = (a: Buffer, b: Buffer) =>
+  a.length === b.length && timingSafeEqual(a, b);
+
+const toSessionInvitee = (row: InviteeIdentityRow): SessionInvitee => ({
+  id: row.id,
+  projectId: row.project_id,
+  name: row.name,
+  role: isInviteeRole(row.role) ? row.role : "participant",
+  sessionVersion: row.session_version ?? 0,
+});
+
+export const generateSecret = (bytes = 18) =>
+  randomBytes(bytes).toString("base64url");
+
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const derived = await scrypt(password, salt, hashKeyLength);
+  return `scrypt$${salt.toString("base64")}$${derived.toString("base64")}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, saltB64, hashB64] = stored.split("$");
+  if (scheme !== "scrypt" || !saltB64 || !hashB64) {
+    return false;
+  }
+  const expected = Buffer.from(hashB64, "base64");
+  const derived = await scrypt(
+    password,
+    Buffer.from(saltB64, "base64"),
+    expected.length
+  );
+  return safeEqual(derived, expected);
+};
+
+export const sessionCookieName = (projectId: string) =>
+  `calfind_session_${projectId}`;
+
+const sign = (value: string) =>
+  createHmac("sha256", getSessionSecret()).update(value).digest("base64url");
+
+type SessionSubject = Pick<SessionInvitee, "id" | "projectId" | "sessionVersion">;
+
+export const createSessionToken = (invitee: SessionSubject) => {
+  const session: InviteeSession = {
+    projectId: invitee.projectId,
+    inviteeId: invitee.id,
+    version: invitee.sessionVersion,
+    expiresAt: Date.now() + sessionMaxAgeSeconds * 1000,
+  };
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+};
+
+export const readSessionToken = (
+  token: string | undefined | null,
+  projectId: string
+): InviteeSession | null => {
+  if (!token) return null;
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+  if (!safeEqual(Buffer.from(signature), Buffer.from(sign(payload)))) {
+    return null;
+  }
+  try {
+    const session = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8")
+    ) as InviteeSession;
+    if (session.projectId !== projectId) return null;
+    if (!session.inviteeId || session.expiresAt < Date.now()) return null;
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+const encodeJwtSegment = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/**
+ * Mints the JWT the browser client sends to Supabase. Row level security
+ * reads `invitee_id` and `project_id` from these claims, so the token is
+ * only issued for an invitee whose session cookie has been verified.
+ */
+export const createSupabaseAccessToken = (invitee: SessionInvitee) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = encodeJwtSegment({ alg: "HS256", typ: "JWT" });
+  const payload = encodeJwtSegment({
+    role: "authenticated",
+    sub: invitee.id,
+    invitee_id: invitee.id,
+    project_id: invitee.projectId,
+    // Row level security only honours the token while this matches the row.
+    session_version: invitee.sessionVersion,
+    iat: issuedAt,
+    exp: issuedAt + sessionMaxAgeSeconds,
+  });
+  const signature = createHmac("sha256", getSupabaseJwtSecret())
+    .update(`${header}.${payload}`)
+    .digest("base64url");
+  return `${header}.${payload}.${signature}`;
+};
+
+export const setSessionCookie = (response: NextResponse, invitee: SessionSubject) => {
+  response.cookies.set(
+    sessionCookieName(invitee.projectId),
+    createSessionToken(invitee),
+    {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: sessionMaxAgeSeconds,
+    }
+  );
+  return response;
+};
+
+export const clearSessionCookie = (
+  response: NextResponse,
+  projectId: string
+) => {
+  response.cookies.set(sessionCookieName(projectId), "", {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 0,
+  });
+  return response;
+};
+
+/** An active invitee of the project, whatever sessions they hold. */
+export const findActiveInvitee = async (
+  projectId: string,
+  inviteeId: string,
+  options: SessionLookupOptions = {}
+): Promise<SessionInvitee | null> => {
+  const supabase = getServiceSupabaseClient();
+  const { data, error } = await supabase
+    .from("project_invitees")
+    .select("id, project_id, name, role, session_version, projects(deleted_at)")
+    .eq("id", inviteeId)
+    .eq("project_id", projectId)
+    .is("removed_at", null)
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  const row = data as SessionInviteeRow;
+  if (row.projects?.deleted_at && !options.includeDeletedProject) return null;
+
+  return toSessionInvitee(row);
+};
+
+export const loadSessionInvitee = async (
+  session: InviteeSession | null,
+  options: SessionLookupOptions = {}
+): Promise<SessionInvitee | null> => {
+  if (!session) return null;
+  const invitee = await findActiveInvitee(session.projectId, session.inviteeId, options);
+  if (!invitee || invitee.sessionVersion !== (session.version ?? 0)) return null;
+  return invitee;
+};
+
+/**
+ * Sets a fresh cookie for the invitee's current session version, for an
+ * organizer who just signed themselves out everywhere.
+ */
+export const reissueSessionCookie = async (
+  response: NextResponse,
+  projectId: string,
+  inviteeId: string
+) => {
+  const invitee = await findActiveInvitee(projectId, inviteeId);
+  return invitee ? setSessionCookie(response, invitee) : response;
+};
+
+/**
+ * Signs the invitee out everywhere: cookies, Supabase JWTs and calendar
+ * feed tokens issued so far stop working. Returns the new version.
+ */
+export const revokeInviteeSessions = async (projectId: string, inviteeId: string) => {
+  const supabase = getServiceSupabaseClient();
+  const { data, error } = await supabase
+    .from("project_invitees")
+    .select("session_version")
+    .eq("id", inviteeId)
+    .eq("project_id", projectId)
+    .single();
+  if (error || !data) {
+    throw error ?? new Error(`Missing invitee: ${inviteeId}`);
+  }
+  const sessionVersion = (data as { session_version: number }).session_version + 1;
+  const { error: updateError } = await supabase
+    .from("project_invitees")
+    .update({ session_version: sessionVersion } as unknown as never)
+    .eq("id", inviteeId);
+  if (updateError) {
+    throw updateError;
+  }
+  return sessionVersion;
+};
+
+export const getSessionInvitee = (
+  request: NextRequest,
+  projectId: string,
+  options?: SessionLookupOptions
+) =>
+  loadSessionInvitee(
+    readSessionToken(
+      request.cookies.get(sessionCookieName(projectId))?.value,
+      projectId
+    ),
+    options
+  );
+
+export const getSessionInviteeFromCookies = async (
+  projectId: string,
+  options?: SessionLookupOptions
+) => {
+  const cookieStore = await cookies();
+  return loadSessionInvitee(
+    readSessionToken(
+      cookieStore.get(sessionCookieName(projectId))?.value,
+      projectId
+    ),
+    options
+  );
+};
+
+/**
+ * Scheduled jobs authenticate with `Authorization: Bearer <CRON_SECRET>`,
+ * which is what Vercel Cron sends. Without the secret every call is refused.
+ */
+export const isAuthorizedJobRequest = (request: NextRequest) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const header = request.headers.get("authorization") ?? "";
+  return safeEqual(Buffer.from(header), Buffer.from(`Bearer ${secret}`));
+};
+
+/**
+ * Calendar apps subscribe without cookies, so feeds accept a long-lived
+ * token bound to one invitee of one project, and to their session version
+ * so that signing them out also ends the subscription.
+ */
+export const createCalendarFeedToken = (invitee: SessionSubject) =>
+  `${invitee.id}.${invitee.sessionVersion}.${sign(
+    `calendar:${invitee.projectId}:${invitee.id}:${invitee.sessionVersion}`
+  )}`;
+
+const readCalendarFeedToken = (
+  token: string,
+  projectId: string
+): InviteeSession | null => {
+  const [inviteeId, version, signature] = token.split(".");
+  if (!inviteeId || !version || !signature) return null;
+  const expected = sign(`calendar:${projectId}:${inviteeId}:${version}`);
+  return safeEqual(Buffer.from(signature), Buffer.from(expected))
+    ? {
+        projectId,
+        inviteeId,
+        version: Number(version),
+        expiresAt: Number.POSITIVE_INFINITY,
+      }
+    : null;
+};
+
+export const getCalendarFeedInvitee = (
+  request: NextRequest,
+  projectId: string
+) => {
+  const token = request.nextUrl.searchParams.get("token");
+  if (!token) {
+    return getSessionInvitee(request, projectId);
+  }
+  return loadSessionInvitee(readCalendarFeedToken(token, projectId));
+};
+
+/**
+ * Checks a login attempt against the stored credentials. Invitees created
+ * before passwords were hashed still carry a plaintext `password`; a
+ * successful login upgrades them to `password_hash` in place.
+ */
+export const verifyInviteeCredentials = async (
+  projectId: string,
+  inviteeId: string,
+  password: string
+): Promise<
+  | { ok: true; invitee: SessionInvitee }
+  | {
+      ok: false;
+      reason: "not_found" | "incorrect_password" | "password_not_set";
+      invitee?: SessionInvitee;
+    }
+> => {
+  const supabase = getServiceSupabaseClient();
+  const { data, error } = await supabase
+    .from("project_invitees")
+    .select("id, project_id, name, role, session_version, password, password_hash")
+    .eq("id", inviteeId)
+    .eq("project_id", projectId)
+    .is("removed_at", null)
+    .maybeSingle();
+
+  if (error || !data) {
+    return { ok: false, reason: "not_found" };
+  }
+
+  const row = data as InviteeCredentialRow;
+  const invitee = toSessionInvitee(row);
+
+  if (row.password_hash) {
+    const valid = await verifyPassword(password, row.password_hash);
+    return valid
+      ? { ok: true, invitee }
+      : { ok: false, reason: "incorrect_password", invitee };
+  }
+
+  const legacyPassword = row.password?.trim();
+  if (legacyPassword) {
+    const valid = safeEqual(
+      Buffer.from(legacyPassword),
+      Buffer.from(password)
+    );
+    if (!valid) {
+      return { ok: false, reason: "incorrect_password", invitee };
+    }
+    const upgrade = {
+      password: null,
+      password_hash: await hashPassword(legacyPassword),
+    };
+    await supabase
+      .from("project_invitees")
+      .update(upgrade as unknown as never)
+      .eq("id", row.id);
+    return { ok: true, invitee };
+  }
+
+  // Participants without a password sign in by name; anyone who can manage
+  // the project needs a password here or has to use their access link.
+  if (isOrganizerRole(invitee.role)) {
+    return { ok: false, reason: "password_not_set", invitee };
+  }
+
+  return { ok: true, invitee };
+};
@@ -1,4 +1,8 @@
-import type { AvailabilitySlot, ParticipantAvailability } from "@/types";
+import type {
+  AvailabilitySlot,
+  FinalizedSlot,
+  ParticipantAvailability,
+} from "@/types";
 
 export type AggregatedSlot = AvailabilitySlot & {
   participantIds: string[];
@@ -19,6 +23,38 @@ const toMinutes = (time: string) => {
   return hours * 60 + minutes;
 };
 
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}$/;
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isIsoDate = (value: unknown): value is string =>
+  typeof value === "string" && isoDatePattern.test(value);
+
+export const isValidSlot = (slot: Partial<AvailabilitySlot> | null | undefined) =>
+  Boolean(
+    slot &&
+      typeof slot.date === "string" &&
+      isoDatePattern.test(slot.date) &&
+      typeof slot.startTime === "string" &&
+      timePattern.test(slot.startTime) &&
+      isWindowTime(slot.endTime) &&
+      toMinutes(slot.endTime) > toMinutes(slot.startTime)
+  );
+
+/** Reads the `projects.finalized_slot` jsonb column. */
+export const toFinalizedSlot = (value: unknown): FinalizedSlot | null => {
+  if (!value || typeof value !== "object") return null;
+  const slot = value as Partial<FinalizedSlot>;
+  if (!isValidSlot(slot)) return null;
+  return {
+    date: slot.date as string,
+    startTime: slot.startTime as string,
+    endTime: slot.endTime as string,
+    location: slot.location ?? null,
+    notes: slot.notes ?? null,
+    finalizedAt: slot.finalizedAt ?? "",
+  };
+};
+
 export const aggregateSlots = (
   responses: ParticipantAvailability[]
 ): AggregatedSlot[] => {
@@ -122,3 +158,235 @@ export const buildTimeline = (
 
   return timeline;
 };
+
+export type MeetingSuggestionOptions = {
+  durationMinutes: number;
+  minParticipants?: number;
+  requiredInviteeIds?: string[];
+  limit?: number;
+};
+
+export type MeetingSuggestion = AvailabilitySlot & {
+  startMinutes: number;
+  endMinutes: number;
+  participantIds: string[];
+  missingRequiredInviteeIds: string[];
+};
+
+const toTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60)
+    .toString()
+    .padStart(2, "0");
+  const mins = (minutes % 60).toString().padStart(2, "0");
+  return `${hours}:${mins}`;
+};
+
+const participantsForWindow = (
+  segments: TimelineSegment[],
+  startMinutes: number,
+  endMinutes: number
+) => {
+  let cursor = startMinutes;
+  let participants: Set<string> | null = null;
+
+  for (const segment of segments) {
+    if (segment.endMinutes <= cursor) continue;
+    if (segment.startMinutes > cursor) return [];
+
+    const current = new Set(segment.participantIds);
+    participants = participants
+      ? new Set<string>(
+          Array.from<string>(participants).filter((id) => current.has(id))
+        )
+      : current;
+
+    if (participants.size === 0) return [];
+
+    cursor = segment.endMinutes;
+    if (cursor >= endMinutes) return Array.from(participants);
+  }
+
+  return [];
+};
+
+/**
+ * Ranks windows of exactly `durationMinutes` in which the most people are
+ * free. Attendance only changes at segment boundaries, so candidates start
+ * at a segment start or end at a segment end. Windows missing a required
+ * invitee are kept but ranked below every window that has all of them.
+ */
+export const suggestMeetingTimes = (
+  responses: ParticipantAvailability[],
+  {
+    durationMinutes,
+    minParticipants = 1,
+    requiredInviteeIds = [],
+    limit = 5,
+  }: MeetingSuggestionOptions
+): MeetingSuggestion[] => {
+  if (durationMinutes <= 0 || durationMinutes > minutesInDay) {
+    return [];
+  }
+
+  const timeline = buildTimeline(responses);
+  const inviteeByResponse = new Map(
+    responses.map((response) => [response.id, response.inviteeId ?? null])
+  );
+  const candidates: MeetingSuggestion[] = [];
+
+  Object.entries(timeline).forEach(([date, segments]) => {
+    const starts = new Set<number>();
+    segments.forEach((segment) => {
+      starts.add(segment.startMinutes);
+      starts.add(segment.endMinutes - durationMinutes);
+    });
+
+    starts.forEach((startMinutes) => {
+      const endMinutes = startMinutes + durationMinutes;
+      if (startMinutes < 0 || endMinutes > minutesInDay) return;
+
+      const participantIds = participantsForWindow(
+        segments,
+        startMinutes,
+        endMinutes
+      );
+      if (participantIds.length < Math.max(1, minParticipants)) return;
+
+      const presentInvitees = new Set(
+        participantIds.map((id) => inviteeByResponse.get(id))
+      );
+
+      candidates.push({
+        date,
+        startTime: toTime(startMinutes),
+        endTime: toTime(endMinutes),
+        startMinutes,
+        endMinutes,
+        participantIds,
+        missingRequiredInviteeIds: requiredInviteeIds.filter(
+          (inviteeId) => !presentInvitees.has(inviteeId)
+        ),
+      });
+    });
+  });
+
+  candidates.sort((a, b) => {
+    if (a.missingRequiredInviteeIds.length !== b.missingRequiredInviteeIds.length) {
+      return a.missingRequiredInviteeIds.length - b.missingRequiredInviteeIds.length;
+    }
+    if (a.participantIds.length !== b.participantIds.length) {
+      return b.participantIds.length - a.participantIds.length;
+    }
+    if (a.date !== b.date) {
+      return a.date.localeCompare(b.date);
+    }
+    return a.startMinutes - b.startMinutes;
+  });
+
+  // Sliding a window inside the same overlap yields the same people, so
+  // only the best-ranked one of each overlapping group is returned.
+  const suggestions: MeetingSuggestion[] = [];
+  for (const candidate of candidates) {
+    if (suggestions.length >= limit) break;
+    const sameGroup = new Set(candidate.participantIds);
+    const duplicate = suggestions.some(
+      (picked) =>
+        picked.date === candidate.date &&
+        picked.startMinutes < candidate.endMinutes &&
+        candidate.startMinutes < picked.endMinutes &&
+        picked.participantIds.length === sameGroup.size &&
+        picked.participantIds.every((id) => sameGroup.has(id))
+    );
+    if (!duplicate) {
+      suggestions.push(candidate);
+    }
+  }
+
+  return suggestions;
+};
+
+/** The dates and hours a project collects availability for. */
+export type AvailabilityWindow = {
+  startDate: string | null;
+  endDate: string | null;
+  startTime: string | null;
+  endTime: string | null;
+};
+
+// A slot or window may end at "24:00", which the time pattern rejects.
+export const isWindowTime = (value: unknown): value is string =>
+  typeof value === "string" && (timePattern.test(value) || value === "24:00");
+
+/** Any bound may be open; those that are set must be well formed and ordered. */
+export const isValidAvailabilityWindow = (window: AvailabilityWindow) =>
+  (window.startDate === null || isIsoDate(window.startDate)) &&
+  (window.endDate === null || isIsoDate(window.endDate)) &&
+  !(window.startDate && window.endDate && window.startDate > window.endDate) &&
+  (window.startTime === null || isWindowTime(window.startTime)) &&
+  (window.endTime === null || isWindowTime(window.endTime)) &&
+  !(window.startTime && window.endTime && window.startTime >= window.endTime);
+
+export type OutOfWindowResponse = {
+  responseId: string;
+  inviteeId: string | null;
+  name: string;
+  slots: AvailabilitySlot[];
+};
+
+/**
+ * The part of a slot inside the window, or null when none of it is. An
+ * end time of "24:00" stands for the end of the day.
+ */
+export const clipSlotToWindow = (
+  slot: AvailabilitySlot,
+  window: AvailabilityWindow
+): AvailabilitySlot | null => {
+  if (window.startDate && slot.date < window.startDate) return null;
+  if (window.endDate && slot.date > window.endDate) return null;
+  const start = Math.max(
+    toMinutes(slot.startTime),
+    window.startTime ? toMinutes(window.startTime) : 0
+  );
+  const end = Math.min(
+    toMinutes(slot.endTime),
+    window.endTime ? toMinutes(window.endTime) : minutesInDay
+  );
+  if (end <= start) return null;
+  return { ...slot, startTime: toTime(start), endTime: toTime(end) };
+};
+
+export const isSlotInWindow = (slot: AvailabilitySlot, window: AvailabilityWindow) => {
+  const clipped = clipSlotToWindow(slot, window);
+  return (
+    clipped !== null &&
+    clipped.startTime === slot.startTime &&
+    clipped.endTime === slot.endTime
+  );
+};
+
+/** Responses with at least one slot that is not fully inside the window. */
+export const findOutOfWindowResponses = (
+  responses: Array<Pick<ParticipantAvailability, "id" | "inviteeId" | "name" | "slots">>,
+  window: AvailabilityWindow
+): OutOfWindowResponse[] =>
+  responses.flatMap((response) => {
+    const slots = response.slots.filter((slot) => !isSlotInWindow(slot, window));
+    return slots.length
+      ? [{ responseId: response.id, inviteeId: response.inviteeId ?? null, name: response.name, slots }]
+      : [];
+  });
+
+/**
+ * Keeps the part of each slot inside the window and drops the rest. Slots
+ * that clip to the same range are merged into one.
+ */
+export const trimSlotsToWindow = (slots: AvailabilitySlot[], window: AvailabilityWindow) => {
+  const trimmed = new Map<string, AvailabilitySlot>();
+  slots.forEach((slot) => {
+    const clipped = clipSlotToWindow(slot, window);
+    if (clipped) {
+      trimmed.set(`${clipped.date}_${clipped.startTime}_${clipped.endTime}`, clipped);
+    }
+  });
+  return Array.from(trimmed.values());
+};
@@ -0,0 +1,158 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import { defaultProjectTimeZone, slotTimeToInstant } from "@/lib/timezone";
+import type {
+  AvailabilitySlot,
+  FinalizedSlot,
+  ParticipantAvailability,
+} from "@/types";
+
+dayjs.extend(utc);
+
+const productId = "-//Calfind//Calfind Calendar//FA";
+const uidDomain = "calfind";
+
+export type CalendarEvent = {
+  uid: string;
+  slot: AvailabilitySlot;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status: "CONFIRMED" | "TENTATIVE";
+  lastModified?: string | null;
+};
+
+type CalendarOptions = {
+  name: string;
+  timeZone?: string;
+  events: CalendarEvent[];
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with
+// a single space. Folding must not split a multi-byte UTF-8 character.
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, "utf8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const formatUtc = (value: dayjs.Dayjs) =>
+  value.utc().format("YYYYMMDD[T]HHmmss[Z]");
+
+const slotToUtc = (date: string, time: string, timeZone: string) =>
+  formatUtc(slotTimeToInstant(date, time, timeZone));
+
+export const buildCalendar = ({
+  name,
+  timeZone = defaultProjectTimeZone,
+  events,
+}: CalendarOptions) => {
+  const stamp = formatUtc(dayjs());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${productId}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+  ];
+
+  events.forEach((event) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${slotToUtc(event.slot.date, event.slot.startTime, timeZone)}`,
+      `DTEND:${slotToUtc(event.slot.date, event.slot.endTime, timeZone)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `STATUS:${event.status}`,
+      `TRANSP:${event.status === "CONFIRMED" ? "OPAQUE" : "TRANSPARENT"}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    if (event.lastModified) {
+      lines.push(`LAST-MODIFIED:${formatUtc(dayjs(event.lastModified))}`);
+    }
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+};
+
+/**
+ * The UID only depends on the project, so calendars that subscribed before
+ * the slot changed update the existing event instead of adding another.
+ */
+export const buildFinalizedMeetingEvent = (
+  project: { id: string; title: string; description?: string | null },
+  finalizedSlot: FinalizedSlot,
+  url?: string | null
+): CalendarEvent => ({
+  uid: `meeting-${project.id}@${uidDomain}`,
+  slot: finalizedSlot,
+  summary: project.title,
+  description:
+    [finalizedSlot.notes, project.description].filter(Boolean).join("\n\n") ||
+    null,
+  location: finalizedSlot.location ?? null,
+  url: url ?? null,
+  status: "CONFIRMED",
+  lastModified: finalizedSlot.finalizedAt || null,
+});
+
+export const buildAvailabilityEvents = (
+  project: { id: string; title: string },
+  responses: ParticipantAvailability[],
+  url?: string | null
+): CalendarEvent[] =>
+  responses.flatMap((response) =>
+    response.slots.map((slot) => ({
+      uid: `availability-${response.id}-${slot.date}-${slot.startTime.replace(":", "")}@${uidDomain}`,
+      slot,
+      summary: `${response.name} – ${project.title}`,
+      url: url ?? null,
+      status: "TENTATIVE" as const,
+    }))
+  );
+
+export const calendarResponse = (body: string, filename: string) =>
+  new Response(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
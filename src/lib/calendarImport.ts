@@ -0,0 +1,479 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import type { AvailabilitySlot } from "@/types";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+type IcsProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+type IcsEvent = IcsProperty[];
+
+type ParsedDate = {
+  value: dayjs.Dayjs;
+  allDay: boolean;
+  timeZone: string;
+};
+
+type BusyInterval = {
+  start: number;
+  end: number;
+};
+
+export type CalendarImportOptions = {
+  startDate?: string | null;
+  endDate?: string | null;
+  startMinutes: number;
+  endMinutes: number;
+  timeZone: string;
+  minDurationMinutes?: number;
+  stepMinutes?: number;
+};
+
+export type CalendarImportResult = {
+  slots: AvailabilitySlot[];
+  busyEventCount: number;
+};
+
+const weekdayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const maxRecurrenceDays = 366 * 20;
+const maxWindowDays = 366;
+const defaultWindowDays = 14;
+
+const unfoldLines = (text: string) =>
+  text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+const parseProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  let separator = -1;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ":" && !inQuotes) {
+      separator = index;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(";");
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  });
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(separator + 1),
+  };
+};
+
+const parseEvents = (text: string): IcsEvent[] => {
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+  let nestedDepth = 0;
+
+  unfoldLines(text).forEach((line) => {
+    const property = parseProperty(line.trim());
+    if (!property) return;
+
+    if (property.name === "BEGIN") {
+      if (property.value.toUpperCase() === "VEVENT") {
+        current = [];
+        nestedDepth = 0;
+      } else if (current) {
+        nestedDepth += 1;
+      }
+      return;
+    }
+
+    if (property.name === "END") {
+      if (property.value.toUpperCase() === "VEVENT" && current) {
+        events.push(current);
+        current = null;
+      } else if (current) {
+        nestedDepth -= 1;
+      }
+      return;
+    }
+
+    if (current && nestedDepth === 0) {
+      current.push(property);
+    }
+  });
+
+  return events;
+};
+
+const isSupportedTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseDateValue = (
+  raw: string,
+  params: Record<string, string>,
+  fallbackTimeZone: string
+): ParsedDate | null => {
+  const match = raw
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utcFlag] = match;
+  const date = `${year}-${month}-${day}`;
+
+  if (!hour || params.VALUE === "DATE") {
+    return {
+      value: dayjs.tz(`${date} 00:00:00`, fallbackTimeZone),
+      allDay: true,
+      timeZone: fallbackTimeZone,
+    };
+  }
+
+  const time = `${hour}:${minute}:${second ?? "00"}`;
+
+  if (utcFlag) {
+    return { value: dayjs.utc(`${date}T${time}Z`), allDay: false, timeZone: "UTC" };
+  }
+
+  // Calendars exported from Outlook sometimes use Windows zone names; those
+  // are read as wall-clock times in the project's zone instead.
+  const timeZone =
+    params.TZID && isSupportedTimeZone(params.TZID)
+      ? params.TZID
+      : fallbackTimeZone;
+
+  return {
+    value: dayjs.tz(`${date} ${time}`, timeZone),
+    allDay: false,
+    timeZone,
+  };
+};
+
+const parseDuration = (raw: string) => {
+  const match = raw
+    .trim()
+    .match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks ?? 0) * 7 * 24 * 3600 +
+    Number(days ?? 0) * 24 * 3600 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0);
+  return (sign === "-" ? -total : total) * 1000;
+};
+
+const parseRule = (raw: string) =>
+  raw.split(";").reduce<Record<string, string>>((acc, part) => {
+    const [key, value] = part.split("=");
+    if (key && value) acc[key.toUpperCase()] = value.toUpperCase();
+    return acc;
+  }, {});
+
+const findProperty = (event: IcsEvent, name: string) =>
+  event.find((property) => property.name === name);
+
+const matchesByDay = (
+  day: dayjs.Dayjs,
+  byDay: string[],
+  scope: "week" | "month"
+) =>
+  byDay.some((entry) => {
+    const match = entry.match(/^([+-]?\d+)?([A-Z]{2})$/);
+    if (!match) return false;
+    const [, ordinalRaw, code] = match;
+    if (weekdayCodes.indexOf(code) !== day.day()) return false;
+    if (!ordinalRaw || scope === "week") return true;
+
+    const ordinal = Number(ordinalRaw);
+    const date = day.date();
+    if (ordinal > 0) {
+      return Math.ceil(date / 7) === ordinal;
+    }
+    const fromEnd = day.daysInMonth() - date;
+    return Math.floor(fromEnd / 7) === -ordinal - 1;
+  });
+
+const matchesByMonthDay = (day: dayjs.Dayjs, byMonthDay: string[]) =>
+  byMonthDay.some((entry) => {
+    const value = Number(entry);
+    return value > 0
+      ? day.date() === value
+      : day.daysInMonth() + value + 1 === day.date();
+  });
+
+const startOfWeek = (day: dayjs.Dayjs, weekStart: number) =>
+  day.subtract((day.day() - weekStart + 7) % 7, "day");
+
+/**
+ * Expands an RRULE into occurrence start dates. Days are walked one at a
+ * time from DTSTART and tested against the rule, which keeps COUNT exact
+ * without a full RFC 5545 iterator; BYSETPOS and sub-daily rules are not
+ * supported.
+ */
+const expandRule = (
+  rule: Record<string, string>,
+  start: ParsedDate,
+  windowEnd: dayjs.Dayjs
+): dayjs.Dayjs[] => {
+  const frequency = rule.FREQ;
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(frequency)) {
+    return [start.value];
+  }
+
+  const interval = Math.max(1, Number(rule.INTERVAL ?? 1));
+  const count = rule.COUNT ? Number(rule.COUNT) : null;
+  const until = rule.UNTIL
+    ? parseDateValue(rule.UNTIL, {}, start.timeZone)?.value ?? null
+    : null;
+  const byDay = rule.BYDAY ? rule.BYDAY.split(",") : [];
+  const byMonthDay = rule.BYMONTHDAY ? rule.BYMONTHDAY.split(",") : [];
+  const byMonth = rule.BYMONTH ? rule.BYMONTH.split(",").map(Number) : [];
+  const weekStart = Math.max(0, weekdayCodes.indexOf(rule.WKST ?? "MO"));
+
+  const local = start.value.tz(start.timeZone);
+  const firstDay = dayjs.utc(local.format("YYYY-MM-DD"));
+  const wallTime = local.format("HH:mm:ss");
+  const occurrences: dayjs.Dayjs[] = [];
+
+  for (let offset = 0; offset < maxRecurrenceDays; offset += 1) {
+    const day = firstDay.add(offset, "day");
+    let matches = false;
+
+    if (frequency === "DAILY") {
+      matches = offset % interval === 0 && (!byDay.length || matchesByDay(day, byDay, "week"));
+    } else if (frequency === "WEEKLY") {
+      const weeks =
+        startOfWeek(day, weekStart).diff(startOfWeek(firstDay, weekStart), "day") / 7;
+      matches =
+        weeks % interval === 0 &&
+        (byDay.length
+          ? matchesByDay(day, byDay, "week")
+          : day.day() === firstDay.day());
+    } else {
+      const months =
+        (day.year() - firstDay.year()) * 12 + (day.month() - firstDay.month());
+      const periodMatches =
+        frequency === "MONTHLY"
+          ? months % interval === 0
+          : (day.year() - firstDay.year()) % interval === 0;
+      const monthMatches = byMonth.length
+        ? byMonth.includes(day.month() + 1)
+        : frequency === "MONTHLY" || day.month() === firstDay.month();
+      const dayMatches = byDay.length
+        ? matchesByDay(day, byDay, "month")
+        : byMonthDay.length
+          ? matchesByMonthDay(day, byMonthDay)
+          : day.date() === firstDay.date();
+      matches = periodMatches && monthMatches && dayMatches;
+    }
+
+    if (!matches) continue;
+
+    const occurrence = start.allDay
+      ? dayjs.tz(`${day.format("YYYY-MM-DD")} 00:00:00`, start.timeZone)
+      : start.timeZone === "UTC"
+        ? dayjs.utc(`${day.format("YYYY-MM-DD")}T${wallTime}Z`)
+        : dayjs.tz(`${day.format("YYYY-MM-DD")} ${wallTime}`, start.timeZone);
+
+    if (until && occurrence.isAfter(until)) break;
+    if (occurrence.isAfter(windowEnd)) break;
+
+    occurrences.push(occurrence);
+    if (count !== null && occurrences.length >= count) break;
+  }
+
+  return occurrences;
+};
+
+const collectBusyIntervals = (
+  events: IcsEvent[],
+  timeZone: string,
+  windowEnd: dayjs.Dayjs
+) => {
+  const overridden = new Map<string, Set<number>>();
+  events.forEach((event) => {
+    const uid = findProperty(event, "UID")?.value;
+    const recurrenceId = findProperty(event, "RECURRENCE-ID");
+    if (!uid || !recurrenceId) return;
+    const parsed = parseDateValue(recurrenceId.value, recurrenceId.params, timeZone);
+    if (!parsed) return;
+    const set = overridden.get(uid) ?? new Set<number>();
+    set.add(parsed.value.valueOf());
+    overridden.set(uid, set);
+  });
+
+  const intervals: BusyInterval[] = [];
+  let busyEventCount = 0;
+
+  events.forEach((event) => {
+    if (findProperty(event, "STATUS")?.value.toUpperCase() === "CANCELLED") return;
+    if (findProperty(event, "TRANSP")?.value.toUpperCase() === "TRANSPARENT") return;
+
+    const startProperty = findProperty(event, "DTSTART");
+    if (!startProperty) return;
+    const start = parseDateValue(startProperty.value, startProperty.params, timeZone);
+    if (!start) return;
+
+    const endProperty = findProperty(event, "DTEND");
+    const durationProperty = findProperty(event, "DURATION");
+    const end = endProperty
+      ? parseDateValue(endProperty.value, endProperty.params, timeZone)
+      : null;
+    const durationMs = end
+      ? end.value.valueOf() - start.value.valueOf()
+      : durationProperty
+        ? parseDuration(durationProperty.value) ?? 0
+        : start.allDay
+          ? 24 * 3600 * 1000
+          : 0;
+    if (durationMs <= 0) return;
+
+    const excluded = new Set<number>();
+    event
+      .filter((property) => property.name === "EXDATE")
+      .forEach((property) => {
+        property.value.split(",").forEach((value) => {
+          const parsed = parseDateValue(value, property.params, timeZone);
+          if (parsed) excluded.add(parsed.value.valueOf());
+        });
+      });
+
+    const uid = findProperty(event, "UID")?.value;
+    const isOverride = Boolean(findProperty(event, "RECURRENCE-ID"));
+    if (uid && !isOverride) {
+      overridden.get(uid)?.forEach((value) => excluded.add(value));
+    }
+
+    const ruleProperty = findProperty(event, "RRULE");
+    const starts =
+      ruleProperty && !isOverride
+        ? expandRule(parseRule(ruleProperty.value), start, windowEnd)
+        : [start.value];
+
+    let counted = false;
+    starts.forEach((occurrence) => {
+      if (excluded.has(occurrence.valueOf())) return;
+      intervals.push({
+        start: occurrence.valueOf(),
+        end: occurrence.valueOf() + durationMs,
+      });
+      counted = true;
+    });
+    if (counted) busyEventCount += 1;
+  });
+
+  return { intervals, busyEventCount };
+};
+
+const minutesOnDate = (instant: number, date: string, timeZone: string) => {
+  const local = dayjs(instant).tz(timeZone);
+  const localDate = local.format("YYYY-MM-DD");
+  if (localDate < date) return 0;
+  if (localDate > date) return 24 * 60;
+  return local.hour() * 60 + local.minute();
+};
+
+const toTime = (minutes: number) =>
+  `${Math.floor(minutes / 60)
+    .toString()
+    .padStart(2, "0")}:${(minutes % 60).toString().padStart(2, "0")}`;
+
+/**
+ * Turns an uploaded .ics file into free slots: every busy VEVENT (with its
+ * RRULE expanded) inside the project's date window is subtracted from the
+ * project's daily time window. Without a date window the next two weeks
+ * are used.
+ */
+export const importFreeSlotsFromCalendar = (
+  text: string,
+  {
+    startDate,
+    endDate,
+    startMinutes,
+    endMinutes,
+    timeZone,
+    minDurationMinutes = 15,
+    stepMinutes = 15,
+  }: CalendarImportOptions
+): CalendarImportResult => {
+  const today = dayjs().tz(timeZone).format("YYYY-MM-DD");
+  const firstDate = dayjs.utc(startDate ?? today);
+  const lastDate = endDate
+    ? dayjs.utc(endDate)
+    : firstDate.add(defaultWindowDays - 1, "day");
+  const totalDays = Math.min(
+    lastDate.diff(firstDate, "day") + 1,
+    maxWindowDays
+  );
+  if (totalDays <= 0) {
+    return { slots: [], busyEventCount: 0 };
+  }
+
+  const windowEnd = dayjs
+    .tz(`${firstDate.add(totalDays, "day").format("YYYY-MM-DD")} 00:00:00`, timeZone);
+  const { intervals, busyEventCount } = collectBusyIntervals(
+    parseEvents(text),
+    timeZone,
+    windowEnd
+  );
+
+  const slots: AvailabilitySlot[] = [];
+
+  for (let offset = 0; offset < totalDays; offset += 1) {
+    const date = firstDate.add(offset, "day").format("YYYY-MM-DD");
+    const dayStart = dayjs.tz(`${date} 00:00:00`, timeZone).valueOf();
+    const nextDayStart = dayjs
+      .tz(`${firstDate.add(offset + 1, "day").format("YYYY-MM-DD")} 00:00:00`, timeZone)
+      .valueOf();
+
+    const busy = intervals
+      .filter((interval) => interval.start < nextDayStart && interval.end > dayStart)
+      .map((interval) => [
+        minutesOnDate(interval.start, date, timeZone),
+        minutesOnDate(interval.end, date, timeZone),
+      ])
+      .sort((a, b) => a[0] - b[0]);
+
+    let cursor = startMinutes;
+    const pushFree = (from: number, to: number) => {
+      const roundedStart = Math.ceil(from / stepMinutes) * stepMinutes;
+      const roundedEnd = Math.floor(to / stepMinutes) * stepMinutes;
+      if (roundedEnd - roundedStart >= minDurationMinutes) {
+        slots.push({
+          date,
+          startTime: toTime(roundedStart),
+          endTime: toTime(roundedEnd),
+        });
+      }
+    };
+
+    busy.forEach(([busyStart, busyEnd]) => {
+      if (busyEnd <= cursor) return;
+      if (busyStart > cursor) {
+        pushFree(cursor, Math.min(busyStart, endMinutes));
+      }
+      cursor = Math.max(cursor, busyEnd);
+    });
+
+    if (cursor < endMinutes) {
+      pushFree(cursor, endMinutes);
+    }
+  }
+
+  return { slots, busyEventCount };
+};
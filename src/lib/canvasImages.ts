@@ -0,0 +1,165 @@
+// Browser-only helpers that draw signature, field and comparison images on a
+// canvas.
+
+export const renderTextImage = (
+  text: string,
+  font: string,
+  size: number,
+  color: string,
+  opacity: number
+) => {
+  const fontSpec = `${size}px ${font}`;
+  const measureCanvas = document.createElement("canvas");
+  const measureCtx = measureCanvas.getContext("2d");
+  if (!measureCtx) return null;
+  measureCtx.font = fontSpec;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(measureCtx.measureText(text).width + size * 0.5, 10);
+  canvas.height = Math.max(size * 1.6, 10);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.font = fontSpec;
+  ctx.fillStyle = color;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.globalAlpha = opacity;
+  ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+  return canvas.toDataURL("image/png");
+};
+
+// The server stretches each image over its whole field, so pad it to the
+// field's aspect ratio first to keep the signature undistorted.
+export const fitImageToAspect = (dataUrl: string, aspect: number) =>
+  new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const width = Math.max(image.width, image.height * aspect);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width);
+      canvas.height = Math.round(width / aspect);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Failed to get canvas context"));
+        return;
+      }
+      ctx.drawImage(
+        image,
+        (canvas.width - image.width) / 2,
+        (canvas.height - image.height) / 2
+      );
+      resolve(canvas.toDataURL("image/png"));
+    };
+    image.onerror = reject;
+    image.src = dataUrl;
+  });
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = url;
+  });
+
+export type ImageDiff = {
+  overlayUrl: string;
+  changedRatio: number;
+  // Fractions of the image, like signature placements.
+  bounds: { x: number; y: number; width: number; height: number } | null;
+};
+
+const maxDiffWidth = 1400;
+const diffThreshold = 48;
+
+/**
+ * Compares two renders of a page pixel by pixel. The overlay shows the newer
+ * render faded with every changed pixel in red; a missing render (a page
+ * only one version has) counts as blank paper.
+ */
+export const diffImages = async (
+  beforeUrl: string | null,
+  afterUrl: string | null
+): Promise<ImageDiff | null> => {
+  const [before, after] = await Promise.all([
+    beforeUrl ? loadImage(beforeUrl) : null,
+    afterUrl ? loadImage(afterUrl) : null,
+  ]);
+  const reference = after ?? before;
+  if (!reference) return null;
+
+  const scale = Math.min(1, maxDiffWidth / reference.width);
+  const width = Math.max(1, Math.round(reference.width * scale));
+  const height = Math.max(1, Math.round(reference.height * scale));
+
+  // Both sides are flattened onto white so transparent PNGs compare like paper.
+  const readPixels = (image: HTMLImageElement | null) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+    if (image) ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  };
+
+  const beforePixels = readPixels(before);
+  const afterPixels = readPixels(after);
+  if (!beforePixels || !afterPixels) return null;
+
+  const output = new ImageData(width, height);
+  let changed = 0;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let index = 0; index < afterPixels.data.length; index += 4) {
+    const delta = Math.max(
+      Math.abs(afterPixels.data[index] - beforePixels.data[index]),
+      Math.abs(afterPixels.data[index + 1] - beforePixels.data[index + 1]),
+      Math.abs(afterPixels.data[index + 2] - beforePixels.data[index + 2])
+    );
+    if (delta > diffThreshold) {
+      changed += 1;
+      const pixel = index / 4;
+      const x = pixel % width;
+      const y = Math.floor(pixel / width);
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+      output.data[index] = 239;
+      output.data[index + 1] = 68;
+      output.data[index + 2] = 68;
+    } else {
+      for (let channel = 0; channel < 3; channel += 1) {
+        output.data[index + channel] = 255 - (255 - afterPixels.data[index + channel]) * 0.3;
+      }
+    }
+    output.data[index + 3] = 255;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.putImageData(output, 0, 0);
+
+  return {
+    overlayUrl: canvas.toDataURL("image/png"),
+    changedRatio: changed / (width * height),
+    bounds:
+      maxX < 0
+        ? null
+        : {
+            x: minX / width,
+            y: minY / height,
+            width: (maxX - minX + 1) / width,
+            height: (maxY - minY + 1) / height,
+          },
+  };
+};
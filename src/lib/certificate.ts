@@ -0,0 +1,424 @@
+import { readFile } from "fs/promises";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, rgb, type PDFFont, type PDFPage, type RGB } from "pdf-lib";
+import sharp from "sharp";
+import { sha256Hex } from "@/lib/audit";
+import {
+  addDocumentVersion,
+  buildMergedPath,
+  canSignDocumentRow,
+  downloadDocumentFile,
+  getCurrentDocumentPath,
+  isCompletedDocument,
+  isSignedRow,
+  type DocumentAccessRow,
+} from "@/lib/documents";
+import { vazirmatnFontPath } from "@/lib/images";
+import { isInviteeRole } from "@/lib/roles";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+
+dayjs.extend(utc);
+
+export type CertificateSigner = {
+  name: string;
+  version: number;
+  signedAt: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  sourceSha256: string | null;
+  sha256: string | null;
+};
+
+export type CertificateDetails = {
+  projectTitle: string;
+  documentName: string;
+  documentId: string;
+  originalSha256: string | null;
+  issuedAt: string;
+  verifyPath: string;
+  signers: CertificateSigner[];
+};
+
+type CompletionDocumentRow = DocumentAccessRow & {
+  file_path: string;
+  file_type: string;
+  current_version: number;
+  document_versions?: Array<{
+    version: number;
+    merged_file_path: string;
+    source_sha256: string | null;
+    sha256: string | null;
+    is_certificate: boolean | null;
+    is_revision: boolean | null;
+  }>;
+  document_signatures?: Array<{
+    invitee_id: string;
+    version: number;
+    status: string;
+    signed_at: string | null;
+    ip_address: string | null;
+    user_agent: string | null;
+  }>;
+  document_signers?: Array<{ invitee_id: string }>;
+};
+
+type InviteeRow = {
+  id: string;
+  name: string;
+  role: string | null;
+  removed_at: string | null;
+};
+
+type CertificateVersionColumns = {
+  is_certificate: boolean;
+};
+
+type CertificateDocumentUpdate = {
+  current_version: number;
+  file_type: string;
+  total_pages: number;
+};
+
+const pageSize: [number, number] = [595.28, 841.89];
+const margin = 48;
+const ink = rgb(0.12, 0.16, 0.23);
+const muted = rgb(0.4, 0.45, 0.52);
+
+const rtlCharacter =
+  /[\u0590-\u05FF\u0600-\u065F\u066A-\u06EF\u06FA-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const arabicScriptCharacter = /[\u0600-\u06FF]/;
+const digitCharacter = /[0-9\u0660-\u0669\u06F0-\u06F9]/;
+const neutralCharacter = /[\s\p{P}\p{S}]/u;
+
+type TextRun = { text: string; rtl: boolean };
+
+const mirroredCharacters: Record<string, string> = {
+  "(": ")",
+  ")": "(",
+  "[": "]",
+  "]": "[",
+  "{": "}",
+  "}": "{",
+  "<": ">",
+  ">": "<",
+  "«": "»",
+  "»": "«",
+};
+
+/**
+ * A small subset of the Unicode bidi algorithm, enough to put Persian names
+ * and titles next to Latin text and digits on one line. Digits follow the
+ * strong character before them; neutrals take the direction of both sides
+ * when they agree and the paragraph's otherwise. Runs come back in visual
+ * order, left to right, with brackets in right-to-left runs mirrored.
+ */
+const toVisualRuns = (text: string, paragraphRtl: boolean) => {
+  const chars = Array.from(text);
+  const classes = chars.map((char) =>
+    digitCharacter.test(char)
+      ? "digit"
+      : rtlCharacter.test(char)
+      ? "rtl"
+      : neutralCharacter.test(char)
+      ? "neutral"
+      : "ltr"
+  );
+
+  let strong = paragraphRtl;
+  const directions = classes.map((type) => {
+    if (type === "rtl" || type === "ltr") strong = type === "rtl";
+    return type === "neutral" ? null : strong;
+  });
+  const nearest = (from: number, step: number) => {
+    for (let index = from; index >= 0 && index < chars.length; index += step) {
+      const direction = directions[index];
+      if (direction !== null) return direction;
+    }
+    return paragraphRtl;
+  };
+  const resolved = directions.map((direction, index) => {
+    if (direction !== null) return direction;
+    const before = nearest(index - 1, -1);
+    return before === nearest(index + 1, 1) ? before : paragraphRtl;
+  });
+
+  // Digits inside right-to-left text still read left to right.
+  const groups: Array<{ rtl: boolean; runs: TextRun[] }> = [];
+  chars.forEach((char, index) => {
+    const rtl = resolved[index];
+    const runRtl = rtl && classes[index] !== "digit";
+    const shaped = runRtl ? mirroredCharacters[char] ?? char : char;
+    let group = groups[groups.length - 1];
+    if (!group || group.rtl !== rtl) {
+      group = { rtl, runs: [] };
+      groups.push(group);
+    }
+    const run = group.runs[group.runs.length - 1];
+    if (run && run.rtl === runRtl) {
+      run.text += shaped;
+    } else {
+      group.runs.push({ text: shaped, rtl: runRtl });
+    }
+  });
+
+  return (paragraphRtl ? groups.reverse() : groups).flatMap((group) =>
+    group.rtl ? group.runs.reverse() : group.runs
+  );
+};
+
+const fitText = (font: PDFFont, text: string, size: number, maxWidth: number) => {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted && font.widthOfTextAtSize(`${fitted}…`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}…`;
+};
+
+const drawLine = (
+  page: PDFPage,
+  font: PDFFont,
+  text: string,
+  options: { y: number; size: number; color: RGB; indent: number; rtl: boolean }
+) => {
+  const maxWidth = pageSize[0] - margin * 2 - options.indent;
+  const runs = toVisualRuns(fitText(font, text, options.size, maxWidth), options.rtl);
+  // pdf-lib lays out each drawText call as one script run and reverses
+  // Arabic-script runs itself, so left-to-right runs holding Persian digits
+  // are drawn a character at a time.
+  const pieces = runs.flatMap((run) =>
+    !run.rtl && arabicScriptCharacter.test(run.text) ? Array.from(run.text) : [run.text]
+  );
+  const widths = pieces.map((piece) => font.widthOfTextAtSize(piece, options.size));
+  const total = widths.reduce((sum, width) => sum + width, 0);
+  let x = options.rtl
+    ? pageSize[0] - margin - options.indent - total
+    : margin + options.indent;
+
+  pieces.forEach((piece, index) => {
+    page.drawText(piece, { x, y: options.y, size: options.size, font, color: options.color });
+    x += widths[index];
+  });
+};
+
+const formatTimestamp = (value: string) =>
+  dayjs(value).utc().format("YYYY-MM-DD HH:mm:ss [UTC]");
+
+const drawCertificate = (
+  pdf: PDFDocument,
+  font: PDFFont,
+  details: CertificateDetails
+) => {
+  let page = pdf.addPage(pageSize);
+  let y = pageSize[1] - margin;
+
+  const line = (
+    text: string,
+    { size = 10, color = ink, indent = 0, gap = 0, rtl = false } = {}
+  ) => {
+    y -= size * 1.6 + gap;
+    if (y < margin) {
+      page = pdf.addPage(pageSize);
+      y = pageSize[1] - margin - size * 1.6;
+    }
+    drawLine(page, font, text, { y, size, color, indent, rtl });
+  };
+
+  line("Certificate of completion", { size: 18 });
+  line("گواهی تکمیل امضا", { size: 14, rtl: true });
+  line(`Project: ${details.projectTitle}`, { gap: 12 });
+  line(`Document: ${details.documentName}`);
+  line(`Document ID: ${details.documentId}`, { color: muted });
+  line(`Issued at: ${formatTimestamp(details.issuedAt)}`, { color: muted });
+  line(`Original SHA-256: ${details.originalSha256 ?? "-"}`, { size: 8, color: muted });
+
+  line("Signers", { size: 13, gap: 14 });
+  details.signers.forEach((signer, index) => {
+    line(`${index + 1}. ${signer.name}`, { size: 11, gap: 6 });
+    line(`Signed at: ${formatTimestamp(signer.signedAt)}  ·  Version ${signer.version}`, {
+      indent: 14,
+    });
+    line(`IP address: ${signer.ipAddress ?? "-"}`, { indent: 14, color: muted });
+    line(`User agent: ${signer.userAgent ?? "-"}`, { size: 8, indent: 14, color: muted });
+    line(`SHA-256 before signing: ${signer.sourceSha256 ?? "-"}`, {
+      size: 8,
+      indent: 14,
+      color: muted,
+    });
+    line(`SHA-256 after signing: ${signer.sha256 ?? "-"}`, {
+      size: 8,
+      indent: 14,
+      color: muted,
+    });
+  });
+
+  line(
+    "Every hash is the SHA-256 of the stored file for that version. The verification endpoint recomputes them:",
+    { size: 8, color: muted, gap: 16 }
+  );
+  line(details.verifyPath, { size: 8, color: muted });
+};
+
+const imageToPdf = async (imageBytes: Uint8Array) => {
+  const png = await sharp(imageBytes).rotate().png().toBuffer();
+  const pdf = await PDFDocument.create();
+  const image = await pdf.embedPng(png);
+  // CSS pixels to points, so the page has the size the browser showed.
+  const { width, height } = image.scale(0.75);
+  pdf.addPage([width, height]).drawImage(image, { x: 0, y: 0, width, height });
+  return pdf;
+};
+
+/**
+ * Adds the certificate pages after the signed document. Image documents are
+ * turned into a PDF first so the certificate can travel with them.
+ */
+export const appendCertificate = async (
+  sourceBytes: Uint8Array,
+  fileType: string,
+  details: CertificateDetails
+) => {
+  const pdf =
+    fileType === "pdf"
+      ? await PDFDocument.load(sourceBytes, { ignoreEncryption: true })
+      : await imageToPdf(sourceBytes);
+  pdf.registerFontkit(fontkit);
+  const font = await pdf.embedFont(await readFile(vazirmatnFontPath), { subset: true });
+  drawCertificate(pdf, font, details);
+  return { bytes: await pdf.save(), pageCount: pdf.getPageCount() };
+};
+
+/**
+ * Once everyone who may sign has signed, appends the certificate to the
+ * current version and stores the result as the final version. Returns the
+ * new version number, or null while signatures are still outstanding.
+ */
+export const issueCompletionCertificate = async (
+  projectId: string,
+  documentId: string
+) => {
+  const supabase = getServiceSupabaseClient();
+
+  const { data: documentRow, error: documentError } = await supabase
+    .from("project_documents")
+    .select(
+      "file_path, file_type, current_version, shared_with_all, document_permissions(invitee_id, can_view, can_edit), document_versions(version, merged_file_path, source_sha256, sha256, is_certificate, is_revision), document_signatures(invitee_id, version, status, signed_at, ip_address, user_agent), document_signers(invitee_id)"
+    )
+    .eq("id", documentId)
+    .eq("project_id", projectId)
+    .single();
+
+  if (documentError || !documentRow) {
+    throw documentError ?? new Error(`Missing document: ${documentId}`);
+  }
+
+  const document = documentRow as CompletionDocumentRow;
+  if (isCompletedDocument(document)) return null;
+
+  const { data: inviteeRows } = await supabase
+    .from("project_invitees")
+    .select("id, name, role, removed_at")
+    .eq("project_id", projectId);
+
+  const invitees = ((inviteeRows as InviteeRow[] | null) ?? []).map(
+    (row) => ({
+      id: row.id,
+      name: row.name,
+      role: isInviteeRole(row.role) ? row.role : ("participant" as const),
+      removed: Boolean(row.removed_at),
+    })
+  );
+  const signatures = (document.document_signatures ?? []).filter(
+    (signature) => isSignedRow(signature) && signature.signed_at
+  );
+  // A signing sequence names exactly who has to sign; otherwise everyone
+  // allowed to sign does. Removed invitees keep their name on the
+  // certificate but are no longer waited for.
+  const sequence = document.document_signers ?? [];
+  const requiredSigners = invitees.filter(
+    (invitee) =>
+      !invitee.removed &&
+      (sequence.length
+        ? sequence.some((signer) => signer.invitee_id === invitee.id)
+        : canSignDocumentRow(document, invitee))
+  );
+
+  if (
+    !requiredSigners.length ||
+    !requiredSigners.every((signer) =>
+      signatures.some((signature) => signature.invitee_id === signer.id)
+    )
+  ) {
+    return null;
+  }
+
+  const versions = document.document_versions ?? [];
+  const findVersion = (version: number) =>
+    versions.find((item) => item.version === version);
+  // A revision restarts signing, so the file everyone signed is the latest
+  // revision rather than the first upload.
+  const originalVersion = versions
+    .filter((item) => item.is_revision)
+    .reduce<number>((latest, item) => Math.max(latest, item.version), 1);
+  const inviteeNames = new Map(invitees.map((invitee) => [invitee.id, invitee.name]));
+
+  const { data: projectRow } = await supabase
+    .from("projects")
+    .select("title")
+    .eq("id", projectId)
+    .single();
+
+  const source = await downloadDocumentFile(getCurrentDocumentPath(document));
+  const { bytes, pageCount } = await appendCertificate(source, document.file_type, {
+    projectTitle: (projectRow as { title: string } | null)?.title ?? "",
+    documentName: document.file_path.split("/").pop() ?? documentId,
+    documentId,
+    originalSha256: findVersion(originalVersion)?.sha256 ?? null,
+    issuedAt: new Date().toISOString(),
+    verifyPath: `/api/projects/${projectId}/documents/${documentId}/verify`,
+    signers: signatures
+      .sort((a, b) => (a.signed_at ?? "").localeCompare(b.signed_at ?? ""))
+      .map((signature) => ({
+        name: inviteeNames.get(signature.invitee_id) ?? "-",
+        version: signature.version,
+        signedAt: signature.signed_at as string,
+        ipAddress: signature.ip_address,
+        userAgent: signature.user_agent,
+        sourceSha256: findVersion(signature.version)?.source_sha256 ?? null,
+        sha256: findVersion(signature.version)?.sha256 ?? null,
+      })),
+  });
+
+  const versionColumns: CertificateVersionColumns = { is_certificate: true };
+
+  // Losing the version number means another writer changed the document
+  // after it was read, so this certificate no longer describes it.
+  const { version: nextVersion } = await addDocumentVersion({
+    documentId,
+    document,
+    buildPath: (version) => buildMergedPath(projectId, documentId, version, "pdf"),
+    build: async () => ({
+      file: Buffer.from(bytes),
+      contentType: "application/pdf",
+      columns: versionColumns,
+      hashes: { source_sha256: sha256Hex(source), sha256: sha256Hex(bytes) },
+    }),
+    retry: false,
+  });
+
+  const updatePayload: CertificateDocumentUpdate = {
+    current_version: nextVersion,
+    file_type: "pdf",
+    total_pages: pageCount,
+  };
+
+  const { error: updateError } = await supabase
+    .from("project_documents")
+    .update(updatePayload as unknown as never)
+    .eq("id", documentId);
+  if (updateError) throw updateError;
+
+  return nextVersion;
+};
@@ -0,0 +1,69 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { defaultDateDisplay, isCalendarSystem, isDigitSystem } from "@/lib/format";
+import type { Locale } from "@/lib/i18n";
+import type { DateDisplay } from "@/types";
+
+const storageKey = "calfind_date_display";
+const listeners = new Set<() => void>();
+
+let cachedRaw: string | null = null;
+let cachedValue: Partial<DateDisplay> = {};
+
+export const getDefaultDateDisplay = (locale: Locale): DateDisplay =>
+  locale === "fa" ? defaultDateDisplay : { calendar: "gregorian", digits: "latin" };
+
+const parseDateDisplay = (raw: string | null): Partial<DateDisplay> => {
+  try {
+    const parsed = JSON.parse(raw ?? "null");
+    return {
+      calendar: isCalendarSystem(parsed?.calendar) ? parsed.calendar : undefined,
+      digits: isDigitSystem(parsed?.digits) ? parsed.digits : undefined,
+    };
+  } catch {
+    return {};
+  }
+};
+
+const getSnapshot = () => {
+  const raw = window.localStorage.getItem(storageKey);
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    cachedValue = parseDateDisplay(raw);
+  }
+  return cachedValue;
+};
+
+const emptySnapshot: Partial<DateDisplay> = {};
+
+const getServerSnapshot = () => emptySnapshot;
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+};
+
+/**
+ * The viewer's calendar and digit preference, kept in localStorage so every
+ * page and tab shares it. Without a stored choice the locale decides.
+ */
+export const useDateDisplay = (locale: Locale) => {
+  const stored = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  const dateDisplay = useMemo(() => {
+    const fallback = getDefaultDateDisplay(locale);
+    return {
+      calendar: stored.calendar ?? fallback.calendar,
+      digits: stored.digits ?? fallback.digits,
+    };
+  }, [locale, stored]);
+
+  const updateDateDisplay = useCallback((next: DateDisplay) => {
+    window.localStorage.setItem(storageKey, JSON.stringify(next));
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  return [dateDisplay, updateDateDisplay] as const;
+};
@@ -1,5 +1,10 @@
 import { getServiceSupabaseClient } from "@/lib/serverSupabase";
-import type { ProjectDocumentWithRelations } from "@/types";
+import { canContribute, isOrganizerRole } from "@/lib/roles";
+import type {
+  InviteeRole,
+  ProjectDocumentWithRelations,
+  SignatureStatus,
+} from "@/types";
 import { randomUUID } from "crypto";
 
 const bucket =
@@ -27,6 +32,28 @@ export const buildDocumentPath = (
   return `${projectId}/${documentId}/original/${cleanName}`;
 };
 
+// Revisions get their own folder so a revision with the same file name
+// doesn't overwrite the original.
+export const buildRevisionPath = (
+  projectId: string,
+  documentId: string,
+  version: number,
+  filename: string
+) => {
+  const cleanName = filename.replace(/[^a-zA-Z0-9._-]/g, "_");
+  return `${projectId}/${documentId}/revisions/v${version}-${cleanName}`;
+};
+
+/** "pdf" or "image" for files the documents section accepts, else null. */
+export const getUploadFileType = (file: File) => {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  if (file.type === "application/pdf" || extension === "pdf") return "pdf";
+  if (file.type.startsWith("image/") || ["png", "jpg", "jpeg"].includes(extension ?? "")) {
+    return "image";
+  }
+  return null;
+};
+
 export const buildMergedPath = (
   projectId: string,
   documentId: string,
@@ -40,6 +67,14 @@ export const buildOverlayPath = (
   inviteeId: string
 ) => `${projectId}/${documentId}/overlays/${inviteeId}-${randomUUID()}.png`;
 
+export const buildSavedSignaturePath = (
+  projectId: string,
+  inviteeId: string,
+  kind: string
+) => `${projectId}/signatures/${inviteeId}/${kind}-${randomUUID()}.png`;
+
+// Every path is unique to one upload, so a clash is a bug or a race and
+// must fail rather than replace a file whose hash is already recorded.
 export const uploadDocumentFile = async (
   path: string,
   file: File | Blob | Buffer,
@@ -47,7 +82,7 @@ export const uploadDocumentFile = async (
 ) => {
   const supabase = getServiceSupabaseClient();
   const { error } = await supabase.storage.from(bucket).upload(path, file, {
-    upsert: true,
+    upsert: false,
     contentType,
   });
   if (error) {
@@ -56,18 +91,267 @@ export const uploadDocumentFile = async (
   return path;
 };
 
-export const removeDocumentFolder = async (
-  projectId: string,
-  documentId: string
+export const downloadDocumentFile = async (path: string) => {
+  const supabase = getServiceSupabaseClient();
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+  if (error || !data) {
+    throw error ?? new Error(`Missing document file: ${path}`);
+  }
+  return new Uint8Array(await data.arrayBuffer());
+};
+
+export const removeDocumentFiles = async (paths: string[]) => {
+  if (!paths.length) return;
+  const supabase = getServiceSupabaseClient();
+  const { error } = await supabase.storage.from(bucket).remove(paths);
+  if (error) {
+    throw error;
+  }
+};
+
+/** Storage path of the file the document's current version points at. */
+export const getCurrentDocumentPath = (row: {
+  file_path: string;
+  current_version: number | null;
+  document_versions?: Array<{ merged_file_path: string; version: number }>;
+}) =>
+  row.document_versions?.find(
+    (version) => version.version === row.current_version
+  )?.merged_file_path ?? row.file_path;
+
+/**
+ * Storage path of a specific version, or of the current one when `version`
+ * is null. Returns null for versions that don't exist.
+ */
+export const getDocumentVersionPath = (
+  row: {
+    file_path: string;
+    current_version: number | null;
+    document_versions?: Array<{ merged_file_path: string; version: number }>;
+  },
+  version: number | null
 ) => {
+  if (version === null) return getCurrentDocumentPath(row);
+  return (
+    row.document_versions?.find((item) => item.version === version)
+      ?.merged_file_path ?? null
+  );
+};
+
+/**
+ * Reads a `?version=` query parameter: null when absent, NaN when it isn't
+ * a positive integer.
+ */
+export const parseVersionParam = (value: string | null) => {
+  if (value === null || value === "") return null;
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : Number.NaN;
+};
+
+/** Versions keep their own file type: the certificate turns images into PDFs. */
+export const getVersionFileType = (path: string) =>
+  path.toLowerCase().endsWith(".pdf") ? "pdf" : "image";
+
+/** A document is complete once its current version carries the certificate. */
+export const isCompletedDocument = (row: {
+  current_version: number | null;
+  document_versions?: Array<{ version: number; is_certificate?: boolean | null }>;
+}) =>
+  Boolean(
+    row.document_versions?.find(
+      (version) => version.version === row.current_version
+    )?.is_certificate
+  );
+
+/** Voided documents stay readable but can no longer be signed or declined. */
+export const isVoidedDocument = (row: { voided_at?: string | null }) =>
+  Boolean(row.voided_at);
+
+export const isSignatureStatus = (value: unknown): value is SignatureStatus =>
+  value === "signed" ||
+  value === "declined" ||
+  value === "voided" ||
+  value === "stale";
+
+/** Declined, voided and stale rows are kept for the record but don't count. */
+export const isSignedRow = (row: { status?: string | null }) =>
+  row.status === "signed";
+
+/**
+ * Versions rolled back past stay in the history, so the next version is
+ * numbered after the highest one ever stored rather than the current one.
+ */
+export const getNextVersionNumber = (row: {
+  current_version: number | null;
+  document_versions?: Array<{ version: number }>;
+}) =>
+  Math.max(
+    row.current_version ?? 1,
+    ...(row.document_versions ?? []).map((version) => version.version)
+  ) + 1;
+
+export type VersionSourceRow = {
+  file_path: string;
+  current_version: number | null;
+  document_versions?: Array<{ merged_file_path: string; version: number }>;
+};
+
+export type VersionFile = {
+  file: File | Blob | Buffer;
+  contentType?: string;
+  // the rest of the document_versions row: author and flags
+  columns: Record<string, unknown>;
+  hashes: { sha256: string; source_sha256?: string };
+};
+
+const versionClaimAttempts = 20;
+const versionClaimDelayMs = 250;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Re-reads the document until the writer that took `takenVersion` has made
+ * it current, or has given it up.
+ */
+const waitForVersion = async (documentId: string, takenVersion: number) => {
+  const supabase = getServiceSupabaseClient();
+  for (let attempt = 0; attempt < versionClaimAttempts; attempt += 1) {
+    const { data, error } = await supabase
+      .from("project_documents")
+      .select("file_path, current_version, document_versions(merged_file_path, version)")
+      .eq("id", documentId)
+      .single();
+    if (error || !data) {
+      throw error ?? new Error(`Missing document: ${documentId}`);
+    }
+    const row = data as VersionSourceRow;
+    const taken = row.document_versions?.some(
+      (version) => version.version === takenVersion
+    );
+    if (!taken || (row.current_version ?? 1) >= takenVersion) return row;
+    await wait(versionClaimDelayMs);
+  }
+  throw new Error(`Version ${takenVersion} of ${documentId} never became current`);
+};
+
+/**
+ * Adds a version to a document without ever replacing another writer's
+ * file. The version row is claimed first, so the unique (document_id,
+ * version) constraint settles parallel writers, and the file goes to a path
+ * only that version uses. The hashes are written once that upload is in,
+ * so they always describe the stored file. A writer that loses the number
+ * waits for the winner to become current and `build`s again from the
+ * re-read row (null on the first try, when the caller's own row is
+ * current); with `retry: false` it gives up instead. The caller still moves
+ * `current_version`.
+ */
+export const addDocumentVersion = async ({
+  documentId,
+  document,
+  buildPath,
+  build,
+  retry = true,
+}: {
+  documentId: string;
+  document: { current_version: number | null; document_versions?: Array<{ version: number }> };
+  buildPath: (version: number) => string;
+  build: (latest: VersionSourceRow | null) => Promise<VersionFile>;
+  retry?: boolean;
+}) => {
+  const supabase = getServiceSupabaseClient();
+  let latest: VersionSourceRow | null = null;
+
+  for (let attempt = 1; ; attempt += 1) {
+    const version = getNextVersionNumber(latest ?? document);
+    const path = buildPath(version);
+    const { file, contentType, columns, hashes } = await build(latest);
+
+    const { error: claimError } = await supabase.from("document_versions").insert({
+      ...columns,
+      document_id: documentId,
+      version,
+      merged_file_path: path,
+    } as unknown as never);
+
+    if (!claimError) {
+      const releaseClaim = () =>
+        supabase
+          .from("document_versions")
+          .delete()
+          .eq("document_id", documentId)
+          .eq("version", version);
+
+      try {
+        await uploadDocumentFile(path, file, contentType);
+      } catch (uploadError) {
+        await releaseClaim();
+        throw uploadError;
+      }
+
+      const { error: hashError } = await supabase
+        .from("document_versions")
+        .update(hashes as unknown as never)
+        .eq("document_id", documentId)
+        .eq("version", version);
+      if (hashError) {
+        await releaseClaim();
+        await removeDocumentFiles([path]).catch(() => undefined);
+        throw hashError;
+      }
+      return { version, path };
+    }
+
+    // 23505: another writer holds this version number.
+    if (!retry || claimError.code !== "23505" || attempt >= versionClaimAttempts) {
+      throw claimError;
+    }
+    latest = await waitForVersion(documentId, version);
+  }
+};
+
+const storagePageSize = 100;
+
+// Storage can't remove a folder, so every file under it is listed page by
+// page; nested folders come back as entries without an id.
+const listStorageFiles = async (folder: string): Promise<string[]> => {
   const supabase = getServiceSupabaseClient();
-  await supabase.storage
-    .from(bucket)
-    .remove([`${projectId}/${documentId}`])
-    .catch(() => undefined);
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += storagePageSize) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(folder, { limit: storagePageSize, offset });
+    if (error) {
+      throw error;
+    }
+    for (const entry of data ?? []) {
+      const path = `${folder}/${entry.name}`;
+      if (entry.id) {
+        paths.push(path);
+      } else {
+        paths.push(...(await listStorageFiles(path)));
+      }
+    }
+    if (!data || data.length < storagePageSize) {
+      return paths;
+    }
+  }
+};
+
+/** Removes every file under `folder` and returns how many there were. */
+export const removeStorageFolder = async (folder: string) => {
+  const paths = await listStorageFiles(folder);
+  for (let index = 0; index < paths.length; index += storagePageSize) {
+    await removeDocumentFiles(paths.slice(index, index + storagePageSize));
+  }
+  return paths.length;
 };
 
+export const removeDocumentFolder = (projectId: string, documentId: string) =>
+  removeStorageFolder(`${projectId}/${documentId}`);
 
+/** Saved signatures live under the project folder too. */
+export const removeProjectFolder = (projectId: string) =>
+  removeStorageFolder(projectId);
 
 export type DocumentNoteReplyRow = {
   id: string;
@@ -97,6 +381,9 @@ export type DocumentQueryRow = {
   current_version: number;
   uploaded_by?: string | null;
   shared_with_all: boolean;
+  voided_at?: string | null;
+  void_reason?: string | null;
+  due_at?: string | null;
   created_at: string;
   document_permissions?: Array<{
     document_id: string;
@@ -105,11 +392,20 @@ export type DocumentQueryRow = {
     can_edit: boolean;
     created_at: string;
   }>;
+  document_signers?: Array<{
+    document_id: string;
+    invitee_id: string;
+    step: number;
+  }>;
   document_versions?: Array<{
     id: string;
     document_id: string;
     version: number;
     merged_file_path: string;
+    sha256?: string | null;
+    is_certificate?: boolean | null;
+    is_revision?: boolean | null;
+    created_by?: string | null;
     created_at: string;
   }>;
   document_signatures?: Array<{
@@ -117,6 +413,12 @@ export type DocumentQueryRow = {
     document_id: string;
     invitee_id: string;
     version: number;
+    status: string;
+    decline_reason: string | null;
+    declined_at: string | null;
+    voided_at: string | null;
+    void_reason: string | null;
+    stale_at?: string | null;
     strokes_json: unknown;
     typed_text: string | null;
     typed_font: string | null;
@@ -140,6 +442,9 @@ export const mapDocumentQueryRow = (
   currentVersion: item.current_version,
   uploadedBy: item.uploaded_by ?? undefined,
   sharedWithAll: item.shared_with_all,
+  voidedAt: item.voided_at ?? null,
+  voidReason: item.void_reason ?? null,
+  dueAt: item.due_at ?? null,
   createdAt: item.created_at,
   permissions:
     item.document_permissions?.map((permission) => ({
@@ -149,12 +454,24 @@ export const mapDocumentQueryRow = (
       canEdit: permission.can_edit,
       createdAt: permission.created_at,
     })) ?? [],
+  signers:
+    item.document_signers
+      ?.map((signer) => ({
+        documentId: signer.document_id,
+        inviteeId: signer.invitee_id,
+        step: signer.step,
+      }))
+      .sort((a, b) => a.step - b.step) ?? [],
   versions:
     item.document_versions?.map((version) => ({
       id: version.id,
       documentId: version.document_id,
       version: version.version,
       mergedFilePath: version.merged_file_path,
+      sha256: version.sha256 ?? null,
+      isCertificate: Boolean(version.is_certificate),
+      isRevision: Boolean(version.is_revision),
+      createdBy: version.created_by ?? null,
       createdAt: version.created_at,
     })) ?? [],
   signatures:
@@ -163,6 +480,12 @@ export const mapDocumentQueryRow = (
       documentId: signature.document_id,
       inviteeId: signature.invitee_id,
       version: signature.version,
+      status: isSignatureStatus(signature.status) ? signature.status : "signed",
+      declineReason: signature.decline_reason,
+      declinedAt: signature.declined_at,
+      voidedAt: signature.voided_at,
+      voidReason: signature.void_reason,
+      staleAt: signature.stale_at ?? null,
       strokesJson: signature.strokes_json,
       typedText: signature.typed_text,
       typedFont: signature.typed_font,
@@ -211,3 +534,44 @@ export const filterDocumentsForInvitee = (
     })
     .map(mapDocumentQueryRow);
 };
+
+export type DocumentAccessRow = {
+  shared_with_all: boolean;
+  document_permissions?: Array<{
+    invitee_id: string;
+    can_view: boolean;
+    can_edit?: boolean;
+  }>;
+};
+
+type DocumentAccessInvitee = {
+  id: string;
+  role: InviteeRole;
+};
+
+export const canViewDocumentRow = (
+  row: DocumentAccessRow,
+  invitee: DocumentAccessInvitee
+) => {
+  if (isOrganizerRole(invitee.role)) return true;
+  if (row.shared_with_all) return true;
+  return (
+    row.document_permissions?.some(
+      (permission) => permission.invitee_id === invitee.id && permission.can_view
+    ) ?? false
+  );
+};
+
+export const canSignDocumentRow = (
+  row: DocumentAccessRow,
+  invitee: DocumentAccessInvitee
+) => {
+  if (!canContribute(invitee.role)) return false;
+  if (row.shared_with_all) return true;
+  return (
+    row.document_permissions?.some(
+      (permission) =>
+        permission.invitee_id === invitee.id && Boolean(permission.can_edit)
+    ) ?? false
+  );
+};
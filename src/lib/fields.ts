@@ -0,0 +1,101 @@
+import { isValidPlacement } from "@/lib/placement";
+import type { DocumentField, DocumentFieldType } from "@/types";
+
+export const documentFieldTypes: DocumentFieldType[] = [
+  "signature",
+  "initials",
+  "date",
+  "text",
+];
+
+export const documentFieldColumns =
+  "id, document_id, invitee_id, field_type, label, page, x, y, width, height, required, value, filled_at";
+
+const maxLabelLength = 80;
+export const maxFieldValueLength = 500;
+
+export const isDocumentFieldType = (value: unknown): value is DocumentFieldType =>
+  documentFieldTypes.includes(value as DocumentFieldType);
+
+/** Signature and initials fields take an image; date and text fields a value. */
+export const isImageField = (fieldType: DocumentFieldType) =>
+  fieldType === "signature" || fieldType === "initials";
+
+export type DocumentFieldInput = Omit<
+  DocumentField,
+  "id" | "documentId" | "value" | "filledAt"
+>;
+
+export type DocumentFieldRow = {
+  id: string;
+  document_id: string;
+  invitee_id: string;
+  field_type: string;
+  label: string | null;
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  required: boolean;
+  value: string | null;
+  filled_at: string | null;
+};
+
+export const mapDocumentFieldRow = (row: DocumentFieldRow): DocumentField => ({
+  id: row.id,
+  documentId: row.document_id,
+  inviteeId: row.invitee_id,
+  fieldType: isDocumentFieldType(row.field_type) ? row.field_type : "signature",
+  label: row.label,
+  page: row.page,
+  x: row.x,
+  y: row.y,
+  width: row.width,
+  height: row.height,
+  required: row.required,
+  value: row.value,
+  filledAt: row.filled_at,
+});
+
+/**
+ * Validates the fields an organizer sends for a document with `pageCount`
+ * pages. Returns null when any of them is malformed.
+ */
+export const normalizeDocumentFields = (
+  value: unknown,
+  pageCount: number
+): DocumentFieldInput[] | null => {
+  if (!Array.isArray(value)) return null;
+  const fields: DocumentFieldInput[] = [];
+
+  for (const entry of value as Array<Record<string, unknown> | null>) {
+    if (
+      !entry ||
+      typeof entry.inviteeId !== "string" ||
+      !isDocumentFieldType(entry.fieldType) ||
+      !Number.isInteger(entry.page) ||
+      (entry.page as number) < 1 ||
+      (entry.page as number) > pageCount ||
+      !isValidPlacement(entry as unknown) ||
+      (entry.label != null && typeof entry.label !== "string")
+    ) {
+      return null;
+    }
+
+    const label = typeof entry.label === "string" ? entry.label.trim() : "";
+    fields.push({
+      inviteeId: entry.inviteeId,
+      fieldType: entry.fieldType,
+      label: label ? label.slice(0, maxLabelLength) : null,
+      page: entry.page as number,
+      x: entry.x as number,
+      y: entry.y as number,
+      width: entry.width as number,
+      height: entry.height as number,
+      required: entry.required !== false,
+    });
+  }
+
+  return fields;
+};
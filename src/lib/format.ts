@@ -1,8 +1,34 @@
 import dayjs from "dayjs";
 import jalaliday from "jalaliday";
+import DateObject from "react-date-object";
+import arabic from "react-date-object/calendars/arabic";
+import gregorian from "react-date-object/calendars/gregorian";
+import persian from "react-date-object/calendars/persian";
+import arabic_en from "react-date-object/locales/arabic_en";
+import arabic_fa from "react-date-object/locales/arabic_fa";
+import gregorian_en from "react-date-object/locales/gregorian_en";
+import gregorian_fa from "react-date-object/locales/gregorian_fa";
+import persian_en from "react-date-object/locales/persian_en";
+import persian_fa from "react-date-object/locales/persian_fa";
+import { createTranslator, defaultLocale, type Translate } from "@/lib/i18n";
+import { convertSlot } from "@/lib/timezone";
+import type { CalendarSystem, DateDisplay, DigitSystem } from "@/types";
 
 dayjs.extend(jalaliday);
 
+export const defaultDateDisplay: DateDisplay = {
+  calendar: "jalali",
+  digits: "persian",
+};
+
+export const calendarSystems: CalendarSystem[] = ["jalali", "gregorian", "hijri"];
+
+export const isCalendarSystem = (value: unknown): value is CalendarSystem =>
+  value === "jalali" || value === "gregorian" || value === "hijri";
+
+export const isDigitSystem = (value: unknown): value is DigitSystem =>
+  value === "persian" || value === "latin";
+
 export const toPersianDigits = (value: string | number) => {
   const str = String(value);
   const persianDigits = ["۰", "۱", "۲", "۳", "۴", "۵", "۶", "۷", "۸", "۹"];
@@ -10,27 +36,98 @@ export const toPersianDigits = (value: string | number) => {
   return str.replace(/\d/g, (digit) => persianDigits[Number(digit)]);
 };
 
-export const formatJalaliDate = (isoDate: string) => {
-  const formatted = dayjs(isoDate)
-    .calendar("jalali")
-    .locale("fa")
-    .format("YYYY/MM/DD");
-  return toPersianDigits(formatted);
+export const formatDigits = (
+  value: string | number,
+  digits: DigitSystem = defaultDateDisplay.digits
+) => (digits === "latin" ? String(value) : toPersianDigits(value));
+
+/**
+ * Calendar and locale for `react-multi-date-picker`. The Hijri labels use
+ * the same tabular calendar so picker and text never disagree by a day.
+ */
+export const getPickerCalendar = (display: DateDisplay = defaultDateDisplay) => {
+  const latin = display.digits === "latin";
+  switch (display.calendar) {
+    case "gregorian":
+      return { calendar: gregorian, locale: latin ? gregorian_en : gregorian_fa };
+    case "hijri":
+      return { calendar: arabic, locale: latin ? arabic_en : arabic_fa };
+    default:
+      return { calendar: persian, locale: latin ? persian_en : persian_fa };
+  }
 };
 
-export const formatTime = (time: string) => toPersianDigits(time);
+export const formatDate = (
+  isoDate: string,
+  display: DateDisplay = defaultDateDisplay
+) => {
+  const day = dayjs(isoDate);
+  let formatted: string;
+  switch (display.calendar) {
+    case "gregorian":
+      formatted = day.format("YYYY/MM/DD");
+      break;
+    case "hijri":
+      formatted = new DateObject({
+        date: day.format("YYYY-MM-DD"),
+        format: "YYYY-MM-DD",
+      })
+        .convert(arabic, arabic_en)
+        .format("YYYY/MM/DD");
+      break;
+    default:
+      formatted = day.calendar("jalali").locale("fa").format("YYYY/MM/DD");
+  }
+  return formatDigits(formatted, display.digits);
+};
 
-export const formatSlotLabel = (date: string, startTime: string, endTime: string) => {
-  return `${formatJalaliDate(date)} - ${formatTime(startTime)} تا ${formatTime(endTime)}`;
+export const formatJalaliDate = (isoDate: string) =>
+  formatDate(isoDate, defaultDateDisplay);
+
+export const formatTime = (time: string, digits?: DigitSystem) =>
+  formatDigits(time, digits);
+
+/**
+ * Pass `zones` to show a slot stored in one zone in another; a slot that
+ * crosses midnight there is labelled with both dates.
+ */
+export const formatSlotLabel = (
+  date: string,
+  startTime: string,
+  endTime: string,
+  options?: {
+    zones?: { from: string; to: string };
+    display?: DateDisplay;
+    t?: Translate;
+  }
+) => {
+  const slot = { date, startTime, endTime };
+  const zones = options?.zones;
+  const display = options?.display ?? defaultDateDisplay;
+  const t = options?.t ?? createTranslator(defaultLocale);
+  const pieces = zones ? convertSlot(slot, zones.from, zones.to) : [slot];
+  const first = pieces[0] ?? slot;
+  const last = pieces[pieces.length - 1] ?? slot;
+  const start = formatTime(first.startTime, display.digits);
+  const end = formatTime(last.endTime, display.digits);
+
+  if (first.date === last.date) {
+    return t("format.slot", { date: formatDate(first.date, display), start, end });
+  }
+
+  return t("format.slotAcrossDays", {
+    startDate: formatDate(first.date, display),
+    start,
+    endDate: formatDate(last.date, display),
+    end,
+  });
 };
 
-export const minutesToTimeLabel = (minutes: number) => {
+export const minutesToTimeLabel = (minutes: number, digits?: DigitSystem) => {
   const clamped = Math.max(0, Math.min(minutes, 24 * 60));
   const hours = Math.floor(clamped / 60)
     .toString()
     .padStart(2, "0");
   const mins = (clamped % 60).toString().padStart(2, "0");
-  return toPersianDigits(`${hours}:${mins}`);
+  return formatDigits(`${hours}:${mins}`, digits);
 };
-
-
@@ -0,0 +1,54 @@
+import { en } from "@/lib/messages/en";
+import { fa } from "@/lib/messages/fa";
+
+export type Locale = "fa" | "en";
+
+export type MessageKey = keyof typeof fa;
+
+export type Messages = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const locales: Locale[] = ["fa", "en"];
+
+export const defaultLocale: Locale = "fa";
+
+export const localeCookieName = "calfind_locale";
+
+const catalogs: Record<Locale, Messages> = { fa, en };
+
+export const isLocale = (value: unknown): value is Locale =>
+  value === "fa" || value === "en";
+
+export const resolveLocale = (value: unknown): Locale =>
+  isLocale(value) ? value : defaultLocale;
+
+export const getDirection = (locale: Locale) => (locale === "fa" ? "rtl" : "ltr");
+
+export const isMessageKey = (value: string): value is MessageKey => value in fa;
+
+export const createTranslator = (locale: Locale): Translate => {
+  const messages = catalogs[locale];
+  return (key, params) => {
+    const template = messages[key] ?? fa[key] ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    );
+  };
+};
+
+/**
+ * API routes answer with `{ error: "<code>" }`; the client looks the code up
+ * under `errors.*` and falls back when the code is unknown or missing.
+ */
+export const translateApiError = (
+  t: Translate,
+  code: unknown,
+  fallback: MessageKey
+) => {
+  const key = `errors.${String(code)}`;
+  return typeof code === "string" && isMessageKey(key) ? t(key) : t(fallback);
+};
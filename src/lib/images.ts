@@ -0,0 +1,104 @@
+import path from "path";
+import sharp from "sharp";
+import type { SignaturePlacement } from "@/lib/placement";
+
+// Vazirmatn covers both Persian and Latin, so names in either script render.
+export const vazirmatnFontPath = path.join(
+  process.cwd(),
+  "node_modules/vazirmatn/fonts/ttf/Vazirmatn-Regular.ttf"
+);
+
+const fieldTextColor = "#0f172a";
+const fieldTextPadding = 12;
+
+const pngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export const isPngImage = (bytes: Uint8Array) =>
+  pngSignature.every((byte, index) => bytes[index] === byte);
+
+/** The image's size as browsers show it, with its EXIF orientation applied. */
+export const getImageSize = async (imageBytes: Uint8Array) => {
+  const metadata = await sharp(imageBytes).metadata();
+  const turned = (metadata.orientation ?? 1) >= 5;
+  return turned
+    ? { width: metadata.height, height: metadata.width }
+    : { width: metadata.width, height: metadata.height };
+};
+
+const escapeMarkup = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Writes a date or text field value in Vazirmatn and pads it to the field's
+ * aspect ratio (width / height), since stamps are stretched over the whole
+ * field. Pango shapes the Persian letters and orders mixed-direction text.
+ */
+export const renderFieldTextImage = async (text: string, aspect: number) => {
+  const { data, info } = await sharp({
+    text: {
+      text: `<span foreground="${fieldTextColor}">${escapeMarkup(text)}</span>`,
+      font: "Vazirmatn 48",
+      fontfile: vazirmatnFontPath,
+      rgba: true,
+      dpi: 72,
+    },
+  })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  const width = Math.round(
+    Math.max(
+      info.width + fieldTextPadding * 2,
+      (info.height + fieldTextPadding * 2) * aspect
+    )
+  );
+  const height = Math.max(info.height, Math.round(width / aspect));
+  const left = Math.floor((width - info.width) / 2);
+  const top = Math.floor((height - info.height) / 2);
+
+  return sharp(data)
+    .extend({
+      left,
+      right: width - info.width - left,
+      top,
+      bottom: height - info.height - top,
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    })
+    .png()
+    .toBuffer();
+};
+
+/**
+ * Draws the signature over an image document and returns a PNG. EXIF
+ * orientation is applied first so the box lines up with what the signer's
+ * browser displayed.
+ */
+export const stampSignatureOnImage = async (
+  imageBytes: Uint8Array,
+  signaturePng: Uint8Array,
+  placement: SignaturePlacement
+) => {
+  const { width: imageWidth, height: imageHeight } = await getImageSize(imageBytes);
+
+  const left = Math.min(Math.round(placement.x * imageWidth), imageWidth - 1);
+  const top = Math.min(Math.round(placement.y * imageHeight), imageHeight - 1);
+  const width = Math.max(
+    1,
+    Math.min(Math.round(placement.width * imageWidth), imageWidth - left)
+  );
+  const height = Math.max(
+    1,
+    Math.min(Math.round(placement.height * imageHeight), imageHeight - top)
+  );
+
+  const signature = await sharp(signaturePng)
+    .resize(width, height, { fit: "fill" })
+    .png()
+    .toBuffer();
+
+  return sharp(imageBytes)
+    .rotate()
+    .composite([{ input: signature, left, top }])
+    .png()
+    .toBuffer();
+};
@@ -0,0 +1,212 @@
+import { issueCompletionCertificate } from "@/lib/certificate";
+import {
+  isCompletedDocument,
+  isSignedRow,
+  isVoidedDocument,
+  removeDocumentFiles,
+} from "@/lib/documents";
+import { isInviteeRole } from "@/lib/roles";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import {
+  getCurrentSigningStep,
+  getSignersOnTurn,
+  type SigningStep,
+} from "@/lib/signingOrder";
+import type { ProjectInvitee } from "@/types";
+
+export const projectInviteeColumns =
+  "id, project_id, name, role, password, password_hash, email, removed_at, created_at";
+
+export type ProjectInviteeRow = {
+  id: string;
+  project_id: string;
+  name: string;
+  role: string | null;
+  password: string | null;
+  password_hash: string | null;
+  email: string | null;
+  removed_at: string | null;
+  created_at: string;
+};
+
+export const mapProjectInviteeRow = (row: ProjectInviteeRow): ProjectInvitee => ({
+  id: row.id,
+  projectId: row.project_id,
+  name: row.name,
+  role: isInviteeRole(row.role) ? row.role : "participant",
+  hasPassword: Boolean(row.password_hash || row.password?.trim()),
+  hasEmail: Boolean(row.email),
+  createdAt: row.created_at,
+});
+
+type RemovalDocumentRow = {
+  id: string;
+  file_path: string;
+  current_version: number | null;
+  voided_at: string | null;
+  document_versions?: Array<{ version: number; is_certificate: boolean | null }>;
+  document_signers?: Array<{ invitee_id: string; step: number }>;
+  document_signatures?: Array<{ invitee_id: string; status: string | null }>;
+};
+
+export type InviteeRemoval = {
+  // Someone who signed, declined or had a signature voided keeps their
+  // row, marked removed, so the audit trail still names them.
+  kept: boolean;
+  turnChanges: Array<{
+    documentId: string;
+    documentName: string;
+    step: number;
+    inviteeIds: string[];
+  }>;
+  completedDocuments: Array<{ documentId: string; version: number }>;
+};
+
+/** "admin" is the organizer account's sign-in name and nobody else's. */
+export const isReservedInviteeName = (name: string) =>
+  name.trim().toLowerCase() === "admin";
+
+/** Whether an active invitee of the project already uses the name. */
+export const isInviteeNameTaken = async (
+  projectId: string,
+  name: string,
+  exceptInviteeId?: string
+) => {
+  const supabase = getServiceSupabaseClient();
+  const { data } = await supabase
+    .from("project_invitees")
+    .select("id")
+    .eq("project_id", projectId)
+    .eq("name", name)
+    .is("removed_at", null);
+  return ((data as Array<{ id: string }> | null) ?? []).some(
+    (row) => row.id !== exceptInviteeId
+  );
+};
+
+/**
+ * Takes an invitee out of the project. Their availability, document access,
+ * open fields, sign-in links and saved signatures are deleted outright
+ * rather than left to the cascades, because a row kept for its signatures
+ * would otherwise keep them too. Documents they were holding up move on:
+ * the next signing step opens and finished documents get their certificate.
+ */
+export const removeInvitee = async (
+  projectId: string,
+  inviteeId: string
+): Promise<InviteeRemoval> => {
+  const supabase = getServiceSupabaseClient();
+
+  const { data: documentRows, error: documentsError } = await supabase
+    .from("project_documents")
+    .select(
+      "id, file_path, current_version, voided_at, document_versions(version, is_certificate), document_signers(invitee_id, step), document_signatures(invitee_id, status)"
+    )
+    .eq("project_id", projectId)
+    .is("deleted_at", null);
+  if (documentsError) {
+    throw documentsError;
+  }
+  const openDocuments = ((documentRows as RemovalDocumentRow[] | null) ?? []).filter(
+    (document) => !isVoidedDocument(document) && !isCompletedDocument(document)
+  );
+
+  const { count: signatureCount, error: countError } = await supabase
+    .from("document_signatures")
+    .select("id", { count: "exact", head: true })
+    .eq("invitee_id", inviteeId);
+  if (countError) {
+    throw countError;
+  }
+
+  const cleanups = await Promise.all([
+    supabase
+      .from("availability_responses")
+      .delete()
+      .eq("project_id", projectId)
+      .eq("invitee_id", inviteeId),
+    supabase.from("document_permissions").delete().eq("invitee_id", inviteeId),
+    supabase.from("document_signers").delete().eq("invitee_id", inviteeId),
+    supabase
+      .from("document_fields")
+      .delete()
+      .eq("invitee_id", inviteeId)
+      .is("filled_at", null),
+    supabase.from("invitee_access_links").delete().eq("invitee_id", inviteeId),
+  ]);
+  const cleanupError = cleanups.find((result) => result.error)?.error;
+  if (cleanupError) {
+    throw cleanupError;
+  }
+
+  const { data: savedSignatures, error: savedError } = await supabase
+    .from("invitee_signatures")
+    .delete()
+    .eq("invitee_id", inviteeId)
+    .select("image_path");
+  if (savedError) {
+    throw savedError;
+  }
+  await removeDocumentFiles(
+    ((savedSignatures as Array<{ image_path: string }> | null) ?? []).map(
+      (row) => row.image_path
+    )
+  ).catch((removeError) => {
+    console.error("saved signature cleanup error", removeError);
+  });
+
+  const kept = Boolean(signatureCount);
+  const { error: inviteeError } = kept
+    ? await supabase
+        .from("project_invitees")
+        .update({
+          removed_at: new Date().toISOString(),
+          password: null,
+          password_hash: null,
+          email: null,
+        } as unknown as never)
+        .eq("id", inviteeId)
+    : await supabase.from("project_invitees").delete().eq("id", inviteeId);
+  if (inviteeError) {
+    throw inviteeError;
+  }
+
+  const turnChanges: InviteeRemoval["turnChanges"] = [];
+  for (const document of openDocuments) {
+    const signersBefore: SigningStep[] = (document.document_signers ?? []).map(
+      (signer) => ({ inviteeId: signer.invitee_id, step: signer.step })
+    );
+    if (!signersBefore.some((signer) => signer.inviteeId === inviteeId)) continue;
+    const signersAfter = signersBefore.filter((signer) => signer.inviteeId !== inviteeId);
+    const signedInviteeIds = (document.document_signatures ?? [])
+      .filter(isSignedRow)
+      .map((signature) => signature.invitee_id);
+    const previousStep = getCurrentSigningStep(signersBefore, signedInviteeIds);
+    const nextStep = getCurrentSigningStep(signersAfter, signedInviteeIds);
+    if (nextStep !== null && nextStep !== previousStep) {
+      turnChanges.push({
+        documentId: document.id,
+        documentName: document.file_path.split("/").pop() ?? document.id,
+        step: nextStep,
+        inviteeIds: getSignersOnTurn(signersAfter, signedInviteeIds),
+      });
+    }
+  }
+
+  // The invitee is already gone at this point, so a failed certificate is
+  // only logged; the next signature on the document retries it.
+  const completedDocuments: InviteeRemoval["completedDocuments"] = [];
+  for (const document of openDocuments) {
+    const version = await issueCompletionCertificate(projectId, document.id).catch(
+      (error) => {
+        console.error("certificate issue error", error);
+        return null;
+      }
+    );
+    if (version) {
+      completedDocuments.push({ documentId: document.id, version });
+    }
+  }
+
+  return { kept, turnChanges, completedDocuments };
+};
@@ -11,15 +11,45 @@ type ActivityLogInsertPayload = {
 
 export type ActivityAction =
   | "project_created"
+  | "project_updated"
   | "availability_saved"
   | "document_uploaded"
   | "document_downloaded"
   | "document_viewed"
   | "document_signed"
+  | "document_completed"
+  | "signing_turn_advanced"
+  | "document_fields_placed"
+  | "document_declined"
+  | "signature_voided"
+  | "document_voided"
+  | "document_revised"
+  | "document_deleted"
+  | "document_restored"
+  | "document_purged"
+  | "project_deleted"
+  | "project_restored"
+  | "reminder_sent"
   | "note_added"
   | "note_replied"
   | "login_success"
-  | "login_failed";
+  | "login_failed"
+  | "access_link_created"
+  | "access_link_revoked"
+  | "access_link_used"
+  | "access_link_rejected"
+  | "invitee_added"
+  | "invitee_updated"
+  | "invitee_password_reset"
+  | "invitee_removed"
+  | "meeting_finalized";
+
+// The only actions the database lets an invitee insert themselves; see the
+// "invitees can insert own activity logs" policy.
+export type ClientActivityAction = Extract<
+  ActivityAction,
+  "availability_saved" | "document_downloaded"
+>;
 
 export type ActivityDetails = {
   summary: string;
@@ -36,7 +66,13 @@ export type LogPayload = {
 
 export const logClientActivity = async (
   supabase: SupabaseClient,
-  { projectId, inviteeId = null, actorName = null, action, details }: LogPayload
+  {
+    projectId,
+    inviteeId = null,
+    actorName = null,
+    action,
+    details,
+  }: LogPayload & { action: ClientActivityAction }
 ) => {
   try {
     const payload: ActivityLogInsertPayload = {
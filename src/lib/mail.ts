@@ -0,0 +1,117 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { sendSmtpMessage, type SmtpConfig } from "@/lib/smtp";
+
+export type MailMessage = {
+  to: string;
+  toName?: string | null;
+  subject: string;
+  text: string;
+};
+
+export type MailTransport = {
+  name: string;
+  // Whether messages actually reach the recipient rather than a local file.
+  delivers: boolean;
+  send: (message: MailMessage) => Promise<void>;
+};
+
+const defaultFrom = "CalFind <no-reply@localhost>";
+
+const emailPattern = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export const isEmailAddress = (value: unknown): value is string =>
+  typeof value === "string" && value.length <= 254 && emailPattern.test(value);
+
+/** `Name <address>` or a bare address, as MAIL_FROM may hold either. */
+const extractAddress = (mailbox: string) =>
+  mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+
+// Non-ASCII header text becomes RFC 2047 encoded words, short enough to
+// stay within the 75-character limit even for Persian text.
+const encodeHeader = (value: string) => {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const characters = Array.from(value);
+  const words: string[] = [];
+  for (let index = 0; index < characters.length; index += 12) {
+    const chunk = characters.slice(index, index + 12).join("");
+    words.push(`=?UTF-8?B?${Buffer.from(chunk).toString("base64")}?=`);
+  }
+  return words.join("\r\n ");
+};
+
+const wrapBase64 = (value: string) =>
+  (Buffer.from(value).toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+
+/** Renders a plain-text message as an .eml file. */
+export const buildEml = (message: MailMessage, from: string, date = new Date()) =>
+  [
+    `From: ${from}`,
+    `To: ${message.toName ? `${encodeHeader(message.toName)} <${message.to}>` : message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${extractAddress(from).split("@")[1] ?? "localhost"}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(message.text),
+    "",
+  ].join("\r\n");
+
+export const createSmtpTransport = (config: SmtpConfig, from: string): MailTransport => ({
+  name: "smtp",
+  delivers: true,
+  send: async (message) => {
+    await sendSmtpMessage(
+      config,
+      { from: extractAddress(from), to: message.to },
+      buildEml(message, from)
+    );
+  },
+});
+
+// Development stand-in: each message is written as an .eml file that any
+// mail client can open.
+export const createOutboxTransport = (directory: string, from: string): MailTransport => ({
+  name: "outbox",
+  delivers: false,
+  send: async (message) => {
+    await mkdir(directory, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    await writeFile(
+      path.join(directory, `${stamp}-${randomUUID().slice(0, 8)}.eml`),
+      buildEml(message, from)
+    );
+  },
+});
+
+/**
+ * SMTP when SMTP_HOST is configured (or MAIL_TRANSPORT=smtp), otherwise the
+ * .eml outbox under MAIL_OUTBOX_DIR.
+ */
+export const getMailTransport = (): MailTransport => {
+  const from = process.env.MAIL_FROM || defaultFrom;
+  const transport =
+    process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "outbox");
+
+  if (transport === "smtp") {
+    const secure = process.env.SMTP_SECURE === "true";
+    return createSmtpTransport(
+      {
+        host: process.env.SMTP_HOST ?? "localhost",
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+      },
+      from
+    );
+  }
+
+  return createOutboxTransport(
+    process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), ".outbox", "mail"),
+    from
+  );
+};
@@ -0,0 +1,659 @@
+import type { Messages } from "@/lib/i18n";
+
+export const en: Messages = {
+  // Common
+  "common.appName": "Calfind",
+  "common.listSeparator": ", ",
+  "common.people": "{count} people",
+  "common.minutes": "{count} min",
+  "common.remove": "Remove",
+  "common.genericError": "Something went wrong. Please try again.",
+  "common.copyFailed": "Could not copy automatically. Please copy it by hand.",
+  "common.unknown": "Unknown",
+  "common.system": "System",
+  "common.saving": "Saving...",
+  "common.cancel": "Cancel",
+
+  // Locale
+  "locale.switch": "فارسی",
+
+  // Layout
+  "meta.title": "Calfind | Find a time together",
+  "meta.description": "Find a time that works for your group, in the calendar you use",
+  "layout.copyright": "All rights reserved by Soheil Tavakolpour.",
+
+  // Home page
+  "home.title": "The simple way to find a shared time for your group",
+  "home.intro": "Create a dedicated link, share it with your group and see in real time which slots work for everyone. Jalali, Gregorian and Hijri calendars are all supported.",
+  "home.createTitle": "Create a new project",
+  "home.createDescription": "Once the project is created you get a link. Everyone who opens it picks their free times, and the result syncs for everybody instantly.",
+  "home.whyTitle": "Why Calfind?",
+  "home.why.calendars": "Full support for the Jalali calendar and Persian",
+  "home.why.realtime": "Real-time updates for every member",
+  "home.why.heatmap": "Colour-coded popular slots and head counts",
+  "home.why.audience": "Great for teams, classes and family plans",
+
+  // API error codes
+  "errors.access_denied": "You don't have access to this.",
+  "errors.auth_required": "Please sign in to the project first.",
+  "errors.calendar_export_failed": "Could not build the calendar file.",
+  "errors.calendar_forbidden": "You don't have access to this invitee's calendar.",
+  "errors.document_create_failed": "Could not save the document.",
+  "errors.document_not_found": "Document not found.",
+  "errors.document_permissions_failed": "Could not save the document permissions.",
+  "errors.document_update_failed": "Could not update the document.",
+  "errors.document_upload_failed": "Could not upload the document.",
+  "errors.document_version_store_failed": "Could not save the document version.",
+  "errors.documents_fetch_failed": "Could not load the documents.",
+  "errors.download_link_failed": "Could not create the download link.",
+  "errors.file_missing": "No file was uploaded.",
+  "errors.file_type_unsupported": "Unsupported file type. Upload a PDF or an image.",
+  "errors.finalize_clear_failed": "Could not clear the final time.",
+  "errors.finalize_failed": "Could not save the final time.",
+  "errors.invalid_password": "Incorrect password.",
+  "errors.invalid_payload": "The request is invalid.",
+  "errors.invitee_not_found": "Invitee not found.",
+  "errors.invitee_required": "Please choose your name.",
+  "errors.invitees_create_failed": "Could not save the invitees.",
+  "errors.login_failed": "Sign-in failed.",
+  "errors.metadata_invalid": "The document metadata is invalid.",
+  "errors.due_date_invalid": "The deadline is not a valid date.",
+  "errors.project_window_invalid": "The date or time range is not valid; the start must come before the end.",
+  "errors.availability_outside_window": "Some saved availability falls outside the new range.",
+  "errors.availability_trim_failed": "The settings were saved, but not every slot outside the range could be trimmed.",
+  "errors.project_update_failed": "Could not save the project settings.",
+  "errors.invitee_email_invalid": "One of the invitee email addresses is not valid.",
+  "errors.access_link_invalid": "This sign-in link is not valid. Pick your name below or ask the organizer for a new link.",
+  "errors.access_link_expired": "This sign-in link has expired. Ask the organizer for a new one.",
+  "errors.access_link_revoked": "This sign-in link has been revoked. Ask the organizer for a new one.",
+  "errors.access_link_forbidden": "Only the organizer can manage their own sign-in link.",
+  "errors.access_link_not_found": "This invitee has no active sign-in link.",
+  "errors.access_link_create_failed": "Could not create the sign-in link.",
+  "errors.access_link_revoke_failed": "Could not revoke the sign-in link.",
+  "errors.access_links_fetch_failed": "Could not load the sign-in links.",
+  "errors.invitee_name_missing": "Enter the invitee's name.",
+  "errors.invitee_name_reserved": "The name admin is reserved.",
+  "errors.invitee_name_taken": "Someone in the project already has this name.",
+  "errors.invitee_role_invalid": "This invitee cannot be given that role.",
+  "errors.invitee_password_required": "Organizers and co-organizers need a password.",
+  "errors.invitee_password_not_set": "This account has no password; sign in with your access link.",
+  "errors.invitee_forbidden": "Only the organizer can change their own account.",
+  "errors.invitee_remove_forbidden": "The organizer cannot be removed from the project.",
+  "errors.invitee_remove_self": "You cannot remove yourself from the project.",
+  "errors.invitee_create_failed": "Could not add the invitee.",
+  "errors.invitee_update_failed": "Could not save the invitee's changes.",
+  "errors.invitee_remove_failed": "Could not remove the invitee.",
+  "errors.metadata_missing": "The document metadata is missing.",
+  "errors.note_create_failed": "Could not save the note.",
+  "errors.note_forbidden": "You are not allowed to add notes to this document.",
+  "errors.note_invalid": "The note is incomplete.",
+  "errors.note_not_found": "Note not found.",
+  "errors.organizer_only": "Only organizers can do this.",
+  "errors.project_create_failed": "Could not create the project.",
+  "errors.project_fields_missing": "The project title or invitee list is missing.",
+  "errors.project_not_found": "Project not found.",
+  "errors.reply_create_failed": "Could not save the reply.",
+  "errors.reply_forbidden": "You are not allowed to reply to this note.",
+  "errors.reply_invalid": "The reply is incomplete.",
+  "errors.sign_forbidden": "You are not allowed to sign this document.",
+  "errors.document_completed": "This document is complete and can no longer be signed.",
+  "errors.signing_order_invalid": "The signing order is invalid; only invitees allowed to sign can be added.",
+  "errors.document_signers_failed": "Failed to save the signing order.",
+  "errors.not_a_signer": "You are not part of this document's signing order.",
+  "errors.signing_out_of_turn": "It is not your turn to sign yet.",
+  "errors.field_forbidden": "This field isn't assigned to you.",
+  "errors.fields_incomplete": "Fill in all of your required fields.",
+  "errors.field_date_invalid": "That date isn't valid.",
+  "errors.fields_locked": "Fields can't be changed once the first signature is in.",
+  "errors.document_fields_invalid": "The fields are invalid; each must fit on its page and belong to one of the signers.",
+  "errors.document_fields_failed": "Failed to save the document's fields.",
+  "errors.saved_signatures_fetch_failed": "Failed to load your saved signatures.",
+  "errors.saved_signature_store_failed": "Failed to save the signature.",
+  "errors.saved_signature_delete_failed": "Failed to delete the saved signature.",
+  "errors.document_voided": "This document has been voided and can no longer be signed.",
+  "errors.already_signed": "You have already signed this document.",
+  "errors.decline_reason_missing": "Give a reason for declining.",
+  "errors.document_decline_failed": "Failed to record the decline.",
+  "errors.signature_not_found": "That signature doesn't exist or was already voided.",
+  "errors.void_version_invalid": "Choose a version from before the voided signature.",
+  "errors.document_void_failed": "Failed to void.",
+  "errors.document_revision_failed": "Failed to upload the revision.",
+  "errors.document_delete_failed": "Failed to delete the document.",
+  "errors.document_restore_failed": "Failed to restore the document.",
+  "errors.document_not_in_trash": "This document is not in the trash.",
+  "errors.project_delete_failed": "Failed to delete the project.",
+  "errors.project_restore_failed": "Failed to restore the project.",
+  "errors.project_not_in_trash": "This project is not in the trash.",
+  "errors.document_version_not_found": "That version of the document doesn't exist.",
+  "errors.document_versions_failed": "Failed to load the document's versions.",
+  "errors.document_verify_failed": "Could not verify the document.",
+  "errors.signature_missing": "The signature is missing.",
+  "errors.signature_record_failed": "Could not record the signature.",
+  "errors.signature_store_failed": "Could not store the signature.",
+  "errors.signed_document_store_failed": "Could not store the signed document.",
+  "errors.signature_image_invalid": "The signature image is invalid.",
+  "errors.slot_invalid": "The selected date or time is invalid.",
+  "errors.pdf_merge_failed": "Could not add the signature to the PDF.",
+  "errors.image_merge_failed": "Could not add the signature to the image.",
+  "errors.signature_placement_invalid": "The signature position is outside the document's pages.",
+
+  // Roles
+  "roles.organizer": "Organizer",
+  "roles.co_organizer": "Co-organizer",
+  "roles.participant": "Participant",
+  "roles.viewer": "Viewer",
+
+  // Dates and calendars
+  "format.slot": "{date}, {start} – {end}",
+  "format.slotAcrossDays": "{startDate}, {start} – {endDate}, {end}",
+  "format.timeRange": "{start} – {end}",
+  "calendar.jalali": "Jalali",
+  "calendar.gregorian": "Gregorian",
+  "calendar.hijri": "Hijri",
+  "calendar.option": "{name} calendar",
+  "digits.toLatin": "Latin digits (123)",
+  "digits.toPersian": "Persian digits (۱۲۳)",
+
+  // Timeline
+  "timeline.empty": "No time slot selected.",
+
+  // Time range selector
+  "timeRange.start": "Start: {time}",
+  "timeRange.end": "End: {time}",
+  "timeRange.startLabel": "Start time",
+  "timeRange.endLabel": "End time",
+
+  // Availability summary
+  "summary.empty": "Nobody has shared their free time yet. Hang tight for your group's replies.",
+  "summary.participantCount": "Participants: {count}",
+  "summary.timelineEmpty": "There are no slots to show yet.",
+
+  // Meeting suggestions
+  "suggestions.title": "Top {count} meeting options",
+  "suggestions.description": "Ranked by required attendees, head count and the earliest date.",
+  "suggestions.duration": "Meeting length",
+  "suggestions.minParticipants": "Minimum attendees",
+  "suggestions.required": "Required attendees",
+  "suggestions.attendance": "{count} of {total} people",
+  "suggestions.missingRequired": "Missing required:",
+  "suggestions.finalize": "Pick as the final time",
+  "suggestions.empty": "No slot matches this length and head count.",
+
+  // Availability form
+  "availability.locked": "The meeting time is final, so your slots can no longer be edited.",
+  "availability.pickDates": "Pick dates",
+  "availability.pickDatesPlaceholder": "Choose from the allowed dates",
+  "availability.clearSelection": "Clear",
+  "availability.allowedDatesHint": "Only the dates set by the organizer can be picked.",
+  "availability.timeRange": "Time range",
+  "availability.timeRangeFor": "Adjusting the range for {date}",
+  "availability.timeRangeHint": "Pick a date first to adjust its range.",
+  "availability.addSlot": "Add this range to the selected dates",
+  "availability.importCalendar": "Import free time from a calendar file (.ics)",
+  "availability.yourSlots": "Your slots",
+  "availability.slotCount": "{count} slots added",
+  "availability.saved": "Your times are saved and visible to the other members.",
+  "availability.submit": "Save my times",
+  "availability.info.prefilled": "Range picked. Choose a date and press add.",
+  "availability.info.slotAdded": "Slot added.",
+  "availability.info.slotsAdded": "Slots added.",
+  "availability.info.imported": "Read {events} events from the calendar and suggested {slots} free slots. Review them before saving.",
+  "availability.info.editing": "Slot loaded for editing.",
+  "availability.info.moved": "Slot moved.",
+  "availability.info.startAdjusted": "Start time adjusted.",
+  "availability.info.endAdjusted": "End time adjusted.",
+  "availability.error.duplicate": "This slot is already added or outside the allowed range.",
+  "availability.error.importEmpty": "No free time in this calendar falls inside the project's window.",
+  "availability.error.importFailed": "Could not read the calendar file.",
+  "availability.error.noDates": "Pick at least one date first.",
+  "availability.error.endBeforeStart": "The end time must be after the start time ({date})",
+  "availability.error.outsideWindow": "Pick times inside the allowed window ({date})",
+  "availability.error.noValidSlot": "Pick a valid time range first.",
+  "availability.error.noSlots": "Add at least one slot.",
+  "availability.error.outsideProjectWindow": "Some slots fall outside the allowed window in the project's time zone.",
+  "availability.error.saveFailed": "Saving failed. Please try again.",
+
+  // Create project form
+  "createProject.title": "Project title",
+  "createProject.titlePlaceholder": "e.g. “Content team planning”",
+  "createProject.description": "Description (optional)",
+  "createProject.descriptionPlaceholder": "Add meeting details or extra notes.",
+  "createProject.dateRange": "Allowed dates ({calendar})",
+  "createProject.dateRangePlaceholder": "From which date to which date?",
+  "createProject.dateRangeHint": "Availability can only be added within this range.",
+  "createProject.availabilityDueDate": "Availability deadline (optional)",
+  "createProject.availabilityDueDateHint": "Invitees who haven't added their times are reminded as this date approaches.",
+  "createProject.dueDatePlaceholder": "No deadline",
+  "createProject.timeRange": "Allowed hours",
+  "createProject.timeZone": "Project time zone",
+  "createProject.timeZoneHint": "The dates and hours above are in this zone; each invitee can view the times in their local zone.",
+  "createProject.inviteeName": "Invitee name",
+  "createProject.inviteeNamePlaceholder": "e.g. “Sara Naseri”",
+  "createProject.inviteePassword": "Password (optional)",
+  "createProject.inviteePasswordPlaceholder": "If the invitee needs protection",
+  "createProject.inviteeEmail": "Email (optional)",
+  "createProject.inviteeEmailPlaceholder": "For notifications",
+  "createProject.inviteeRole": "Role",
+  "createProject.addInvitee": "Add invitee",
+  "createProject.hasPassword": "password set",
+  "createProject.noPassword": "no password",
+  "createProject.documents": "Documents to sign",
+  "createProject.documentsHint": "Upload PDFs or images and choose who can access them.",
+  "createProject.chooseFiles": "Choose files",
+  "createProject.fileSize": "Size: {size} MB",
+  "createProject.fileType": "Type: {type}",
+  "createProject.fileTypeUnknown": "unknown",
+  "createProject.shareWithAll": "Share with every invitee",
+  "createProject.permissionsHint": "Access per invitee:",
+  "createProject.canView": "View",
+  "createProject.canEdit": "Sign / edit",
+  "createProject.sharedWithAllHint": "Every invitee can view and sign this document.",
+  "createProject.signInOrder": "Sign in order",
+  "createProject.signInOrderHint": "Pick a signing step for each invitee; invitees on the same step sign in parallel.",
+  "createProject.documentDueDate": "Signing deadline (optional)",
+  "createProject.documentDueDateHint": "Signers whose turn it is and who haven't signed are reminded as the deadline approaches.",
+  "createProject.signingStep": "Step {step}",
+  "createProject.signingStepNone": "Not signing",
+  "createProject.noDocuments": "No files added yet.",
+  "createProject.submitting": "Creating link...",
+  "createProject.submit": "Create invite link",
+  "createProject.shareReady": "Your invite link is ready:",
+  "createProject.copyLink": "Copy link",
+  "createProject.shareHint": "Only send the link to the listed invitees. Each person signs in with their own name.",
+  "createProject.accessLinks": "Personal sign-in links:",
+  "createProject.accessLinksHint": "Each link signs its owner in without picking a name or typing a password, and expires after 30 days. If a link leaks, revoke or replace it from the project page.",
+  "createProject.adminCredentials": "Organizer sign-in:",
+  "createProject.adminUsername": "Username:",
+  "createProject.adminPassword": "Password:",
+  "createProject.adminHint": "Keep these details for the organizer only.",
+  "createProject.error.titleTooShort": "The title must be at least three characters",
+  "createProject.error.invalidInput": "Invalid input",
+  "createProject.error.inviteeNameMissing": "Enter the invitee's name.",
+  "createProject.error.inviteeNameReserved": "The name \"admin\" is reserved.",
+  "createProject.error.inviteeDuplicate": "This name is already on the list.",
+  "createProject.error.inviteeEmailInvalid": "Enter a valid email address.",
+  "createProject.error.dateRangeMissing": "Pick the allowed date range.",
+  "createProject.error.inviteesMissing": "Add at least one invitee.",
+
+  // Activity log
+  "activity.project_created": "Project created",
+  "activity.project_updated": "Project settings edited",
+  "activity.availability_saved": "Availability saved",
+  "activity.document_uploaded": "Document uploaded",
+  "activity.document_downloaded": "Document downloaded",
+  "activity.document_viewed": "Document viewed",
+  "activity.document_signed": "Document signed",
+  "activity.document_completed": "Certificate of completion issued",
+  "activity.document_declined": "Signing declined",
+  "activity.signature_voided": "Signature voided",
+  "activity.document_voided": "Document voided",
+  "activity.document_revised": "Revision uploaded",
+  "activity.document_deleted": "Document moved to trash",
+  "activity.document_restored": "Document restored",
+  "activity.document_purged": "Document permanently deleted",
+  "activity.project_deleted": "Project moved to trash",
+  "activity.project_restored": "Project restored",
+  "activity.reminder_sent": "Deadline reminder sent",
+  "reminders.subject": "Reminder: {project}",
+  "reminders.availability": "You haven't added your free times yet; they are due by {date}.",
+  "reminders.document": "\"{name}\" is waiting for your signature; it is due by {date}.",
+  "email.greeting": "Hi {name},",
+  "email.link": "Continue here: {url}",
+  "email.invited.subject": "You're invited to {project}",
+  "email.invited.body": "You have been invited to {project}. Use the link below to add your free times and see the project's documents; the organizer will give you your password.",
+  "email.documentShared.subject": "New document in {project}",
+  "email.documentShared.body": "{document} has been shared with you in {project}.",
+  "email.signingTurn.subject": "Your turn to sign: {document}",
+  "email.signingTurn.body": "It's your turn to sign {document} in {project}.",
+  "email.noteMention.subject": "{author} mentioned you in a note",
+  "email.noteMention.body": "{author} mentioned you in a note on {document}:",
+  "email.meetingFinalized.subject": "{project}: the meeting time is set",
+  "email.meetingFinalized.body": "The {project} meeting takes place on {date} from {start} to {end} ({timeZone}).",
+  "email.meetingFinalized.location": "Location: {location}",
+  "activity.signing_turn_advanced": "Signing moved to the next step",
+  "activity.document_fields_placed": "Signature fields placed",
+  "activity.note_added": "Note added",
+  "activity.note_replied": "Note replied to",
+  "activity.login_success": "Signed in",
+  "activity.login_failed": "Failed sign-in",
+  "activity.access_link_created": "Personal sign-in link created",
+  "activity.access_link_revoked": "Personal sign-in link revoked",
+  "activity.access_link_used": "Signed in with a personal link",
+  "activity.access_link_rejected": "Personal sign-in link rejected",
+  "activity.invitee_added": "Invitee added",
+  "activity.invitee_updated": "Invitee details edited",
+  "activity.invitee_password_reset": "Invitee password reset",
+  "activity.invitee_removed": "Invitee removed from the project",
+  "activity.meeting_finalized": "Meeting time finalized",
+
+  // Project page
+  "project.header.eyebrow": "Project link",
+  "project.header.createdAt": "Created: {date}",
+  "project.header.dateRange": "Allowed dates: {start} to {end}",
+  "project.header.timeRange": "Allowed hours: {start} to {end}",
+  "project.header.timeZone": "Project time zone:",
+  "project.header.responseCount": "Responses: {count}",
+  "project.header.displayTimeZone": "Show times in:",
+  "project.header.step1": "1. Pick your name from the invitee list and enter the password if there is one.",
+  "project.header.step2": "2. Only the dates and hours allowed by the organizer can be picked.",
+  "project.header.step3": "3. You can come back with the same name and password to update your slots at any time.",
+  "project.welcome": "Welcome, {name}! Update your times in the section below.",
+  "project.logout": "Sign out",
+  "project.delete": "Delete project",
+  "project.editSettings": "Edit project",
+  "project.deleteConfirm": "Move \"{title}\" to the trash? You can restore it until it is purged, and other members lose access until then.",
+  "project.trashed.title": "\"{title}\" is in the trash",
+  "project.trashed.description": "Members can no longer open this project, and it will be permanently deleted on {date} unless you restore it.",
+  "project.trashed.restore": "Restore project",
+  "project.trashed.purge": "Delete permanently",
+  "project.trashed.purgeConfirm": "Permanently delete \"{title}\" with all its documents and files? This cannot be undone.",
+  "project.auth.title": "Invitee sign-in",
+  "project.auth.pickName": "Pick your name",
+  "project.auth.pickNamePlaceholder": "Choose a name...",
+  "project.auth.password": "Password",
+  "project.auth.passwordPlaceholder": "The password set by the organizer",
+  "project.auth.submit": "Continue",
+  "project.auth.nameMissing": "Please pick your name.",
+  "project.finalize.done": "Meeting time is final:",
+  "project.finalize.location": "Location: {location}",
+  "project.finalize.clear": "Cancel final time",
+  "project.finalize.confirmClear": "Cancel the final time and reopen availability?",
+  "project.finalize.title": "Finalize",
+  "project.finalize.locationPlaceholder": "Location or meeting link (optional)",
+  "project.finalize.notesPlaceholder": "Notes (optional)",
+  "project.finalize.confirm": "Confirm and notify everyone",
+  "project.calendar.label": "Calendar:",
+  "project.calendar.addMeeting": "Add meeting to calendar",
+  "project.calendar.download": "Download calendar file",
+  "project.calendar.allAvailability": "All proposed slots",
+  "project.calendar.mine": "Only my slots",
+  "project.calendar.copied": "Link copied",
+  "project.calendar.copyFeed": "Copy calendar feed link",
+  "project.calendar.feedPrompt": "Calendar feed link:",
+  "project.progress.title": "Your progress",
+  "project.progress.step.auth": "Sign in",
+  "project.progress.step.availability": "My times",
+  "project.progress.step.signature": "Signature",
+  "project.progress.noDocuments": "No documents need your signature.",
+  "project.progress.allSigned": "All your documents are signed.",
+  "project.progress.unsigned": "Unsigned: {count} of {total}",
+  "project.progress.waitingOn": "{document}: waiting for {names} to sign",
+  "project.documents.title": "Documents awaiting signature",
+  "project.documents.currentVersion": "Current version: {version}",
+  "project.documents.signedAt": "Signed on {date}",
+  "project.documents.notSigned": "Not signed yet",
+  "project.documents.download": "Download",
+  "project.documents.sign": "Sign online",
+  "project.documents.placeFields": "Place fields",
+  "project.documents.uploadRevision": "Upload revision",
+  "project.documents.delete": "Delete",
+  "project.documents.deleteConfirm": "Move \"{name}\" to the trash? It can be restored until it is purged.",
+  "project.documents.revising": "Uploading...",
+  "project.documents.reviseConfirm": "Uploading a new revision makes current signatures and declines stale, and signers will be asked to sign again. Notes and permissions are kept. Continue?",
+  "project.documents.versions": "Versions",
+  "project.documents.hideVersions": "Hide versions",
+  "project.documents.versionsLoading": "Loading versions...",
+  "project.documents.versionEntry": "Version {version} – {author} – {date}",
+  "project.documents.versionCertificate": "Certificate of completion",
+  "project.documents.versionCurrent": "Current",
+  "project.documents.versionRolledBack": "Rolled back",
+  "project.documents.versionRevision": "Revision",
+  "project.documents.compareWithPrevious": "Compare with previous",
+  "project.documents.voided": "Voided",
+  "project.documents.dueAt": "Due {date}",
+  "project.documents.overdue": "Overdue since {date}",
+  "project.documents.voidedHint": "An organizer voided this document; it can no longer be signed.",
+  "project.documents.voidedReason": "An organizer voided this document: {reason}",
+  "project.documents.youDeclined": "You declined to sign this document.",
+  "project.documents.yourSignatureVoided": "Your signature was voided; please sign again.",
+  "project.documents.yourSignatureStale": "The document was revised after you signed; please sign again.",
+  "project.documents.declinedBy": "{name} declined: {reason}",
+  "project.documents.staleSigners": "Need to sign the revision again: {names}",
+  "project.documents.decline": "Decline",
+  "project.documents.declinePrompt": "Why are you declining to sign this document?",
+  "project.documents.void": "Void",
+  "project.documents.voidTarget": "What to void",
+  "project.documents.voidWholeDocument": "The whole document",
+  "project.documents.voidSignatureOf": "{name}'s signature",
+  "project.documents.voidRollback": "Roll back to",
+  "project.documents.versionOption": "Version {version} ({date})",
+  "project.documents.voidReason": "Reason (optional)",
+  "project.documents.voidSubmit": "Void and roll back",
+  "project.documents.voiding": "Voiding...",
+  "project.documents.voidSignatureConfirm": "Void this signature, and any signed after the chosen version?",
+  "project.documents.voidDocumentConfirm": "Void the whole document? Nobody will be able to sign it afterwards.",
+  "project.documents.savedSignatures": "My saved signatures",
+  "project.trash.show": "Trash",
+  "project.trash.hide": "Close trash",
+  "project.trash.title": "Deleted documents",
+  "project.trash.loading": "Loading trash...",
+  "project.trash.empty": "The trash is empty.",
+  "project.trash.entry": "— deleted by {name} on {date}, purged on {purgeDate}",
+  "project.trash.restore": "Restore",
+  "project.trash.purge": "Delete permanently",
+  "project.trash.purgeConfirm": "Permanently delete \"{name}\" and all its versions? This cannot be undone.",
+  "project.documents.viewOnly": "You can only view this document.",
+  "project.documents.waitingForTurn": "Not your turn yet; waiting for {names} to sign.",
+  "project.documents.signingOrder": "Signing order",
+  "project.documents.signingStep": "Step {step}",
+  "project.documents.signerSigned": "Signed",
+  "project.documents.signerOnTurn": "Their turn",
+  "project.documents.signerWaiting": "Waiting",
+  "project.documents.signerDeclined": "Declined",
+  "project.documents.completed": "Completed",
+  "project.documents.verify": "Verify integrity",
+  "project.documents.verifying": "Verifying...",
+  "project.documents.verified": "Every version matches its recorded SHA-256 hash.",
+  "project.documents.verifyFailed": "Versions {versions} do not match their recorded hash or have none recorded.",
+  "project.documents.empty": "No documents are available for you to sign.",
+  "project.notes.visibleToAll": "Visible to every invitee",
+  "project.notes.visibleTo": "Visible to: {names}",
+  "project.notes.replyPlaceholder": "Write your reply...",
+  "project.notes.replySending": "Sending...",
+  "project.notes.replySubmit": "Send reply",
+  "project.notes.replyMissing": "Enter the reply text.",
+  "project.notes.empty": "No notes on this document yet.",
+  "project.notes.add": "Add note",
+  "project.notes.placeholder": "Note text...",
+  "project.notes.contentMissing": "Enter the note text.",
+  "project.notes.shareWithAll": "Show to every invitee",
+  "project.notes.pickPeople": "Choose people:",
+  "project.notes.allowReplies": "Allow replies to this note",
+  "project.notes.signFirst": "Sign the document before adding a note.",
+  "project.settings.title": "Edit project",
+  "project.settings.clearDueDate": "Remove deadline",
+  "project.settings.windowHint": "Hours are in the project's time zone. If you narrow the range, any saved availability left outside it is shown to you before saving.",
+  "project.settings.outOfWindow": "Availability from {count} people falls outside the new range:",
+  "project.settings.outOfWindowHint": "You can trim these slots to the new range (the parts outside are removed) or keep them as they are.",
+  "project.settings.trim": "Trim and save",
+  "project.settings.keep": "Keep and save",
+  "project.settings.save": "Save changes",
+  "project.settings.saving": "Saving...",
+  "project.accessLinks.title": "Personal sign-in links",
+  "project.accessLinks.hint": "Each link signs its owner straight into the project. If a link leaks, revoke it or create a new one; the old link stops working.",
+  "project.accessLinks.loading": "Loading links...",
+  "project.accessLinks.none": "No link yet",
+  "project.accessLinks.active": "Active until {date}",
+  "project.accessLinks.expired": "Expired on {date}",
+  "project.accessLinks.revoked": "Revoked on {date}",
+  "project.accessLinks.lastUsed": "Last used {date} ({count} times in total)",
+  "project.accessLinks.neverUsed": "Not used yet",
+  "project.accessLinks.create": "Create link",
+  "project.accessLinks.replace": "New link",
+  "project.accessLinks.revoke": "Revoke",
+  "project.accessLinks.replaceConfirm": "Revoke {name}'s current link and create a new one?",
+  "project.accessLinks.revokeConfirm": "Revoke {name}'s sign-in link?",
+  "project.accessLinks.shownOnce": "This link is only shown once. Copy it and send it to its owner.",
+  "project.invitees.title": "Invitees",
+  "project.invitees.hint": "Add someone late, change a name, role, email or password, or remove a person from the project. Removing someone deletes their availability and document access; signatures they already gave stay on record under their name.",
+  "project.invitees.you": "you",
+  "project.invitees.hasEmail": "email set",
+  "project.invitees.noEmail": "no email",
+  "project.invitees.edit": "Edit",
+  "project.invitees.save": "Save",
+  "project.invitees.newEmail": "Email",
+  "project.invitees.keepEmail": "Leave empty to keep the current address",
+  "project.invitees.clearEmail": "Remove email",
+  "project.invitees.newPassword": "New password",
+  "project.invitees.keepPassword": "Leave empty to keep the current password",
+  "project.invitees.clearPassword": "Remove password",
+  "project.invitees.removeConfirm": "Remove {name} from the project? Their availability and document access are deleted, and if they are due to sign a document the turn moves on.",
+  "project.invitees.addTitle": "Add an invitee",
+  "project.invitees.adding": "Adding...",
+  "project.invitees.added": "{name} was added. Their personal sign-in link:",
+  "project.activity.title": "Activity log",
+  "project.activity.refresh": "Refresh",
+  "project.activity.refreshing": "Refreshing...",
+  "project.activity.loading": "Loading activity...",
+  "project.activity.actor": "By: {actor}",
+  "project.activity.empty": "No activity yet.",
+  "project.availability.title": "Add your free times",
+  "project.availability.dueAt": "Please add your free times by {date}.",
+  "project.availability.overdue": "The deadline for adding free times was {date}.",
+  "project.participants.title": "Participant status",
+  "project.participants.you": "You",
+  "project.participants.availabilityDone": "Times added",
+  "project.participants.availabilityPending": "Waiting for times",
+  "project.participants.signatureDone": "Fully signed",
+  "project.participants.signaturePending": "Needs signature",
+  "project.participants.signatureDeclined": "Declined to sign",
+  "project.participants.signatureVoided": "Signature voided, needs to sign again",
+  "project.participants.signatureNotRequired": "No signature needed",
+  "project.summary.title": "Group overview (live)",
+  "project.summary.syncing": "Updating...",
+  "project.summary.ownSlot": "This slot is one of yours. You can edit it and save again.",
+  "project.summary.confirmAddOthers": "This slot belongs to someone else. Add it to your times?",
+  "project.summary.slotAdded": "Slot added to your times.",
+  "project.responses.title": "Submitted responses",
+  "project.responses.show": "Show",
+  "project.responses.hide": "Hide",
+  "project.responses.empty": "No responses yet.",
+
+  // Sign page
+  "sign.loading": "Preparing the document...",
+  "sign.title": "Sign document",
+  "sign.description": "Review the document below, then add your signature underneath.",
+  "sign.previewUnsupported": "This file type can't be previewed yet. You can still add your signature.",
+  "sign.documentAlt": "Document to sign",
+  "sign.previewAlt": "Signature preview",
+  "sign.mode.draw": "Draw",
+  "sign.mode.typed": "Type",
+  "sign.mode.upload": "Upload image",
+  "sign.penColor": "Pen color",
+  "sign.penWidth": "Pen width",
+  "sign.typedText": "Signature text",
+  "sign.typedColor": "Text color",
+  "sign.typedSize": "Font size",
+  "sign.typedFont": "Font",
+  "sign.uploadLabel": "Choose a signature image (PNG preferred)",
+  "sign.uploadedFile": "Selected file: {name}",
+  "sign.opacity": "Signature opacity",
+  "sign.typedHint": "Once the text and options are set, click “Create signature preview”.",
+  "sign.uploadHint": "After choosing an image, create a preview to place it on the document.",
+  "sign.clearDrawing": "Clear drawing",
+  "sign.createPreview": "Create signature preview",
+  "sign.placement": "Place the signature on the document",
+  "sign.back": "Back to signature",
+  "sign.save": "Save signed copy",
+  "sign.saved": "Signed copy saved.",
+  "sign.savedCompleted": "Signed copy saved. Everyone has signed, so the certificate of completion was added.",
+  "sign.error.pdfRender": "The PDF can't be displayed.",
+  "sign.error.unknown": "An unknown error occurred.",
+  "sign.error.documentLoading": "Wait until the document has loaded.",
+  "sign.error.drawingMissing": "Draw your signature first.",
+  "sign.error.typedMissing": "Enter the signature text.",
+  "sign.error.uploadMissing": "No signature file selected.",
+  "sign.error.previewMissing": "Create the signature and place it on the document first.",
+  "sign.error.fieldValueMissing": "Enter a value for this field.",
+  "sign.error.fieldsIncomplete": "Fill in all required fields first.",
+  "sign.previousPage": "Previous page",
+  "sign.nextPage": "Next page",
+  "sign.pageOf": "Page {page} of {count}",
+  "sign.placeOnPage": "Place signature on this page",
+  "sign.movePlacement": "Move this page's signature here",
+  "sign.removeFromPage": "Remove from this page",
+  "sign.placementHint": "Pin the signature to any pages you like; if you pin none, it goes on the page shown.",
+  "sign.placedPages": "The signature will be placed on pages {pages}.",
+  "sign.field.signature": "Signature",
+  "sign.field.initials": "Initials",
+  "sign.field.date": "Date",
+  "sign.field.text": "Text",
+  "sign.fieldProgress": "Field {index} of {count}",
+  "sign.fieldPage": "page {page}",
+  "sign.fieldOptional": "optional",
+  "sign.fieldImageHint": "Create your signature or initials, then press “Apply to this field”.",
+  "sign.fieldValue": "Field value",
+  "sign.previousField": "Previous field",
+  "sign.nextField": "Next field",
+  "sign.applyToField": "Apply to this field",
+
+  // Field placement page
+  "fields.title": "Place signature fields",
+  "fields.description": "Place signature, initials, date or text fields for each signer. Signers can only fill their own fields.",
+  "fields.loading": "Loading document...",
+  "fields.type": "Field type",
+  "fields.assignee": "Signer",
+  "fields.label": "Label (optional)",
+  "fields.required": "Required",
+  "fields.add": "Add field to this page",
+  "fields.empty": "No fields placed yet.",
+  "fields.item": "{type} – {name} – page {page}",
+  "fields.locked": "This document has been signed, so its fields can no longer change.",
+  "fields.noAssignees": "Nobody is set to sign this document.",
+  "fields.save": "Save fields",
+  "fields.saving": "Saving...",
+  "fields.saved": "Fields saved.",
+  "fields.back": "Back",
+  "savedSignatures.title": "Saved signatures",
+  "savedSignatures.description": "Save your signature and initials once and reuse them whenever you sign a document in this project.",
+  "savedSignatures.loading": "Loading saved signatures...",
+  "savedSignatures.kind.signature": "Signature",
+  "savedSignatures.kind.initials": "Initials",
+  "savedSignatures.kindLabel": "Save as",
+  "savedSignatures.empty": "Nothing saved yet.",
+  "savedSignatures.updatedAt": "Updated {date}",
+  "savedSignatures.save": "Save",
+  "savedSignatures.replace": "Replace",
+  "savedSignatures.saved": "Saved for next time.",
+  "savedSignatures.delete": "Delete",
+  "savedSignatures.confirmDelete": "Delete this saved signature?",
+  "savedSignatures.back": "Back",
+  "savedSignatures.pickTitle": "Use a saved signature",
+  "savedSignatures.manage": "Manage",
+  "savedSignatures.use": "Use",
+  "savedSignatures.saveAs.signature": "Save as my signature",
+  "savedSignatures.saveAs.initials": "Save as my initials",
+  "savedSignatures.error.fetch": "Failed to load your saved signatures.",
+  "savedSignatures.error.store": "Failed to save the signature.",
+  "savedSignatures.error.delete": "Failed to delete the saved signature.",
+  "compare.title": "Compare versions",
+  "compare.description": "Pick two versions of the document. Changed areas are highlighted in red.",
+  "compare.loading": "Loading versions...",
+  "compare.from": "Older version",
+  "compare.to": "Newer version",
+  "compare.versionOption": "Version {version} – {author} – {date}",
+  "compare.certificate": "Certificate of completion",
+  "compare.mode.overlay": "Highlight changes",
+  "compare.mode.side": "Side by side",
+  "compare.changed": "About {percent}% of this page changed.",
+  "compare.unchanged": "No visible changes on this page.",
+  "compare.pageMissing": "This version has no such page.",
+  "compare.pageAlt": "Document page",
+  "compare.overlayAlt": "Changes between the versions",
+  "compare.back": "Back",
+  "compare.error.load": "Failed to load the versions.",
+  "compare.error.render": "The page can't be displayed.",
+  "compare.error.singleVersion": "This document has only one version so far.",
+
+  // Document notes panel
+  "notesPanel.show": "Show notes",
+  "notesPanel.hide": "Hide notes",
+  "notesPanel.newNote": "New note",
+  "notesPanel.everyone": "Everyone",
+  "notesPanel.pickRecipients": "Choose recipients",
+  "notesPanel.recipientsMissing": "Choose at least one recipient.",
+  "notesPanel.repliesAllowed": "Replies allowed",
+  "notesPanel.noReplies": "No replies",
+  "notesPanel.visibleToAll": "Visible to everyone",
+  "notesPanel.replySubmit": "Reply",
+};
@@ -0,0 +1,657 @@
+export const fa = {
+  // Common
+  "common.appName": "کال‌فایند",
+  "common.listSeparator": "، ",
+  "common.people": "{count} نفر",
+  "common.minutes": "{count} دقیقه",
+  "common.remove": "حذف",
+  "common.genericError": "خطایی رخ داد. لطفاً دوباره تلاش کنید.",
+  "common.copyFailed": "امکان کپی خودکار فراهم نشد. لطفاً دستی کپی کنید.",
+  "common.unknown": "نامشخص",
+  "common.system": "سیستم",
+  "common.saving": "در حال ثبت...",
+  "common.cancel": "انصراف",
+
+  // Locale
+  "locale.switch": "English",
+
+  // Layout
+  "meta.title": "کال‌فایند | زمان حضور جمعی",
+  "meta.description": "یافتن زمان مناسب برای گروه‌ها با استفاده از تقویم شمسی",
+  "layout.copyright": "تمامی حقوق برای سهیل توکل پور محفوظ است.",
+
+  // Home page
+  "home.title": "پیدا کردن سادهٔ زمان مشترک برای گروه‌ها",
+  "home.intro": "لینک اختصاصی بسازید، آن را با اعضای گروه به اشتراک بگذارید و در لحظه ببینید چه بازه‌هایی برای همه مناسب است. همه چیز به زبان فارسی و بر اساس تقویم شمسی طراحی شده است.",
+  "home.createTitle": "پروژه جدید بسازید",
+  "home.createDescription": "پس از ساخت پروژه، یک لینک دریافت می‌کنید. هر کس وارد لینک شود، زمان‌های آزاد خود را انتخاب می‌کند و نتیجه برای همه بلافاصله همگام‌سازی می‌شود.",
+  "home.whyTitle": "چرا کال‌فایند؟",
+  "home.why.calendars": "پشتیبانی کامل از تقویم شمسی و زبان فارسی",
+  "home.why.realtime": "ثبت و همگام‌سازی لحظه‌ای در میان اعضا",
+  "home.why.heatmap": "نمایش رنگی بازه‌های محبوب و تعداد افراد",
+  "home.why.audience": "مناسب برای تیم‌ها، کلاس‌ها و قرارهای خانوادگی",
+
+  // API error codes
+  "errors.access_denied": "شما به این بخش دسترسی ندارید.",
+  "errors.auth_required": "ابتدا وارد پروژه شوید.",
+  "errors.calendar_export_failed": "ساخت فایل تقویم با خطا مواجه شد.",
+  "errors.calendar_forbidden": "شما به تقویم این مدعو دسترسی ندارید.",
+  "errors.document_create_failed": "ثبت سند با خطا مواجه شد.",
+  "errors.document_not_found": "سند یافت نشد.",
+  "errors.document_permissions_failed": "ذخیره دسترسی‌های سند با خطا مواجه شد.",
+  "errors.document_update_failed": "به‌روزرسانی وضعیت سند با خطا مواجه شد.",
+  "errors.document_upload_failed": "بارگذاری سند با خطا مواجه شد.",
+  "errors.document_version_store_failed": "ذخیره نسخه سند با خطا مواجه شد.",
+  "errors.documents_fetch_failed": "دریافت اسناد با خطا مواجه شد.",
+  "errors.download_link_failed": "ساخت لینک دانلود با خطا مواجه شد.",
+  "errors.file_missing": "فایلی برای بارگذاری انتخاب نشده است.",
+  "errors.file_type_unsupported": "نوع فایل پشتیبانی نمی‌شود. فایل PDF یا تصویر بارگذاری کنید.",
+  "errors.finalize_clear_failed": "لغو زمان نهایی با خطا مواجه شد.",
+  "errors.finalize_failed": "ثبت زمان نهایی با خطا مواجه شد.",
+  "errors.invalid_password": "رمز عبور نادرست است.",
+  "errors.invalid_payload": "اطلاعات ارسال‌شده معتبر نیست.",
+  "errors.invitee_not_found": "مدعو یافت نشد.",
+  "errors.invitee_required": "لطفاً نام خود را انتخاب کنید.",
+  "errors.invitees_create_failed": "ثبت مدعوین با خطا مواجه شد.",
+  "errors.login_failed": "ورود با خطا مواجه شد.",
+  "errors.metadata_invalid": "اطلاعات تکمیلی سند معتبر نیست.",
+  "errors.due_date_invalid": "تاریخ مهلت معتبر نیست.",
+  "errors.project_window_invalid": "بازه تاریخ یا ساعت معتبر نیست؛ شروع باید پیش از پایان باشد.",
+  "errors.availability_outside_window": "برخی زمان‌های ثبت‌شده بیرون از بازه جدید قرار می‌گیرند.",
+  "errors.availability_trim_failed": "تنظیمات ذخیره شد، اما کوتاه کردن همه زمان‌های بیرون از بازه ممکن نشد.",
+  "errors.project_update_failed": "ذخیره تنظیمات پروژه ناموفق بود.",
+  "errors.invitee_email_invalid": "ایمیل یکی از دعوت‌شدگان معتبر نیست.",
+  "errors.access_link_invalid": "این لینک ورود معتبر نیست. نام خود را انتخاب کنید یا از برگزارکننده لینک تازه بخواهید.",
+  "errors.access_link_expired": "این لینک ورود منقضی شده است. از برگزارکننده لینک تازه بخواهید.",
+  "errors.access_link_revoked": "این لینک ورود باطل شده است. از برگزارکننده لینک تازه بخواهید.",
+  "errors.access_link_forbidden": "فقط برگزارکننده می‌تواند لینک ورود خودش را مدیریت کند.",
+  "errors.access_link_not_found": "لینک فعالی برای این دعوت‌شده وجود ندارد.",
+  "errors.access_link_create_failed": "ساخت لینک ورود ناموفق بود.",
+  "errors.access_link_revoke_failed": "باطل کردن لینک ورود ناموفق بود.",
+  "errors.access_links_fetch_failed": "دریافت وضعیت لینک‌های ورود ناموفق بود.",
+  "errors.invitee_name_missing": "نام مدعو را وارد کنید.",
+  "errors.invitee_name_reserved": "نام «admin» رزرو شده است.",
+  "errors.invitee_name_taken": "مدعوی با این نام در پروژه هست.",
+  "errors.invitee_role_invalid": "این نقش را نمی‌توان به این مدعو داد.",
+  "errors.invitee_password_required": "برگزارکننده و برگزارکننده همکار باید رمز عبور داشته باشند.",
+  "errors.invitee_password_not_set": "این حساب رمز عبور ندارد؛ با پیوند ورود خود وارد شوید.",
+  "errors.invitee_forbidden": "فقط برگزارکننده می‌تواند حساب خودش را تغییر دهد.",
+  "errors.invitee_remove_forbidden": "برگزارکننده را نمی‌توان از پروژه حذف کرد.",
+  "errors.invitee_remove_self": "نمی‌توانید خودتان را از پروژه حذف کنید.",
+  "errors.invitee_create_failed": "افزودن مدعو ناموفق بود.",
+  "errors.invitee_update_failed": "ذخیره تغییرات مدعو ناموفق بود.",
+  "errors.invitee_remove_failed": "حذف مدعو ناموفق بود.",
+  "errors.metadata_missing": "اطلاعات تکمیلی سند ارسال نشده است.",
+  "errors.note_create_failed": "ثبت یادداشت با خطا مواجه شد.",
+  "errors.note_forbidden": "شما اجازه ثبت یادداشت برای این سند را ندارید.",
+  "errors.note_invalid": "اطلاعات یادداشت ناقص است.",
+  "errors.note_not_found": "یادداشت یافت نشد.",
+  "errors.organizer_only": "این کار فقط برای برگزارکننده مجاز است.",
+  "errors.project_create_failed": "ساخت پروژه با خطا مواجه شد.",
+  "errors.project_fields_missing": "عنوان پروژه یا فهرست مدعوین ناقص است.",
+  "errors.project_not_found": "پروژه یافت نشد.",
+  "errors.reply_create_failed": "ثبت پاسخ با خطا مواجه شد.",
+  "errors.reply_forbidden": "شما اجازه پاسخ به این یادداشت را ندارید.",
+  "errors.reply_invalid": "اطلاعات پاسخ ناقص است.",
+  "errors.sign_forbidden": "شما اجازه امضای این سند را ندارید.",
+  "errors.document_completed": "امضای این سند کامل شده و دیگر قابل امضا نیست.",
+  "errors.signing_order_invalid": "ترتیب امضا معتبر نیست؛ فقط افرادی که اجازه امضا دارند را می‌توان اضافه کرد.",
+  "errors.document_signers_failed": "ذخیره ترتیب امضا با خطا مواجه شد.",
+  "errors.not_a_signer": "شما در ترتیب امضای این سند نیستید.",
+  "errors.signing_out_of_turn": "هنوز نوبت امضای شما نرسیده است.",
+  "errors.field_forbidden": "این فیلد به شما تعلق ندارد.",
+  "errors.fields_incomplete": "همه فیلدهای الزامی خود را پر کنید.",
+  "errors.field_date_invalid": "تاریخ واردشده معتبر نیست.",
+  "errors.fields_locked": "پس از ثبت اولین امضا نمی‌توان فیلدها را تغییر داد.",
+  "errors.document_fields_invalid": "فیلدها معتبر نیستند؛ هر فیلد باید داخل صفحه و برای یکی از امضاکنندگان باشد.",
+  "errors.document_fields_failed": "ذخیره فیلدهای سند با خطا مواجه شد.",
+  "errors.saved_signatures_fetch_failed": "بارگذاری امضاهای ذخیره‌شده ناموفق بود.",
+  "errors.saved_signature_store_failed": "ذخیره امضا ناموفق بود.",
+  "errors.saved_signature_delete_failed": "حذف امضای ذخیره‌شده ناموفق بود.",
+  "errors.document_voided": "این سند باطل شده و دیگر قابل امضا نیست.",
+  "errors.already_signed": "شما این سند را قبلاً امضا کرده‌اید.",
+  "errors.decline_reason_missing": "دلیل رد امضا را بنویسید.",
+  "errors.document_decline_failed": "ثبت رد امضا ناموفق بود.",
+  "errors.signature_not_found": "این امضا وجود ندارد یا قبلاً باطل شده است.",
+  "errors.void_version_invalid": "نسخه‌ای از پیش از امضای باطل‌شده انتخاب کنید.",
+  "errors.document_void_failed": "ابطال ناموفق بود.",
+  "errors.document_revision_failed": "بارگذاری نسخه اصلاح‌شده ناموفق بود.",
+  "errors.document_delete_failed": "حذف سند ناموفق بود.",
+  "errors.document_restore_failed": "بازگرداندن سند ناموفق بود.",
+  "errors.document_not_in_trash": "این سند در سطل زباله نیست.",
+  "errors.project_delete_failed": "حذف پروژه ناموفق بود.",
+  "errors.project_restore_failed": "بازگرداندن پروژه ناموفق بود.",
+  "errors.project_not_in_trash": "این پروژه در سطل زباله نیست.",
+  "errors.document_version_not_found": "این نسخه از سند وجود ندارد.",
+  "errors.document_versions_failed": "بارگذاری نسخه‌های سند ناموفق بود.",
+  "errors.document_verify_failed": "بررسی اصالت سند با خطا مواجه شد.",
+  "errors.signature_missing": "امضا ارسال نشده است.",
+  "errors.signature_record_failed": "ثبت امضا با خطا مواجه شد.",
+  "errors.signature_store_failed": "ذخیره امضا با خطا مواجه شد.",
+  "errors.signed_document_store_failed": "ذخیره سند امضاشده با خطا مواجه شد.",
+  "errors.signature_image_invalid": "تصویر امضا معتبر نیست.",
+  "errors.slot_invalid": "تاریخ یا ساعت انتخاب‌شده معتبر نیست.",
+  "errors.pdf_merge_failed": "افزودن امضا به فایل PDF با خطا مواجه شد.",
+  "errors.image_merge_failed": "افزودن امضا به تصویر با خطا مواجه شد.",
+  "errors.signature_placement_invalid": "محل امضا خارج از صفحات سند است.",
+
+  // Roles
+  "roles.organizer": "برگزارکننده",
+  "roles.co_organizer": "برگزارکننده همکار",
+  "roles.participant": "شرکت‌کننده",
+  "roles.viewer": "ناظر",
+
+  // Dates and calendars
+  "format.slot": "{date} - {start} تا {end}",
+  "format.slotAcrossDays": "{startDate} - {start} تا {endDate} - {end}",
+  "format.timeRange": "{start} تا {end}",
+  "calendar.jalali": "شمسی",
+  "calendar.gregorian": "میلادی",
+  "calendar.hijri": "قمری",
+  "calendar.option": "تقویم {name}",
+  "digits.toLatin": "ارقام لاتین (123)",
+  "digits.toPersian": "ارقام فارسی (۱۲۳)",
+
+  // Timeline
+  "timeline.empty": "بازه زمانی انتخاب نشده است.",
+
+  // Time range selector
+  "timeRange.start": "ساعت شروع: {time}",
+  "timeRange.end": "ساعت پایان: {time}",
+  "timeRange.startLabel": "زمان شروع",
+  "timeRange.endLabel": "زمان پایان",
+
+  // Availability summary
+  "summary.empty": "هنوز شخصی زمان آزاد خود را ثبت نکرده است. منتظر پاسخ دوستان باشید.",
+  "summary.participantCount": "تعداد شرکت‌کنندگان: {count}",
+  "summary.timelineEmpty": "هنوز بازه‌ای برای نمایش وجود ندارد.",
+
+  // Meeting suggestions
+  "suggestions.title": "{count} گزینه برتر برای جلسه",
+  "suggestions.description": "بازه‌ها بر اساس حضور افراد ضروری، تعداد حاضران و نزدیک‌ترین تاریخ مرتب شده‌اند.",
+  "suggestions.duration": "مدت جلسه",
+  "suggestions.minParticipants": "حداقل تعداد حاضران",
+  "suggestions.required": "حضور ضروری",
+  "suggestions.attendance": "{count} از {total} نفر",
+  "suggestions.missingRequired": "غایب ضروری:",
+  "suggestions.finalize": "انتخاب به‌عنوان زمان نهایی",
+  "suggestions.empty": "بازه‌ای با این مدت و تعداد حاضران پیدا نشد.",
+
+  // Availability form
+  "availability.locked": "زمان جلسه نهایی شده است و بازه‌های شما دیگر قابل ویرایش نیستند.",
+  "availability.pickDates": "انتخاب تاریخ‌ها",
+  "availability.pickDatesPlaceholder": "تاریخ‌های مجاز را انتخاب کنید",
+  "availability.clearSelection": "پاک‌سازی",
+  "availability.allowedDatesHint": "تنها تاریخ‌های تعریف‌شده توسط برگزارکننده مجاز هستند.",
+  "availability.timeRange": "بازه زمانی (گرافیکی)",
+  "availability.timeRangeFor": "تنظیم بازه برای تاریخ {date}",
+  "availability.timeRangeHint": "برای تنظیم بازه، ابتدا تاریخ را انتخاب کنید.",
+  "availability.addSlot": "افزودن بازه زمانی برای تاریخ‌های انتخابی",
+  "availability.importCalendar": "درون‌ریزی زمان‌های آزاد از فایل تقویم (.ics)",
+  "availability.yourSlots": "بازه‌های انتخابی شما",
+  "availability.slotCount": "{count} بازه ثبت شده",
+  "availability.saved": "زمان‌های شما ثبت شد و برای سایر اعضا نمایش داده می‌شود.",
+  "availability.submit": "ثبت زمان‌های من",
+  "availability.info.prefilled": "بازه برای استفاده انتخاب شد. تاریخ موردنظر را انتخاب و دکمه افزودن را بزنید.",
+  "availability.info.slotAdded": "بازه جدید ثبت شد.",
+  "availability.info.slotsAdded": "بازه‌های جدید ثبت شدند.",
+  "availability.info.imported": "{events} رویداد از تقویم خوانده شد و {slots} بازه آزاد پیشنهاد شد. پیش از ثبت، بازه‌ها را بررسی کنید.",
+  "availability.info.editing": "این بازه برای ویرایش مجدد انتخاب شد.",
+  "availability.info.moved": "بازه جابه‌جا شد.",
+  "availability.info.startAdjusted": "ساعت شروع بازه تنظیم شد.",
+  "availability.info.endAdjusted": "ساعت پایان بازه تنظیم شد.",
+  "availability.error.duplicate": "این بازه از پیش ثبت شده یا خارج از محدوده مجاز است.",
+  "availability.error.importEmpty": "در بازه مجاز پروژه زمان آزادی در این تقویم پیدا نشد.",
+  "availability.error.importFailed": "خواندن فایل تقویم با خطا مواجه شد.",
+  "availability.error.noDates": "ابتدا حداقل یک تاریخ را انتخاب کنید.",
+  "availability.error.endBeforeStart": "ساعت پایان باید بعد از ساعت شروع باشد ({date})",
+  "availability.error.outsideWindow": "لطفاً ساعاتی در بازه مجاز انتخاب کنید ({date})",
+  "availability.error.noValidSlot": "ابتدا بازه زمانی معتبری انتخاب کنید.",
+  "availability.error.noSlots": "حداقل یک بازه زمانی اضافه کنید.",
+  "availability.error.outsideProjectWindow": "برخی بازه‌ها در منطقه زمانی پروژه خارج از محدوده مجاز هستند.",
+  "availability.error.saveFailed": "خطا در ذخیره‌سازی. لطفاً دوباره تلاش کنید.",
+
+  // Create project form
+  "createProject.title": "عنوان پروژه",
+  "createProject.titlePlaceholder": "مثلاً «جلسه برنامه‌ریزی تیم محتوا»",
+  "createProject.description": "توضیحات (اختیاری)",
+  "createProject.descriptionPlaceholder": "جزئیات جلسه یا یادداشت‌های تکمیلی را بنویسید.",
+  "createProject.dateRange": "بازه تاریخ مجاز ({calendar})",
+  "createProject.dateRangePlaceholder": "از چه تاریخی تا چه تاریخی؟",
+  "createProject.dateRangeHint": "فقط در این بازه زمانی امکان ثبت حضور وجود خواهد داشت.",
+  "createProject.availabilityDueDate": "مهلت ثبت زمان‌های آزاد (اختیاری)",
+  "createProject.availabilityDueDateHint": "به کسانی که تا نزدیک این تاریخ زمانی ثبت نکرده‌اند یادآوری ارسال می‌شود.",
+  "createProject.dueDatePlaceholder": "بدون مهلت",
+  "createProject.timeRange": "بازه ساعت مجاز",
+  "createProject.timeZone": "منطقه زمانی پروژه",
+  "createProject.timeZoneHint": "تاریخ و ساعت‌های بالا به وقت این منطقه هستند؛ هر مدعو می‌تواند زمان‌ها را به وقت محلی خود ببیند.",
+  "createProject.inviteeName": "نام مدعو",
+  "createProject.inviteeNamePlaceholder": "مثلاً «سارا ناصری»",
+  "createProject.inviteePassword": "رمز عبور (اختیاری)",
+  "createProject.inviteePasswordPlaceholder": "در صورت نیاز به حفاظت",
+  "createProject.inviteeEmail": "ایمیل (اختیاری)",
+  "createProject.inviteeEmailPlaceholder": "برای دریافت اعلان‌ها",
+  "createProject.inviteeRole": "نقش",
+  "createProject.addInvitee": "افزودن مدعو",
+  "createProject.hasPassword": "رمز دارد",
+  "createProject.noPassword": "بدون رمز",
+  "createProject.documents": "مدارک نیازمند امضا",
+  "createProject.documentsHint": "فایل‌های PDF یا تصویر را بارگذاری کنید و مشخص کنید چه کسانی به آن‌ها دسترسی دارند.",
+  "createProject.chooseFiles": "انتخاب فایل",
+  "createProject.fileSize": "حجم فایل: {size} مگابایت",
+  "createProject.fileType": "نوع: {type}",
+  "createProject.fileTypeUnknown": "نامشخص",
+  "createProject.shareWithAll": "اشتراک‌گذاری با تمام مدعوین",
+  "createProject.permissionsHint": "تعیین دسترسی برای هر مدعو:",
+  "createProject.canView": "مشاهده",
+  "createProject.canEdit": "امضا / ویرایش",
+  "createProject.sharedWithAllHint": "همه‌ی مدعوین می‌توانند این سند را مشاهده و امضا کنند.",
+  "createProject.signInOrder": "امضا به ترتیب",
+  "createProject.signInOrderHint": "برای هر نفر مرحله امضا را انتخاب کنید؛ افرادی که مرحله یکسان دارند هم‌زمان امضا می‌کنند.",
+  "createProject.documentDueDate": "مهلت امضا (اختیاری)",
+  "createProject.documentDueDateHint": "امضاکنندگانی که نوبتشان رسیده و هنوز امضا نکرده‌اند، با نزدیک شدن مهلت یادآوری دریافت می‌کنند.",
+  "createProject.signingStep": "مرحله {step}",
+  "createProject.signingStepNone": "بدون امضا",
+  "createProject.noDocuments": "هنوز فایلی اضافه نشده است.",
+  "createProject.submitting": "در حال ساخت لینک...",
+  "createProject.submit": "ساخت لینک دعوت",
+  "createProject.shareReady": "لینک دعوت آماده است:",
+  "createProject.copyLink": "کپی لینک",
+  "createProject.shareHint": "لینک را فقط برای مدعوین تعریف‌شده ارسال کنید. هر شخص با نام خود وارد می‌شود.",
+  "createProject.accessLinks": "لینک ورود شخصی هر دعوت‌شده:",
+  "createProject.accessLinksHint": "هر لینک صاحبش را بدون انتخاب نام و رمز وارد پروژه می‌کند و پس از ۳۰ روز منقضی می‌شود. اگر لینکی به دست دیگری افتاد، از صفحه پروژه آن را باطل کنید یا لینک تازه بسازید.",
+  "createProject.adminCredentials": "اطلاعات ورود مدیر:",
+  "createProject.adminUsername": "نام کاربری:",
+  "createProject.adminPassword": "رمز عبور:",
+  "createProject.adminHint": "این اطلاعات را فقط برای برگزارکننده نگه دارید.",
+  "createProject.error.titleTooShort": "عنوان باید حداقل سه نویسه باشد",
+  "createProject.error.invalidInput": "ورودی نامعتبر است",
+  "createProject.error.inviteeNameMissing": "لطفاً نام مدعو را وارد کنید.",
+  "createProject.error.inviteeNameReserved": "نام \"admin\" رزرو شده است.",
+  "createProject.error.inviteeDuplicate": "این نام قبلاً اضافه شده است.",
+  "createProject.error.inviteeEmailInvalid": "ایمیل واردشده معتبر نیست.",
+  "createProject.error.dateRangeMissing": "لطفاً بازهٔ تاریخ مجاز را انتخاب کنید.",
+  "createProject.error.inviteesMissing": "حداقل یک مدعو باید تعریف شود.",
+
+  // Activity log
+  "activity.project_created": "پروژه ساخته شد",
+  "activity.project_updated": "تنظیمات پروژه ویرایش شد",
+  "activity.availability_saved": "دسترسی زمانی ثبت شد",
+  "activity.document_uploaded": "سند جدید بارگذاری شد",
+  "activity.document_downloaded": "دانلود سند",
+  "activity.document_viewed": "مشاهده سند",
+  "activity.document_signed": "سند امضا شد",
+  "activity.document_completed": "گواهی تکمیل امضا صادر شد",
+  "activity.document_declined": "رد امضای سند",
+  "activity.signature_voided": "ابطال امضا",
+  "activity.document_voided": "ابطال سند",
+  "activity.document_revised": "بارگذاری نسخه اصلاح‌شده",
+  "activity.document_deleted": "انتقال سند به سطل زباله",
+  "activity.document_restored": "بازگرداندن سند",
+  "activity.document_purged": "حذف دائمی سند",
+  "activity.project_deleted": "انتقال پروژه به سطل زباله",
+  "activity.project_restored": "بازگرداندن پروژه",
+  "activity.reminder_sent": "ارسال یادآوری مهلت",
+  "reminders.subject": "یادآوری: {project}",
+  "reminders.availability": "هنوز زمان‌های آزاد خود را ثبت نکرده‌اید؛ مهلت ثبت تا {date} است.",
+  "reminders.document": "سند «{name}» منتظر امضای شماست؛ مهلت امضا تا {date} است.",
+  "email.greeting": "{name} عزیز،",
+  "email.link": "برای ادامه به این نشانی بروید: {url}",
+  "email.invited.subject": "دعوت به «{project}»",
+  "email.invited.body": "شما به پروژه «{project}» دعوت شده‌اید. با نشانی زیر می‌توانید زمان‌های آزاد خود را ثبت کنید و اسناد پروژه را ببینید؛ رمز ورود را برگزارکننده به شما می‌دهد.",
+  "email.documentShared.subject": "سند جدید در «{project}»",
+  "email.documentShared.body": "سند «{document}» در پروژه «{project}» با شما به اشتراک گذاشته شد.",
+  "email.signingTurn.subject": "نوبت امضای شما: {document}",
+  "email.signingTurn.body": "نوبت امضای شما برای سند «{document}» در پروژه «{project}» رسیده است.",
+  "email.noteMention.subject": "{author} در یادداشتی از شما نام برد",
+  "email.noteMention.body": "{author} در یادداشتی روی سند «{document}» از شما نام برد:",
+  "email.meetingFinalized.subject": "زمان جلسه «{project}» قطعی شد",
+  "email.meetingFinalized.body": "جلسه پروژه «{project}» در {date} از {start} تا {end} ({timeZone}) برگزار می‌شود.",
+  "email.meetingFinalized.location": "محل: {location}",
+  "activity.signing_turn_advanced": "نوبت امضا به مرحله بعد رسید",
+  "activity.document_fields_placed": "فیلدهای امضا روی سند قرار گرفت",
+  "activity.note_added": "یادداشت جدید درج شد",
+  "activity.note_replied": "پاسخ به یادداشت ثبت شد",
+  "activity.login_success": "ورود موفق",
+  "activity.login_failed": "ورود ناموفق",
+  "activity.access_link_created": "لینک ورود شخصی ساخته شد",
+  "activity.access_link_revoked": "لینک ورود شخصی باطل شد",
+  "activity.access_link_used": "ورود با لینک شخصی",
+  "activity.access_link_rejected": "ورود با لینک شخصی رد شد",
+  "activity.invitee_added": "مدعو جدید اضافه شد",
+  "activity.invitee_updated": "مشخصات مدعو ویرایش شد",
+  "activity.invitee_password_reset": "رمز عبور مدعو بازنشانی شد",
+  "activity.invitee_removed": "مدعو از پروژه حذف شد",
+  "activity.meeting_finalized": "زمان جلسه نهایی شد",
+
+  // Project page
+  "project.header.eyebrow": "لینک پروژه",
+  "project.header.createdAt": "تاریخ ایجاد: {date}",
+  "project.header.dateRange": "بازه تاریخ مجاز: {start} تا {end}",
+  "project.header.timeRange": "بازه ساعت مجاز: {start} تا {end}",
+  "project.header.timeZone": "منطقه زمانی پروژه:",
+  "project.header.responseCount": "تعداد پاسخ‌ها: {count}",
+  "project.header.displayTimeZone": "نمایش زمان‌ها در منطقه زمانی:",
+  "project.header.step1": "۱. نام خود را از فهرست مدعوین انتخاب کرده و در صورت نیاز رمز را وارد کنید.",
+  "project.header.step2": "۲. تنها تاریخ‌ها و ساعت‌های مجاز توسط برگزارکننده قابل انتخاب هستند.",
+  "project.header.step3": "۳. هر زمان بخواهید می‌توانید با همان نام و رمز، بازه‌های خود را به‌روزرسانی کنید.",
+  "project.welcome": "{name} عزیز، خوش آمدید! زمان‌های خود را از بخش زیر به‌روزرسانی کنید.",
+  "project.logout": "خروج",
+  "project.delete": "حذف پروژه",
+  "project.editSettings": "ویرایش پروژه",
+  "project.deleteConfirm": "پروژه «{title}» به سطل زباله منتقل شود؟ تا پیش از پاک‌سازی خودکار می‌توانید آن را بازگردانید و تا آن زمان برای دیگر اعضا در دسترس نیست.",
+  "project.trashed.title": "پروژه «{title}» در سطل زباله است",
+  "project.trashed.description": "این پروژه برای اعضا در دسترس نیست و در {date} برای همیشه حذف می‌شود، مگر اینکه بازگردانده شود.",
+  "project.trashed.restore": "بازگرداندن پروژه",
+  "project.trashed.purge": "حذف دائمی",
+  "project.trashed.purgeConfirm": "پروژه «{title}» با همه اسناد و فایل‌هایش برای همیشه حذف شود؟ این کار برگشت‌پذیر نیست.",
+  "project.auth.title": "ورود مدعو",
+  "project.auth.pickName": "نام خود را انتخاب کنید",
+  "project.auth.pickNamePlaceholder": "انتخاب نام...",
+  "project.auth.password": "رمز عبور",
+  "project.auth.passwordPlaceholder": "رمز تعیین‌شده توسط برگزارکننده",
+  "project.auth.submit": "ادامه",
+  "project.auth.nameMissing": "لطفاً نام خود را انتخاب کنید.",
+  "project.finalize.done": "زمان جلسه نهایی شد:",
+  "project.finalize.location": "مکان: {location}",
+  "project.finalize.clear": "لغو زمان نهایی",
+  "project.finalize.confirmClear": "زمان نهایی لغو شود و ثبت زمان‌ها دوباره باز شود؟",
+  "project.finalize.title": "نهایی‌سازی",
+  "project.finalize.locationPlaceholder": "مکان یا لینک جلسه (اختیاری)",
+  "project.finalize.notesPlaceholder": "توضیحات (اختیاری)",
+  "project.finalize.confirm": "تأیید و اطلاع به همه",
+  "project.calendar.label": "تقویم:",
+  "project.calendar.addMeeting": "افزودن جلسه به تقویم",
+  "project.calendar.download": "دریافت فایل تقویم",
+  "project.calendar.allAvailability": "همه بازه‌های پیشنهادی",
+  "project.calendar.mine": "فقط بازه‌های من",
+  "project.calendar.copied": "لینک کپی شد",
+  "project.calendar.copyFeed": "کپی لینک اشتراک تقویم",
+  "project.calendar.feedPrompt": "لینک اشتراک تقویم:",
+  "project.progress.title": "پیشرفت شما",
+  "project.progress.step.auth": "ورود",
+  "project.progress.step.availability": "زمان‌های من",
+  "project.progress.step.signature": "امضا",
+  "project.progress.noDocuments": "سندی برای امضای شما ثبت نشده است.",
+  "project.progress.allSigned": "تمام اسناد شما امضا شده‌اند.",
+  "project.progress.unsigned": "امضا نشده: {count} از {total}",
+  "project.progress.waitingOn": "{document}: در انتظار امضای {names}",
+  "project.documents.title": "مدارک در انتظار امضا",
+  "project.documents.currentVersion": "نسخه فعلی: {version}",
+  "project.documents.signedAt": "امضا شده در {date}",
+  "project.documents.notSigned": "هنوز امضا نشده",
+  "project.documents.download": "دانلود",
+  "project.documents.sign": "امضای آنلاین",
+  "project.documents.placeFields": "جای‌گذاری فیلدها",
+  "project.documents.uploadRevision": "بارگذاری نسخه اصلاح‌شده",
+  "project.documents.delete": "حذف",
+  "project.documents.deleteConfirm": "سند «{name}» به سطل زباله منتقل شود؟ تا پیش از پاک‌سازی خودکار قابل بازگرداندن است.",
+  "project.documents.revising": "در حال بارگذاری...",
+  "project.documents.reviseConfirm": "با بارگذاری نسخه جدید، امضاها و رد امضاهای فعلی کهنه می‌شوند و امضاکنندگان باید دوباره امضا کنند. یادداشت‌ها و دسترسی‌ها حفظ می‌شوند. ادامه می‌دهید؟",
+  "project.documents.versions": "نسخه‌ها",
+  "project.documents.hideVersions": "بستن نسخه‌ها",
+  "project.documents.versionsLoading": "در حال بارگذاری نسخه‌ها...",
+  "project.documents.versionEntry": "نسخه {version} – {author} – {date}",
+  "project.documents.versionCertificate": "گواهی تکمیل",
+  "project.documents.versionCurrent": "جاری",
+  "project.documents.versionRolledBack": "کنار گذاشته‌شده",
+  "project.documents.versionRevision": "نسخه اصلاح‌شده",
+  "project.documents.compareWithPrevious": "مقایسه با نسخه قبل",
+  "project.documents.voided": "باطل‌شده",
+  "project.documents.dueAt": "مهلت امضا: {date}",
+  "project.documents.overdue": "مهلت امضا گذشته ({date})",
+  "project.documents.voidedHint": "برگزارکننده این سند را باطل کرده است و دیگر قابل امضا نیست.",
+  "project.documents.voidedReason": "برگزارکننده این سند را باطل کرده است: {reason}",
+  "project.documents.youDeclined": "شما از امضای این سند خودداری کرده‌اید.",
+  "project.documents.yourSignatureVoided": "امضای شما باطل شد؛ لطفاً دوباره امضا کنید.",
+  "project.documents.yourSignatureStale": "سند پس از امضای شما اصلاح شد؛ لطفاً دوباره امضا کنید.",
+  "project.documents.declinedBy": "{name} امضا را رد کرد: {reason}",
+  "project.documents.staleSigners": "باید نسخه اصلاح‌شده را دوباره امضا کنند: {names}",
+  "project.documents.decline": "رد امضا",
+  "project.documents.declinePrompt": "دلیل خودداری از امضای این سند چیست؟",
+  "project.documents.void": "ابطال",
+  "project.documents.voidTarget": "چه چیزی باطل شود",
+  "project.documents.voidWholeDocument": "کل سند",
+  "project.documents.voidSignatureOf": "امضای {name}",
+  "project.documents.voidRollback": "بازگشت به",
+  "project.documents.versionOption": "نسخه {version} ({date})",
+  "project.documents.voidReason": "دلیل (اختیاری)",
+  "project.documents.voidSubmit": "ابطال و بازگشت نسخه",
+  "project.documents.voiding": "در حال ابطال...",
+  "project.documents.voidSignatureConfirm": "این امضا و هر امضایی که بعد از نسخه انتخاب‌شده ثبت شده باطل شود؟",
+  "project.documents.voidDocumentConfirm": "کل سند باطل شود؟ پس از آن هیچ‌کس نمی‌تواند آن را امضا کند.",
+  "project.documents.savedSignatures": "امضاهای ذخیره‌شده من",
+  "project.trash.show": "سطل زباله",
+  "project.trash.hide": "بستن سطل زباله",
+  "project.trash.title": "اسناد حذف‌شده",
+  "project.trash.loading": "در حال بارگذاری سطل زباله...",
+  "project.trash.empty": "سطل زباله خالی است.",
+  "project.trash.entry": "— حذف توسط {name} در {date}، پاک‌سازی در {purgeDate}",
+  "project.trash.restore": "بازگرداندن",
+  "project.trash.purge": "حذف دائمی",
+  "project.trash.purgeConfirm": "سند «{name}» و همه نسخه‌هایش برای همیشه حذف شود؟ این کار برگشت‌پذیر نیست.",
+  "project.documents.viewOnly": "این سند فقط برای مشاهده شما فعال است.",
+  "project.documents.waitingForTurn": "نوبت امضای شما نرسیده؛ در انتظار امضای {names}.",
+  "project.documents.signingOrder": "ترتیب امضا",
+  "project.documents.signingStep": "مرحله {step}",
+  "project.documents.signerSigned": "امضا شده",
+  "project.documents.signerOnTurn": "نوبت امضا",
+  "project.documents.signerWaiting": "در انتظار",
+  "project.documents.signerDeclined": "رد کرده",
+  "project.documents.completed": "امضا تکمیل شد",
+  "project.documents.verify": "بررسی اصالت",
+  "project.documents.verifying": "در حال بررسی...",
+  "project.documents.verified": "هش همه نسخه‌ها با مقدار ثبت‌شده مطابقت دارد.",
+  "project.documents.verifyFailed": "هش نسخه‌های {versions} با مقدار ثبت‌شده مطابقت ندارد یا ثبت نشده است.",
+  "project.documents.empty": "سندی برای امضا در دسترس شما نیست.",
+  "project.notes.visibleToAll": "نمایش برای همه‌ی مدعوین",
+  "project.notes.visibleTo": "نمایش برای: {names}",
+  "project.notes.replyPlaceholder": "پاسخ خود را بنویسید...",
+  "project.notes.replySending": "در حال ارسال...",
+  "project.notes.replySubmit": "ارسال پاسخ",
+  "project.notes.replyMissing": "متن پاسخ را وارد کنید.",
+  "project.notes.empty": "یادداشتی برای این سند ثبت نشده است.",
+  "project.notes.add": "ثبت یادداشت",
+  "project.notes.placeholder": "متن یادداشت...",
+  "project.notes.contentMissing": "متن یادداشت را وارد کنید.",
+  "project.notes.shareWithAll": "نمایش برای تمام مدعوین",
+  "project.notes.pickPeople": "انتخاب افراد:",
+  "project.notes.allowReplies": "اجازه پاسخ به یادداشت داده شود",
+  "project.notes.signFirst": "برای افزودن یادداشت ابتدا سند را امضا کنید.",
+  "project.settings.title": "ویرایش پروژه",
+  "project.settings.clearDueDate": "حذف مهلت",
+  "project.settings.windowHint": "ساعت‌ها به منطقه زمانی پروژه هستند. اگر بازه را کوچک‌تر کنید، زمان‌هایی که بیرون می‌مانند پیش از ذخیره به شما نشان داده می‌شوند.",
+  "project.settings.outOfWindow": "زمان‌های ثبت‌شده {count} نفر بیرون از بازه جدید است:",
+  "project.settings.outOfWindowHint": "می‌توانید این زمان‌ها را به بازه جدید کوتاه کنید (بخش‌های بیرون حذف می‌شوند) یا همان‌طور نگه دارید.",
+  "project.settings.trim": "کوتاه کردن و ذخیره",
+  "project.settings.keep": "نگه داشتن و ذخیره",
+  "project.settings.save": "ذخیره تغییرات",
+  "project.settings.saving": "در حال ذخیره...",
+  "project.accessLinks.title": "لینک‌های ورود شخصی",
+  "project.accessLinks.hint": "هر لینک صاحبش را مستقیم وارد پروژه می‌کند. اگر لینکی به دست دیگری افتاد آن را باطل کنید یا لینک تازه بسازید؛ لینک قبلی دیگر کار نمی‌کند.",
+  "project.accessLinks.loading": "در حال دریافت وضعیت لینک‌ها...",
+  "project.accessLinks.none": "لینکی ساخته نشده است",
+  "project.accessLinks.active": "فعال تا {date}",
+  "project.accessLinks.expired": "منقضی‌شده در {date}",
+  "project.accessLinks.revoked": "باطل‌شده در {date}",
+  "project.accessLinks.lastUsed": "آخرین استفاده: {date} (در مجموع {count} بار)",
+  "project.accessLinks.neverUsed": "هنوز استفاده نشده است",
+  "project.accessLinks.create": "ساخت لینک",
+  "project.accessLinks.replace": "لینک تازه",
+  "project.accessLinks.revoke": "باطل کردن",
+  "project.accessLinks.replaceConfirm": "لینک فعلی {name} باطل و لینک تازه‌ای ساخته شود؟",
+  "project.accessLinks.revokeConfirm": "لینک ورود {name} باطل شود؟",
+  "project.accessLinks.shownOnce": "این لینک فقط همین یک بار نمایش داده می‌شود؛ آن را کپی کنید و برای صاحبش بفرستید.",
+  "project.invitees.title": "مدعوین",
+  "project.invitees.hint": "کسی را دیرتر اضافه کنید، نام، نقش، ایمیل یا رمز عبورش را تغییر دهید یا از پروژه حذفش کنید. با حذف، زمان‌های ثبت‌شده و دسترسی‌های او به اسناد پاک می‌شود؛ امضاهای قبلی‌اش با نامش در سابقه می‌ماند.",
+  "project.invitees.you": "شما",
+  "project.invitees.hasEmail": "ایمیل دارد",
+  "project.invitees.noEmail": "بدون ایمیل",
+  "project.invitees.edit": "ویرایش",
+  "project.invitees.save": "ذخیره",
+  "project.invitees.newEmail": "ایمیل",
+  "project.invitees.keepEmail": "برای نگه داشتن ایمیل فعلی خالی بگذارید",
+  "project.invitees.clearEmail": "حذف ایمیل",
+  "project.invitees.newPassword": "رمز عبور جدید",
+  "project.invitees.keepPassword": "برای نگه داشتن رمز فعلی خالی بگذارید",
+  "project.invitees.clearPassword": "حذف رمز عبور",
+  "project.invitees.removeConfirm": "{name} از پروژه حذف شود؟ زمان‌های ثبت‌شده و دسترسی‌هایش به اسناد پاک می‌شود و اگر امضاکننده سندی است، نوبت به نفر بعد می‌رسد.",
+  "project.invitees.addTitle": "افزودن مدعو جدید",
+  "project.invitees.adding": "در حال افزودن...",
+  "project.invitees.added": "{name} اضافه شد. لینک ورود شخصی او:",
+  "project.activity.title": "گزارش فعالیت‌ها",
+  "project.activity.refresh": "به‌روزرسانی",
+  "project.activity.refreshing": "در حال بروزرسانی...",
+  "project.activity.loading": "در حال بارگذاری گزارش‌ها...",
+  "project.activity.actor": "اجرا توسط: {actor}",
+  "project.activity.empty": "هنوز فعالیتی ثبت نشده است.",
+  "project.availability.title": "زمان‌های آزاد خود را ثبت کنید",
+  "project.availability.dueAt": "لطفاً زمان‌های آزاد خود را تا {date} ثبت کنید.",
+  "project.availability.overdue": "مهلت ثبت زمان‌های آزاد در {date} به پایان رسید.",
+  "project.participants.title": "وضعیت مشارکت‌کنندگان",
+  "project.participants.you": "شما",
+  "project.participants.availabilityDone": "زمان ثبت شده",
+  "project.participants.availabilityPending": "در انتظار ثبت زمان",
+  "project.participants.signatureDone": "امضا کامل",
+  "project.participants.signaturePending": "نیاز به امضا",
+  "project.participants.signatureDeclined": "از امضا خودداری کرده",
+  "project.participants.signatureVoided": "امضا باطل شد؛ باید دوباره امضا کند",
+  "project.participants.signatureNotRequired": "نیاز به امضا ندارد",
+  "project.summary.title": "جمع‌بندی گروه (به‌روزرسانی لحظه‌ای)",
+  "project.summary.syncing": "در حال به‌روزرسانی...",
+  "project.summary.ownSlot": "این بازه جزو زمان‌های شماست. می‌توانید آن را ویرایش کرده و دوباره ذخیره کنید.",
+  "project.summary.confirmAddOthers": "این بازه متعلق به فرد دیگری است. آیا می‌خواهید آن را به زمان‌های خود اضافه کنید؟",
+  "project.summary.slotAdded": "این بازه به زمان‌های شما اضافه شد.",
+  "project.responses.title": "پاسخ‌های ثبت‌شده",
+  "project.responses.show": "مشاهده",
+  "project.responses.hide": "بستن",
+  "project.responses.empty": "هنوز پاسخی ثبت نشده است.",
+
+  // Sign page
+  "sign.loading": "در حال آماده‌سازی سند...",
+  "sign.title": "امضای سند",
+  "sign.description": "سند زیر را بررسی کنید و سپس امضای خود را در بخش پایین ثبت نمایید.",
+  "sign.previewUnsupported": "پیش‌نمایش سند برای این نوع فایل در حال حاضر پشتیبانی نمی‌شود. لطفاً همچنان امضای خود را ثبت کنید.",
+  "sign.documentAlt": "سند برای امضا",
+  "sign.previewAlt": "پیش‌نمایش امضا",
+  "sign.mode.draw": "رسم دستی",
+  "sign.mode.typed": "متن تایپی",
+  "sign.mode.upload": "آپلود تصویر امضا",
+  "sign.penColor": "رنگ قلم",
+  "sign.penWidth": "ضخامت قلم",
+  "sign.typedText": "متن امضا",
+  "sign.typedColor": "رنگ متن",
+  "sign.typedSize": "اندازه فونت",
+  "sign.typedFont": "نوع فونت",
+  "sign.uploadLabel": "انتخاب تصویر امضا (PNG ترجیح داده می‌شود)",
+  "sign.uploadedFile": "فایل انتخابی: {name}",
+  "sign.opacity": "شفافیت / شدت نمایش امضا",
+  "sign.typedHint": "پس از تنظیم متن و گزینه‌ها، روی «ساخت پیش‌نمایش امضا» کلیک کنید.",
+  "sign.uploadHint": "پس از انتخاب تصویر، برای جایگذاری روی سند پیش‌نمایش بسازید.",
+  "sign.clearDrawing": "پاک‌سازی نقاشی",
+  "sign.createPreview": "ساخت پیش‌نمایش امضا",
+  "sign.placement": "جایگذاری امضا روی سند",
+  "sign.back": "بازگشت به ساخت امضا",
+  "sign.save": "ذخیره نسخه امضا شده",
+  "sign.saved": "نسخه امضا شده ذخیره شد.",
+  "sign.savedCompleted": "نسخه امضا شده ذخیره شد. همه امضا کرده‌اند و گواهی تکمیل امضا به سند اضافه شد.",
+  "sign.error.pdfRender": "امکان نمایش فایل PDF وجود ندارد.",
+  "sign.error.unknown": "خطای ناشناخته رخ داد.",
+  "sign.error.documentLoading": "تا بارگذاری کامل سند صبر کنید.",
+  "sign.error.drawingMissing": "ابتدا امضای خود را رسم کنید.",
+  "sign.error.typedMissing": "متن امضا را وارد کنید.",
+  "sign.error.uploadMissing": "فایلی برای امضا انتخاب نشده است.",
+  "sign.error.previewMissing": "ابتدا امضا را ساخته و روی سند قرار دهید.",
+  "sign.error.fieldValueMissing": "مقدار این فیلد را وارد کنید.",
+  "sign.error.fieldsIncomplete": "ابتدا همه فیلدهای الزامی را پر کنید.",
+  "sign.previousPage": "صفحه قبل",
+  "sign.nextPage": "صفحه بعد",
+  "sign.pageOf": "صفحه {page} از {count}",
+  "sign.placeOnPage": "قرار دادن امضا در این صفحه",
+  "sign.movePlacement": "جابه‌جایی امضای این صفحه",
+  "sign.removeFromPage": "حذف امضا از این صفحه",
+  "sign.placementHint": "امضا را روی صفحه دلخواه قرار دهید؛ اگر صفحه‌ای انتخاب نکنید، امضا در صفحه فعلی ثبت می‌شود.",
+  "sign.placedPages": "امضا در صفحات {pages} قرار می‌گیرد.",
+  "sign.field.signature": "امضا",
+  "sign.field.initials": "پاراف",
+  "sign.field.date": "تاریخ",
+  "sign.field.text": "متن",
+  "sign.fieldProgress": "فیلد {index} از {count}",
+  "sign.fieldPage": "صفحه {page}",
+  "sign.fieldOptional": "اختیاری",
+  "sign.fieldImageHint": "امضا یا پاراف را بسازید و روی «ثبت در این فیلد» بزنید.",
+  "sign.fieldValue": "مقدار فیلد",
+  "sign.previousField": "فیلد قبلی",
+  "sign.nextField": "فیلد بعدی",
+  "sign.applyToField": "ثبت در این فیلد",
+
+  // Field placement page
+  "fields.title": "جای‌گذاری فیلدهای امضا",
+  "fields.description": "برای هر امضاکننده فیلد امضا، پاراف، تاریخ یا متن قرار دهید. امضاکنندگان فقط فیلدهای خود را پر می‌کنند.",
+  "fields.loading": "در حال بارگذاری سند...",
+  "fields.type": "نوع فیلد",
+  "fields.assignee": "امضاکننده",
+  "fields.label": "عنوان (اختیاری)",
+  "fields.required": "الزامی",
+  "fields.add": "افزودن فیلد به این صفحه",
+  "fields.empty": "هنوز فیلدی قرار داده نشده است.",
+  "fields.item": "{type} – {name} – صفحه {page}",
+  "fields.locked": "این سند امضا شده و فیلدهای آن قابل تغییر نیست.",
+  "fields.noAssignees": "کسی برای امضای این سند تعیین نشده است.",
+  "fields.save": "ذخیره فیلدها",
+  "fields.saving": "در حال ذخیره...",
+  "fields.saved": "فیلدها ذخیره شد.",
+  "fields.back": "بازگشت",
+  "savedSignatures.title": "امضاهای ذخیره‌شده",
+  "savedSignatures.description": "امضا و پاراف خود را یک بار ذخیره کنید و هنگام امضای هر سند در این پروژه دوباره از آن استفاده کنید.",
+  "savedSignatures.loading": "در حال بارگذاری امضاهای ذخیره‌شده...",
+  "savedSignatures.kind.signature": "امضا",
+  "savedSignatures.kind.initials": "پاراف",
+  "savedSignatures.kindLabel": "ذخیره به عنوان",
+  "savedSignatures.empty": "هنوز چیزی ذخیره نشده است.",
+  "savedSignatures.updatedAt": "به‌روزرسانی: {date}",
+  "savedSignatures.save": "ذخیره",
+  "savedSignatures.replace": "جایگزینی",
+  "savedSignatures.saved": "برای دفعات بعد ذخیره شد.",
+  "savedSignatures.delete": "حذف",
+  "savedSignatures.confirmDelete": "این امضای ذخیره‌شده حذف شود؟",
+  "savedSignatures.back": "بازگشت",
+  "savedSignatures.pickTitle": "استفاده از امضای ذخیره‌شده",
+  "savedSignatures.manage": "مدیریت",
+  "savedSignatures.use": "استفاده",
+  "savedSignatures.saveAs.signature": "ذخیره به عنوان امضای من",
+  "savedSignatures.saveAs.initials": "ذخیره به عنوان پاراف من",
+  "savedSignatures.error.fetch": "بارگذاری امضاهای ذخیره‌شده ناموفق بود.",
+  "savedSignatures.error.store": "ذخیره امضا ناموفق بود.",
+  "savedSignatures.error.delete": "حذف امضای ذخیره‌شده ناموفق بود.",
+  "compare.title": "مقایسه نسخه‌ها",
+  "compare.description": "دو نسخه از سند را انتخاب کنید. بخش‌های تغییرکرده با رنگ قرمز مشخص می‌شوند.",
+  "compare.loading": "در حال بارگذاری نسخه‌ها...",
+  "compare.from": "نسخه قدیمی‌تر",
+  "compare.to": "نسخه جدیدتر",
+  "compare.versionOption": "نسخه {version} – {author} – {date}",
+  "compare.certificate": "گواهی تکمیل",
+  "compare.mode.overlay": "نمایش تغییرات",
+  "compare.mode.side": "کنار هم",
+  "compare.changed": "حدود {percent}٪ از این صفحه تغییر کرده است.",
+  "compare.unchanged": "تغییری در این صفحه دیده نمی‌شود.",
+  "compare.pageMissing": "این نسخه چنین صفحه‌ای ندارد.",
+  "compare.pageAlt": "صفحه سند",
+  "compare.overlayAlt": "تغییرات میان دو نسخه",
+  "compare.back": "بازگشت",
+  "compare.error.load": "بارگذاری نسخه‌ها ناموفق بود.",
+  "compare.error.render": "نمایش صفحه ممکن نیست.",
+  "compare.error.singleVersion": "این سند هنوز فقط یک نسخه دارد.",
+
+  // Document notes panel
+  "notesPanel.show": "مشاهده یادداشت‌ها",
+  "notesPanel.hide": "پنهان کردن یادداشت‌ها",
+  "notesPanel.newNote": "یادداشت جدید",
+  "notesPanel.everyone": "برای همه",
+  "notesPanel.pickRecipients": "انتخاب مخاطب",
+  "notesPanel.recipientsMissing": "حداقل یک مخاطب انتخاب کنید.",
+  "notesPanel.repliesAllowed": "امکان پاسخ",
+  "notesPanel.noReplies": "بدون پاسخ",
+  "notesPanel.visibleToAll": "نمایش برای همه",
+  "notesPanel.replySubmit": "ثبت پاسخ",
+};
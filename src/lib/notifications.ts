@@ -0,0 +1,278 @@
+import { getDefaultDateDisplay } from "@/lib/dateDisplay";
+import { canViewDocumentRow, type DocumentAccessRow } from "@/lib/documents";
+import { formatDate, formatTime } from "@/lib/format";
+import { createTranslator, resolveLocale, type Locale } from "@/lib/i18n";
+import { getNotifier } from "@/lib/notifier";
+import { isInviteeRole, isOrganizerRole } from "@/lib/roles";
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { defaultProjectTimeZone } from "@/lib/timezone";
+import type { FinalizedSlot } from "@/types";
+
+export type NotificationEvent =
+  | { type: "invited" }
+  | { type: "documentShared"; documentName: string }
+  | { type: "signingTurn"; documentName: string }
+  | { type: "noteMention"; documentName: string; authorName: string; excerpt: string }
+  | { type: "meetingFinalized"; slot: FinalizedSlot };
+
+type NotificationInviteeRow = {
+  id: string;
+  name: string;
+  email: string | null;
+  locale: string | null;
+};
+
+type MentionDocumentRow = DocumentAccessRow & { file_path: string };
+
+type MentionInviteeRow = { id: string; name: string; role: string | null };
+
+type NotificationProjectRow = {
+  title: string;
+  time_zone: string | null;
+};
+
+const excerptLength = 280;
+
+export const formatNotificationDate = (isoDate: string, locale: Locale) =>
+  formatDate(isoDate, getDefaultDateDisplay(locale));
+
+/** Greeting, body and the project link, in the recipient's language. */
+export const composeNotificationText = (
+  locale: Locale,
+  recipientName: string,
+  lines: string[],
+  url: string
+) => {
+  const t = createTranslator(locale);
+  return [
+    t("email.greeting", { name: recipientName }),
+    "",
+    ...lines,
+    "",
+    t("email.link", { url }),
+  ].join("\n");
+};
+
+const renderEvent = (
+  event: NotificationEvent,
+  locale: Locale,
+  project: { title: string; timeZone: string }
+) => {
+  const t = createTranslator(locale);
+  switch (event.type) {
+    case "invited":
+      return {
+        subject: t("email.invited.subject", { project: project.title }),
+        lines: [t("email.invited.body", { project: project.title })],
+      };
+    case "documentShared":
+      return {
+        subject: t("email.documentShared.subject", { project: project.title }),
+        lines: [
+          t("email.documentShared.body", {
+            document: event.documentName,
+            project: project.title,
+          }),
+        ],
+      };
+    case "signingTurn":
+      return {
+        subject: t("email.signingTurn.subject", { document: event.documentName }),
+        lines: [
+          t("email.signingTurn.body", {
+            document: event.documentName,
+            project: project.title,
+          }),
+        ],
+      };
+    case "noteMention":
+      return {
+        subject: t("email.noteMention.subject", { author: event.authorName }),
+        lines: [
+          t("email.noteMention.body", {
+            author: event.authorName,
+            document: event.documentName,
+          }),
+          "",
+          event.excerpt,
+        ],
+      };
+    case "meetingFinalized": {
+      const digits = getDefaultDateDisplay(locale).digits;
+      return {
+        subject: t("email.meetingFinalized.subject", { project: project.title }),
+        lines: [
+          t("email.meetingFinalized.body", {
+            project: project.title,
+            date: formatNotificationDate(event.slot.date, locale),
+            start: formatTime(event.slot.startTime, digits),
+            end: formatTime(event.slot.endTime, digits),
+            timeZone: project.timeZone,
+          }),
+          ...(event.slot.location
+            ? [t("email.meetingFinalized.location", { location: event.slot.location })]
+            : []),
+          ...(event.slot.notes ? [event.slot.notes] : []),
+        ],
+      };
+    }
+  }
+};
+
+const escapePattern = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Invitees named as `@name` in a note or reply. */
+export const findMentionedInvitees = <T extends { id: string; name: string }>(
+  content: string,
+  invitees: T[]
+) =>
+  invitees.filter((invitee) =>
+    new RegExp(`@${escapePattern(invitee.name)}(?=$|[\\s.,!?،؛:)])`, "u").test(content)
+  );
+
+export const toExcerpt = (content: string) =>
+  content.length > excerptLength ? `${content.slice(0, excerptLength)}…` : content;
+
+/**
+ * Tells the given invitees, or everyone in the project, about an event
+ * through the configured notifier. Invitees it can't reach are skipped and
+ * failures are only logged: a notification never fails the request that
+ * caused it. `links` replaces the project URL with an invitee's personal
+ * sign-in link, but only on a notifier that actually delivers the message;
+ * logs and local outboxes get the project URL instead.
+ */
+export const notifyInvitees = async ({
+  projectId,
+  inviteeIds,
+  event,
+  baseUrl,
+  links,
+}: {
+  projectId: string;
+  inviteeIds: string[] | "all";
+  event: NotificationEvent;
+  baseUrl: string;
+  links?: Map<string, string>;
+}) => {
+  if (inviteeIds !== "all" && !inviteeIds.length) return 0;
+  const supabase = getServiceSupabaseClient();
+
+  try {
+    const inviteeQuery = supabase
+      .from("project_invitees")
+      .select("id, name, email, locale")
+      .eq("project_id", projectId)
+      .is("removed_at", null);
+    const [{ data: projectRow }, { data: inviteeRows }] = await Promise.all([
+      supabase.from("projects").select("title, time_zone").eq("id", projectId).single(),
+      inviteeIds === "all"
+        ? inviteeQuery
+        : inviteeQuery.in("id", Array.from(new Set(inviteeIds))),
+    ]);
+    if (!projectRow) return 0;
+
+    const project = projectRow as NotificationProjectRow;
+    const notifier = getNotifier();
+    const personalLinks = notifier.delivers ? links : undefined;
+    let delivered = 0;
+
+    for (const invitee of (inviteeRows as NotificationInviteeRow[] | null) ?? []) {
+      const locale = resolveLocale(invitee.locale);
+      const { subject, lines } = renderEvent(event, locale, {
+        title: project.title,
+        timeZone: project.time_zone ?? defaultProjectTimeZone,
+      });
+      try {
+        const sent = await notifier.send({
+          projectId,
+          inviteeId: invitee.id,
+          recipientName: invitee.name,
+          email: invitee.email,
+          subject,
+          text: composeNotificationText(
+            locale,
+            invitee.name,
+            lines,
+            personalLinks?.get(invitee.id) ?? `${baseUrl}/project/${projectId}`
+          ),
+        });
+        if (sent) delivered += 1;
+      } catch (error) {
+        console.error("notification send error", event.type, invitee.id, error);
+      }
+    }
+
+    return delivered;
+  } catch (error) {
+    console.error("notification error", event.type, error);
+    return 0;
+  }
+};
+
+/**
+ * Emails invitees mentioned in a note or reply, limited to those who can
+ * open both the document and the note itself.
+ */
+export const notifyNoteMentions = async ({
+  projectId,
+  documentId,
+  content,
+  author,
+  note,
+  baseUrl,
+}: {
+  projectId: string;
+  documentId: string;
+  content: string;
+  author: { id: string; name: string };
+  note: { authorId: string | null; visibleTo: string[] | null };
+  baseUrl: string;
+}) => {
+  if (!content.includes("@")) return 0;
+  const supabase = getServiceSupabaseClient();
+
+  const [{ data: documentRow }, { data: inviteeRows }] = await Promise.all([
+    supabase
+      .from("project_documents")
+      .select("file_path, shared_with_all, document_permissions(invitee_id, can_view)")
+      .eq("id", documentId)
+      .maybeSingle(),
+    supabase
+      .from("project_invitees")
+      .select("id, name, role")
+      .eq("project_id", projectId)
+      .is("removed_at", null),
+  ]);
+  if (!documentRow) return 0;
+
+  const document = documentRow as MentionDocumentRow;
+  const recipients = findMentionedInvitees(
+    content,
+    (inviteeRows as MentionInviteeRow[] | null) ?? []
+  )
+    .map((row) => ({
+      id: row.id,
+      role: isInviteeRole(row.role) ? row.role : ("participant" as const),
+    }))
+    .filter(
+      (row) =>
+        row.id !== author.id &&
+        canViewDocumentRow(document, row) &&
+        (isOrganizerRole(row.role) ||
+          row.id === note.authorId ||
+          !note.visibleTo?.length ||
+          note.visibleTo.includes(row.id))
+    );
+
+  return notifyInvitees({
+    projectId,
+    inviteeIds: recipients.map((row) => row.id),
+    event: {
+      type: "noteMention",
+      documentName: document.file_path.split("/").pop() ?? documentId,
+      authorName: author.name,
+      excerpt: toExcerpt(content),
+    },
+    baseUrl,
+  });
+};
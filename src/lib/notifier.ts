@@ -0,0 +1,82 @@
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+import { getMailTransport, type MailTransport } from "@/lib/mail";
+
+/** A message for one invitee, already rendered in their language. */
+export type Notification = {
+  projectId: string;
+  inviteeId: string;
+  recipientName: string;
+  email: string | null;
+  subject: string;
+  text: string;
+};
+
+/**
+ * Delivers notifications. `send` resolves to false when the channel has no
+ * way to reach the invitee, e.g. email without an address; `channel` is
+ * recorded with each reminder so the activity log shows how it went out.
+ * `delivers` is false for channels that only write to logs or local files,
+ * which must never carry a personal sign-in link.
+ */
+export type Notifier = {
+  channel: string;
+  delivers: boolean;
+  send: (notification: Notification) => Promise<boolean>;
+};
+
+export const consoleNotifier: Notifier = {
+  channel: "console",
+  delivers: false,
+  // Only who and what: the body may hold links that must not end up in logs.
+  send: async (notification) => {
+    console.info(
+      `[notify] ${notification.recipientName} (${notification.inviteeId}): ${notification.subject}`
+    );
+    return true;
+  },
+};
+
+// Development stand-in: every notification becomes a line of outbox.jsonl,
+// so reminders can be inspected without any delivery service.
+export const createFileNotifier = (directory: string): Notifier => ({
+  channel: "file",
+  delivers: false,
+  send: async (notification) => {
+    await mkdir(directory, { recursive: true });
+    await appendFile(
+      path.join(directory, "outbox.jsonl"),
+      `${JSON.stringify({ ...notification, sentAt: new Date().toISOString() })}\n`
+    );
+    return true;
+  },
+});
+
+export const createEmailNotifier = (transport: MailTransport): Notifier => ({
+  channel: "email",
+  delivers: transport.delivers,
+  send: async (notification) => {
+    if (!notification.email) return false;
+    await transport.send({
+      to: notification.email,
+      toName: notification.recipientName,
+      subject: notification.subject,
+      text: notification.text,
+    });
+    return true;
+  },
+});
+
+/** Picks the notifier named by NOTIFIER; the console is the default. */
+export const getNotifier = (): Notifier => {
+  switch (process.env.NOTIFIER) {
+    case "email":
+      return createEmailNotifier(getMailTransport());
+    case "file":
+      return createFileNotifier(
+        process.env.NOTIFIER_OUTBOX_DIR || path.join(process.cwd(), ".outbox")
+      );
+    default:
+      return consoleNotifier;
+  }
+};
@@ -0,0 +1,114 @@
+import { PDFDocument, degrees } from "pdf-lib";
+import { isValidPlacement, type SignaturePlacement } from "@/lib/placement";
+
+/** A signature placement on one page of a PDF (`page` is 1-based). */
+export type PdfSignaturePlacement = SignaturePlacement & { page: number };
+
+export const countPdfPages = async (pdfBytes: Uint8Array | ArrayBuffer) => {
+  const pdf = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+  return pdf.getPageCount();
+};
+
+/** Each page's size as viewers show it, with its /Rotate applied. */
+export const getPdfPageSizes = async (pdfBytes: Uint8Array | ArrayBuffer) => {
+  const pdf = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+  return pdf.getPages().map((page) => {
+    const { width, height } = page.getCropBox();
+    const turned = page.getRotation().angle % 180 !== 0;
+    return turned ? { width: height, height: width } : { width, height };
+  });
+};
+
+export const isValidPdfPlacement = (
+  value: unknown,
+  pageCount: number
+): value is PdfSignaturePlacement => {
+  if (!isValidPlacement(value)) return false;
+  const page = (value as { page?: unknown }).page;
+  return Number.isInteger(page) && (page as number) >= 1 && (page as number) <= pageCount;
+};
+
+/**
+ * Maps a top-left, unrotated placement onto the page's own coordinate space.
+ * Viewers show the crop box turned by the page's /Rotate, so the box has to
+ * be turned back before drawing.
+ */
+const toPageRect = (
+  placement: PdfSignaturePlacement,
+  box: { x: number; y: number; width: number; height: number },
+  rotation: number
+) => {
+  const turned = rotation === 90 || rotation === 270;
+  const viewWidth = turned ? box.height : box.width;
+  const viewHeight = turned ? box.width : box.height;
+  const left = placement.x * viewWidth;
+  const top = placement.y * viewHeight;
+  const width = placement.width * viewWidth;
+  const height = placement.height * viewHeight;
+
+  switch (rotation) {
+    case 90:
+      return {
+        x: box.x + top + height,
+        y: box.y + left,
+        width,
+        height,
+      };
+    case 180:
+      return {
+        x: box.x + box.width - left,
+        y: box.y + top + height,
+        width,
+        height,
+      };
+    case 270:
+      return {
+        x: box.x + box.width - top - height,
+        y: box.y + box.height - left,
+        width,
+        height,
+      };
+    default:
+      return {
+        x: box.x + left,
+        y: box.y + box.height - top - height,
+        width,
+        height,
+      };
+  }
+};
+
+export type PdfImageStamp = {
+  image: Uint8Array | ArrayBuffer;
+  placement: PdfSignaturePlacement;
+};
+
+/**
+ * Draws each PNG at its placement. Existing page content is left untouched,
+ * so text and vector graphics stay selectable and sharp.
+ */
+export const stampImagesOnPdf = async (
+  pdfBytes: Uint8Array | ArrayBuffer,
+  stamps: PdfImageStamp[],
+  opacity = 1
+) => {
+  const pdf = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+  const pages = pdf.getPages();
+  const embedded = new Map<PdfImageStamp["image"], Awaited<ReturnType<typeof pdf.embedPng>>>();
+
+  for (const { image, placement } of stamps) {
+    const page = pages[placement.page - 1];
+    if (!page) continue;
+    const png = embedded.get(image) ?? (await pdf.embedPng(image));
+    embedded.set(image, png);
+    const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+    const rect = toPageRect(placement, page.getCropBox(), rotation);
+    page.drawImage(png, {
+      ...rect,
+      rotate: degrees(rotation),
+      opacity,
+    });
+  }
+
+  return pdf.save();
+};
@@ -0,0 +1,26 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+/** Loads a PDF in the browser; pdf.js is imported lazily to keep it client-only. */
+export const loadPdfPreview = async (url: string) => {
+  const pdfjsLib = await import("pdfjs-dist");
+  pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.mjs`;
+  const pdf = await pdfjsLib.getDocument({ url }).promise;
+  if (pdf.numPages < 1) {
+    throw new Error("PDF has no pages");
+  }
+  return pdf;
+};
+
+export const renderPdfPage = async (pdf: PDFDocumentProxy, pageNumber: number) => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 2 });
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Failed to get canvas context");
+  }
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({ canvasContext: context, viewport, canvas }).promise;
+  return canvas.toDataURL("image/png");
+};
@@ -0,0 +1,29 @@
+/**
+ * A signature box as fractions of the page the signer saw, measured from
+ * the top-left corner.
+ */
+export type SignaturePlacement = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+
+/** Rejects empty boxes and boxes that reach past the page edges. */
+export const isValidPlacement = (value: unknown): value is SignaturePlacement => {
+  if (!value || typeof value !== "object") return false;
+  const placement = value as Record<string, unknown>;
+  return (
+    isFraction(placement.x) &&
+    isFraction(placement.y) &&
+    isFraction(placement.width) &&
+    isFraction(placement.height) &&
+    placement.width > 0 &&
+    placement.height > 0 &&
+    placement.x + placement.width <= 1 &&
+    placement.y + placement.height <= 1
+  );
+};
@@ -0,0 +1,299 @@
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { canSignDocumentRow, isCompletedDocument, isSignedRow } from "@/lib/documents";
+import { createTranslator, resolveLocale } from "@/lib/i18n";
+import { logServerActivity } from "@/lib/logging";
+import { composeNotificationText, formatNotificationDate } from "@/lib/notifications";
+import type { Notifier } from "@/lib/notifier";
+import { canContribute, isInviteeRole, isOrganizerRole } from "@/lib/roles";
+import { isSigningTurn, type SigningStep } from "@/lib/signingOrder";
+import { defaultProjectTimeZone, instantToZonedDate } from "@/lib/timezone";
+
+/** Reminders start this many days before a deadline. */
+export const reminderLeadDays = 2;
+
+/** Overdue invitees keep being reminded for this many days. */
+export const reminderOverdueDays = 7;
+
+/** An invitee hears about a project at most once per interval. */
+export const reminderIntervalHours = 24;
+
+const hourMs = 60 * 60 * 1000;
+const dayMs = 24 * hourMs;
+
+type ReminderProjectRow = {
+  id: string;
+  title: string;
+  time_zone: string | null;
+  availability_due_at: string | null;
+};
+
+type ReminderDocumentRow = {
+  id: string;
+  project_id: string;
+  file_path: string;
+  due_at: string;
+  current_version: number;
+  shared_with_all: boolean;
+  document_permissions?: Array<{ invitee_id: string; can_view: boolean; can_edit: boolean }>;
+  document_signers?: Array<{ invitee_id: string; step: number }>;
+  document_signatures?: Array<{ invitee_id: string; status: string }>;
+  document_versions?: Array<{ version: number; is_certificate: boolean | null }>;
+};
+
+type ReminderInviteeRow = {
+  id: string;
+  project_id: string;
+  name: string;
+  role: string | null;
+  email: string | null;
+  locale: string | null;
+};
+
+type PendingReminder = {
+  project: ReminderProjectRow;
+  invitee: ReminderInviteeRow;
+  availabilityDueAt: string | null;
+  documents: Array<{ id: string; name: string; dueAt: string }>;
+};
+
+// A document waits on an invitee who may sign it, whose turn it is, and who
+// has neither signed nor declined the current version.
+const isWaitingOnInvitee = (
+  document: ReminderDocumentRow,
+  invitee: ReminderInviteeRow
+) => {
+  const role = isInviteeRole(invitee.role) ? invitee.role : "participant";
+  if (!canSignDocumentRow(document, { id: invitee.id, role })) return false;
+  const signatures = document.document_signatures ?? [];
+  const own = signatures.find((signature) => signature.invitee_id === invitee.id);
+  if (own && (isSignedRow(own) || own.status === "declined")) return false;
+  const signers: SigningStep[] = (document.document_signers ?? []).map((signer) => ({
+    inviteeId: signer.invitee_id,
+    step: signer.step,
+  }));
+  if (signers.length && !signers.some((signer) => signer.inviteeId === invitee.id)) {
+    return false;
+  }
+  const signedIds = signatures.filter(isSignedRow).map((signature) => signature.invitee_id);
+  return isSigningTurn(signers, signedIds, invitee.id);
+};
+
+/**
+ * Everyone who still owes availability or a signature on something due
+ * within the reminder window and hasn't been reminded recently.
+ */
+export const findPendingReminders = async (now = new Date()) => {
+  const supabase = getServiceSupabaseClient();
+  const windowStart = new Date(now.getTime() - reminderOverdueDays * dayMs).toISOString();
+  const windowEnd = new Date(now.getTime() + reminderLeadDays * dayMs).toISOString();
+
+  const { data: availabilityRows, error: availabilityError } = await supabase
+    .from("projects")
+    .select("id")
+    .is("deleted_at", null)
+    .is("finalized_slot", null)
+    .gte("availability_due_at", windowStart)
+    .lte("availability_due_at", windowEnd);
+  if (availabilityError) {
+    throw availabilityError;
+  }
+
+  const { data: documentRows, error: documentError } = await supabase
+    .from("project_documents")
+    .select(
+      "id, project_id, file_path, due_at, current_version, shared_with_all, document_permissions(invitee_id, can_view, can_edit), document_signers(invitee_id, step), document_signatures(invitee_id, status), document_versions(version, is_certificate)"
+    )
+    .is("deleted_at", null)
+    .is("voided_at", null)
+    .gte("due_at", windowStart)
+    .lte("due_at", windowEnd);
+  if (documentError) {
+    throw documentError;
+  }
+
+  const documents = ((documentRows as ReminderDocumentRow[] | null) ?? []).filter(
+    (document) => !isCompletedDocument(document)
+  );
+  const availabilityProjectIds = new Set(
+    ((availabilityRows as Array<{ id: string }> | null) ?? []).map((row) => row.id)
+  );
+  const projectIds = Array.from(
+    new Set([
+      ...availabilityProjectIds,
+      ...documents.map((document) => document.project_id),
+    ])
+  );
+  if (!projectIds.length) return [];
+
+  const [projectsResult, inviteesResult, responsesResult, logsResult] = await Promise.all([
+    supabase
+      .from("projects")
+      .select("id, title, time_zone, availability_due_at")
+      .in("id", projectIds)
+      .is("deleted_at", null),
+    supabase
+      .from("project_invitees")
+      .select("id, project_id, name, role, email, locale")
+      .in("project_id", projectIds)
+      .is("removed_at", null),
+    supabase
+      .from("availability_responses")
+      .select("project_id, invitee_id, slots")
+      .in("project_id", projectIds),
+    supabase
+      .from("project_activity_logs")
+      .select("project_id, details")
+      .eq("action", "reminder_sent")
+      .in("project_id", projectIds)
+      .gte("created_at", new Date(now.getTime() - reminderIntervalHours * hourMs).toISOString()),
+  ]);
+  const failed = [projectsResult, inviteesResult, responsesResult, logsResult].find(
+    (result) => result.error
+  );
+  if (failed?.error) {
+    throw failed.error;
+  }
+
+  const responded = new Set(
+    (
+      (responsesResult.data as Array<{
+        project_id: string;
+        invitee_id: string | null;
+        slots: unknown;
+      }> | null) ?? []
+    )
+      .filter((row) => Array.isArray(row.slots) && row.slots.length > 0)
+      .map((row) => `${row.project_id}:${row.invitee_id}`)
+  );
+  const recentlyReminded = new Set(
+    (
+      (logsResult.data as Array<{
+        project_id: string;
+        details: { data?: { recipientId?: string } } | null;
+      }> | null) ?? []
+    ).map((row) => `${row.project_id}:${row.details?.data?.recipientId}`)
+  );
+
+  const invitees = (inviteesResult.data as ReminderInviteeRow[] | null) ?? [];
+  const reminders: PendingReminder[] = [];
+
+  for (const project of (projectsResult.data as ReminderProjectRow[] | null) ?? []) {
+    const availabilityOpen = availabilityProjectIds.has(project.id);
+    const projectDocuments = documents.filter(
+      (document) => document.project_id === project.id
+    );
+
+    // Viewers never contribute. Organizers aren't nudged about availability,
+    // matching the organizer's status panel, but a document waits on anyone
+    // who may sign it, organizers included.
+    for (const invitee of invitees) {
+      if (invitee.project_id !== project.id) continue;
+      const role = isInviteeRole(invitee.role) ? invitee.role : "participant";
+      if (!canContribute(role)) continue;
+      const key = `${project.id}:${invitee.id}`;
+      if (recentlyReminded.has(key)) continue;
+
+      const availabilityDueAt =
+        availabilityOpen && !isOrganizerRole(role) && !responded.has(key)
+          ? project.availability_due_at
+          : null;
+      const pendingDocuments = projectDocuments
+        .filter((document) => isWaitingOnInvitee(document, invitee))
+        .map((document) => ({
+          id: document.id,
+          name: document.file_path.split("/").pop() ?? document.id,
+          dueAt: document.due_at,
+        }));
+
+      if (availabilityDueAt || pendingDocuments.length) {
+        reminders.push({
+          project,
+          invitee,
+          availabilityDueAt,
+          documents: pendingDocuments,
+        });
+      }
+    }
+  }
+
+  return reminders;
+};
+
+const renderReminder = (reminder: PendingReminder, baseUrl: string) => {
+  const locale = resolveLocale(reminder.invitee.locale);
+  const t = createTranslator(locale);
+  const timeZone = reminder.project.time_zone ?? defaultProjectTimeZone;
+  const formatDue = (instant: string) =>
+    formatNotificationDate(instantToZonedDate(instant, timeZone), locale);
+  const lines = [
+    ...(reminder.availabilityDueAt
+      ? [t("reminders.availability", { date: formatDue(reminder.availabilityDueAt) })]
+      : []),
+    ...reminder.documents.map((document) =>
+      t("reminders.document", { name: document.name, date: formatDue(document.dueAt) })
+    ),
+  ];
+  return {
+    subject: t("reminders.subject", { project: reminder.project.title }),
+    text: composeNotificationText(
+      locale,
+      reminder.invitee.name,
+      lines,
+      `${baseUrl}/project/${reminder.project.id}`
+    ),
+  };
+};
+
+/**
+ * Sends every pending reminder and records it as a `reminder_sent`
+ * activity. A failed delivery is logged and retried on the next run;
+ * invitees the notifier can't reach are skipped.
+ */
+export const sendDueReminders = async (
+  notifier: Notifier,
+  baseUrl: string,
+  now = new Date()
+) => {
+  const reminders = await findPendingReminders(now);
+  const result = { sent: 0, skipped: 0, failed: 0 };
+
+  for (const reminder of reminders) {
+    const { subject, text } = renderReminder(reminder, baseUrl);
+    try {
+      const sent = await notifier.send({
+        projectId: reminder.project.id,
+        inviteeId: reminder.invitee.id,
+        recipientName: reminder.invitee.name,
+        email: reminder.invitee.email,
+        subject,
+        text,
+      });
+      if (!sent) {
+        result.skipped += 1;
+        continue;
+      }
+    } catch (error) {
+      console.error("reminder send error", reminder.invitee.id, error);
+      result.failed += 1;
+      continue;
+    }
+
+    result.sent += 1;
+    await logServerActivity({
+      projectId: reminder.project.id,
+      action: "reminder_sent",
+      details: {
+        summary: "یادآوری مهلت ارسال شد",
+        data: {
+          recipientId: reminder.invitee.id,
+          recipientName: reminder.invitee.name,
+          channel: notifier.channel,
+          availability: Boolean(reminder.availabilityDueAt),
+          documentIds: reminder.documents.map((document) => document.id),
+        },
+      },
+    });
+  }
+
+  return result;
+};
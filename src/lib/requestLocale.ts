@@ -0,0 +1,7 @@
+import { cookies } from "next/headers";
+import { localeCookieName, resolveLocale } from "@/lib/i18n";
+
+export const getRequestLocale = async () => {
+  const cookieStore = await cookies();
+  return resolveLocale(cookieStore.get(localeCookieName)?.value);
+};
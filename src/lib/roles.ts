@@ -0,0 +1,31 @@
+import type { Translate } from "@/lib/i18n";
+import type { InviteeRole } from "@/types";
+
+export const inviteeRoles: InviteeRole[] = [
+  "organizer",
+  "co_organizer",
+  "participant",
+  "viewer",
+];
+
+// Roles an invitee can be given; the organizer account is created with the
+// project and there is only ever one.
+export const assignableInviteeRoles: InviteeRole[] = [
+  "participant",
+  "co_organizer",
+  "viewer",
+];
+
+export const isInviteeRole = (value: unknown): value is InviteeRole =>
+  typeof value === "string" && inviteeRoles.includes(value as InviteeRole);
+
+export const isOrganizerRole = (role?: InviteeRole | null) =>
+  role === "organizer" || role === "co_organizer";
+
+// Viewers can browse the project but never write availability, notes or
+// signatures.
+export const canContribute = (role?: InviteeRole | null) =>
+  Boolean(role) && role !== "viewer";
+
+export const formatInviteeRole = (role: InviteeRole, t: Translate) =>
+  t(`roles.${role}`);
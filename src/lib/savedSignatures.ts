@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useState } from "react";
+import type { SignatureMeta } from "@/components/SignatureCreator";
+import type { SavedSignature, SavedSignatureKind } from "@/types";
+
+const readError = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => ({}));
+  return new Error(body?.error ?? fallback);
+};
+
+/** Creator settings to reuse when a saved signature is applied again. */
+export const getSavedSignatureMeta = (signature: SavedSignature): SignatureMeta => ({
+  mode: signature.mode,
+  opacity: 1,
+  typedText: signature.typedText ?? undefined,
+  typedFont: signature.typedFont ?? undefined,
+  typedColor: signature.typedColor ?? undefined,
+  uploadedFileName: signature.uploadedFileName ?? null,
+});
+
+/**
+ * The session invitee's saved signature and initials in a project. Save and
+ * remove throw an Error carrying the API error code.
+ */
+export const useSavedSignatures = (projectId: string | null) => {
+  const [signatures, setSignatures] = useState<SavedSignature[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/signatures`);
+        if (!response.ok) {
+          throw await readError(response, "saved_signatures_fetch_failed");
+        }
+        const body = (await response.json()) as { signatures: SavedSignature[] };
+        if (!cancelled) {
+          setSignatures(body.signatures);
+          setError(null);
+        }
+      } catch (fetchError) {
+        console.error(fetchError);
+        if (!cancelled) {
+          setError(
+            fetchError instanceof Error
+              ? fetchError.message
+              : "saved_signatures_fetch_failed"
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const saveSignature = useCallback(
+    async (kind: SavedSignatureKind, imageDataUrl: string, meta: SignatureMeta) => {
+      if (!projectId) return;
+      const response = await fetch(`/api/projects/${projectId}/signatures`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          kind,
+          mode: meta.mode,
+          imageDataUrl,
+          typedText: meta.typedText,
+          typedFont: meta.typedFont,
+          typedColor: meta.typedColor,
+          uploadedFileName: meta.uploadedFileName,
+        }),
+      });
+      if (!response.ok) {
+        throw await readError(response, "saved_signature_store_failed");
+      }
+      const body = (await response.json()) as { signature: SavedSignature };
+      setSignatures((prev) => [
+        ...prev.filter((item) => item.kind !== kind),
+        body.signature,
+      ]);
+    },
+    [projectId]
+  );
+
+  const removeSignature = useCallback(
+    async (kind: SavedSignatureKind) => {
+      if (!projectId) return;
+      const response = await fetch(
+        `/api/projects/${projectId}/signatures?kind=${kind}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        throw await readError(response, "saved_signature_delete_failed");
+      }
+      setSignatures((prev) => prev.filter((item) => item.kind !== kind));
+    },
+    [projectId]
+  );
+
+  return { signatures, loading, error, saveSignature, removeSignature };
+};
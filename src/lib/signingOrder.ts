@@ -0,0 +1,73 @@
+/**
+ * One entry of a document's signing sequence. Invitees that share a step
+ * sign in parallel; a step opens once every earlier step has signed.
+ */
+export type SigningStep = {
+  inviteeId: string;
+  step: number;
+};
+
+/** The lowest step someone still has to sign, or null once everyone has. */
+export const getCurrentSigningStep = (
+  signers: SigningStep[],
+  signedInviteeIds: string[]
+) => {
+  const pending = signers
+    .filter((signer) => !signedInviteeIds.includes(signer.inviteeId))
+    .map((signer) => signer.step);
+  return pending.length ? Math.min(...pending) : null;
+};
+
+/** Invitees whose turn it is right now. */
+export const getSignersOnTurn = (
+  signers: SigningStep[],
+  signedInviteeIds: string[]
+) => {
+  const step = getCurrentSigningStep(signers, signedInviteeIds);
+  return signers
+    .filter(
+      (signer) =>
+        signer.step === step && !signedInviteeIds.includes(signer.inviteeId)
+    )
+    .map((signer) => signer.inviteeId);
+};
+
+// Documents without a sequence keep the old behaviour: anyone allowed to
+// sign may do so in any order.
+export const isSigningTurn = (
+  signers: SigningStep[],
+  signedInviteeIds: string[],
+  inviteeId: string
+) => {
+  if (!signers.length) return true;
+  const signer = signers.find((item) => item.inviteeId === inviteeId);
+  if (!signer) return false;
+  const step = getCurrentSigningStep(signers, signedInviteeIds);
+  return step === null || signer.step <= step;
+};
+
+/**
+ * Validates a sequence sent by the client and renumbers its steps to 1..n,
+ * so gaps such as 1, 3 become 1, 2. Returns null when it is malformed.
+ */
+export const normalizeSigningOrder = (value: unknown): SigningStep[] | null => {
+  if (!Array.isArray(value)) return null;
+  const entries = value as Array<Partial<SigningStep>>;
+  const valid = entries.every(
+    (entry) =>
+      entry &&
+      typeof entry.inviteeId === "string" &&
+      Number.isInteger(entry.step) &&
+      (entry.step as number) > 0
+  );
+  const inviteeIds = entries.map((entry) => entry.inviteeId);
+  if (!valid || new Set(inviteeIds).size !== inviteeIds.length) return null;
+
+  const steps = Array.from(new Set(entries.map((entry) => entry.step as number))).sort(
+    (a, b) => a - b
+  );
+  return entries.map((entry) => ({
+    inviteeId: entry.inviteeId as string,
+    step: steps.indexOf(entry.step as number) + 1,
+  }));
+};
@@ -0,0 +1,158 @@
+import net, { type Socket } from "net";
+import tls from "tls";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  // true for implicit TLS (usually port 465); otherwise STARTTLS is used
+  // whenever the server offers it.
+  secure: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+};
+
+type SmtpReply = { code: number; text: string };
+
+type ReplyBuffer = { pending: string };
+
+const defaultTimeoutMs = 30_000;
+
+const readReply = (socket: Socket, buffer: ReplyBuffer) =>
+  new Promise<SmtpReply>((resolve, reject) => {
+    function cleanup() {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    }
+    // A reply is complete at its first line with a space after the code;
+    // "250-" lines continue it.
+    function parse() {
+      const lines = buffer.pending.split("\r\n");
+      const last = lines.slice(0, -1).findIndex((line) => /^\d{3}( |$)/.test(line));
+      if (last === -1) return;
+      buffer.pending = lines.slice(last + 1).join("\r\n");
+      cleanup();
+      resolve({
+        code: Number(lines[last].slice(0, 3)),
+        text: lines.slice(0, last + 1).join("\n"),
+      });
+    }
+    function onData(chunk: Buffer) {
+      buffer.pending += chunk.toString("utf8");
+      parse();
+    }
+    function onError(error: Error) {
+      cleanup();
+      reject(error);
+    }
+    function onClose() {
+      cleanup();
+      reject(new Error("SMTP connection closed"));
+    }
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", onClose);
+    parse();
+  });
+
+// Errors name the command only, so AUTH credentials never reach the logs.
+const command = async (
+  socket: Socket,
+  buffer: ReplyBuffer,
+  line: string | null,
+  expected: number[]
+) => {
+  if (line !== null) {
+    socket.write(`${line}\r\n`);
+  }
+  const reply = await readReply(socket, buffer);
+  if (!expected.includes(reply.code)) {
+    const verb = line?.split(" ")[0] ?? "greeting";
+    throw new Error(`SMTP ${verb} failed: ${reply.text}`);
+  }
+  return reply;
+};
+
+const openSocket = (config: SmtpConfig) =>
+  new Promise<Socket>((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    socket.once(config.secure ? "secureConnect" : "connect", () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+    socket.once("error", reject);
+  });
+
+const upgradeSocket = (socket: Socket, host: string) =>
+  new Promise<Socket>((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host }, () => {
+      secureSocket.off("error", reject);
+      resolve(secureSocket);
+    });
+    secureSocket.once("error", reject);
+  });
+
+const withTimeout = (socket: Socket, timeoutMs: number) => {
+  socket.setTimeout(timeoutMs, () => socket.destroy(new Error("SMTP timeout")));
+  return socket;
+};
+
+// Lines starting with a dot are doubled so they can't end the DATA block.
+const toDataBlock = (message: string) =>
+  `${message
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n")}\r\n.`;
+
+/**
+ * Delivers one already-built RFC 5322 message. Only what the app needs:
+ * EHLO, STARTTLS, AUTH PLAIN and a single recipient. Credentials are only
+ * sent over TLS, implicit or upgraded.
+ */
+export const sendSmtpMessage = async (
+  config: SmtpConfig,
+  envelope: { from: string; to: string },
+  message: string
+) => {
+  const timeoutMs = config.timeoutMs ?? defaultTimeoutMs;
+  const buffer: ReplyBuffer = { pending: "" };
+  let socket = withTimeout(await openSocket(config), timeoutMs);
+  let encrypted = config.secure;
+
+  try {
+    await command(socket, buffer, null, [220]);
+    const hello = await command(socket, buffer, "EHLO localhost", [250]);
+
+    if (!config.secure && /STARTTLS/i.test(hello.text)) {
+      await command(socket, buffer, "STARTTLS", [220]);
+      socket = withTimeout(await upgradeSocket(socket, config.host), timeoutMs);
+      encrypted = true;
+      buffer.pending = "";
+      await command(socket, buffer, "EHLO localhost", [250]);
+    }
+
+    if (config.user) {
+      // A server that stops offering STARTTLS must not get the password in
+      // the clear.
+      if (!encrypted) {
+        throw new Error("SMTP AUTH refused: connection is not encrypted");
+      }
+      const credentials = Buffer.from(
+        `\u0000${config.user}\u0000${config.password ?? ""}`
+      ).toString("base64");
+      await command(socket, buffer, `AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await command(socket, buffer, `MAIL FROM:<${envelope.from}>`, [250]);
+    await command(socket, buffer, `RCPT TO:<${envelope.to}>`, [250, 251]);
+    await command(socket, buffer, "DATA", [354]);
+    await command(socket, buffer, toDataBlock(message), [250]);
+    await command(socket, buffer, "QUIT", [221]).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+};
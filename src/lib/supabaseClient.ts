@@ -1,8 +1,17 @@
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
 let cachedClient: SupabaseClient | null = null;
+let currentAccessToken: string | null = null;
+
+/**
+ * Returns the shared browser client. Requests are signed with the invitee's
+ * access token once one is known, and fall back to the anon key otherwise.
+ */
+export const getSupabaseClient = (accessToken?: string | null) => {
+  if (accessToken !== undefined) {
+    currentAccessToken = accessToken;
+  }
 
-export const getSupabaseClient = () => {
   if (cachedClient) {
     return cachedClient;
   }
@@ -16,8 +25,15 @@ export const getSupabaseClient = () => {
     );
   }
 
-  cachedClient = createClient(supabaseUrl, supabaseAnonKey);
+  cachedClient = createClient(supabaseUrl, supabaseAnonKey, {
+    accessToken: async () => currentAccessToken,
+  });
   return cachedClient;
 };
 
-
+export const setSupabaseAccessToken = async (accessToken: string | null) => {
+  currentAccessToken = accessToken;
+  if (cachedClient) {
+    await cachedClient.realtime.setAuth(accessToken);
+  }
+};
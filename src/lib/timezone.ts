@@ -0,0 +1,191 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import type { AvailabilitySlot, ParticipantAvailability } from "@/types";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Slots are stored as wall-clock times in the project's time zone; viewers
+ * in other zones convert on read and convert back before saving.
+ */
+export const defaultProjectTimeZone = "Asia/Tehran";
+
+const dayMinutes = 24 * 60;
+
+const commonTimeZones = [
+  "Asia/Tehran",
+  "UTC",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Istanbul",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "America/Toronto",
+];
+
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getBrowserTimeZone = () => {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimeZone(zone) ? zone : defaultProjectTimeZone;
+};
+
+export const listTimeZones = () => {
+  const supported =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+  return Array.from(new Set([...commonTimeZones, ...supported]));
+};
+
+export const formatUtcOffset = (timeZone: string, at?: string | null) => {
+  const offset = dayjs(at ?? undefined).tz(timeZone).utcOffset();
+  const sign = offset < 0 ? "-" : "+";
+  const absolute = Math.abs(offset);
+  const hours = Math.floor(absolute / 60)
+    .toString()
+    .padStart(2, "0");
+  const minutes = (absolute % 60).toString().padStart(2, "0");
+  return `UTC${sign}${hours}:${minutes}`;
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const slotTimeToInstant = (
+  date: string,
+  time: string,
+  timeZone: string
+) =>
+  time === "24:00"
+    ? dayjs.tz(`${dayjs(date).add(1, "day").format("YYYY-MM-DD")} 00:00`, timeZone)
+    : dayjs.tz(`${date} ${time}`, timeZone);
+
+/**
+ * Deadlines are picked as a date and fall due at the end of that day in the
+ * project's zone.
+ */
+export const dueDateToInstant = (date: string, timeZone: string) =>
+  dayjs.tz(`${date} 23:59:59`, timeZone).toISOString();
+
+/** The date, in the project's zone, a deadline was picked as. */
+export const instantToZonedDate = (instant: string, timeZone: string) =>
+  dayjs(instant).tz(timeZone).format("YYYY-MM-DD");
+
+/**
+ * Re-expresses a slot in another zone. A slot that crosses midnight after
+ * conversion is split at 24:00 so every piece stays within a single date.
+ */
+export const convertSlot = (
+  slot: AvailabilitySlot,
+  fromZone: string,
+  toZone: string
+): AvailabilitySlot[] => {
+  if (fromZone === toZone) return [slot];
+
+  const start = slotTimeToInstant(slot.date, slot.startTime, fromZone).tz(toZone);
+  const end = slotTimeToInstant(slot.date, slot.endTime, fromZone).tz(toZone);
+  const pieces: AvailabilitySlot[] = [];
+
+  let cursorDate = start.format("YYYY-MM-DD");
+  let cursorTime = start.format("HH:mm");
+  const endDate = end.format("YYYY-MM-DD");
+  const endTime = end.format("HH:mm");
+
+  while (cursorDate < endDate) {
+    if (cursorTime !== "24:00") {
+      pieces.push({ date: cursorDate, startTime: cursorTime, endTime: "24:00" });
+    }
+    cursorDate = dayjs(cursorDate).add(1, "day").format("YYYY-MM-DD");
+    cursorTime = "00:00";
+  }
+
+  if (toMinutes(endTime) > toMinutes(cursorTime)) {
+    pieces.push({ date: cursorDate, startTime: cursorTime, endTime });
+  }
+
+  return pieces;
+};
+
+const sortSlots = (a: AvailabilitySlot, b: AvailabilitySlot) =>
+  a.date === b.date
+    ? a.startTime.localeCompare(b.startTime)
+    : a.date.localeCompare(b.date);
+
+/** Joins touching or overlapping slots on the same date. */
+export const mergeSlots = (slots: AvailabilitySlot[]) =>
+  [...slots].sort(sortSlots).reduce<AvailabilitySlot[]>((acc, slot) => {
+    const previous = acc[acc.length - 1];
+    if (
+      previous &&
+      previous.date === slot.date &&
+      toMinutes(slot.startTime) <= toMinutes(previous.endTime)
+    ) {
+      if (toMinutes(slot.endTime) > toMinutes(previous.endTime)) {
+        previous.endTime = slot.endTime;
+      }
+      return acc;
+    }
+    acc.push({ ...slot });
+    return acc;
+  }, []);
+
+export const convertSlots = (
+  slots: AvailabilitySlot[],
+  fromZone: string,
+  toZone: string
+) =>
+  fromZone === toZone
+    ? slots
+    : mergeSlots(slots.flatMap((slot) => convertSlot(slot, fromZone, toZone)));
+
+export const convertResponses = (
+  responses: ParticipantAvailability[],
+  fromZone: string,
+  toZone: string
+) =>
+  fromZone === toZone
+    ? responses
+    : responses.map((response) => ({
+        ...response,
+        slots: convertSlots(response.slots, fromZone, toZone),
+      }));
+
+/**
+ * Moves the project's daily window into the viewer's zone using the offset
+ * on `referenceDate`. A window that would wrap past midnight falls back to
+ * the whole day; saved slots are still checked against the real window.
+ */
+export const shiftTimeWindow = (
+  window: { startMinutes: number; endMinutes: number },
+  referenceDate: string,
+  fromZone: string,
+  toZone: string
+) => {
+  if (fromZone === toZone) return window;
+  const reference = dayjs.tz(`${referenceDate} 12:00`, fromZone);
+  const shift = reference.tz(toZone).utcOffset() - reference.utcOffset();
+  const startMinutes = window.startMinutes + shift;
+  const endMinutes = window.endMinutes + shift;
+  if (startMinutes < 0 || endMinutes > dayMinutes) {
+    return { startMinutes: 0, endMinutes: dayMinutes };
+  }
+  return { startMinutes, endMinutes };
+};
@@ -0,0 +1,96 @@
+import { getServiceSupabaseClient } from "@/lib/serverSupabase";
+import { removeDocumentFolder, removeProjectFolder } from "@/lib/documents";
+import { logServerActivity } from "@/lib/logging";
+
+/** How long deleted projects and documents can be restored. */
+export const trashRetentionDays = 30;
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+export const getPurgeAt = (deletedAt: string) =>
+  new Date(new Date(deletedAt).getTime() + trashRetentionDays * dayMs).toISOString();
+
+// Files go first: if removing them fails the row stays and the next run
+// retries, instead of leaving files nothing points at.
+export const purgeDocument = async (projectId: string, documentId: string) => {
+  const supabase = getServiceSupabaseClient();
+  const removedFiles = await removeDocumentFolder(projectId, documentId);
+  const { error } = await supabase
+    .from("project_documents")
+    .delete()
+    .eq("id", documentId)
+    .eq("project_id", projectId);
+  if (error) {
+    throw error;
+  }
+  return removedFiles;
+};
+
+export const purgeProject = async (projectId: string) => {
+  const supabase = getServiceSupabaseClient();
+  const removedFiles = await removeProjectFolder(projectId);
+  const { error } = await supabase.from("projects").delete().eq("id", projectId);
+  if (error) {
+    throw error;
+  }
+  return removedFiles;
+};
+
+/**
+ * Purges everything that has been in the trash longer than the retention
+ * period. Failures are logged and left for the next run.
+ */
+export const purgeExpiredTrash = async (now = new Date()) => {
+  const supabase = getServiceSupabaseClient();
+  const cutoff = new Date(now.getTime() - trashRetentionDays * dayMs).toISOString();
+  const purged = { projects: [] as string[], documents: [] as string[], failed: 0 };
+
+  const { data: projectRows, error: projectError } = await supabase
+    .from("projects")
+    .select("id")
+    .lt("deleted_at", cutoff);
+  if (projectError) {
+    throw projectError;
+  }
+
+  for (const row of (projectRows as Array<{ id: string }> | null) ?? []) {
+    try {
+      await purgeProject(row.id);
+      purged.projects.push(row.id);
+    } catch (error) {
+      console.error("project purge error", row.id, error);
+      purged.failed += 1;
+    }
+  }
+
+  const { data: documentRows, error: documentError } = await supabase
+    .from("project_documents")
+    .select("id, project_id")
+    .lt("deleted_at", cutoff);
+  if (documentError) {
+    throw documentError;
+  }
+
+  const documents =
+    (documentRows as Array<{ id: string; project_id: string }> | null) ?? [];
+  for (const row of documents) {
+    const projectId = row.project_id;
+    try {
+      await purgeDocument(projectId, row.id);
+      purged.documents.push(row.id);
+      await logServerActivity({
+        projectId,
+        action: "document_purged",
+        details: {
+          summary: "سند برای همیشه حذف شد",
+          data: { documentId: row.id },
+        },
+      });
+    } catch (error) {
+      console.error("document purge error", row.id, error);
+      purged.failed += 1;
+    }
+  }
+
+  return purged;
+};
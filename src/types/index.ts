@@ -14,6 +14,21 @@ export type ParticipantAvailability = {
   createdAt: string;
 };
 
+export type FinalizedSlot = AvailabilitySlot & {
+  location?: string | null;
+  notes?: string | null;
+  finalizedAt: string;
+};
+
+export type CalendarSystem = "jalali" | "gregorian" | "hijri";
+
+export type DigitSystem = "persian" | "latin";
+
+export type DateDisplay = {
+  calendar: CalendarSystem;
+  digits: DigitSystem;
+};
+
 export type Project = {
   id: string;
   title: string;
@@ -22,14 +37,38 @@ export type Project = {
   endDate?: string | null;
   startTime?: string | null;
   endTime?: string | null;
+  timeZone: string;
+  finalizedSlot?: FinalizedSlot | null;
+  availabilityDueAt?: string | null;
   createdAt: string;
 };
 
+export type InviteeRole =
+  | "organizer"
+  | "co_organizer"
+  | "participant"
+  | "viewer";
+
 export type ProjectInvitee = {
   id: string;
   projectId: string;
   name: string;
-  password?: string | null;
+  role: InviteeRole;
+  hasPassword: boolean;
+  // The address itself never leaves the server.
+  hasEmail: boolean;
+  createdAt: string;
+};
+
+export type AccessLinkFailure = "invalid" | "expired" | "revoked";
+
+/** Status of an invitee's newest sign-in link, as organizers see it. */
+export type InviteeAccessLink = {
+  inviteeId: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  useCount: number;
   createdAt: string;
 };
 
@@ -78,6 +117,9 @@ export type ProjectDocument = {
   currentVersion: number;
   uploadedBy?: string | null;
   sharedWithAll: boolean;
+  voidedAt?: string | null;
+  voidReason?: string | null;
+  dueAt?: string | null;
   createdAt: string;
   notes?: DocumentNote[];
 };
@@ -95,14 +137,38 @@ export type DocumentVersion = {
   documentId: string;
   version: number;
   mergedFilePath: string;
+  sha256?: string | null;
+  isCertificate?: boolean;
+  isRevision?: boolean;
+  createdBy?: string | null;
   createdAt: string;
 };
 
+/** A row of a document's version timeline. */
+export type DocumentVersionEntry = {
+  version: number;
+  fileType: "pdf" | "image";
+  isCertificate: boolean;
+  isRevision: boolean;
+  isCurrent: boolean;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: string;
+};
+
+export type SignatureStatus = "signed" | "declined" | "voided" | "stale";
+
 export type DocumentSignature = {
   id: string;
   documentId: string;
   inviteeId: string;
   version: number;
+  status: SignatureStatus;
+  declineReason?: string | null;
+  declinedAt?: string | null;
+  voidedAt?: string | null;
+  voidReason?: string | null;
+  staleAt?: string | null;
   strokesJson?: unknown;
   typedText?: string | null;
   typedFont?: string | null;
@@ -113,12 +179,62 @@ export type DocumentSignature = {
   createdAt: string;
 };
 
+export type SignatureMode = "draw" | "typed" | "upload";
+
+export type SavedSignatureKind = "signature" | "initials";
+
+export type SavedSignature = {
+  kind: SavedSignatureKind;
+  mode: SignatureMode;
+  imageDataUrl: string;
+  typedText?: string | null;
+  typedFont?: string | null;
+  typedColor?: string | null;
+  uploadedFileName?: string | null;
+  updatedAt: string;
+};
+
+export type DocumentSigner = {
+  documentId: string;
+  inviteeId: string;
+  step: number;
+};
+
+export type DocumentFieldType = "signature" | "initials" | "date" | "text";
+
+/** A field the uploader placed for one invitee; coordinates are page fractions. */
+export type DocumentField = {
+  id: string;
+  documentId: string;
+  inviteeId: string;
+  fieldType: DocumentFieldType;
+  label?: string | null;
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  required: boolean;
+  value?: string | null;
+  filledAt?: string | null;
+};
+
 export type ProjectDocumentWithRelations = ProjectDocument & {
   permissions: DocumentPermission[];
+  signers: DocumentSigner[];
   versions: DocumentVersion[];
   signatures: DocumentSignature[];
   notes: DocumentNote[];
 };
 
+/** A document waiting in the trash until `purgeAt`. */
+export type TrashedDocument = {
+  id: string;
+  name: string;
+  deletedAt: string;
+  deletedByName: string | null;
+  purgeAt: string;
+};
+
 
 
@@ -6,6 +6,8 @@ create table if not exists public.projects (
   end_date date,
   start_time text,
   end_time text,
+  time_zone text not null default 'Asia/Tehran',
+  finalized_slot jsonb,
   created_at timestamptz not null default timezone('utc', now())
 );
 
@@ -13,7 +15,9 @@ create table if not exists public.project_invitees (
   id uuid primary key default gen_random_uuid(),
   project_id uuid not null references public.projects(id) on delete cascade,
   name text not null,
+  role text not null default 'participant',
   password text,
+  password_hash text,
   created_at timestamptz not null default timezone('utc', now())
 );
 
@@ -100,95 +104,6 @@ alter table public.document_versions
 alter table public.document_signatures
   enable row level security;
 
-create policy if not exists "anon can read projects"
-  on public.projects
-  for select
-  using (true);
-
-create policy if not exists "anon can insert projects"
-  on public.projects
-  for insert
-  with check (true);
-
-create policy if not exists "anon can read invitees"
-  on public.project_invitees
-  for select
-  using (true);
-
-create policy if not exists "anon can insert invitees"
-  on public.project_invitees
-  for insert
-  with check (true);
-
-create policy if not exists "anon can read availabilities"
-  on public.availability_responses
-  for select
-  using (true);
-
-create policy if not exists "anon can upsert availabilities"
-  on public.availability_responses
-  for insert
-  with check (true);
-
-create policy if not exists "anon can update own availability"
-  on public.availability_responses
-  for update
-  using (true)
-  with check (true);
-
-create policy if not exists "anon can read documents"
-  on public.project_documents
-  for select
-  using (
-    exists (
-      select 1
-      from public.project_invitees pi
-      where pi.project_id = project_id
-        and pi.id = coalesce(current_setting('request.jwt.claims', true)::json->>'invitee_id', '00000000-0000-0000-0000-000000000000')::uuid
-    )
-  );
-
-create policy if not exists "anon can insert documents"
-  on public.project_documents
-  for insert
-  with check (true);
-
-create policy if not exists "anon can read doc permissions"
-  on public.document_permissions
-  for select
-  using (true);
-
-create policy if not exists "anon can upsert doc permissions"
-  on public.document_permissions
-  for insert
-  with check (true);
-
-create policy if not exists "anon can read doc versions"
-  on public.document_versions
-  for select
-  using (true);
-
-create policy if not exists "anon can insert doc versions"
-  on public.document_versions
-  for insert
-  with check (true);
-
-create policy if not exists "anon can read signatures"
-  on public.document_signatures
-  for select
-  using (true);
-
-create policy if not exists "anon can upsert signatures"
-  on public.document_signatures
-  for insert
-  with check (true);
-
-create policy if not exists "anon can update signatures"
-  on public.document_signatures
-  for update
-  using (true)
-  with check (true);
-
 create or replace function public.handle_updated_at()
 returns trigger as $$
 begin
@@ -210,17 +125,6 @@ create table if not exists public.project_activity_logs (
 
 alter table public.project_activity_logs enable row level security;
 
-drop policy if exists "anon can read project activity logs" on public.project_activity_logs;
-drop policy if exists "anon can insert project activity logs" on public.project_activity_logs;
-create policy "anon can read project activity logs"
-  on public.project_activity_logs
-  for select
-  using (true);
-create policy "anon can insert project activity logs"
-  on public.project_activity_logs
-  for insert
-  with check (true);
-
 -- notes that accompany signed documents
 create table if not exists public.document_notes (
   id uuid primary key default gen_random_uuid(),
@@ -234,17 +138,6 @@ create table if not exists public.document_notes (
 
 alter table public.document_notes enable row level security;
 
-drop policy if exists "anon can read document notes" on public.document_notes;
-drop policy if exists "anon can insert document notes" on public.document_notes;
-create policy "anon can read document notes"
-  on public.document_notes
-  for select
-  using (true);
-create policy "anon can insert document notes"
-  on public.document_notes
-  for insert
-  with check (true);
-
 create table if not exists public.document_note_replies (
   id uuid primary key default gen_random_uuid(),
   note_id uuid not null references public.document_notes(id) on delete cascade,
@@ -255,17 +148,6 @@ create table if not exists public.document_note_replies (
 
 alter table public.document_note_replies enable row level security;
 
-drop policy if exists "anon can read document note replies" on public.document_note_replies;
-drop policy if exists "anon can insert document note replies" on public.document_note_replies;
-create policy "anon can read document note replies"
-  on public.document_note_replies
-  for select
-  using (true);
-create policy "anon can insert document note replies"
-  on public.document_note_replies
-  for insert
-  with check (true);
-
 
 drop trigger if exists set_updated_at on public.availability_responses;
 create trigger set_updated_at
@@ -273,4 +155,530 @@ before update on public.availability_responses
 for each row
 execute function public.handle_updated_at();
 
+-- invitee passwords are verified server-side against scrypt hashes; the
+-- plaintext column is only read to upgrade legacy rows on their next login
+alter table public.project_invitees
+  add column if not exists password_hash text;
+
+-- invitee roles replace the reserved "admin" name; organizers and
+-- co-organizers manage the project, viewers are read-only
+alter table public.project_invitees
+  add column if not exists role text not null default 'participant';
+
+alter table public.project_invitees
+  drop constraint if exists project_invitees_role_check;
+alter table public.project_invitees
+  add constraint project_invitees_role_check
+  check (role in ('organizer', 'co_organizer', 'participant', 'viewer'));
+
+update public.project_invitees
+  set role = 'organizer'
+  where lower(name) = 'admin' and role = 'participant';
+
+-- the slot the organizer picked; { date, startTime, endTime, location,
+-- notes, finalizedAt }. Availability is locked while it is set.
+alter table public.projects
+  add column if not exists finalized_slot jsonb;
+
+-- dates and times in availability slots and finalized_slot are wall-clock
+-- values in this IANA zone; viewers elsewhere convert when displaying
+alter table public.projects
+  add column if not exists time_zone text not null default 'Asia/Tehran';
+
+-- audit trail: every version records the SHA-256 of the file it was built
+-- from and of its own file; the certificate version closes the document
+alter table public.document_versions
+  add column if not exists source_sha256 text,
+  add column if not exists sha256 text,
+  add column if not exists is_certificate boolean not null default false;
+
+-- where each signature was submitted from, as seen by the server
+alter table public.document_signatures
+  add column if not exists ip_address text,
+  add column if not exists user_agent text;
+
+-- the uploader's signing sequence; invitees sharing a step sign in
+-- parallel and a step opens once every earlier step has signed. Documents
+-- without rows can be signed by anyone allowed, in any order.
+create table if not exists public.document_signers (
+  document_id uuid not null references public.project_documents(id) on delete cascade,
+  invitee_id uuid not null references public.project_invitees(id) on delete cascade,
+  step integer not null check (step > 0),
+  created_at timestamptz not null default timezone('utc', now()),
+  primary key (document_id, invitee_id)
+);
 
+alter table public.document_signers
+  enable row level security;
+
+-- fields the uploader places for a specific invitee. Coordinates are
+-- fractions of the unrotated page with a top-left origin; `value` and
+-- `filled_at` are written by the sign route once the invitee fills them.
+create table if not exists public.document_fields (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.project_documents(id) on delete cascade,
+  invitee_id uuid not null references public.project_invitees(id) on delete cascade,
+  field_type text not null check (field_type in ('signature', 'initials', 'date', 'text')),
+  label text,
+  page integer not null default 1 check (page > 0),
+  x double precision not null check (x >= 0 and x < 1),
+  y double precision not null check (y >= 0 and y < 1),
+  width double precision not null check (width > 0 and x + width <= 1),
+  height double precision not null check (height > 0 and y + height <= 1),
+  required boolean not null default true,
+  value text,
+  filled_at timestamptz,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists document_fields_document_idx
+  on public.document_fields (document_id);
+
+alter table public.document_fields
+  enable row level security;
+
+-- each invitee's saved signature and initials, reused on the sign page.
+-- The PNG lives in storage; the typed_* columns mirror document_signatures
+-- so a typed signature can be recreated in another font or colour.
+create table if not exists public.invitee_signatures (
+  id uuid primary key default gen_random_uuid(),
+  invitee_id uuid not null references public.project_invitees(id) on delete cascade,
+  kind text not null check (kind in ('signature', 'initials')),
+  mode text not null check (mode in ('draw', 'typed', 'upload')),
+  image_path text not null,
+  typed_text text,
+  typed_font text,
+  typed_color text,
+  uploaded_file_name text,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  unique (invitee_id, kind)
+);
+
+drop trigger if exists set_updated_at on public.invitee_signatures;
+create trigger set_updated_at
+before update on public.invitee_signatures
+for each row
+execute function public.handle_updated_at();
+
+alter table public.invitee_signatures
+  enable row level security;
+
+-- a signer can decline instead of signing, and organizers can void a
+-- signature or the whole document. Rows are kept for the audit trail;
+-- only `signed` rows count towards the signing order and completion.
+alter table public.document_signatures
+  add column if not exists status text not null default 'signed',
+  add column if not exists decline_reason text,
+  add column if not exists declined_at timestamptz,
+  add column if not exists voided_at timestamptz,
+  add column if not exists voided_by uuid references public.project_invitees(id) on delete set null,
+  add column if not exists void_reason text;
+
+alter table public.document_signatures
+  drop constraint if exists document_signatures_status_check;
+alter table public.document_signatures
+  add constraint document_signatures_status_check
+  check (status in ('signed', 'declined', 'voided'));
+
+-- a voided document is closed to signing; current_version points at the
+-- version the organizer rolled back to
+alter table public.project_documents
+  add column if not exists voided_at timestamptz,
+  add column if not exists voided_by uuid references public.project_invitees(id) on delete set null,
+  add column if not exists void_reason text;
+
+-- who produced each version: the uploader for v1, the signer for signed
+-- versions; null for the completion certificate
+alter table public.document_versions
+  add column if not exists created_by uuid references public.project_invitees(id) on delete set null;
+
+-- an organizer can upload a revised original without starting a new
+-- document. The revision is a new version with no source file; notes and
+-- permissions carry over, while earlier signatures and declines become
+-- `stale`, stay pinned to the version they were made on, and the signers
+-- are asked again.
+alter table public.document_versions
+  add column if not exists is_revision boolean not null default false;
+
+alter table public.document_signatures
+  add column if not exists stale_at timestamptz;
+
+alter table public.document_signatures
+  drop constraint if exists document_signatures_status_check;
+alter table public.document_signatures
+  add constraint document_signatures_status_check
+  check (status in ('signed', 'declined', 'voided', 'stale'));
+
+-- deleting a project or document moves it to the trash: `deleted_at` hides
+-- it from clients until an organizer restores it. After the retention
+-- period the purge job removes its storage objects and then the row, and
+-- the foreign keys cascade to everything stored under it.
+alter table public.projects
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references public.project_invitees(id) on delete set null;
+
+alter table public.project_documents
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references public.project_invitees(id) on delete set null;
+
+create index if not exists projects_deleted_idx
+  on public.projects (deleted_at) where deleted_at is not null;
+
+create index if not exists project_documents_deleted_idx
+  on public.project_documents (deleted_at) where deleted_at is not null;
+
+-- optional deadlines: `availability_due_at` for collecting availability and
+-- `due_at` per document for signing. Both are the end of the chosen day in
+-- the project's zone. The reminder job nudges whoever is still missing as a
+-- deadline approaches and records each nudge as a `reminder_sent` activity.
+alter table public.projects
+  add column if not exists availability_due_at timestamptz;
+
+alter table public.project_documents
+  add column if not exists due_at timestamptz;
+
+create index if not exists projects_availability_due_idx
+  on public.projects (availability_due_at) where availability_due_at is not null;
+
+create index if not exists project_documents_due_idx
+  on public.project_documents (due_at) where due_at is not null;
+
+create index if not exists project_activity_logs_action_idx
+  on public.project_activity_logs (action, created_at);
+
+-- optional address for email notifications (invitation, shared documents,
+-- signing turns, note mentions, the finalized meeting) and the language
+-- those emails are written in. Like password hashes, addresses are only
+-- read by the server.
+alter table public.project_invitees
+  add column if not exists email text,
+  add column if not exists locale text not null default 'fa';
+
+alter table public.project_invitees
+  drop constraint if exists project_invitees_locale_check;
+alter table public.project_invitees
+  add constraint project_invitees_locale_check
+  check (locale in ('fa', 'en'));
+
+-- personal sign-in links. Only the SHA-256 of a link's token is stored, so
+-- the link is shown once, when it is created. Each invitee has at most one
+-- live link: creating a new one revokes the previous one. Links are never
+-- readable by clients; the server records each use on the row and in the
+-- activity log.
+create table if not exists public.invitee_access_links (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects(id) on delete cascade,
+  invitee_id uuid not null references public.project_invitees(id) on delete cascade,
+  token_hash text not null unique,
+  expires_at timestamptz not null,
+  revoked_at timestamptz,
+  last_used_at timestamptz,
+  use_count integer not null default 0,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create unique index if not exists invitee_access_links_live_idx
+  on public.invitee_access_links (invitee_id) where revoked_at is null;
+
+create index if not exists invitee_access_links_project_idx
+  on public.invitee_access_links (project_id);
+
+alter table public.invitee_access_links
+  enable row level security;
+
+-- removing an invitee who has already signed something keeps their row
+-- for the audit trail and certificates, marked with `removed_at`;
+-- everyone else's row is deleted outright. Removed invitees cannot sign
+-- in and no longer count as project members.
+alter table public.project_invitees
+  add column if not exists removed_at timestamptz;
+
+-- every session cookie, Supabase JWT and calendar feed token carries the
+-- invitee's session version; bumping it (revoking a sign-in link, resetting
+-- a password) signs them out everywhere at once.
+alter table public.project_invitees
+  add column if not exists session_version integer not null default 0;
+
+-- row level security is keyed on the `invitee_id` claim of the JWT the
+-- server mints after a successful login (see SUPABASE_JWT_SECRET). Browser
+-- clients can only read their own project and write rows attributed to
+-- themselves; everything else goes through the service role on the server.
+create or replace function public.request_invitee_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select pi.id
+  from public.project_invitees pi,
+    lateral (
+      select coalesce(nullif(current_setting('request.jwt.claims', true), ''), '{}')::json as claims
+    ) jwt
+  where pi.id = nullif(jwt.claims->>'invitee_id', '')::uuid
+    and pi.session_version = coalesce((jwt.claims->>'session_version')::integer, 0)
+$$;
+
+create or replace function public.is_project_member(target_project uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.project_invitees pi
+    join public.projects p on p.id = pi.project_id
+    where pi.id = public.request_invitee_id()
+      and pi.project_id = target_project
+      and pi.removed_at is null
+      and p.deleted_at is null
+  )
+$$;
+
+create or replace function public.is_project_contributor(target_project uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.project_invitees pi
+    join public.projects p on p.id = pi.project_id
+    where pi.id = public.request_invitee_id()
+      and pi.project_id = target_project
+      and pi.removed_at is null
+      and pi.role <> 'viewer'
+      and p.deleted_at is null
+  )
+$$;
+
+create or replace function public.is_project_organizer(target_project uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.project_invitees pi
+    join public.projects p on p.id = pi.project_id
+    where pi.id = public.request_invitee_id()
+      and pi.project_id = target_project
+      and pi.removed_at is null
+      and pi.role in ('organizer', 'co_organizer')
+      and p.deleted_at is null
+  )
+$$;
+
+create or replace function public.is_project_open(target_project uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.projects p
+    where p.id = target_project
+      and p.finalized_slot is null
+  )
+$$;
+
+create or replace function public.can_view_document(target_document uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.project_documents d
+    join public.projects p on p.id = d.project_id
+    join public.project_invitees pi on pi.project_id = d.project_id
+    where d.id = target_document
+      and pi.id = public.request_invitee_id()
+      and pi.removed_at is null
+      and d.deleted_at is null
+      and p.deleted_at is null
+      and (
+        pi.role in ('organizer', 'co_organizer')
+        or d.shared_with_all
+        or exists (
+          select 1
+          from public.document_permissions dp
+          where dp.document_id = d.id
+            and dp.invitee_id = pi.id
+            and dp.can_view
+        )
+      )
+  )
+$$;
+
+create or replace function public.can_view_note(target_note uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.document_notes n
+    join public.project_documents d on d.id = n.document_id
+    where n.id = target_note
+      and public.can_view_document(n.document_id)
+      and (
+        public.is_project_organizer(d.project_id)
+        or n.visible_to is null
+        or cardinality(n.visible_to) = 0
+        or n.invitee_id = public.request_invitee_id()
+        or public.request_invitee_id() = any (n.visible_to)
+      )
+  )
+$$;
+
+-- the permissive policies from earlier revisions of this file
+drop policy if exists "anon can read projects" on public.projects;
+drop policy if exists "anon can insert projects" on public.projects;
+drop policy if exists "anon can read invitees" on public.project_invitees;
+drop policy if exists "anon can insert invitees" on public.project_invitees;
+drop policy if exists "anon can read availabilities" on public.availability_responses;
+drop policy if exists "anon can upsert availabilities" on public.availability_responses;
+drop policy if exists "anon can update own availability" on public.availability_responses;
+drop policy if exists "anon can read documents" on public.project_documents;
+drop policy if exists "anon can insert documents" on public.project_documents;
+drop policy if exists "anon can read doc permissions" on public.document_permissions;
+drop policy if exists "anon can upsert doc permissions" on public.document_permissions;
+drop policy if exists "anon can read doc versions" on public.document_versions;
+drop policy if exists "anon can insert doc versions" on public.document_versions;
+drop policy if exists "anon can read signatures" on public.document_signatures;
+drop policy if exists "anon can upsert signatures" on public.document_signatures;
+drop policy if exists "anon can update signatures" on public.document_signatures;
+drop policy if exists "anon can read project activity logs" on public.project_activity_logs;
+drop policy if exists "anon can insert project activity logs" on public.project_activity_logs;
+drop policy if exists "anon can read document notes" on public.document_notes;
+drop policy if exists "anon can insert document notes" on public.document_notes;
+drop policy if exists "anon can read document note replies" on public.document_note_replies;
+drop policy if exists "anon can insert document note replies" on public.document_note_replies;
+
+-- projects and invitees are created and managed by the server only;
+-- invitee rows carry password hashes and are never exposed to clients
+drop policy if exists "members can read project" on public.projects;
+create policy "members can read project"
+  on public.projects
+  for select
+  using (public.is_project_member(id));
+
+drop policy if exists "members can read availabilities" on public.availability_responses;
+drop policy if exists "invitees can insert own availability" on public.availability_responses;
+drop policy if exists "invitees can update own availability" on public.availability_responses;
+create policy "members can read availabilities"
+  on public.availability_responses
+  for select
+  using (public.is_project_member(project_id));
+create policy "invitees can insert own availability"
+  on public.availability_responses
+  for insert
+  with check (
+    invitee_id = public.request_invitee_id()
+    and public.is_project_contributor(project_id)
+    and public.is_project_open(project_id)
+  );
+create policy "invitees can update own availability"
+  on public.availability_responses
+  for update
+  using (invitee_id = public.request_invitee_id())
+  with check (
+    invitee_id = public.request_invitee_id()
+    and public.is_project_contributor(project_id)
+    and public.is_project_open(project_id)
+  );
+
+-- documents, versions, permissions and signatures are written by the API
+-- routes after their own checks, so clients only get read access
+drop policy if exists "members can read shared documents" on public.project_documents;
+create policy "members can read shared documents"
+  on public.project_documents
+  for select
+  using (public.can_view_document(id));
+
+drop policy if exists "invitees can read relevant doc permissions" on public.document_permissions;
+create policy "invitees can read relevant doc permissions"
+  on public.document_permissions
+  for select
+  using (
+    invitee_id = public.request_invitee_id()
+    or exists (
+      select 1
+      from public.project_documents d
+      where d.id = document_id
+        and public.is_project_organizer(d.project_id)
+    )
+  );
+
+drop policy if exists "members can read doc versions" on public.document_versions;
+create policy "members can read doc versions"
+  on public.document_versions
+  for select
+  using (public.can_view_document(document_id));
+
+drop policy if exists "members can read signatures" on public.document_signatures;
+create policy "members can read signatures"
+  on public.document_signatures
+  for select
+  using (public.can_view_document(document_id));
+
+drop policy if exists "members can read document signers" on public.document_signers;
+create policy "members can read document signers"
+  on public.document_signers
+  for select
+  using (public.can_view_document(document_id));
+
+drop policy if exists "members can read document fields" on public.document_fields;
+create policy "members can read document fields"
+  on public.document_fields
+  for select
+  using (public.can_view_document(document_id));
+
+drop policy if exists "invitees can read own saved signatures" on public.invitee_signatures;
+create policy "invitees can read own saved signatures"
+  on public.invitee_signatures
+  for select
+  using (invitee_id = public.request_invitee_id());
+
+drop policy if exists "organizers can read project activity logs" on public.project_activity_logs;
+drop policy if exists "invitees can insert own activity logs" on public.project_activity_logs;
+create policy "organizers can read project activity logs"
+  on public.project_activity_logs
+  for select
+  using (public.is_project_organizer(project_id));
+-- Only the actions the browser records itself; everything else, reminders
+-- and sign-ins included, is written by the server with the service role.
+create policy "invitees can insert own activity logs"
+  on public.project_activity_logs
+  for insert
+  with check (
+    invitee_id = public.request_invitee_id()
+    and public.is_project_member(project_id)
+    and action in ('availability_saved', 'document_downloaded')
+  );
+
+drop policy if exists "invitees can read visible document notes" on public.document_notes;
+create policy "invitees can read visible document notes"
+  on public.document_notes
+  for select
+  using (public.can_view_note(id));
+
+drop policy if exists "invitees can read visible note replies" on public.document_note_replies;
+create policy "invitees can read visible note replies"
+  on public.document_note_replies
+  for select
+  using (public.can_view_note(note_id));
@@ -0,0 +1,669 @@
+-- Row level security tests for supabase/schema.sql.
+--
+-- Run against a disposable local Postgres (or `supabase start`) after the
+-- schema has been applied:
+--
+--   npm run test:db
+--
+-- which expands to
+--
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 \
+--     -f supabase/schema.sql -f supabase/tests/rls.test.sql
+--
+-- Every statement runs inside one transaction that is rolled back at the
+-- end, so the database is left untouched. A failing assertion raises an
+-- exception and psql exits non-zero.
+
+begin;
+
+-- Supabase provisions the `authenticated` role; plain Postgres does not.
+do $$
+begin
+  if not exists (select 1 from pg_roles where rolname = 'authenticated') then
+    create role authenticated nologin;
+  end if;
+end
+$$;
+
+grant usage on schema public to authenticated;
+grant select, insert, update, delete on all tables in schema public to authenticated;
+
+-- Runs `statement` as the `authenticated` role with a JWT carrying the given
+-- invitee_id claim and returns the number of rows it touched.
+create function pg_temp.run_as(invitee uuid, statement text)
+returns integer
+language plpgsql
+as $$
+declare
+  affected integer;
+begin
+  perform set_config(
+    'request.jwt.claims',
+    json_build_object('role', 'authenticated', 'invitee_id', invitee)::text,
+    true
+  );
+  set local role authenticated;
+  execute statement;
+  get diagnostics affected = row_count;
+  reset role;
+  return affected;
+end;
+$$;
+
+create function pg_temp.expect_rows(
+  label text,
+  invitee uuid,
+  statement text,
+  expected integer
+)
+returns void
+language plpgsql
+as $$
+declare
+  affected integer;
+begin
+  affected := pg_temp.run_as(invitee, statement);
+  if affected <> expected then
+    raise exception 'FAIL: % (expected % rows, got %)', label, expected, affected;
+  end if;
+  raise notice 'ok: %', label;
+end;
+$$;
+
+-- A write is rejected when the policy raises or when it matches no rows.
+create function pg_temp.expect_rejected(label text, invitee uuid, statement text)
+returns void
+language plpgsql
+as $$
+declare
+  affected integer;
+begin
+  begin
+    affected := pg_temp.run_as(invitee, statement);
+  exception
+    when insufficient_privilege then
+      raise notice 'ok: % (rejected)', label;
+      return;
+  end;
+  if affected > 0 then
+    raise exception 'FAIL: % (% rows written)', label, affected;
+  end if;
+  raise notice 'ok: % (no rows matched)', label;
+end;
+$$;
+
+-- fixtures are inserted as the table owner, which bypasses row level security
+insert into public.projects (id, title) values
+  ('00000000-0000-0000-0000-00000000a000', 'project a'),
+  ('00000000-0000-0000-0000-00000000b000', 'project b');
+
+insert into public.project_invitees (id, project_id, name, role) values
+  ('00000000-0000-0000-0000-00000000a001', '00000000-0000-0000-0000-00000000a000', 'alice', 'participant'),
+  ('00000000-0000-0000-0000-00000000a002', '00000000-0000-0000-0000-00000000a000', 'bob', 'participant'),
+  ('00000000-0000-0000-0000-00000000a003', '00000000-0000-0000-0000-00000000a000', 'olivia', 'organizer'),
+  ('00000000-0000-0000-0000-00000000a004', '00000000-0000-0000-0000-00000000a000', 'vera', 'viewer'),
+  ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000b000', 'mallory', 'participant');
+
+insert into public.availability_responses (project_id, invitee_id, name, slots) values
+  ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000a002', 'bob', '[]');
+
+insert into public.project_documents (id, project_id, file_path, file_type, shared_with_all) values
+  ('00000000-0000-0000-0000-00000000a100', '00000000-0000-0000-0000-00000000a000', 'a/shared.pdf', 'application/pdf', true),
+  ('00000000-0000-0000-0000-00000000a101', '00000000-0000-0000-0000-00000000a000', 'a/private.pdf', 'application/pdf', false);
+
+insert into public.project_documents (id, project_id, file_path, file_type, shared_with_all, deleted_at) values
+  ('00000000-0000-0000-0000-00000000a102', '00000000-0000-0000-0000-00000000a000', 'a/trashed.pdf', 'application/pdf', true, now());
+
+insert into public.document_permissions (document_id, invitee_id, can_view, can_edit) values
+  ('00000000-0000-0000-0000-00000000a101', '00000000-0000-0000-0000-00000000a002', true, true);
+
+insert into public.document_signers (document_id, invitee_id, step) values
+  ('00000000-0000-0000-0000-00000000a100', '00000000-0000-0000-0000-00000000a001', 1),
+  ('00000000-0000-0000-0000-00000000a101', '00000000-0000-0000-0000-00000000a002', 1);
+
+insert into public.document_fields (document_id, invitee_id, field_type, page, x, y, width, height) values
+  ('00000000-0000-0000-0000-00000000a100', '00000000-0000-0000-0000-00000000a001', 'signature', 1, 0.1, 0.8, 0.3, 0.1),
+  ('00000000-0000-0000-0000-00000000a101', '00000000-0000-0000-0000-00000000a002', 'initials', 1, 0.1, 0.8, 0.1, 0.05);
+
+insert into public.document_signatures (document_id, invitee_id, version, typed_text, signed_at) values
+  ('00000000-0000-0000-0000-00000000a101', '00000000-0000-0000-0000-00000000a002', 2, 'bob', now());
+
+insert into public.invitee_signatures (invitee_id, kind, mode, image_path) values
+  ('00000000-0000-0000-0000-00000000a001', 'signature', 'draw', 'signatures/alice.png'),
+  ('00000000-0000-0000-0000-00000000a002', 'signature', 'typed', 'signatures/bob.png');
+
+insert into public.invitee_access_links (project_id, invitee_id, token_hash, expires_at) values
+  ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000a001', 'alice-link', now() + interval '30 days');
+
+insert into public.project_activity_logs (project_id, invitee_id, actor_name, action) values
+  ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000a002', 'bob', 'login_success');
+
+-- availability: invitees write only their own row
+
+select pg_temp.expect_rows(
+  'alice can save her own availability',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.availability_responses (project_id, invitee_id, name, slots)
+    values ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000a001', 'alice', '[]')
+  $sql$,
+  1
+);
+
+select pg_temp.expect_rows(
+  'alice can update her own availability',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    update public.availability_responses
+    set slots = '[{"date":"2025-01-01","start":"09:00","end":"10:00"}]'
+    where invitee_id = '00000000-0000-0000-0000-00000000a001'
+  $sql$,
+  1
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot insert availability for bob',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.availability_responses (project_id, invitee_id, name, slots)
+    values ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000a002', 'bob (forged)', '[]')
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot update bob''s availability',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    update public.availability_responses
+    set slots = '[]'
+    where invitee_id = '00000000-0000-0000-0000-00000000a002'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot reassign her availability to bob',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    update public.availability_responses
+    set invitee_id = '00000000-0000-0000-0000-00000000a002'
+    where invitee_id = '00000000-0000-0000-0000-00000000a001'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'mallory cannot write availability into another project',
+  '00000000-0000-0000-0000-00000000b001',
+  $sql$
+    insert into public.availability_responses (project_id, invitee_id, name, slots)
+    values ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000b001', 'mallory', '[]')
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'viewers cannot save availability',
+  '00000000-0000-0000-0000-00000000a004',
+  $sql$
+    insert into public.availability_responses (project_id, invitee_id, name, slots)
+    values ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000a004', 'vera', '[]')
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'requests without an invitee claim cannot save availability',
+  null,
+  $sql$
+    insert into public.availability_responses (project_id, invitee_id, name, slots)
+    values ('00000000-0000-0000-0000-00000000a000', null, 'anonymous', '[]')
+  $sql$
+);
+
+-- activity logs: invitees log only as themselves
+
+select pg_temp.expect_rows(
+  'alice can log her own activity',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.project_activity_logs (project_id, invitee_id, actor_name, action)
+    values ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000a001', 'alice', 'availability_saved')
+  $sql$,
+  1
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot log activity as bob',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.project_activity_logs (project_id, invitee_id, actor_name, action)
+    values ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000a002', 'bob', 'availability_saved')
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'mallory cannot log activity into another project',
+  '00000000-0000-0000-0000-00000000b001',
+  $sql$
+    insert into public.project_activity_logs (project_id, invitee_id, actor_name, action)
+    values ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000b001', 'mallory', 'availability_saved')
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot log a server-side action as herself',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.project_activity_logs (project_id, invitee_id, actor_name, action)
+    values ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000a001', 'alice', 'document_signed')
+  $sql$
+);
+
+-- server-only tables reject every client write
+
+select pg_temp.expect_rejected(
+  'invitees cannot create projects',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.projects (title) values ('forged')
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'invitees cannot add invitees',
+  '00000000-0000-0000-0000-00000000a003',
+  $sql$
+    insert into public.project_invitees (project_id, name, role)
+    values ('00000000-0000-0000-0000-00000000a000', 'eve', 'organizer')
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot promote herself',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    update public.project_invitees
+    set role = 'organizer'
+    where id = '00000000-0000-0000-0000-00000000a001'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot redirect bob''s notifications',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    update public.project_invitees
+    set email = 'alice@example.com'
+    where id = '00000000-0000-0000-0000-00000000a002'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot grant herself document access',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.document_permissions (document_id, invitee_id, can_view, can_edit)
+    values ('00000000-0000-0000-0000-00000000a101', '00000000-0000-0000-0000-00000000a001', true, true)
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot sign on behalf of bob',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.document_signatures (document_id, invitee_id, version, typed_text, signed_at)
+    values ('00000000-0000-0000-0000-00000000a100', '00000000-0000-0000-0000-00000000a002', 1, 'bob', now())
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot move herself in the signing order',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    update public.document_signers
+    set step = 2
+    where invitee_id = '00000000-0000-0000-0000-00000000a001'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot add herself as a signer',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.document_signers (document_id, invitee_id, step)
+    values ('00000000-0000-0000-0000-00000000a101', '00000000-0000-0000-0000-00000000a001', 1)
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot fill her own fields directly',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    update public.document_fields
+    set value = 'x', filled_at = now()
+    where invitee_id = '00000000-0000-0000-0000-00000000a001'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot place fields',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.document_fields (document_id, invitee_id, field_type, x, y, width, height)
+    values ('00000000-0000-0000-0000-00000000a100', '00000000-0000-0000-0000-00000000a001', 'text', 0.1, 0.1, 0.2, 0.1)
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'bob cannot turn his signature into a decline directly',
+  '00000000-0000-0000-0000-00000000a002',
+  $sql$
+    update public.document_signatures
+    set status = 'declined', decline_reason = 'x', declined_at = now()
+    where invitee_id = '00000000-0000-0000-0000-00000000a002'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'olivia cannot void a document directly',
+  '00000000-0000-0000-0000-00000000a003',
+  $sql$
+    update public.project_documents
+    set voided_at = now(), current_version = 1
+    where id = '00000000-0000-0000-0000-00000000a101'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'olivia cannot mark signatures stale directly',
+  '00000000-0000-0000-0000-00000000a003',
+  $sql$
+    update public.document_signatures
+    set status = 'stale', stale_at = now()
+    where document_id = '00000000-0000-0000-0000-00000000a101'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'olivia cannot upload a revision directly',
+  '00000000-0000-0000-0000-00000000a003',
+  $sql$
+    insert into public.document_versions (document_id, version, merged_file_path, is_revision)
+    values ('00000000-0000-0000-0000-00000000a101', 9, 'p/d/revisions/v9.pdf', true)
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot replace bob''s saved signature',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    update public.invitee_signatures
+    set image_path = 'signatures/forged.png'
+    where invitee_id = '00000000-0000-0000-0000-00000000a002'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot save signatures directly',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.invitee_signatures (invitee_id, kind, mode, image_path)
+    values ('00000000-0000-0000-0000-00000000a001', 'initials', 'draw', 'signatures/alice-initials.png')
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot upload documents directly',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.project_documents (project_id, file_path, file_type)
+    values ('00000000-0000-0000-0000-00000000a000', 'a/forged.pdf', 'application/pdf')
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot add notes directly',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.document_notes (document_id, invitee_id, content)
+    values ('00000000-0000-0000-0000-00000000a100', '00000000-0000-0000-0000-00000000a002', 'forged')
+  $sql$
+);
+
+-- reads are scoped to the caller's project and document access
+
+select pg_temp.expect_rows(
+  'alice reads every availability in her project',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$ select 1 from public.availability_responses $sql$,
+  2
+);
+
+select pg_temp.expect_rows(
+  'mallory reads no availability from another project',
+  '00000000-0000-0000-0000-00000000b001',
+  $sql$ select 1 from public.availability_responses $sql$,
+  0
+);
+
+select pg_temp.expect_rows(
+  'requests without an invitee claim read nothing',
+  null,
+  $sql$ select 1 from public.availability_responses $sql$,
+  0
+);
+
+select pg_temp.expect_rows(
+  'invitee rows are never readable by clients',
+  '00000000-0000-0000-0000-00000000a003',
+  $sql$ select 1 from public.project_invitees $sql$,
+  0
+);
+
+select pg_temp.expect_rows(
+  'alice only reads documents shared with her',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$ select 1 from public.project_documents $sql$,
+  1
+);
+
+select pg_temp.expect_rows(
+  'bob reads the document shared with him',
+  '00000000-0000-0000-0000-00000000a002',
+  $sql$ select 1 from public.project_documents $sql$,
+  2
+);
+
+select pg_temp.expect_rows(
+  'organizers read every document',
+  '00000000-0000-0000-0000-00000000a003',
+  $sql$ select 1 from public.project_documents $sql$,
+  2
+);
+
+select pg_temp.expect_rows(
+  'documents in the trash are hidden, even from organizers',
+  '00000000-0000-0000-0000-00000000a003',
+  $sql$
+    select 1 from public.project_documents
+    where id = '00000000-0000-0000-0000-00000000a102'
+  $sql$,
+  0
+);
+
+select pg_temp.expect_rejected(
+  'olivia cannot restore a document directly',
+  '00000000-0000-0000-0000-00000000a003',
+  $sql$
+    update public.project_documents
+    set deleted_at = null
+    where id = '00000000-0000-0000-0000-00000000a102'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot push back a signing deadline',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    update public.project_documents
+    set due_at = now() + interval '30 days'
+    where id = '00000000-0000-0000-0000-00000000a100'
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot record a reminder',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.project_activity_logs (project_id, invitee_id, action)
+    values ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000a002', 'reminder_sent')
+  $sql$
+);
+
+select pg_temp.expect_rows(
+  'alice only reads the signing order of documents shared with her',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$ select 1 from public.document_signers $sql$,
+  1
+);
+
+select pg_temp.expect_rows(
+  'alice only reads the fields of documents shared with her',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$ select 1 from public.document_fields $sql$,
+  1
+);
+
+select pg_temp.expect_rows(
+  'alice cannot read signatures or declines on documents hidden from her',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$ select 1 from public.document_signatures $sql$,
+  0
+);
+
+select pg_temp.expect_rows(
+  'alice only reads her own saved signatures',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$ select 1 from public.invitee_signatures $sql$,
+  1
+);
+
+select pg_temp.expect_rows(
+  'access links are never readable by clients',
+  '00000000-0000-0000-0000-00000000a003',
+  $sql$ select 1 from public.invitee_access_links $sql$,
+  0
+);
+
+select pg_temp.expect_rejected(
+  'alice cannot mint an access link for bob',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    insert into public.invitee_access_links (project_id, invitee_id, token_hash, expires_at)
+    values ('00000000-0000-0000-0000-00000000a000', '00000000-0000-0000-0000-00000000a002', 'forged', now() + interval '1 day')
+  $sql$
+);
+
+select pg_temp.expect_rows(
+  'participants cannot read activity logs',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$ select 1 from public.project_activity_logs $sql$,
+  0
+);
+
+select pg_temp.expect_rows(
+  'organizers read activity logs',
+  '00000000-0000-0000-0000-00000000a003',
+  $sql$ select 1 from public.project_activity_logs $sql$,
+  2
+);
+
+-- a removed invitee keeps their row for the audit trail but loses access
+
+update public.project_invitees
+set removed_at = now()
+where id = '00000000-0000-0000-0000-00000000a002';
+
+select pg_temp.expect_rows(
+  'bob cannot read the project once removed',
+  '00000000-0000-0000-0000-00000000a002',
+  $sql$ select 1 from public.projects $sql$,
+  0
+);
+
+select pg_temp.expect_rows(
+  'bob cannot read shared documents once removed',
+  '00000000-0000-0000-0000-00000000a002',
+  $sql$ select 1 from public.project_documents $sql$,
+  0
+);
+
+select pg_temp.expect_rejected(
+  'bob cannot save availability once removed',
+  '00000000-0000-0000-0000-00000000a002',
+  $sql$
+    update public.availability_responses
+    set slots = '[]'
+    where invitee_id = '00000000-0000-0000-0000-00000000a002'
+  $sql$
+);
+
+-- a bumped session version invalidates tokens minted before it
+
+update public.project_invitees
+set session_version = session_version + 1
+where id = '00000000-0000-0000-0000-00000000a004';
+
+select pg_temp.expect_rows(
+  'vera cannot read the project with a token from before her sessions were revoked',
+  '00000000-0000-0000-0000-00000000a004',
+  $sql$ select 1 from public.projects $sql$,
+  0
+);
+
+-- a finalized project no longer accepts availability changes
+
+update public.projects
+set finalized_slot = '{"date":"2025-01-01","startTime":"09:00","endTime":"10:00"}'
+where id = '00000000-0000-0000-0000-00000000a000';
+
+select pg_temp.expect_rejected(
+  'availability is locked once the meeting is finalized',
+  '00000000-0000-0000-0000-00000000a001',
+  $sql$
+    update public.availability_responses
+    set slots = '[]'
+    where invitee_id = '00000000-0000-0000-0000-00000000a001'
+  $sql$
+);
+
+-- a project in the trash is closed to its members until it is restored
+
+update public.projects
+set deleted_at = now()
+where id = '00000000-0000-0000-0000-00000000b000';
+
+select pg_temp.expect_rows(
+  'mallory cannot read a project in the trash',
+  '00000000-0000-0000-0000-00000000b001',
+  $sql$ select 1 from public.projects $sql$,
+  0
+);
+
+select pg_temp.expect_rejected(
+  'mallory cannot save availability in a project in the trash',
+  '00000000-0000-0000-0000-00000000b001',
+  $sql$
+    insert into public.availability_responses (project_id, invitee_id, name, slots)
+    values ('00000000-0000-0000-0000-00000000b000', '00000000-0000-0000-0000-00000000b001', 'mallory', '[]')
+  $sql$
+);
+
+select pg_temp.expect_rejected(
+  'mallory cannot take her project out of the trash directly',
+  '00000000-0000-0000-0000-00000000b001',
+  $sql$
+    update public.projects
+    set deleted_at = null
+    where id = '00000000-0000-0000-0000-00000000b000'
+  $sql$
+);
+
+rollback;